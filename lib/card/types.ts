@@ -35,6 +35,13 @@ export interface ProposalMeta {
   provenance?: {
     promptId: string;
     model: string | null;
+    /** Provider/model that actually answered each pass, after any fallback. */
+    passModels?: {
+      extractor?: PassModelProvenance;
+      reasoner?: PassModelProvenance;
+      verifier?: PassModelProvenance;
+      notes?: PassModelProvenance;
+    };
     toolCallHashes?: string[];
     generatedAt: string;
   };
@@ -46,15 +53,49 @@ export interface ProposalMeta {
       total: number;
     };
     retries: number;
+    /** LLM response cache lookups made during the run; hits cost nothing. */
+    cache?: {
+      hits: number;
+      misses: number;
+      savedPromptTokens: number;
+      savedCompletionTokens: number;
+    };
+    /** Run-wide LLM budget (LLM_MAX_COST_USD / LLM_MAX_TOTAL_TOKENS) and what was cut to stay within it. */
+    budget?: {
+      maxCostUsd: number | null;
+      maxTotalTokens: number | null;
+      spentTokens: number;
+      spentCostUsd: number;
+      cuts: Array<{ pass: string; action: string }>;
+    };
   };
   passTelemetry?: {
-    extractor?: { latencyMs: number; promptTokens: number; completionTokens: number };
-    reasoner?:  { latencyMs: number; promptTokens: number; completionTokens: number };
-    verifier?:  { latencyMs: number; promptTokens: number; completionTokens: number };
-    notes?:     { latencyMs: number; promptTokens: number; completionTokens: number };
+    extractor?: PassTelemetry;
+    reasoner?:  PassTelemetry;
+    verifier?:  PassTelemetry;
+    notes?:     PassTelemetry;
   };
 }
 
+export interface PassModelProvenance {
+  provider: string | null;
+  model: string | null;
+  /** Prompt template the pass ran with, e.g. "extractor.v2". */
+  promptId?: string;
+  /** Models skipped by the fallback chain, e.g. "openai:gpt-5.1: HTTP 503". */
+  fallbacks?: string[];
+}
+
+export interface PassTelemetry {
+  latencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  provider?: string | null;
+  model?: string | null;
+  /** Model output the pass rejected without retrying, e.g. schema violations. */
+  errors?: string[];
+}
+
 export type JsonPatchOperation =
   | { op: "add"; path: string; value: unknown }
   | { op: "remove"; path: string }
@@ -84,6 +125,21 @@ export interface Proposal {
   };
   confidence_report: ConfidenceReportRow[];
   sources: string[];
+  governance?: {
+    signOffs: RequiredSignOff[];
+  };
+  /** Paths apply refused to merge because the card changed there since the proposal was generated. */
+  conflicts?: MergeConflict[];
+}
+
+export interface MergeConflict {
+  jsonPath: JsonPath;
+  jsonPointer?: string;
+  /** Value in the card the proposal was generated from (the fact's currentValue). */
+  base: unknown;
+  /** Value in the card at apply time. */
+  current: unknown;
+  proposed: unknown;
 }
 
 export interface Decision {
@@ -93,6 +149,26 @@ export interface Decision {
   anchors?: Anchor[];
   lock?: boolean;
   skipGeneration?: boolean;
+  /** Records the reviewer's sign-off for the card section containing `jsonPath`. */
+  signOff?: SignOff;
+}
+
+export interface SignOff {
+  role: string;
+  name: string;
+  timestamp: string;
+}
+
+export interface RequiredSignOff {
+  /** Top-level card section, e.g. "$.mlCore". */
+  section: JsonPath;
+  /** Stakeholder role from docs/stakeholders.yaml, or "Code Owner" for CODEOWNERS entries. */
+  role: string;
+  stakeholderId?: string;
+  /** CODEOWNERS handles allowed to sign; any reviewer with the role may sign when absent. */
+  owners?: string[];
+  /** Changed card paths that made this sign-off necessary. */
+  jsonPaths: JsonPath[];
 }
 
 export interface AnchorsIndex {
@@ -112,12 +188,21 @@ export interface MicroReceiptLowConfidenceRow {
   disposition: "accepted" | "edited" | "rejected";
 }
 
+/** A decision made by a docs/msc-policy.yaml rule instead of a reviewer. */
+export interface PolicyDecisionRecord {
+  path: JsonPath;
+  rule: string;
+  decision: "accept" | "reject";
+  lock?: boolean;
+}
+
 export interface MicroReceipt {
   engine: string;
   run_id: string;
   base_sha: string;
   changed_paths: JsonPath[];
   low_confidence_rows_only: MicroReceiptLowConfidenceRow[];
+  policy_decisions?: PolicyDecisionRecord[];
   yaml_hash: string;
   schema_id: string;
   coverage_non_null: number;
@@ -4,7 +4,7 @@ import { load } from "js-yaml";
 import { applyPatch } from "rfc6902";
 import { get } from "lodash-es";
 
-import type { Decision, Fact, Proposal, AnchorsIndex, MicroReceipt } from "lib/card/types.js";
+import type { Decision, Fact, Proposal, AnchorsIndex, MicroReceipt, PolicyDecisionRecord, SignOff } from "lib/card/types.js";
 import type { Operation } from "rfc6902";
 
 import {
@@ -16,6 +16,9 @@ import {
   SCHEMA_PATH
 } from "../constants.js";
 import { ensureSeedArtifacts, createEmptyCard } from "../card/seed.js";
+import { threeWayMerge } from "../card/merge.js";
+import { evaluatePolicy, loadPolicy, mergePolicyDecisions } from "../governance/policy.js";
+import { collectSignOffs, holdUnsignedSections, sectionOf } from "../governance/signoffs.js";
 import { stringifyDeterministic } from "../card/deterministic.js";
 import { applyPatchAndWriteCard } from "../write_card.js";
 import { buildAnchorsIndex } from "../write_anchors.js";
@@ -74,7 +77,17 @@ async function main(): Promise<void> {
 
   const proposal = await readProposal(args.runId);
   repairRedactedPointers(proposal.facts);
-  const decisions = await readDecisions(args.runId);
+  // docs/msc-policy.yaml rules decide first; a reviewer's decision for the same path wins
+  const policyRules = await loadPolicy();
+  const manualDecisions = await readDecisions(args.runId);
+  const policy = mergePolicyDecisions(evaluatePolicy(proposal.facts, policyRules), manualDecisions);
+  const decisions = policy.decisions;
+  if (policy.applied.length > 0) {
+    logger.info("Policy rules decided facts", {
+      decided: policy.applied.length,
+      rules: [...new Set(policy.applied.map((entry) => entry.rule))]
+    });
+  }
 
   if (process.env.EVAL_STRICT === "1") {
     if (decisions.length === 0) {
@@ -93,7 +106,15 @@ async function main(): Promise<void> {
 
   // Initial filtering based on decisions
   let filteredFacts = filterFacts(proposal.facts, decisions);
-  const initialCandidates = [...filteredFacts];
+
+  // Sections whose required stakeholder or code-owner sign-offs are missing stay in the proposal
+  const signOffs = holdUnsignedSections(filteredFacts, proposal.governance?.signOffs ?? [], decisions);
+  if (signOffs.missing.length > 0) {
+    logger.warn(`[BLOCKED_REASON: missing_sign_off] Holding back ${signOffs.heldSections.join(", ")} until signed off.`, {
+      missing: signOffs.missing.map((entry) => ({ section: entry.section, role: entry.role, owners: entry.owners }))
+    });
+    filteredFacts = signOffs.facts;
+  }
 
   let currentCardYaml = await readTextFile(CARD_PATH);
   logger.info(`Loaded card yaml length: ${currentCardYaml?.length ?? 0}`);
@@ -136,6 +157,30 @@ async function main(): Promise<void> {
     currentCardYaml = stringifyDeterministic(currentCard);
   }
 
+  // Three-way merge against the card values the proposal was generated from, so edits made to
+  // the card since then are neither overwritten nor silently dropped
+  const merge = threeWayMerge(filteredFacts, currentCard);
+  if (merge.keptCurrent.length > 0) {
+    logger.info("Keeping card edits the proposal does not change", { paths: merge.keptCurrent });
+  }
+  if (merge.conflicts.length > 0) {
+    proposal.conflicts = merge.conflicts;
+    await writeTextFile(join(PROPOSALS_DIR, `${args.runId}.json`), JSON.stringify(proposal, null, 2));
+    logger.error(
+      `[BLOCKED_REASON: merge_conflict] ${merge.conflicts.length} paths changed in the card since the proposal was generated: ` +
+        `${merge.conflicts.map((conflict) => conflict.jsonPath).join(", ")}. Reject them to keep the card's values, or regenerate the proposal.`
+    );
+    writeMetrics(args.runId, { apply_success: 0, blocked_reason: "merge_conflict" });
+    process.exit(1);
+  }
+  if (proposal.conflicts) {
+    // Conflicts from an earlier attempt have been resolved
+    delete proposal.conflicts;
+    await writeTextFile(join(PROPOSALS_DIR, `${args.runId}.json`), JSON.stringify(proposal, null, 2));
+  }
+  filteredFacts = merge.facts;
+  const initialCandidates = [...filteredFacts];
+
   const schemaRaw = await readTextFile(SCHEMA_PATH);
   const schema = schemaRaw ? JSON.parse(schemaRaw) : {};
 
@@ -218,6 +263,20 @@ async function main(): Promise<void> {
     value: new Date().toISOString()
   });
 
+  // Record the sign-offs that let sections through in governance.signOffs
+  const signedSections = new Set(filteredFacts.map((fact) => sectionOf(fact.jsonPath)));
+  const recordedSignOffs = Array.isArray(currentCard?.governance?.signOffs) ? (currentCard.governance.signOffs as SignOff[]) : [];
+  const newSignOffs = collectSignOffs(decisions, signedSections).filter(
+    (signOff) => !recordedSignOffs.some((existing) => existing.role === signOff.role && existing.name === signOff.name && existing.timestamp === signOff.timestamp)
+  );
+  if (newSignOffs.length > 0) {
+    acceptedPatch.push({
+      op: "add",
+      path: "/governance/signOffs",
+      value: [...recordedSignOffs, ...newSignOffs]
+    });
+  }
+
   // Inject stakeholder notes from proposal (they are not represented as facts)
   if (proposal.notes && Object.keys(proposal.notes).length > 0) {
     acceptedPatch.push({
@@ -283,7 +342,7 @@ async function main(): Promise<void> {
     // No, if we keep the decision, it auto-applies next time?
     // We want to force re-review for failed facts.
     // So we filter out decisions for failed paths.
-    const newDecisions = decisions.filter((d) => !failedPaths.has(d.jsonPath));
+    const newDecisions = manualDecisions.filter((d) => !failedPaths.has(d.jsonPath));
     // Keep applied decisions so re-runs still work (idempotent)
 
     await writeTextFile(join(PROPOSALS_DIR, `${args.runId}.decisions.json`), JSON.stringify(newDecisions, null, 2));
@@ -294,7 +353,7 @@ async function main(): Promise<void> {
     logger.info("All facts applied successfully.");
   }
 
-  await writeMicroReceipt(proposal, decisions, filteredFacts, sha256);
+  await writeMicroReceipt(proposal, decisions, filteredFacts, sha256, policy.applied);
   await updatePullRequestMetadata(proposal, decisions, filteredFacts, sha256);
   await captureRejections(proposal, decisions);
 
@@ -506,7 +565,8 @@ async function writeMicroReceipt(
   proposal: Proposal,
   decisions: Decision[],
   acceptedFacts: Fact[],
-  yamlSha: string
+  yamlSha: string,
+  policyDecisions: PolicyDecisionRecord[]
 ): Promise<void> {
   await fsExtra.ensureDir(MICRO_RECEIPTS_DIR);
   const timestamp = new Date().toISOString();
@@ -518,6 +578,7 @@ async function writeMicroReceipt(
     base_sha: proposal.meta.baseSha,
     changed_paths: acceptedFacts.map((fact) => fact.jsonPath).sort((a, b) => a.localeCompare(b)),
     low_confidence_rows_only: lowConfidence,
+    ...(policyDecisions.length > 0 ? { policy_decisions: policyDecisions } : {}),
     yaml_hash: yamlSha,
     schema_id: schemaId,
     coverage_non_null: proposal.diagnostics.coverage_non_null,
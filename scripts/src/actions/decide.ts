@@ -0,0 +1,34 @@
+import { PROPOSALS_DIR } from "../constants.js";
+import { runTerminalReview } from "../review/terminal.js";
+import { isValidRunId } from "../review/session.js";
+import { logger } from "../utils/logger.js";
+
+const USAGE = "Usage: decide <runId> [--proposals-dir <path>]";
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  let runId: string | undefined;
+  let proposalsDir = PROPOSALS_DIR;
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--run-id") {
+      runId = argv[++i];
+    } else if (token === "--proposals-dir") {
+      proposalsDir = argv[++i];
+    } else if (token.startsWith("--") || runId) {
+      throw new Error(`Unknown argument ${token}. ${USAGE}`);
+    } else {
+      runId = token;
+    }
+  }
+  if (!runId || !isValidRunId(runId)) {
+    throw new Error(USAGE);
+  }
+
+  await runTerminalReview({ runId, proposalsDir });
+}
+
+void main().catch((error) => {
+  logger.error("Terminal review failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
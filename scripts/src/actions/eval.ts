@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+import { join } from "node:path";
+
+import { load } from "js-yaml";
+
+import type { AnalysisBundle } from "../analysis/bundle.js";
+import { createEmptyCard, type CardSeed } from "../card/seed.js";
+import { resolveLlmRuntimeConfig } from "../config/env.js";
+import { PROMPT_EVALS_DIR } from "../constants.js";
+import {
+  diffPromptEvalMetrics,
+  parsePromptVersionSelection,
+  runPromptVariant,
+  type PromptEvalReport,
+  type PromptVersionSelection
+} from "../llm/prompt_eval.js";
+import { readTextFile, writeJsonFile } from "../utils/fs.js";
+import { logger } from "../utils/logger.js";
+
+interface EvalArgs {
+  bundle: string;
+  a: PromptVersionSelection;
+  b: PromptVersionSelection;
+  card: string;
+  out?: string;
+}
+
+const USAGE =
+  "Usage: eval --bundle <analysis.json> --a <pass=vN,...> --b <pass=vN,...> [--card <yaml>] [--out <file>]";
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+
+  const bundleContent = await readTextFile(args.bundle);
+  if (!bundleContent) {
+    throw new Error(`Analysis bundle not found: ${args.bundle}`);
+  }
+  const bundle = JSON.parse(bundleContent) as AnalysisBundle;
+  const baselineCard = parseCard(await readTextFile(args.card));
+  const runtime = resolveLlmRuntimeConfig();
+
+  // Sequential on purpose: both variants share the process-wide budget and cache sessions
+  const variantA = await runPromptVariant("a", bundle, baselineCard, runtime, args.a);
+  const variantB = await runPromptVariant("b", bundle, baselineCard, runtime, args.b);
+
+  const report: PromptEvalReport = {
+    analysisRunId: bundle.metadata.runId,
+    headSha: bundle.metadata.headSha,
+    generatedAt: new Date().toISOString(),
+    variants: [variantA, variantB],
+    delta: diffPromptEvalMetrics(variantA.metrics, variantB.metrics)
+  };
+
+  const out = args.out ?? join(PROMPT_EVALS_DIR, `${bundle.metadata.runId}.eval.json`);
+  await writeJsonFile(out, report);
+  logger.info("Prompt eval written", {
+    out,
+    a: variantA.promptIds,
+    b: variantB.promptIds,
+    delta: {
+      facts_total: report.delta.facts_total,
+      gate_ok_pct: report.delta.gate_ok_pct,
+      anchor_resolvability_rate: report.delta.anchor_resolvability_rate,
+      coverage_non_null: report.delta.coverage_non_null
+    }
+  });
+}
+
+function parseArgs(): EvalArgs {
+  const argv = process.argv.slice(2);
+  const args: Partial<EvalArgs> = { card: "docs/ml_system_card.yaml" };
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--bundle") {
+      args.bundle = argv[++i];
+    } else if (token === "--a") {
+      args.a = parsePromptVersionSelection(argv[++i] ?? "");
+    } else if (token === "--b") {
+      args.b = parsePromptVersionSelection(argv[++i] ?? "");
+    } else if (token === "--card") {
+      args.card = argv[++i];
+    } else if (token === "--out") {
+      args.out = argv[++i];
+    } else {
+      throw new Error(`Unknown argument ${token}. ${USAGE}`);
+    }
+  }
+  if (!args.bundle || !args.a || !args.b) {
+    throw new Error(USAGE);
+  }
+  return args as EvalArgs;
+}
+
+function parseCard(yaml: string | null): CardSeed {
+  const parsed = yaml ? (load(yaml) as CardSeed | null) : null;
+  return parsed && typeof parsed === "object" ? parsed : createEmptyCard();
+}
+
+void main().catch((error) => {
+  logger.error("Prompt eval failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
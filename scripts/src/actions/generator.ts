@@ -4,7 +4,14 @@ import { join } from "node:path";
 import { load } from "js-yaml";
 import { createPatch } from "rfc6902";
 
-import type { Proposal, Fact, ConfidenceReportRow, Anchor } from "lib/card/types.js";
+import type {
+  Proposal,
+  Fact,
+  ConfidenceReportRow,
+  Anchor,
+  PassModelProvenance,
+  PassTelemetry
+} from "lib/card/types.js";
 
 import { PROPOSALS_DIR } from "../constants.js";
 import { createEmptyCard, type CardSeed } from "../card/seed.js";
@@ -14,11 +21,17 @@ import { logger } from "../utils/logger.js";
 import fsExtra from "fs-extra";
 import { validateProposal } from "../contracts/validators.js";
 import { buildAnalysisBundle } from "../analysis/bundle.js";
+import { resolveLastRunSha } from "../analysis/history.js";
+import { buildRequiredSignOffs, loadStakeholders } from "../governance/signoffs.js";
+import { resolveStakeholderScope, scopeToStakeholders } from "../governance/watch.js";
 import { resolveLlmRuntimeConfig } from "../config/env.js";
 import { runExtractorPass } from "../llm/extractor.js";
 import { runReasonerPass } from "../llm/reasoner.js";
 import { runVerifierPass } from "../llm/verifier.js";
 import { runNotesPass } from "../llm/notes.js";
+import { getLlmCacheSessionStats } from "../llm/cache.js";
+import { getLlmBudgetSession } from "../llm/budget.js";
+import type { PassResultBase } from "../llm/types.js";
 import { stringifyDeterministic } from "../card/deterministic.js";
 import { enforceSafetyGuards, hasInsufficientAnchors } from "../safety/guards.js";
 import { redactSecrets, isMscInfrastructure } from "../safety/redaction.js";
@@ -63,6 +76,9 @@ async function main(): Promise<void> {
   const isSeed = !baselineCard.business?.executiveSummary && !baselineCard.mlCore?.problem;
   const isFirstRun = !existingCardContent || isSeed;
 
+  const stakeholders = await loadStakeholders();
+  // null means every stakeholder section is regenerated (first runs, no watch_paths configured, or unwatched changes)
+  let affectedStakeholders: string[] | null = null;
   let changedFiles: string[];
   if (isFirstRun) {
     logger.info(
@@ -82,7 +98,12 @@ async function main(): Promise<void> {
     const headSha = process.env.GITHUB_SHA ?? (await readGitHead());
     const incremental = await computeIncrementalFileSet(args.baseSha, headSha);
     changedFiles = incremental.changed.filter((f) => !isMscInfrastructure(f));
-    logger.info("Computed incremental file set", { changed: incremental.changed.length, afterMscFilter: changedFiles.length });
+    affectedStakeholders = resolveStakeholderScope(changedFiles, stakeholders);
+    logger.info("Computed incremental file set", {
+      changed: incremental.changed.length,
+      afterMscFilter: changedFiles.length,
+      affectedStakeholders
+    });
   }
 
   await ensureProposalDirectory();
@@ -91,14 +112,18 @@ async function main(): Promise<void> {
     runId: args.runId,
     baseSha: args.baseSha,
     headSha: process.env.GITHUB_SHA ?? "HEAD", // Fallback for first run
-    changedFiles
+    changedFiles,
+    sinceSha: resolveLastRunSha(baselineCard)
   });
 
+  // Scoped passes skip out-of-scope sections instead of generating and discarding them
+  const stakeholderScope = affectedStakeholders ? { affected: affectedStakeholders, stakeholders } : undefined;
   const extractorResult = await runExtractorPass({
     runId: args.runId,
     baselineCard,
     analysis,
-    runtime: runtimeConfig
+    runtime: runtimeConfig,
+    stakeholderScope
   });
 
   const reasonerResult = await runReasonerPass(
@@ -106,7 +131,8 @@ async function main(): Promise<void> {
       runId: args.runId,
       baselineCard,
       analysis,
-      runtime: runtimeConfig
+      runtime: runtimeConfig,
+      stakeholderScope
     },
     extractorResult
   );
@@ -116,7 +142,8 @@ async function main(): Promise<void> {
       runId: args.runId,
       baselineCard,
       analysis,
-      runtime: runtimeConfig
+      runtime: runtimeConfig,
+      stakeholderScope
     },
     reasonerResult
   );
@@ -126,15 +153,32 @@ async function main(): Promise<void> {
       runId: args.runId,
       baselineCard,
       analysis,
-      runtime: runtimeConfig
+      runtime: runtimeConfig,
+      stakeholderScope
     },
     verifierResult
   );
 
-  const { mutatedCard, facts, coverageNonNull, lowConfidence } = reasonerResult;
+  const { coverageNonNull } = reasonerResult;
+  let { mutatedCard, facts, lowConfidence } = reasonerResult;
   // Use verified facts for the final proposal, but keep reasoner's mutated card structure for now
   // Actually, verifier might have changed gates/confidence, so we should use verifierResult.facts
-  const finalFacts = verifierResult.facts;
+  let finalFacts = verifierResult.facts;
+
+  // Incremental runs only regenerate the field_paths of stakeholders whose watch_paths changed;
+  // the passes already skip other sections, and this puts any stray card edit back to the baseline
+  if (affectedStakeholders) {
+    const scoped = scopeToStakeholders(baselineCard, mutatedCard, finalFacts, stakeholders, affectedStakeholders);
+    const inScope = new Set(scoped.facts.map((fact) => fact.jsonPath));
+    mutatedCard = scoped.mutatedCard;
+    finalFacts = scoped.facts;
+    facts = facts.filter((fact) => inScope.has(fact.jsonPath));
+    lowConfidence = lowConfidence.filter((entry) => inScope.has(entry.jsonPath));
+    logger.info("Scoped regeneration to affected stakeholders", {
+      affected: affectedStakeholders,
+      carriedForward: scoped.carriedForward.length
+    });
+  }
 
   // Re-apply facts to card to ensure consistency with verifier changes (though verifier only changes metadata, not values)
   // But let's be safe.
@@ -173,6 +217,10 @@ async function main(): Promise<void> {
     facts
   });
 
+  // Anything a pass dropped to stay within LLM_MAX_COST_USD / LLM_MAX_TOTAL_TOKENS
+  const budgetSession = getLlmBudgetSession();
+  warnings.push(...budgetSession.cuts.map((cut) => `LLM budget: ${cut.pass} ${cut.action}`));
+
   const proposal: Proposal = {
     meta: {
       runId: args.runId,
@@ -182,6 +230,12 @@ async function main(): Promise<void> {
       provenance: {
         promptId: reasonerResult.promptId, // Primary logic prompt
         model: reasonerResult.llm?.model ?? null,
+        passModels: {
+          extractor: describePassModel(extractorResult),
+          reasoner: describePassModel(reasonerResult),
+          verifier: describePassModel(verifierResult),
+          notes: describePassModel(notesResult)
+        },
         generatedAt: new Date().toISOString()
       },
       telemetry: {
@@ -191,13 +245,20 @@ async function main(): Promise<void> {
           completion: totalCompletionTokens,
           total: totalPromptTokens + totalCompletionTokens
         },
-        retries: totalRetries
+        retries: totalRetries,
+        cache: getLlmCacheSessionStats(),
+        budget: {
+          ...runtimeConfig.budget,
+          spentTokens: budgetSession.usage.tokens,
+          spentCostUsd: budgetSession.usage.costUsd,
+          cuts: budgetSession.cuts
+        }
       },
       passTelemetry: {
-        extractor: { ...extractorResult.metrics },
-        reasoner:  { ...reasonerResult.metrics },
-        verifier:  { ...verifierResult.metrics },
-        notes:     { ...notesResult.metrics }
+        extractor: toPassTelemetry(extractorResult),
+        reasoner:  toPassTelemetry(reasonerResult),
+        verifier:  toPassTelemetry(verifierResult),
+        notes:     toPassTelemetry(notesResult)
       }
     },
     facts: finalFacts,
@@ -210,7 +271,10 @@ async function main(): Promise<void> {
       warnings
     },
     confidence_report: confidenceReport,
-    sources
+    sources,
+    governance: {
+      signOffs: await buildRequiredSignOffs(finalFacts)
+    }
   };
 
   const proposalPath = join(PROPOSALS_DIR, `${args.runId}.json`);
@@ -251,6 +315,24 @@ function parseArgs(): GeneratorArgs {
   return args as GeneratorArgs;
 }
 
+function describePassModel(result: PassResultBase): PassModelProvenance {
+  return {
+    provider: result.llm?.provider ?? null,
+    model: result.llm?.model ?? null,
+    promptId: result.promptId,
+    ...(result.llm?.fallbacks?.length ? { fallbacks: result.llm.fallbacks } : {})
+  };
+}
+
+function toPassTelemetry(result: PassResultBase): PassTelemetry {
+  return {
+    ...result.metrics,
+    provider: result.llm?.provider ?? null,
+    model: result.llm?.model ?? null,
+    ...(result.errors?.length ? { errors: result.errors } : {})
+  };
+}
+
 function buildConfidenceReport(facts: Fact[]): ConfidenceReportRow[] {
   return facts
     .map((fact) => ({
@@ -0,0 +1,74 @@
+import { readFile } from "node:fs/promises";
+
+import { PROPOSALS_DIR } from "../constants.js";
+import { ingestComments } from "../review/comments.js";
+import { isValidRunId } from "../review/session.js";
+import { getPullRequest } from "../utils/github.js";
+import { logger } from "../utils/logger.js";
+
+const USAGE = "Usage: ingest-comments [--run-id <id>] [--pr <number>] [--proposals-dir <path>]";
+const PROPOSAL_BRANCH_PREFIX = "proposal/";
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  let runId: string | undefined;
+  let prNumber: number | undefined;
+  let proposalsDir = PROPOSALS_DIR;
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--run-id") {
+      runId = argv[++i];
+    } else if (token === "--pr") {
+      prNumber = Number(argv[++i]);
+      if (!Number.isInteger(prNumber) || prNumber <= 0) {
+        throw new Error("--pr expects a pull request number");
+      }
+    } else if (token === "--proposals-dir") {
+      proposalsDir = argv[++i];
+    } else {
+      throw new Error(`Unknown argument ${token}. ${USAGE}`);
+    }
+  }
+
+  prNumber ??= await pullRequestFromEvent();
+  if (!prNumber) {
+    throw new Error(`No pull request given and none found in GITHUB_EVENT_PATH. ${USAGE}`);
+  }
+  if (!runId) {
+    // Generator PRs live on proposal/<runId> branches
+    const { head } = await getPullRequest(prNumber);
+    runId = head.ref.startsWith(PROPOSAL_BRANCH_PREFIX) ? head.ref.slice(PROPOSAL_BRANCH_PREFIX.length) : undefined;
+  }
+  if (!runId || !isValidRunId(runId)) {
+    throw new Error(`Cannot determine the run id for PR #${prNumber}. ${USAGE}`);
+  }
+
+  const result = await ingestComments({ runId, prNumber, proposalsDir });
+  logger.info("PR comment commands processed", {
+    runId,
+    prNumber,
+    comments: result.comments,
+    applied: result.applied,
+    rejected: result.rejected
+  });
+}
+
+async function pullRequestFromEvent(): Promise<number | undefined> {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath) {
+    return undefined;
+  }
+  const event = JSON.parse(await readFile(eventPath, "utf8")) as {
+    issue?: { number?: number; pull_request?: unknown };
+    pull_request?: { number?: number };
+  };
+  if (event.issue?.pull_request && event.issue.number) {
+    return event.issue.number;
+  }
+  return event.pull_request?.number;
+}
+
+void main().catch((error) => {
+  logger.error("Ingesting PR comments failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
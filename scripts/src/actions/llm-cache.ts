@@ -0,0 +1,111 @@
+import { LLM_CACHE_DIR } from "../constants.js";
+import {
+  DEFAULT_LLM_CACHE_LIMITS,
+  exportLlmCache,
+  pruneLlmCache,
+  purgeLlmCacheByPrompt,
+  summarizeLlmCache,
+  type LlmCacheLimits
+} from "../llm/cache.js";
+import { writeJsonFile } from "../utils/fs.js";
+import { logger } from "../utils/logger.js";
+
+type Subcommand = "stats" | "prune" | "purge" | "export";
+
+interface LlmCacheArgs {
+  command: Subcommand;
+  dir: string;
+  promptId?: string;
+  out?: string;
+  limits: LlmCacheLimits;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MB = 1024 * 1024;
+
+const USAGE =
+  "Usage: llm-cache <stats|prune|purge|export> [--dir <path>] [--max-age-days <n>] [--max-mb <n>] " +
+  "[--prompt-id <id>] [--out <file>]";
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+
+  switch (args.command) {
+    case "stats": {
+      const stats = await summarizeLlmCache(args.dir);
+      console.log(JSON.stringify({ dir: args.dir, ...stats }, null, 2));
+      break;
+    }
+    case "prune": {
+      const removed = await pruneLlmCache(args.limits, args.dir);
+      logger.info("LLM cache pruned", {
+        dir: args.dir,
+        removed: removed.length,
+        maxAgeDays: args.limits.maxAgeMs / DAY_MS,
+        maxMb: args.limits.maxBytes / MB
+      });
+      break;
+    }
+    case "purge": {
+      if (!args.promptId) {
+        throw new Error("purge requires --prompt-id <id>");
+      }
+      const removed = await purgeLlmCacheByPrompt(args.promptId, args.dir);
+      logger.info("LLM cache entries purged", { dir: args.dir, promptId: args.promptId, removed: removed.length });
+      break;
+    }
+    case "export": {
+      const exported = await exportLlmCache(args.dir);
+      if (args.out) {
+        await writeJsonFile(args.out, exported);
+        logger.info("LLM cache exported", {
+          out: args.out,
+          entries: Object.keys(exported.responses).length
+        });
+      } else {
+        console.log(JSON.stringify(exported, null, 2));
+      }
+      break;
+    }
+  }
+}
+
+function parseArgs(): LlmCacheArgs {
+  const argv = process.argv.slice(2);
+  const command = argv[0] as Subcommand | undefined;
+  if (!command || !["stats", "prune", "purge", "export"].includes(command)) {
+    throw new Error(USAGE);
+  }
+
+  const args: LlmCacheArgs = { command, dir: LLM_CACHE_DIR, limits: { ...DEFAULT_LLM_CACHE_LIMITS } };
+  for (let i = 1; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--dir") {
+      args.dir = argv[++i];
+    } else if (token === "--prompt-id") {
+      args.promptId = argv[++i];
+    } else if (token === "--out") {
+      args.out = argv[++i];
+    } else if (token === "--max-age-days") {
+      args.limits.maxAgeMs = parsePositive(argv[++i], token) * DAY_MS;
+    } else if (token === "--max-mb") {
+      args.limits.maxBytes = parsePositive(argv[++i], token) * MB;
+    } else {
+      throw new Error(`Unknown argument ${token}. ${USAGE}`);
+    }
+  }
+  return args;
+}
+
+function parsePositive(value: string | undefined, flag: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${flag} expects a non-negative number`);
+  }
+  return parsed;
+}
+
+void main().catch((error) => {
+  logger.error("LLM cache command failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
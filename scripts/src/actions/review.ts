@@ -0,0 +1,54 @@
+import { PROPOSALS_DIR } from "../constants.js";
+import { createReviewServer } from "../review/server.js";
+import { isValidRunId } from "../review/session.js";
+import { logger } from "../utils/logger.js";
+
+const USAGE = "Usage: review [--run-id <id>] [--port <n>] [--host <address>] [--proposals-dir <path>]";
+const DEFAULT_PORT = 5178;
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  let runId: string | undefined;
+  let port = DEFAULT_PORT;
+  // Loopback by default: the dashboard writes decision files and has no authentication
+  let host = "127.0.0.1";
+  let proposalsDir = PROPOSALS_DIR;
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--run-id") {
+      runId = argv[++i];
+      if (!runId || !isValidRunId(runId)) {
+        throw new Error(`--run-id expects a run id. ${USAGE}`);
+      }
+    } else if (token === "--port") {
+      port = Number(argv[++i]);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error("--port expects an integer between 0 and 65535");
+      }
+    } else if (token === "--host") {
+      host = argv[++i];
+    } else if (token === "--proposals-dir") {
+      proposalsDir = argv[++i];
+    } else {
+      throw new Error(`Unknown argument ${token}. ${USAGE}`);
+    }
+  }
+
+  const server = createReviewServer({ proposalsDir, runId });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => resolve());
+  });
+  const address = server.address();
+  const boundPort = address && typeof address === "object" ? address.port : port;
+  logger.info("Review dashboard listening", { url: `http://${host}:${boundPort}/`, proposalsDir, runId });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+void main().catch((error) => {
+  logger.error("Review dashboard failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
@@ -0,0 +1,60 @@
+import { SEARCH_INDEX_PATH } from "../constants.js";
+import { loadSearchIndex, resolveEmbeddingBackend, searchWithIndex, updateSearchIndex } from "../tools/search_index.js";
+import { logger } from "../utils/logger.js";
+
+type Subcommand = "build" | "query";
+
+const USAGE = "Usage: search-index <build|query> [--index <path>] [--max-hits <n>] [query text]";
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const command = argv[0] as Subcommand | undefined;
+  if (!command || !["build", "query"].includes(command)) {
+    throw new Error(USAGE);
+  }
+
+  let indexPath = SEARCH_INDEX_PATH;
+  let maxHits = 10;
+  const words: string[] = [];
+  for (let i = 1; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (token === "--index") {
+      indexPath = argv[++i];
+    } else if (token === "--max-hits") {
+      maxHits = Number(argv[++i]);
+      if (!Number.isInteger(maxHits) || maxHits <= 0) {
+        throw new Error("--max-hits expects a positive integer");
+      }
+    } else if (token.startsWith("--")) {
+      throw new Error(`Unknown argument ${token}. ${USAGE}`);
+    } else {
+      words.push(token);
+    }
+  }
+
+  const backend = resolveEmbeddingBackend();
+  switch (command) {
+    case "build": {
+      const { index, stats } = await updateSearchIndex({ indexPath, backend });
+      logger.info("Search index updated", { indexPath, embeddingModel: index.embeddingModel, ...stats });
+      break;
+    }
+    case "query": {
+      if (words.length === 0) {
+        throw new Error(`query requires search text. ${USAGE}`);
+      }
+      const index = await loadSearchIndex(indexPath);
+      if (Object.keys(index.files).length === 0) {
+        throw new Error(`Search index ${indexPath} is empty; run "search-index build" first`);
+      }
+      const hits = await searchWithIndex(index, words.join(" "), { maxHits, backend });
+      console.log(JSON.stringify({ query: words.join(" "), ranking: index.embeddingModel && backend ? "hybrid" : "bm25", hits }, null, 2));
+      break;
+    }
+  }
+}
+
+void main().catch((error) => {
+  logger.error("Search index command failed", { error: error instanceof Error ? error.message : String(error) });
+  process.exitCode = 1;
+});
@@ -0,0 +1,356 @@
+import { readFile } from "node:fs/promises";
+import { STATUS_CODES } from "node:http";
+import { extname } from "node:path";
+
+import fg from "fast-glob";
+import { load } from "js-yaml";
+import type { Anchor } from "lib/card/types.js";
+
+import { isMscInfrastructure, isPathDenied } from "../safety/redaction.js";
+import { summarizePythonAst } from "./ast.js";
+
+export type ApiAnchor = Omit<Anchor, "commit">;
+
+export interface ApiRoute {
+  method: string;
+  path: string;
+  /** operationId, or the handler name for FastAPI routes. */
+  name: string;
+  signature?: string;
+  requestSchema?: string;
+  responseSchema?: string;
+  anchor: ApiAnchor;
+}
+
+export interface ApiErrorResponse {
+  /** Upper-snake reason phrase, e.g. UNPROCESSABLE_ENTITY. */
+  code: string;
+  httpStatus: number;
+  retryable: boolean;
+  description?: string;
+  anchor: ApiAnchor;
+}
+
+export interface ApiAuthScheme {
+  name: string;
+  auth: "apiKey" | "oauth2" | "mtls";
+  scopes: string[];
+  anchor: ApiAnchor;
+}
+
+export interface ApiSurface {
+  /** Where the routes came from; FastAPI decorators are only scanned when no spec declares paths. */
+  source: "openapi" | "fastapi" | null;
+  routes: ApiRoute[];
+  errors: ApiErrorResponse[];
+  authSchemes: ApiAuthScheme[];
+  version: { value: string; anchor: ApiAnchor } | null;
+}
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 502, 503, 504]);
+const PYTHON_IGNORE = ["**/node_modules/**", "**/.git/**", "**/.venv/**", "**/venv/**", "**/site-packages/**", "**/dist/**", "**/build/**"];
+// Parameters FastAPI injects itself; they say nothing about the request payload
+const FRAMEWORK_PARAMETER_TYPES = new Set(["Request", "Response", "BackgroundTasks", "UploadFile", "WebSocket"]);
+
+export async function collectApiSurface(specPaths: string[]): Promise<{ surface: ApiSurface; warnings: string[] }> {
+  const surface: ApiSurface = { source: null, routes: [], errors: [], authSchemes: [], version: null };
+  const warnings: string[] = [];
+
+  for (const specPath of [...specPaths].sort()) {
+    try {
+      mergeSurface(surface, parseOpenApiSpec(specPath, await readFile(specPath, "utf8")));
+    } catch (error) {
+      warnings.push(`Unable to extract API surface from ${specPath}: ${formatError(error)}`);
+    }
+  }
+  if (surface.routes.length > 0) {
+    surface.source = "openapi";
+    return { surface, warnings };
+  }
+
+  const sources = await fg("**/*.py", { cwd: process.cwd(), ignore: PYTHON_IGNORE, onlyFiles: true });
+  for (const file of sources.sort()) {
+    if (isMscInfrastructure(file) || isPathDenied(file)) {
+      continue;
+    }
+    try {
+      const content = await readFile(file, "utf8");
+      if (/\bfastapi\b|APIRouter/.test(content)) {
+        mergeSurface(surface, await scanFastApiSource(file, content));
+      }
+    } catch (error) {
+      warnings.push(`Unable to scan FastAPI routes in ${file}: ${formatError(error)}`);
+    }
+  }
+  surface.source = surface.routes.length > 0 ? "fastapi" : null;
+  return { surface, warnings };
+}
+
+/** Routes, error responses, security schemes and version of an OpenAPI 3 or Swagger 2 document. */
+export function parseOpenApiSpec(path: string, raw: string): ApiSurface {
+  const doc = asRecord(extname(path).toLowerCase() === ".json" ? JSON.parse(raw) : load(raw));
+  const locator = new LineLocator(raw);
+  const surface: ApiSurface = { source: "openapi", routes: [], errors: [], authSchemes: [], version: null };
+
+  const info = asRecord(doc.info);
+  if (typeof info.version === "string") {
+    const infoLine = locator.find("info");
+    surface.version = { value: info.version, anchor: anchorAt(path, locator.find("version", infoLine)) };
+  }
+
+  const pathsLine = locator.find("paths");
+  for (const [routePath, pathItem] of Object.entries(asRecord(doc.paths))) {
+    const pathLine = locator.find(routePath, pathsLine);
+    for (const [method, operationValue] of Object.entries(asRecord(pathItem))) {
+      if (!HTTP_METHODS.includes(method)) {
+        continue;
+      }
+      const operation = asRecord(operationValue);
+      const startLine = locator.find(method, pathLine);
+      const endLine = locator.blockEnd(startLine);
+      const requestSchema = schemaName(asRecord(asRecord(operation.requestBody).content)) ?? swaggerBodySchema(operation.parameters);
+      const responses = asRecord(operation.responses);
+      const success = Object.keys(responses).find((status) => /^2\d\d$/.test(status));
+      const responseSchema = success ? responseSchemaName(asRecord(responses[success])) : undefined;
+
+      surface.routes.push({
+        method: method.toUpperCase(),
+        path: routePath,
+        name: typeof operation.operationId === "string" ? operation.operationId : `${method.toUpperCase()} ${routePath}`,
+        signature: requestSchema || responseSchema ? `(${requestSchema ?? ""}) -> ${responseSchema ?? "unknown"}` : undefined,
+        requestSchema,
+        responseSchema,
+        anchor: { path, startLine, endLine, kind: "openapi" }
+      });
+
+      for (const [status, response] of Object.entries(responses)) {
+        const httpStatus = Number(status);
+        if (!/^[45]\d\d$/.test(status)) {
+          continue;
+        }
+        const description = asRecord(response).description;
+        surface.errors.push(
+          describeError(httpStatus, typeof description === "string" ? description : undefined, anchorAt(path, locator.find(status, startLine)))
+        );
+      }
+    }
+  }
+
+  const components = asRecord(doc.components);
+  const schemes = { ...asRecord(doc.securityDefinitions), ...asRecord(components.securitySchemes) };
+  for (const [name, schemeValue] of Object.entries(schemes)) {
+    const scheme = asRecord(schemeValue);
+    const auth = mapOpenApiAuth(scheme.type);
+    if (!auth) {
+      continue;
+    }
+    const scopes = [
+      ...Object.keys(asRecord(scheme.scopes)),
+      ...Object.values(asRecord(scheme.flows)).flatMap((flow) => Object.keys(asRecord(asRecord(flow).scopes)))
+    ];
+    surface.authSchemes.push({
+      name,
+      auth,
+      scopes: [...new Set(scopes)].sort(),
+      anchor: anchorAt(path, locator.find(name))
+    });
+  }
+
+  return surface;
+}
+
+/**
+ * FastAPI routes from `@app.<method>(...)` / `@router.<method>(...)` decorators, with
+ * `APIRouter(prefix=...)` prefixes applied, plus HTTPException status codes and security
+ * dependencies declared in the same module.
+ */
+export async function scanFastApiSource(file: string, content: string): Promise<ApiSurface> {
+  const lines = content.split(/\r?\n/);
+  const surface: ApiSurface = { source: "fastapi", routes: [], errors: [], authSchemes: [], version: null };
+
+  const prefixes = new Map<string, string>();
+  for (const match of content.matchAll(/(\w+)\s*=\s*(?:fastapi\.)?APIRouter\(([^)]*)\)/g)) {
+    const prefix = /prefix\s*=\s*["']([^"']*)["']/.exec(match[2])?.[1];
+    if (prefix) {
+      prefixes.set(match[1], prefix.replace(/\/$/, ""));
+    }
+  }
+
+  for (const node of await summarizePythonAst(content)) {
+    if (node.kind !== "route") {
+      continue;
+    }
+    const [method, ...pathParts] = node.name.split(" ");
+    const definition = lines.slice(node.startLine - 1, node.endLine);
+    const defIndex = definition.findIndex((line) => /^\s*(async\s+)?def\s/.test(line));
+    const decorator = definition.slice(0, defIndex >= 0 ? defIndex : undefined).join("\n");
+    const receiver = new RegExp(`@(\\w+)\\.(?:${HTTP_METHODS.join("|")}|api_route|websocket)\\(`).exec(decorator)?.[1];
+    const handler = /^(?:async\s+)?(\w+)/.exec(node.signature ?? "")?.[1];
+    const requestSchema = [...(node.signature ?? "").matchAll(/\w+\s*:\s*([A-Z]\w*)/g)]
+      .map((match) => match[1])
+      .find((type) => !FRAMEWORK_PARAMETER_TYPES.has(type));
+
+    surface.routes.push({
+      method,
+      path: `${(receiver && prefixes.get(receiver)) ?? ""}${pathParts.join(" ")}`,
+      name: /operation_id\s*=\s*["']([^"']+)["']/.exec(decorator)?.[1] ?? handler ?? node.name,
+      signature: node.signature,
+      requestSchema,
+      responseSchema: /response_model\s*=\s*([\w.]+)/.exec(decorator)?.[1],
+      anchor: { path: file, startLine: node.startLine, endLine: node.endLine, kind: "code" }
+    });
+  }
+  if (surface.routes.length === 0) {
+    return surface;
+  }
+
+  lines.forEach((line, index) => {
+    const status = /status_code\s*=\s*(?:status\.HTTP_(\d{3})\w*|(\d{3}))/.exec(line);
+    const httpStatus = Number(status?.[1] ?? status?.[2]);
+    if (httpStatus >= 400 && httpStatus < 600) {
+      surface.errors.push(describeError(httpStatus, undefined, anchorAt(file, index + 1, "code")));
+    }
+    const security = /\b(HTTPBearer|HTTPBasic|APIKeyHeader|APIKeyQuery|APIKeyCookie|OAuth2\w*Bearer)\(/.exec(line);
+    if (security) {
+      surface.authSchemes.push({
+        name: security[1],
+        auth: security[1].startsWith("OAuth2") ? "oauth2" : "apiKey",
+        scopes: [],
+        anchor: anchorAt(file, index + 1, "code")
+      });
+    }
+  });
+
+  return surface;
+}
+
+function mergeSurface(target: ApiSurface, addition: ApiSurface): void {
+  target.routes.push(...addition.routes);
+  for (const error of addition.errors) {
+    // One entry per status: the first description (spec order) wins
+    if (!target.errors.some((existing) => existing.httpStatus === error.httpStatus)) {
+      target.errors.push(error);
+    }
+  }
+  for (const scheme of addition.authSchemes) {
+    if (!target.authSchemes.some((existing) => existing.name === scheme.name)) {
+      target.authSchemes.push(scheme);
+    }
+  }
+  target.errors.sort((a, b) => a.httpStatus - b.httpStatus);
+  target.version ??= addition.version;
+}
+
+function describeError(httpStatus: number, description: string | undefined, anchor: ApiAnchor): ApiErrorResponse {
+  const phrase = STATUS_CODES[httpStatus] ?? `HTTP ${httpStatus}`;
+  return {
+    code: phrase.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, ""),
+    httpStatus,
+    retryable: RETRYABLE_STATUSES.has(httpStatus),
+    description: description ?? phrase,
+    anchor
+  };
+}
+
+// The card only distinguishes key-style credentials, OAuth2 and mTLS; HTTP bearer/basic tokens are key-style
+function mapOpenApiAuth(type: unknown): ApiAuthScheme["auth"] | null {
+  switch (type) {
+    case "apiKey":
+    case "http":
+    case "basic":
+      return "apiKey";
+    case "oauth2":
+    case "openIdConnect":
+      return "oauth2";
+    case "mutualTLS":
+      return "mtls";
+    default:
+      return null;
+  }
+}
+
+function schemaName(content: Record<string, unknown>): string | undefined {
+  for (const media of Object.values(content)) {
+    const name = refName(asRecord(media).schema);
+    if (name) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+function responseSchemaName(response: Record<string, unknown>): string | undefined {
+  return schemaName(asRecord(response.content)) ?? refName(response.schema);
+}
+
+function swaggerBodySchema(parameters: unknown): string | undefined {
+  const body = Array.isArray(parameters) ? parameters.map(asRecord).find((param) => param.in === "body") : undefined;
+  return body ? refName(body.schema) : undefined;
+}
+
+// "#/components/schemas/RerankInput" -> "RerankInput"; array schemas report their item type
+function refName(schema: unknown): string | undefined {
+  if (!schema || typeof schema !== "object") {
+    return undefined;
+  }
+  const record = asRecord(schema);
+  if (typeof record.$ref === "string") {
+    return record.$ref.split("/").pop();
+  }
+  const items = refName(record.items);
+  return items ? `${items}[]` : typeof record.title === "string" ? record.title : undefined;
+}
+
+/** Finds the line declaring a key in YAML or pretty-printed JSON; minified specs fall back to line 1. */
+class LineLocator {
+  private readonly lines: string[];
+
+  constructor(raw: string) {
+    this.lines = raw.split(/\r?\n/);
+  }
+
+  find(key: string, fromLine = 1): number {
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const pattern = new RegExp(`^\\s*(?:-\\s*)?(?:"${escaped}"|'${escaped}'|${escaped})\\s*:`);
+    for (let index = Math.max(0, fromLine - 1); index < this.lines.length; index += 1) {
+      if (pattern.test(this.lines[index])) {
+        return index + 1;
+      }
+    }
+    return Math.max(1, fromLine);
+  }
+
+  /** Last line of the block opened at `line`: everything indented deeper, plus a closing brace. */
+  blockEnd(line: number): number {
+    const indent = indentation(this.lines[line - 1] ?? "");
+    let end = line;
+    for (let index = line; index < this.lines.length; index += 1) {
+      const text = this.lines[index];
+      if (text.trim() === "") {
+        continue;
+      }
+      if (indentation(text) <= indent) {
+        return /^\s*[}\]]/.test(text) ? index + 1 : end;
+      }
+      end = index + 1;
+    }
+    return end;
+  }
+}
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function anchorAt(path: string, line: number, kind: ApiAnchor["kind"] = "openapi"): ApiAnchor {
+  return { path, startLine: line, endLine: line, kind };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
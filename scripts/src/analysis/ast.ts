@@ -1,5 +1,7 @@
 import { createRequire } from "node:module";
 
+import type { AstNodeSummary } from "../tools/types.js";
+
 const require = createRequire(import.meta.url);
 const { Parser, Language } = require("web-tree-sitter");
 
@@ -158,3 +160,110 @@ export async function getPythonSkeleton(content: string): Promise<string> {
       return content; // Fallback to full content on error
   }
 }
+
+const ROUTE_METHODS = new Set(["get", "post", "put", "patch", "delete", "head", "options", "websocket", "api_route"]);
+
+/**
+ * Structural summary of a Python module: classes, functions/methods with their signatures,
+ * module-level assignments and FastAPI-style routes (`@app.get("/path")`, `@router.post(...)`).
+ * Routes are found at any depth because apps are commonly built inside a factory function;
+ * other nested definitions are skipped to keep the summary at module/class granularity.
+ * Line numbers are 1-based and a decorated definition spans its decorators.
+ */
+export async function summarizePythonAst(content: string): Promise<AstNodeSummary[]> {
+  const p = await initParser();
+  const tree = p.parse(content);
+  const nodes: AstNodeSummary[] = [];
+
+  const push = (span: any, name: string, kind: string, signature?: string) => {
+    nodes.push({
+      name,
+      kind,
+      startLine: span.startPosition.row + 1,
+      endLine: span.endPosition.row + 1,
+      signature
+    });
+  };
+
+  function visit(node: any, scope: "module" | "class" | "function", span: any = node) {
+    switch (node.type) {
+      case "decorated_definition": {
+        const definition = node.childForFieldName("definition");
+        for (const decorator of node.children.filter((c: any) => c.type === "decorator")) {
+          const route = describeRoute(decorator);
+          if (route) {
+            push(node, route, "route", definition ? formatPythonSignature(definition) : undefined);
+          }
+        }
+        if (definition) visit(definition, scope, node);
+        return;
+      }
+      case "class_definition": {
+        const name = node.childForFieldName("name")?.text ?? "<anonymous>";
+        if (scope !== "function") {
+          const bases = node.childForFieldName("superclasses")?.text ?? "";
+          push(span, name, "class", `class ${name}${bases}`);
+        }
+        visitChildren(node.childForFieldName("body"), scope === "function" ? "function" : "class");
+        return;
+      }
+      case "function_definition": {
+        const name = node.childForFieldName("name")?.text ?? "<anonymous>";
+        if (scope !== "function") {
+          push(span, name, scope === "class" ? "method" : "function", formatPythonSignature(node));
+        }
+        visitChildren(node.childForFieldName("body"), "function");
+        return;
+      }
+      case "expression_statement": {
+        const assignment = node.child(0);
+        const target = assignment?.type === "assignment" ? assignment.childForFieldName("left") : null;
+        if (scope === "module" && target?.type === "identifier") {
+          push(node, target.text, "variable");
+        }
+        return;
+      }
+      default:
+        visitChildren(node, scope);
+    }
+  }
+
+  function visitChildren(node: any, scope: "module" | "class" | "function") {
+    if (!node) return;
+    for (let i = 0; i < node.namedChildCount; i++) {
+      visit(node.namedChild(i), scope);
+    }
+  }
+
+  visitChildren(tree.rootNode, "module");
+  return nodes.sort((a, b) => a.startLine - b.startLine);
+}
+
+function formatPythonSignature(definition: any): string {
+  const name = definition.childForFieldName("name")?.text ?? "<anonymous>";
+  const parameters = definition.childForFieldName("parameters")?.text ?? "()";
+  const returnType = definition.childForFieldName("return_type")?.text;
+  const isAsync = definition.children.some((c: any) => c.type === "async");
+  const flat = `${isAsync ? "async " : ""}${name}${parameters}${returnType ? ` -> ${returnType}` : ""}`;
+  return flat.replace(/\s+/g, " ").replace(/\(\s+/g, "(").replace(/,?\s*\)/g, ")");
+}
+
+// "@app.get('/health', ...)" -> "GET /health"; null for any other decorator
+function describeRoute(decorator: any): string | null {
+  const call = decorator.namedChildren.find((c: any) => c.type === "call");
+  const callee = call?.childForFieldName("function");
+  if (!callee || callee.type !== "attribute") return null;
+  const method = callee.childForFieldName("attribute")?.text;
+  if (!method || !ROUTE_METHODS.has(method)) return null;
+
+  const args = call.childForFieldName("arguments")?.namedChildren ?? [];
+  const pathNode =
+    args.find((a: any) => a.type === "string") ??
+    args.find((a: any) => a.type === "keyword_argument" && a.childForFieldName("name")?.text === "path")
+      ?.childForFieldName("value");
+  if (!pathNode || pathNode.type !== "string") return null;
+
+  const path = pathNode.text.replace(/^[a-zA-Z]*(["']{1,3})([\s\S]*)\1$/, "$2");
+  const verb = method === "api_route" ? "ANY" : method === "websocket" ? "WS" : method.toUpperCase();
+  return `${verb} ${path}`;
+}
@@ -0,0 +1,351 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+
+import fg from "fast-glob";
+import type { Anchor } from "lib/card/types.js";
+
+import { isMscInfrastructure, isPathDenied } from "../safety/redaction.js";
+
+export type BenchmarkTool = "pytest-benchmark" | "locust" | "k6" | "markdown";
+
+export interface BenchmarkMeasurement {
+  /** Benchmark, endpoint or table row the numbers belong to. */
+  name: string;
+  metric: "latency" | "throughput";
+  statistic: "p50" | "p95" | "p99" | "mean";
+  /** Latency is normalised to milliseconds; throughput keeps the reported rate unit. */
+  value: number;
+  unit: string;
+  anchor: Omit<Anchor, "commit">;
+}
+
+export interface BenchmarkReport {
+  source: string;
+  tool: BenchmarkTool;
+  /** CPU/GPU/instance description the numbers were measured on, when the output records it. */
+  hardware: string | null;
+  hardwareAnchor: Omit<Anchor, "commit"> | null;
+  measurements: BenchmarkMeasurement[];
+}
+
+export const BENCHMARK_GLOBS = [
+  "**/bench/**/*.{json,csv,md}",
+  "**/benchmarks/**/*.{json,csv,md}",
+  "**/*benchmark*.{json,md}",
+  "**/*_stats.csv"
+];
+
+const BENCHMARK_IGNORE = ["**/node_modules/**", "**/.git/**", "**/.venv/**", "**/venv/**", "**/dist/**"];
+
+const HARDWARE_PATTERN = /\b(hardware|gpu|cpu|device|instance|machine)\b/i;
+
+export async function collectBenchmarkReports(): Promise<{ reports: BenchmarkReport[]; warnings: string[] }> {
+  const reports: BenchmarkReport[] = [];
+  const warnings: string[] = [];
+  const matches = await fg(BENCHMARK_GLOBS, { cwd: process.cwd(), ignore: BENCHMARK_IGNORE, onlyFiles: true, unique: true });
+  for (const match of matches.sort()) {
+    if (isMscInfrastructure(match) || isPathDenied(match)) {
+      continue;
+    }
+    try {
+      const report = parseBenchmarkOutput(match, await readFile(match, "utf8"));
+      if (report && report.measurements.length > 0) {
+        reports.push(report);
+      }
+    } catch (error) {
+      warnings.push(`Unable to parse benchmark output ${match}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return { reports, warnings };
+}
+
+/** Recognises the output by content; null for files that are not benchmark results. */
+export function parseBenchmarkOutput(path: string, raw: string): BenchmarkReport | null {
+  switch (extname(path).toLowerCase()) {
+    case ".json":
+      return parsePytestBenchmark(path, raw);
+    case ".csv":
+      return /^Type,Name,Request Count/m.test(raw) ? parseLocustStats(path, raw) : /^metric_name,timestamp,metric_value/m.test(raw) ? parseK6Csv(path, raw) : null;
+    case ".md":
+      return parseMarkdownTables(path, raw);
+    default:
+      return null;
+  }
+}
+
+/** pytest-benchmark `--benchmark-json`: stats are in seconds and there are no tail percentiles. */
+export function parsePytestBenchmark(path: string, raw: string): BenchmarkReport | null {
+  const parsed = JSON.parse(raw) as {
+    machine_info?: { machine?: string; cpu?: { brand_raw?: string } };
+    benchmarks?: Array<{ name?: string; stats?: { median?: number; mean?: number; ops?: number } }>;
+  };
+  if (!Array.isArray(parsed.benchmarks) || !parsed.machine_info) {
+    return null;
+  }
+  const lines = raw.split(/\r?\n/);
+  const lineOf = (needle: string) => Math.max(1, lines.findIndex((line) => line.includes(needle)) + 1);
+
+  const measurements: BenchmarkMeasurement[] = [];
+  for (const benchmark of parsed.benchmarks) {
+    if (!benchmark.name || !benchmark.stats) {
+      continue;
+    }
+    const line = lineOf(`"name": "${benchmark.name}"`);
+    const anchor = anchorAt(path, line);
+    if (typeof benchmark.stats.median === "number") {
+      measurements.push({ name: benchmark.name, metric: "latency", statistic: "p50", value: benchmark.stats.median * 1000, unit: "ms", anchor });
+    }
+    if (typeof benchmark.stats.mean === "number") {
+      measurements.push({ name: benchmark.name, metric: "latency", statistic: "mean", value: benchmark.stats.mean * 1000, unit: "ms", anchor });
+    }
+    if (typeof benchmark.stats.ops === "number") {
+      measurements.push({ name: benchmark.name, metric: "throughput", statistic: "mean", value: benchmark.stats.ops, unit: "ops/s", anchor });
+    }
+  }
+
+  const cpu = parsed.machine_info.cpu?.brand_raw;
+  const hardware = [cpu, parsed.machine_info.machine].filter(Boolean).join(", ") || null;
+  return {
+    source: path,
+    tool: "pytest-benchmark",
+    hardware,
+    hardwareAnchor: hardware ? anchorAt(path, lineOf('"machine_info"')) : null,
+    measurements
+  };
+}
+
+/** locust `--csv` `<prefix>_stats.csv`: response times in ms, one row per endpoint plus "Aggregated". */
+export function parseLocustStats(path: string, raw: string): BenchmarkReport | null {
+  const rows = parseCsv(raw);
+  const header = rows[0]?.cells ?? [];
+  const column = (name: string) => header.indexOf(name);
+  const measurements: BenchmarkMeasurement[] = [];
+
+  // The aggregated row comes last in the file but speaks for the whole run, so list it first
+  const dataRows = rows.slice(1).sort((a, b) => Number(b.cells[column("Name")] === "Aggregated") - Number(a.cells[column("Name")] === "Aggregated"));
+  for (const row of dataRows) {
+    const name = [row.cells[column("Type")], row.cells[column("Name")]].filter(Boolean).join(" ").trim();
+    const anchor = anchorAt(path, row.line);
+    const pick = (label: string) => Number(row.cells[column(label)]);
+    const push = (metric: BenchmarkMeasurement["metric"], statistic: BenchmarkMeasurement["statistic"], value: number, unit: string) => {
+      if (Number.isFinite(value)) {
+        measurements.push({ name, metric, statistic, value, unit, anchor });
+      }
+    };
+    push("latency", "p50", pick(column("50%") >= 0 ? "50%" : "Median Response Time"), "ms");
+    push("latency", "p95", pick("95%"), "ms");
+    push("latency", "p99", pick("99%"), "ms");
+    push("throughput", "mean", pick("Requests/s"), "req/s");
+  }
+  return { source: path, tool: "locust", hardware: null, hardwareAnchor: null, measurements };
+}
+
+/** k6 `--out csv`: raw samples, so percentiles are computed from http_req_duration rows. */
+export function parseK6Csv(path: string, raw: string): BenchmarkReport | null {
+  const rows = parseCsv(raw);
+  const header = rows[0]?.cells ?? [];
+  const nameIndex = header.indexOf("metric_name");
+  const timeIndex = header.indexOf("timestamp");
+  const valueIndex = header.indexOf("metric_value");
+  const durations: number[] = [];
+  let requests = 0;
+  let first = Infinity;
+  let last = -Infinity;
+  let firstSampleLine = 0;
+  let lastSampleLine = 0;
+  for (const row of rows.slice(1)) {
+    const metric = row.cells[nameIndex];
+    const timestamp = Number(row.cells[timeIndex]);
+    if (metric === "http_req_duration") {
+      durations.push(Number(row.cells[valueIndex]));
+      firstSampleLine ||= row.line;
+      lastSampleLine = row.line;
+    } else if (metric === "http_reqs") {
+      requests += Number(row.cells[valueIndex]) || 1;
+    }
+    if (Number.isFinite(timestamp)) {
+      first = Math.min(first, timestamp);
+      last = Math.max(last, timestamp);
+    }
+  }
+  if (durations.length === 0) {
+    return null;
+  }
+
+  durations.sort((a, b) => a - b);
+  const anchor = { ...anchorAt(path, firstSampleLine), endLine: lastSampleLine };
+  const measurements: BenchmarkMeasurement[] = [
+    { name: "http_req_duration", metric: "latency", statistic: "p50", value: percentile(durations, 0.5), unit: "ms", anchor },
+    { name: "http_req_duration", metric: "latency", statistic: "p95", value: percentile(durations, 0.95), unit: "ms", anchor }
+  ];
+  // k6 timestamps are whole seconds; a sub-second run has no meaningful rate
+  if (requests > 0 && last > first) {
+    measurements.push({ name: "http_reqs", metric: "throughput", statistic: "mean", value: requests / (last - first), unit: "req/s", anchor });
+  }
+  return { source: path, tool: "k6", hardware: null, hardwareAnchor: null, measurements };
+}
+
+/**
+ * Markdown tables whose header names latency percentiles or throughput, e.g.
+ * `| Model | Batch | p50 (ms) | p95 (ms) | Throughput (emb/s) | GPU |`. Hardware comes from a
+ * hardware/GPU column or a "Hardware: ..." line elsewhere in the document.
+ */
+export function parseMarkdownTables(path: string, raw: string): BenchmarkReport | null {
+  const lines = raw.split(/\r?\n/);
+  const measurements: BenchmarkMeasurement[] = [];
+  let hardware: string | null = null;
+  let hardwareAnchor: BenchmarkReport["hardwareAnchor"] = null;
+
+  const setHardware = (value: string, line: number) => {
+    if (!hardware && value) {
+      hardware = value;
+      hardwareAnchor = anchorAt(path, line);
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const statement = /^\s*[-*]?\s*\**(hardware|gpu|cpu|device|instance|machine)\**\s*:\s*(.+)$/i.exec(lines[index]);
+    if (statement) {
+      setHardware(statement[2].replace(/\*\*/g, "").trim(), index + 1);
+      continue;
+    }
+    if (!isTableRow(lines[index]) || !/^\s*\|?\s*:?-{3,}/.test(lines[index + 1] ?? "")) {
+      continue;
+    }
+
+    const header = splitTableRow(lines[index]);
+    const columns = header.map(classifyColumn);
+    if (!columns.some((column) => column?.metric)) {
+      continue;
+    }
+    const hardwareColumn = header.findIndex((cell) => HARDWARE_PATTERN.test(cell));
+
+    let rowIndex = index + 2;
+    for (; rowIndex < lines.length && isTableRow(lines[rowIndex]); rowIndex += 1) {
+      const cells = splitTableRow(lines[rowIndex]);
+      const anchor = anchorAt(path, rowIndex + 1);
+      const name = cells[0] ?? "";
+      columns.forEach((column, columnIndex) => {
+        if (!column?.metric) {
+          return;
+        }
+        const parsed = parseQuantity(cells[columnIndex] ?? "", column.unit);
+        if (parsed) {
+          const value = column.metric === "latency" ? toMilliseconds(parsed.value, parsed.unit) : parsed.value;
+          measurements.push({
+            name,
+            metric: column.metric,
+            statistic: column.statistic,
+            value,
+            unit: column.metric === "latency" ? "ms" : parsed.unit,
+            anchor
+          });
+        }
+      });
+      if (hardwareColumn >= 0) {
+        setHardware(cells[hardwareColumn] ?? "", rowIndex + 1);
+      }
+    }
+    index = rowIndex - 1;
+  }
+
+  return measurements.length > 0 ? { source: path, tool: "markdown", hardware, hardwareAnchor, measurements } : null;
+}
+
+interface ColumnKind {
+  metric?: BenchmarkMeasurement["metric"];
+  statistic: BenchmarkMeasurement["statistic"];
+  unit: string;
+}
+
+function classifyColumn(cell: string): ColumnKind | null {
+  const unit = /\(([^)]+)\)/.exec(cell)?.[1]?.trim() ?? "";
+  const label = cell.toLowerCase();
+  if (/throughput|\brps\b|\bqps\b|req\/s|\/s\b|per sec/.test(label)) {
+    return { metric: "throughput", statistic: "mean", unit: unit || (/\b(rps|req\/s)\b/.test(label) ? "req/s" : "") };
+  }
+  if (/p50|median/.test(label)) {
+    return { metric: "latency", statistic: "p50", unit: unit || "ms" };
+  }
+  if (/p95/.test(label)) {
+    return { metric: "latency", statistic: "p95", unit: unit || "ms" };
+  }
+  if (/p99/.test(label)) {
+    return { metric: "latency", statistic: "p99", unit: unit || "ms" };
+  }
+  if (/latency/.test(label)) {
+    return { metric: "latency", statistic: "mean", unit: unit || "ms" };
+  }
+  return null;
+}
+
+// "12.5", "12.5 ms", "1,200 req/s"; a unit in the cell overrides the header's
+function parseQuantity(cell: string, defaultUnit: string): { value: number; unit: string } | null {
+  const match = /^\s*([\d,]*\.?\d+)\s*([a-zA-Zµ/]+(?:\/[a-zA-Z]+)?)?\s*$/.exec(cell.replace(/\*\*/g, ""));
+  if (!match) {
+    return null;
+  }
+  return { value: Number(match[1].replace(/,/g, "")), unit: match[2] ?? defaultUnit };
+}
+
+function toMilliseconds(value: number, unit: string): number {
+  switch (unit.toLowerCase()) {
+    case "s":
+    case "sec":
+    case "seconds":
+      return value * 1000;
+    case "us":
+    case "µs":
+      return value / 1000;
+    case "ns":
+      return value / 1_000_000;
+    default:
+      return value;
+  }
+}
+
+function isTableRow(line: string): boolean {
+  return /^\s*\|.*\|\s*$/.test(line);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|$/, "").split("|").map((cell) => cell.trim());
+}
+
+function parseCsv(raw: string): Array<{ line: number; cells: string[] }> {
+  return raw
+    .split(/\r?\n/)
+    .map((text, index) => ({ line: index + 1, cells: splitCsvLine(text) }))
+    .filter((row) => row.cells.some((cell) => cell !== ""));
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+  return cells.map((cell) => cell.trim());
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(fraction * sorted.length) - 1));
+  return sorted[index];
+}
+
+function anchorAt(path: string, line: number): Omit<Anchor, "commit"> {
+  return { path, startLine: line, endLine: line, kind: "metrics" };
+}
+
+export function describeBenchmarkSource(report: BenchmarkReport): string {
+  return `${report.tool} ${basename(report.source)}${report.hardware ? ` on ${report.hardware}` : ""}`;
+}
@@ -11,6 +11,7 @@ import { isPathDenied, isMscInfrastructure } from "../safety/redaction.js";
 import { astSummary, resolveTwoHopNeighbors } from "../tools/index.js";
 import type { AstSummaryResponse } from "../tools/types.js";
 import { collectDependencyGraph, type DependencyGraph } from "./dependencies.js";
+import { collectGitHistory, type GitHistory } from "./history.js";
 import {
   collectRepositoryStaticSignals,
   type RepositoryStaticSignals
@@ -37,6 +38,9 @@ export interface AnalysisToolCall {
     tokensPrompt: number;
     tokensCompletion: number;
   };
+  /** Set for calls the model requested during an LLM pass; absent for precomputed evidence. */
+  requestedBy?: string;
+  round?: number;
 }
 
 interface AnalysisCacheEntry {
@@ -70,6 +74,8 @@ export interface AnalysisBundle {
   astSummaries: Record<string, AstSummaryResponse>;
   dependencyGraph: DependencyGraph;
   staticSignals: RepositoryStaticSignals;
+  /** Commits since the previous card run; absent when git history could not be read. */
+  history?: GitHistory;
   toolCalls: AnalysisToolCall[];
   warnings: string[];
   artifactPath: string;
@@ -80,6 +86,8 @@ interface BuildParams {
   baseSha: string;
   headSha: string;
   changedFiles: string[];
+  /** Head of the previous card run, where history mining starts. */
+  sinceSha?: string | null;
 }
 interface BuildOptions {
   outputDir?: string;
@@ -123,7 +131,7 @@ export async function buildAnalysisBundle(
     if (evidence.status === "missing") {
       continue;
     }
-    if (!/\.(t|j)sx?$/.test(evidence.path)) {
+    if (!/\.((t|j)sx?|py)$/.test(evidence.path)) {
       evidence.neighbors = [];
       continue;
     }
@@ -157,6 +165,15 @@ export async function buildAnalysisBundle(
   if (signalWarnings.length > 0) {
     warnings.push(...signalWarnings);
   }
+  let history: GitHistory | undefined;
+  try {
+    const collected = await collectGitHistory({ sinceSha: params.sinceSha ?? null });
+    history = collected.history;
+    warnings.push(...collected.warnings);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    warnings.push(`Failed to read git history: ${message}`);
+  }
 
   const updatedCache: AnalysisCacheFile = {
     version: CACHE_VERSION,
@@ -179,6 +196,7 @@ export async function buildAnalysisBundle(
     astSummaries,
     dependencyGraph,
     staticSignals,
+    history,
     toolCalls,
     warnings: [...warnings, ...computeWarnings(fileEvidence)],
     artifactPath
@@ -0,0 +1,205 @@
+import { basename, dirname } from "node:path";
+
+export interface CoveragePackage {
+  name: string;
+  percentage: number;
+  linesCovered: number;
+  linesValid: number;
+}
+
+export interface CoverageSignal {
+  /** Report format: cobertura, lcov, coverage.py or istanbul. */
+  type: string;
+  /** Line coverage as a fraction (0..1). */
+  percentage: number;
+  source: string;
+  /** 1-based line of the report holding the total, for anchoring. */
+  line: number;
+  linesCovered: number;
+  linesValid: number;
+  packages: CoveragePackage[];
+}
+
+export const COVERAGE_REPORT_GLOBS = ["**/coverage-summary.json", "**/coverage.xml", "**/lcov.info", "**/coverage.json"];
+
+interface FileCoverage {
+  path: string;
+  covered: number;
+  total: number;
+}
+
+/** Dispatch on file name; returns null when the file is not a coverage report this module understands. */
+export function parseCoverageReport(path: string, raw: string): CoverageSignal | null {
+  switch (basename(path)) {
+    case "coverage.xml":
+      return parseCobertura(path, raw);
+    case "lcov.info":
+      return parseLcov(path, raw);
+    case "coverage.json":
+      return parseCoveragePyJson(path, raw);
+    case "coverage-summary.json":
+      return parseIstanbulSummary(path, raw);
+    default:
+      return null;
+  }
+}
+
+/** Cobertura XML (coverage.py `coverage xml`, pytest-cov `--cov-report=xml`, JaCoCo converters). */
+export function parseCobertura(path: string, raw: string): CoverageSignal | null {
+  const root = /<coverage\b([^>]*)>/.exec(raw);
+  if (!root) {
+    return null;
+  }
+  const attributes = readXmlAttributes(root[1]);
+  const linesCovered = Number(attributes["lines-covered"] ?? 0);
+  const linesValid = Number(attributes["lines-valid"] ?? 0);
+  const lineRate = Number(attributes["line-rate"] ?? (linesValid > 0 ? linesCovered / linesValid : NaN));
+  if (!Number.isFinite(lineRate)) {
+    return null;
+  }
+
+  // Cobertura packages only carry rates, so line counts are summed from their <class> lines
+  const packages: CoveragePackage[] = [];
+  for (const match of raw.matchAll(/<package\b([^>]*)>([\s\S]*?)<\/package>/g)) {
+    const packageAttributes = readXmlAttributes(match[1]);
+    const lines = [...match[2].matchAll(/<line\b[^>]*\bhits="(\d+)"/g)];
+    packages.push({
+      name: packageAttributes.name || ".",
+      percentage: Number(packageAttributes["line-rate"] ?? 0),
+      linesCovered: lines.filter((line) => Number(line[1]) > 0).length,
+      linesValid: lines.length
+    });
+  }
+
+  return {
+    type: "cobertura",
+    percentage: lineRate,
+    source: path,
+    line: lineOfOffset(raw, root.index),
+    linesCovered,
+    linesValid,
+    packages: sortPackages(packages)
+  };
+}
+
+/** lcov tracefile: totals are the sums of each record's LH/LF; packages are source directories. */
+export function parseLcov(path: string, raw: string): CoverageSignal | null {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  let firstTotalLine = 0;
+  raw.split(/\r?\n/).forEach((text, index) => {
+    const [key, value = ""] = text.trim().split(/:(.*)/s);
+    if (key === "SF") {
+      current = { path: value, covered: 0, total: 0 };
+    } else if (current && key === "LF") {
+      current.total = Number(value);
+      firstTotalLine ||= index + 1;
+    } else if (current && key === "LH") {
+      current.covered = Number(value);
+    } else if (current && key === "end_of_record") {
+      files.push(current);
+      current = null;
+    }
+  });
+  return summarizeFiles("lcov", path, files, firstTotalLine || 1);
+}
+
+/** coverage.py JSON (`coverage json`, pytest-cov `--cov-report=json`). */
+export function parseCoveragePyJson(path: string, raw: string): CoverageSignal | null {
+  const parsed = JSON.parse(raw) as {
+    files?: Record<string, { summary?: { covered_lines?: number; num_statements?: number } }>;
+    totals?: { covered_lines?: number; num_statements?: number; percent_covered?: number };
+  };
+  if (!parsed.totals || typeof parsed.totals.num_statements !== "number") {
+    return null;
+  }
+  const files = Object.entries(parsed.files ?? {}).map(([file, entry]) => ({
+    path: file,
+    covered: entry.summary?.covered_lines ?? 0,
+    total: entry.summary?.num_statements ?? 0
+  }));
+  const signal = summarizeFiles("coverage.py", path, files, lineOfKey(raw, "totals"));
+  if (signal && typeof parsed.totals.percent_covered === "number") {
+    // Honour the report's own total: it also folds in branch coverage when that was measured
+    signal.percentage = parsed.totals.percent_covered / 100;
+  }
+  return signal;
+}
+
+/** Istanbul `coverage-summary.json` (json-summary reporter). */
+export function parseIstanbulSummary(path: string, raw: string): CoverageSignal | null {
+  const parsed = JSON.parse(raw) as Record<string, { lines?: { total?: number; covered?: number; pct?: number } }>;
+  const total = parsed.total?.lines;
+  if (!total || typeof total.pct !== "number") {
+    return null;
+  }
+  const files = Object.entries(parsed)
+    .filter(([key]) => key !== "total")
+    .map(([file, entry]) => ({ path: file, covered: entry.lines?.covered ?? 0, total: entry.lines?.total ?? 0 }));
+  return {
+    type: "istanbul",
+    percentage: total.pct / 100,
+    source: path,
+    line: lineOfKey(raw, "total"),
+    linesCovered: total.covered ?? 0,
+    linesValid: total.total ?? 0,
+    packages: groupByDirectory(files)
+  };
+}
+
+function summarizeFiles(type: string, source: string, files: FileCoverage[], line: number): CoverageSignal | null {
+  if (files.length === 0) {
+    return null;
+  }
+  const linesValid = files.reduce((sum, file) => sum + file.total, 0);
+  const linesCovered = files.reduce((sum, file) => sum + file.covered, 0);
+  return {
+    type,
+    percentage: linesValid > 0 ? linesCovered / linesValid : 0,
+    source,
+    line,
+    linesCovered,
+    linesValid,
+    packages: groupByDirectory(files)
+  };
+}
+
+function groupByDirectory(files: FileCoverage[]): CoveragePackage[] {
+  const packages = new Map<string, CoveragePackage>();
+  for (const file of files) {
+    const name = dirname(file.path);
+    const entry = packages.get(name) ?? { name, percentage: 0, linesCovered: 0, linesValid: 0 };
+    entry.linesCovered += file.covered;
+    entry.linesValid += file.total;
+    entry.percentage = entry.linesValid > 0 ? entry.linesCovered / entry.linesValid : 0;
+    packages.set(name, entry);
+  }
+  return sortPackages([...packages.values()]);
+}
+
+function sortPackages(packages: CoveragePackage[]): CoveragePackage[] {
+  return packages.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function readXmlAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+function lineOfKey(raw: string, key: string): number {
+  const index = raw.indexOf(`"${key}"`);
+  return index >= 0 ? lineOfOffset(raw, index) : 1;
+}
+
+function lineOfOffset(raw: string, offset: number): number {
+  let line = 1;
+  for (let index = 0; index < offset; index += 1) {
+    if (raw.charCodeAt(index) === 10) {
+      line += 1;
+    }
+  }
+  return line;
+}
@@ -1,11 +1,20 @@
-import { dirname } from "node:path";
+import { basename, dirname } from "node:path";
 
+import fg from "fast-glob";
 import fsExtra from "fs-extra";
+import { parse as parseToml } from "smol-toml";
+
+import { isMscInfrastructure, isPathDenied } from "../safety/redaction.js";
 
 export interface DependencyGraphEdge {
   name: string;
+  /** Version constraint; Python edges keep PEP 508 extras and markers, e.g. "[standard]>=0.32; python_version<'3.12'". */
   spec: string;
   kind: "runtime" | "dev" | "peer" | "optional";
+  /** Project extras (optional-dependency sets) that pull this dependency in. */
+  extras?: string[];
+  /** Dependency group: Poetry/PEP 735 group, requirements file suffix or lockfile category. */
+  group?: string;
 }
 
 export interface DependencyManifestSummary {
@@ -16,8 +25,11 @@ export interface DependencyManifestSummary {
   total: number;
 }
 
+export type DependencyEcosystem = "npm" | "pypi";
+
 export interface DependencyManifest {
   path: string;
+  ecosystem: DependencyEcosystem;
   workspace: string;
   packageName: string | null;
   edges: DependencyGraphEdge[];
@@ -29,30 +41,49 @@ export interface DependencyGraph {
   warnings: string[];
 }
 
-const CANDIDATE_MANIFESTS = [
-  "package.json",
-  "scripts/package.json",
-  "app/package.json"
+const MANIFEST_PATTERNS = [
+  "**/package.json",
+  "**/pyproject.toml",
+  "**/requirements*.txt",
+  "**/setup.cfg",
+  "**/poetry.lock"
+];
+
+const MANIFEST_IGNORE = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/.venv/**",
+  "**/venv/**",
+  "**/site-packages/**",
+  "**/dist/**",
+  "**/build/**"
 ];
 
+// Requirements files whose suffix names a non-runtime group, e.g. requirements-dev.txt
+const DEV_GROUP_PATTERN = /^(dev|develop|test|tests|testing|lint|docs?|ci|codespell|mkdocs|typing|mypy)$/i;
+
+interface ParsedManifest {
+  ecosystem: DependencyEcosystem;
+  packageName: string | null;
+  edges: DependencyGraphEdge[];
+}
+
+/**
+ * Dependency manifests found anywhere in the repository (npm package.json, pyproject.toml,
+ * requirements*.txt, setup.cfg and poetry.lock), excluding vendored trees and the MSC tooling.
+ */
 export async function collectDependencyGraph(): Promise<DependencyGraph> {
   const manifests: DependencyManifest[] = [];
   const warnings: string[] = [];
 
-  for (const manifestPath of CANDIDATE_MANIFESTS) {
+  const candidates = await fg(MANIFEST_PATTERNS, { ignore: MANIFEST_IGNORE, dot: false, onlyFiles: true });
+  for (const manifestPath of candidates) {
+    if (isMscInfrastructure(manifestPath) || isPathDenied(manifestPath)) {
+      continue;
+    }
     try {
-      if (!(await fsExtra.pathExists(manifestPath))) {
-        continue;
-      }
       const raw = await fsExtra.readFile(manifestPath, "utf8");
-      const parsed = JSON.parse(raw) as Record<string, unknown>;
-      const packageName = typeof parsed.name === "string" ? parsed.name : null;
-
-      const edges: DependencyGraphEdge[] = [];
-      collectEdges(parsed, "dependencies", "runtime", edges);
-      collectEdges(parsed, "devDependencies", "dev", edges);
-      collectEdges(parsed, "peerDependencies", "peer", edges);
-      collectEdges(parsed, "optionalDependencies", "optional", edges);
+      const { ecosystem, packageName, edges } = parseManifest(manifestPath, raw);
 
       edges.sort((a, b) => {
         if (a.kind === b.kind) {
@@ -64,6 +95,7 @@ export async function collectDependencyGraph(): Promise<DependencyGraph> {
       const summary = summarize(edges);
       manifests.push({
         path: manifestPath,
+        ecosystem,
         workspace: manifestWorkspace(manifestPath),
         packageName,
         edges,
@@ -81,6 +113,33 @@ export async function collectDependencyGraph(): Promise<DependencyGraph> {
   return { manifests, warnings };
 }
 
+export function parseManifest(manifestPath: string, raw: string): ParsedManifest {
+  const file = basename(manifestPath);
+  if (file === "package.json") {
+    return parsePackageJson(raw);
+  }
+  if (file === "pyproject.toml") {
+    return parsePyproject(raw);
+  }
+  if (file === "poetry.lock") {
+    return parsePoetryLock(raw);
+  }
+  if (file === "setup.cfg") {
+    return parseSetupCfg(raw);
+  }
+  return parseRequirements(file, raw);
+}
+
+function parsePackageJson(raw: string): ParsedManifest {
+  const parsed = JSON.parse(raw) as Record<string, unknown>;
+  const edges: DependencyGraphEdge[] = [];
+  collectEdges(parsed, "dependencies", "runtime", edges);
+  collectEdges(parsed, "devDependencies", "dev", edges);
+  collectEdges(parsed, "peerDependencies", "peer", edges);
+  collectEdges(parsed, "optionalDependencies", "optional", edges);
+  return { ecosystem: "npm", packageName: typeof parsed.name === "string" ? parsed.name : null, edges };
+}
+
 function collectEdges(
   parsed: Record<string, unknown>,
   property: string,
@@ -100,6 +159,231 @@ function collectEdges(
   }
 }
 
+/** PEP 621 `[project]`, PEP 735 `[dependency-groups]` and Poetry `[tool.poetry]` tables. */
+function parsePyproject(raw: string): ParsedManifest {
+  const doc = parseToml(raw) as Record<string, unknown>;
+  const project = asTable(doc.project);
+  const poetry = asTable(asTable(doc.tool).poetry);
+  const edges: DependencyGraphEdge[] = [];
+
+  for (const requirement of asStringArray(project.dependencies)) {
+    pushRequirement(edges, requirement, { kind: "runtime" });
+  }
+  for (const [extra, requirements] of Object.entries(asTable(project["optional-dependencies"]))) {
+    for (const requirement of asStringArray(requirements)) {
+      pushRequirement(edges, requirement, { kind: "optional", extras: [extra] });
+    }
+  }
+  for (const [group, requirements] of Object.entries(asTable(doc["dependency-groups"]))) {
+    // Entries may also be {include-group = "..."} tables; only requirement strings add edges
+    for (const requirement of asStringArray(requirements)) {
+      pushRequirement(edges, requirement, { kind: "dev", group });
+    }
+  }
+
+  const poetryExtras = invertExtras(asTable(poetry.extras));
+  collectPoetryTable(edges, asTable(poetry.dependencies), "main", poetryExtras);
+  collectPoetryTable(edges, asTable(poetry["dev-dependencies"]), "dev", poetryExtras);
+  for (const [group, table] of Object.entries(asTable(poetry.group))) {
+    collectPoetryTable(edges, asTable(asTable(table).dependencies), group, poetryExtras);
+  }
+
+  const name = typeof project.name === "string" ? project.name : typeof poetry.name === "string" ? poetry.name : null;
+  return { ecosystem: "pypi", packageName: name, edges: mergeExtras(edges) };
+}
+
+function collectPoetryTable(
+  edges: DependencyGraphEdge[],
+  table: Record<string, unknown>,
+  group: string,
+  poetryExtras: Map<string, string[]>
+): void {
+  for (const [name, value] of Object.entries(table)) {
+    if (name.toLowerCase() === "python") {
+      continue;
+    }
+    // Multiple-constraint dependencies are arrays of tables; the first constraint stands in for all
+    const declaration = Array.isArray(value) ? value[0] : value;
+    const details = typeof declaration === "string" ? { version: declaration } : asTable(declaration);
+    const version = typeof details.version === "string" ? details.version : describePoetrySource(details);
+    const packageExtras = asStringArray(details.extras);
+    const spec = `${packageExtras.length > 0 ? `[${packageExtras.join(",")}]` : ""}${version}`;
+
+    if (group !== "main") {
+      edges.push({ name, spec, kind: "dev", group });
+    } else if (details.optional === true) {
+      edges.push({ name, spec, kind: "optional", extras: poetryExtras.get(normalizePythonName(name)) ?? [] });
+    } else {
+      edges.push({ name, spec, kind: "runtime" });
+    }
+  }
+}
+
+function describePoetrySource(details: Record<string, unknown>): string {
+  for (const key of ["git", "path", "url"]) {
+    if (typeof details[key] === "string") {
+      return `${key}:${details[key] as string}`;
+    }
+  }
+  return "*";
+}
+
+/**
+ * Locked versions. Groups come from `category` (Poetry < 1.5) or `groups` (Poetry 2); lockfiles
+ * written in between record neither, so their packages read as runtime unless marked optional.
+ */
+function parsePoetryLock(raw: string): ParsedManifest {
+  const doc = parseToml(raw) as Record<string, unknown>;
+  const packages = Array.isArray(doc.package) ? doc.package : [];
+  const lockedExtras = invertExtras(asTable(doc.extras));
+  const edges: DependencyGraphEdge[] = [];
+  for (const entry of packages.map(asTable)) {
+    if (typeof entry.name !== "string") {
+      continue;
+    }
+    const spec = typeof entry.version === "string" ? `==${entry.version}` : "*";
+    const groups = asStringArray(entry.groups);
+    const category =
+      typeof entry.category === "string"
+        ? entry.category
+        : groups.length === 0 || groups.includes("main")
+          ? "main"
+          : groups.join(",");
+    if (category !== "main") {
+      edges.push({ name: entry.name, spec, kind: "dev", group: category });
+    } else if (entry.optional === true) {
+      edges.push({ name: entry.name, spec, kind: "optional", extras: lockedExtras.get(normalizePythonName(entry.name)) ?? [] });
+    } else {
+      edges.push({ name: entry.name, spec, kind: "runtime" });
+    }
+  }
+  return { ecosystem: "pypi", packageName: null, edges };
+}
+
+/** setuptools declarative config: install_requires, tests_require and [options.extras_require]. */
+function parseSetupCfg(raw: string): ParsedManifest {
+  const sections = parseIni(raw);
+  const options = sections.get("options") ?? new Map<string, string>();
+  const edges: DependencyGraphEdge[] = [];
+  for (const requirement of splitRequirementLines(options.get("install_requires") ?? "")) {
+    pushRequirement(edges, requirement, { kind: "runtime" });
+  }
+  for (const requirement of splitRequirementLines(options.get("tests_require") ?? "")) {
+    pushRequirement(edges, requirement, { kind: "dev", group: "tests" });
+  }
+  for (const [extra, value] of sections.get("options.extras_require") ?? new Map<string, string>()) {
+    for (const requirement of splitRequirementLines(value)) {
+      pushRequirement(edges, requirement, { kind: "optional", extras: [extra] });
+    }
+  }
+  return { ecosystem: "pypi", packageName: sections.get("metadata")?.get("name") ?? null, edges: mergeExtras(edges) };
+}
+
+/** `requirements.txt` is runtime; `requirements-<group>.txt` is dev for test/lint/docs-style groups. */
+function parseRequirements(file: string, raw: string): ParsedManifest {
+  const suffix = /^requirements[-_.]?(.*)\.txt$/i.exec(file)?.[1] ?? "";
+  const kind: DependencyGraphEdge["kind"] = suffix && DEV_GROUP_PATTERN.test(suffix) ? "dev" : "runtime";
+  const edges: DependencyGraphEdge[] = [];
+  for (const requirement of splitRequirementLines(raw)) {
+    pushRequirement(edges, requirement, suffix ? { kind, group: suffix } : { kind });
+  }
+  return { ecosystem: "pypi", packageName: null, edges };
+}
+
+function splitRequirementLines(raw: string): string[] {
+  return raw
+    .replace(/\\\r?\n/g, " ")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+    // Options (-r, -c, -e, --index-url) and bare URLs are not named requirements
+    .filter((line) => line.length > 0 && !line.startsWith("-") && !/^[a-z+]+:\/\//i.test(line));
+}
+
+function pushRequirement(
+  edges: DependencyGraphEdge[],
+  requirement: string,
+  edge: Omit<DependencyGraphEdge, "name" | "spec">
+): void {
+  const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(.*)$/.exec(requirement);
+  if (!match) {
+    return;
+  }
+  edges.push({ name: match[1], spec: match[2].trim() || "*", ...edge });
+}
+
+// A dependency listed under several extras becomes one edge carrying all of them
+function mergeExtras(edges: DependencyGraphEdge[]): DependencyGraphEdge[] {
+  const merged: DependencyGraphEdge[] = [];
+  const optional = new Map<string, DependencyGraphEdge>();
+  for (const edge of edges) {
+    if (edge.kind !== "optional") {
+      merged.push(edge);
+      continue;
+    }
+    const key = `${normalizePythonName(edge.name)}\u0000${edge.spec}`;
+    const existing = optional.get(key);
+    if (existing) {
+      existing.extras = [...new Set([...(existing.extras ?? []), ...(edge.extras ?? [])])].sort();
+    } else {
+      const copy = { ...edge, extras: [...(edge.extras ?? [])].sort() };
+      optional.set(key, copy);
+      merged.push(copy);
+    }
+  }
+  return merged;
+}
+
+function parseIni(raw: string): Map<string, Map<string, string>> {
+  const sections = new Map<string, Map<string, string>>();
+  let section: Map<string, string> | null = null;
+  let key: string | null = null;
+  for (const line of raw.split(/\r?\n/)) {
+    if (/^\s*([#;].*)?$/.test(line)) {
+      continue;
+    }
+    const header = /^\[([^\]]+)\]\s*$/.exec(line);
+    if (header) {
+      section = new Map();
+      sections.set(header[1].trim(), section);
+      key = null;
+    } else if (section && key && /^\s/.test(line)) {
+      section.set(key, `${section.get(key)}\n${line.trim()}`);
+    } else if (section) {
+      const assignment = /^([^=:]+)[=:](.*)$/.exec(line);
+      if (assignment) {
+        key = assignment[1].trim();
+        section.set(key, assignment[2].trim());
+      }
+    }
+  }
+  return sections;
+}
+
+// {extra: [package, ...]} -> {normalized package: [extra, ...]}
+function invertExtras(table: Record<string, unknown>): Map<string, string[]> {
+  const byPackage = new Map<string, string[]>();
+  for (const [extra, members] of Object.entries(table)) {
+    for (const member of asStringArray(members)) {
+      const key = normalizePythonName(member);
+      byPackage.set(key, [...(byPackage.get(key) ?? []), extra].sort());
+    }
+  }
+  return byPackage;
+}
+
+// PEP 503 normalization so "Sentence_Transformers" and "sentence-transformers" match
+function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+function asTable(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
 function summarize(edges: DependencyGraphEdge[]): DependencyManifestSummary {
   const summary: DependencyManifestSummary = { runtime: 0, dev: 0, peer: 0, optional: 0, total: 0 };
   for (const edge of edges) {
@@ -0,0 +1,418 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import fsExtra from "fs-extra";
+import type { Anchor } from "lib/card/types.js";
+
+import type { CardSeed } from "../card/seed.js";
+import { isMscInfrastructure } from "../safety/redaction.js";
+import { commitExists, isShallowRepository, logCommits, revList, rootCommits, type GitLogCommit } from "../utils/git.js";
+
+/** History anchors point at the commit they describe rather than the run's head. */
+export type HistoryAnchor = Omit<Anchor, "commit"> & { commit?: string };
+
+export interface HistoryChangelogEntry {
+  /** "#123" for pull requests, the conventional-commit type otherwise ("other" when untyped). */
+  key: string;
+  kind: "pr" | "type";
+  date: string;
+  summary: string;
+  by: string;
+  files: string[];
+  /** Newest commit of the group. */
+  headSha: string;
+  commits: string[];
+  anchors: HistoryAnchor[];
+}
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+  anchor: HistoryAnchor;
+}
+
+export interface ComponentOwner {
+  component: string;
+  name: string;
+  source: "codeowners" | "authorship";
+  commits: number;
+  anchor: HistoryAnchor;
+}
+
+export interface GitHistory {
+  /** The revision range that was walked, e.g. "abc1234..HEAD" or "HEAD~100..HEAD". */
+  range: string;
+  sinceSha: string | null;
+  changelog: HistoryChangelogEntry[];
+  owners: ComponentOwner[];
+  createdAt: { value: string; anchor: HistoryAnchor } | null;
+}
+
+interface CollectOptions {
+  /** Head of the previous card run; history after it becomes changelog entries. */
+  sinceSha: string | null;
+  cwd?: string;
+  /** Commits walked when there is no previous run to start from. */
+  maxCommits?: number;
+  /** Non-merge commits used to attribute component ownership. */
+  ownershipWindow?: number;
+}
+
+const DEFAULT_MAX_COMMITS = 100;
+const DEFAULT_OWNERSHIP_WINDOW = 2000;
+const OWNERS_PER_COMPONENT = 2;
+const MIN_OWNER_SHARE = 0.2;
+const MAX_ENTRY_FILES = 50;
+const MAX_ENTRY_ANCHORS = 5;
+const MAX_SUMMARY_SUBJECTS = 3;
+
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+// Directories whose children are the components (libs/infinity_emb, packages/client, ...)
+const COMPONENT_ROOTS = new Set(["apps", "libs", "packages", "services", "plugins", "crates", "cmd", "modules"]);
+
+const PR_MERGE_PATTERN = /^Merge pull request #(\d+) from (\S+)/;
+const SQUASH_PR_PATTERN = /\(#(\d+)\)\s*$/;
+const CONVENTIONAL_PATTERN = /^([a-zA-Z]+)(\([^)]*\))?!?:\s*(.+)$/;
+
+const TYPE_LABELS: Record<string, string> = {
+  feat: "Features",
+  fix: "Fixes",
+  perf: "Performance",
+  refactor: "Refactors",
+  docs: "Documentation",
+  test: "Tests",
+  build: "Build",
+  ci: "CI",
+  chore: "Chores",
+  style: "Style",
+  revert: "Reverts",
+  other: "Other changes"
+};
+
+export async function collectGitHistory(options: CollectOptions): Promise<{ history: GitHistory; warnings: string[] }> {
+  const warnings: string[] = [];
+  const cwd = options.cwd;
+  const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+
+  let sinceSha = options.sinceSha;
+  if (sinceSha && !(await commitExists(sinceSha, { cwd }))) {
+    warnings.push(`Previous run commit ${sinceSha.slice(0, 12)} is not in this clone; walking the last ${maxCommits} commits instead`);
+    sinceSha = null;
+  }
+
+  const range = sinceSha ? `${sinceSha}..HEAD` : null;
+  const commits = await logCommits(range, { cwd, maxCount: sinceSha ? undefined : maxCommits });
+  const inRange = new Set(commits.map((commit) => commit.sha));
+
+  // Commits a merged PR brought in are reported under the PR, not under their own type
+  const prMembers = new Map<string, string[]>();
+  for (const commit of commits) {
+    if (commit.parents.length === 2 && PR_MERGE_PATTERN.test(commit.subject)) {
+      const members = await revList(commit.parents[0], commit.parents[1], { cwd });
+      prMembers.set(commit.sha, members.filter((sha) => inRange.has(sha)));
+    }
+  }
+
+  const rules = await readCodeowners(cwd);
+  const ownershipCommits = await logCommits(null, { cwd, maxCount: options.ownershipWindow ?? DEFAULT_OWNERSHIP_WINDOW, noMerges: true });
+
+  let createdAt: GitHistory["createdAt"] = null;
+  if (await isShallowRepository({ cwd })) {
+    warnings.push("Shallow clone: repository creation date not derived from history");
+  } else {
+    createdAt = await readCreationDate(cwd);
+  }
+
+  return {
+    history: {
+      range: range ?? `last ${commits.length} commits`,
+      sinceSha,
+      changelog: groupCommits(commits, prMembers),
+      owners: deriveOwners(ownershipCommits, rules),
+      createdAt
+    },
+    warnings
+  };
+}
+
+/** Head of the last recorded run: the card's provenance commit, else the newest changelog run entry. */
+export function resolveLastRunSha(card: CardSeed): string | null {
+  const provenance = card.provenance as { commit?: string | null; changelog?: Array<{ runId?: string; headSha?: string }> } | undefined;
+  if (provenance?.commit) {
+    return provenance.commit;
+  }
+  const runs = (provenance?.changelog ?? []).filter((entry) => entry.runId && entry.headSha);
+  return runs.length > 0 ? runs[runs.length - 1].headSha! : null;
+}
+
+/**
+ * Groups commits (newest first, as `git log` returns them) into changelog entries:
+ * one per merged or squashed pull request, then one per conventional-commit type.
+ * `prMembers` maps a PR merge commit to the commits it brought in.
+ */
+export function groupCommits(commits: GitLogCommit[], prMembers: Map<string, string[]>): HistoryChangelogEntry[] {
+  const bySha = new Map(commits.map((commit) => [commit.sha, commit]));
+  const claimed = new Set<string>();
+  const groups: Array<{ key: string; kind: "pr" | "type"; title: string | null; commits: GitLogCommit[] }> = [];
+
+  for (const commit of commits) {
+    const merge = commit.subject.match(PR_MERGE_PATTERN);
+    if (merge && prMembers.has(commit.sha)) {
+      const members = prMembers
+        .get(commit.sha)!
+        .map((sha) => bySha.get(sha))
+        .filter((member): member is GitLogCommit => member !== undefined && !claimed.has(member.sha));
+      members.forEach((member) => claimed.add(member.sha));
+      claimed.add(commit.sha);
+      const title = commit.body.split("\n").find((line) => line.trim().length > 0)?.trim() ?? merge[2];
+      groups.push({ key: `#${merge[1]}`, kind: "pr", title, commits: [commit, ...members] });
+    }
+  }
+
+  const byType = new Map<string, GitLogCommit[]>();
+  for (const commit of commits) {
+    if (claimed.has(commit.sha)) {
+      continue;
+    }
+    const squash = commit.subject.match(SQUASH_PR_PATTERN);
+    if (squash) {
+      groups.push({ key: `#${squash[1]}`, kind: "pr", title: commit.subject.replace(SQUASH_PR_PATTERN, "").trim(), commits: [commit] });
+      continue;
+    }
+    if (commit.parents.length > 1) {
+      // Plain merges of branches carry nothing the merged commits don't
+      continue;
+    }
+    const type = conventionalType(commit.subject);
+    byType.set(type, [...(byType.get(type) ?? []), commit]);
+  }
+  for (const [type, typed] of byType) {
+    groups.push({ key: type, kind: "type", title: null, commits: typed });
+  }
+
+  return groups
+    .map((group) => toChangelogEntry(group))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.key.localeCompare(b.key));
+}
+
+export function parseCodeowners(path: string, raw: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  raw.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.replace(/\s#.*$/, "").trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      return;
+    }
+    const [pattern, ...owners] = trimmed.split(/\s+/);
+    if (owners.length === 0) {
+      return;
+    }
+    rules.push({ pattern, owners, anchor: { path, startLine: index + 1, endLine: index + 1, kind: "config" } });
+  });
+  return rules;
+}
+
+/**
+ * Top authors per component over `commits`; components covered by a CODEOWNERS rule
+ * take the rule's owners instead, since they were named on purpose.
+ */
+export function deriveOwners(commits: GitLogCommit[], rules: CodeownersRule[]): ComponentOwner[] {
+  const components = new Map<string, { files: Map<string, number>; authors: Map<string, { commits: number; latest: GitLogCommit; file: string }> }>();
+  for (const commit of commits) {
+    const touched = new Map<string, string>();
+    for (const file of commit.files) {
+      if (isMscInfrastructure(file)) {
+        continue;
+      }
+      const component = componentOf(file);
+      if (!touched.has(component)) {
+        touched.set(component, file);
+      }
+      const entry = components.get(component) ?? { files: new Map(), authors: new Map() };
+      entry.files.set(file, (entry.files.get(file) ?? 0) + 1);
+      components.set(component, entry);
+    }
+    for (const [component, file] of touched) {
+      const authors = components.get(component)!.authors;
+      const current = authors.get(commit.author);
+      if (current) {
+        current.commits += 1;
+      } else {
+        // Commits arrive newest first, so the first one seen is the latest
+        authors.set(commit.author, { commits: 1, latest: commit, file });
+      }
+    }
+  }
+
+  const owners: ComponentOwner[] = [];
+  for (const component of [...components.keys()].sort()) {
+    const { files, authors } = components.get(component)!;
+    const representative = [...files.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+    const rule = matchCodeowners(rules, representative);
+    if (rule) {
+      for (const name of rule.owners) {
+        owners.push({ component, name, source: "codeowners", commits: authors.get(name)?.commits ?? 0, anchor: rule.anchor });
+      }
+      continue;
+    }
+    const total = [...authors.values()].reduce((sum, author) => sum + author.commits, 0);
+    [...authors.entries()]
+      .sort((a, b) => b[1].commits - a[1].commits || a[0].localeCompare(b[0]))
+      .filter(([, author]) => author.commits / total >= MIN_OWNER_SHARE)
+      .slice(0, OWNERS_PER_COMPONENT)
+      .forEach(([name, author]) => {
+        owners.push({
+          component,
+          name,
+          source: "authorship",
+          commits: author.commits,
+          anchor: { path: author.file, startLine: 1, endLine: 1, kind: anchorKind(author.file), commit: author.latest.sha }
+        });
+      });
+  }
+  return owners;
+}
+
+/** The last matching rule wins, as on GitHub. */
+export function matchCodeowners(rules: CodeownersRule[], path: string): CodeownersRule | null {
+  let match: CodeownersRule | null = null;
+  for (const rule of rules) {
+    if (codeownersPatternToRegExp(rule.pattern).test(path)) {
+      match = rule;
+    }
+  }
+  return match;
+}
+
+function codeownersPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  const directory = pattern.endsWith("/");
+  const body = pattern
+    .replace(/^\//, "")
+    .replace(/\/$/, "")
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/" || part === "**") {
+        return ".*";
+      }
+      if (part === "*") {
+        return "[^/]*";
+      }
+      if (part === "?") {
+        return "[^/]";
+      }
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  const prefix = anchored ? "^" : "(^|/)";
+  const suffix = directory ? "/" : "(/|$)";
+  return new RegExp(`${prefix}${body}${suffix}`);
+}
+
+function componentOf(file: string): string {
+  const segments = file.split("/");
+  if (segments.length === 1) {
+    return ".";
+  }
+  if (COMPONENT_ROOTS.has(segments[0]) && segments.length > 2) {
+    return `${segments[0]}/${segments[1]}`;
+  }
+  return segments[0];
+}
+
+function conventionalType(subject: string): string {
+  const match = subject.match(CONVENTIONAL_PATTERN);
+  if (!match) {
+    return "other";
+  }
+  const type = match[1].toLowerCase();
+  return type in TYPE_LABELS ? type : "other";
+}
+
+function toChangelogEntry(group: { key: string; kind: "pr" | "type"; title: string | null; commits: GitLogCommit[] }): HistoryChangelogEntry {
+  const newest = group.commits.reduce((latest, commit) => (commit.date > latest.date ? commit : latest));
+  const authorCounts = new Map<string, number>();
+  group.commits
+    .filter((commit) => commit.parents.length < 2)
+    .forEach((commit) => authorCounts.set(commit.author, (authorCounts.get(commit.author) ?? 0) + 1));
+  if (authorCounts.size === 0) {
+    authorCounts.set(newest.author, 1);
+  }
+  const by = [...authorCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([name]) => name)
+    .join(", ");
+
+  const files = [...new Set(group.commits.flatMap((commit) => commit.files))]
+    .filter((file) => !isMscInfrastructure(file))
+    .sort();
+  const anchors: HistoryAnchor[] = group.commits
+    .map((commit) => ({ commit, file: commit.files.find((path) => !isMscInfrastructure(path)) }))
+    .filter((entry): entry is { commit: GitLogCommit; file: string } => entry.file !== undefined)
+    .slice(0, MAX_ENTRY_ANCHORS)
+    .map(({ commit, file }) => ({ path: file, startLine: 1, endLine: 1, kind: anchorKind(file), commit: commit.sha }));
+
+  return {
+    key: group.key,
+    kind: group.kind,
+    date: newest.date,
+    summary: summarize(group),
+    by,
+    files: files.slice(0, MAX_ENTRY_FILES),
+    headSha: newest.sha,
+    commits: group.commits.map((commit) => commit.sha),
+    anchors
+  };
+}
+
+function summarize(group: { key: string; kind: "pr" | "type"; title: string | null; commits: GitLogCommit[] }): string {
+  if (group.kind === "pr") {
+    return `${group.key} ${group.title ?? ""}`.trim();
+  }
+  const subjects = group.commits.map((commit) => {
+    const match = commit.subject.match(CONVENTIONAL_PATTERN);
+    return match ? match[3] : commit.subject;
+  });
+  const shown = subjects.slice(0, MAX_SUMMARY_SUBJECTS).join("; ");
+  const more = subjects.length > MAX_SUMMARY_SUBJECTS ? ` (+${subjects.length - MAX_SUMMARY_SUBJECTS} more)` : "";
+  const count = `${subjects.length} commit${subjects.length === 1 ? "" : "s"}`;
+  return `${TYPE_LABELS[group.key]} (${count}): ${shown}${more}`;
+}
+
+/** Anchor kind guessed from the file path, for anchors recorded without one. */
+export function anchorKind(path: string): HistoryAnchor["kind"] {
+  if (/(^|\/)tests?\/|(^|\/)test_|\.test\.|_test\./.test(path)) {
+    return "test";
+  }
+  if (/\.(md|mdx|rst|txt)$/i.test(path)) {
+    return "docs";
+  }
+  if (/\.(ya?ml|json|toml|cfg|ini|lock)$|(^|\/)Dockerfile/i.test(path)) {
+    return "config";
+  }
+  return "code";
+}
+
+/** Rules from the first CODEOWNERS file GitHub would use; empty when there is none. */
+export async function readCodeowners(cwd?: string): Promise<CodeownersRule[]> {
+  for (const path of CODEOWNERS_PATHS) {
+    const absolute = join(cwd ?? process.cwd(), path);
+    if (await fsExtra.pathExists(absolute)) {
+      return parseCodeowners(path, await readFile(absolute, "utf8"));
+    }
+  }
+  return [];
+}
+
+async function readCreationDate(cwd: string | undefined): Promise<GitHistory["createdAt"]> {
+  const roots = await rootCommits({ cwd });
+  const dated = (await Promise.all(roots.map((sha) => logCommits(sha, { cwd, maxCount: 1 })))).flat();
+  if (dated.length === 0) {
+    return null;
+  }
+  const first = dated.reduce((oldest, commit) => (commit.date < oldest.date ? commit : oldest));
+  const file = first.files[0] ?? "README.md";
+  return {
+    value: new Date(first.date).toISOString(),
+    anchor: { path: file, startLine: 1, endLine: 1, kind: anchorKind(file), commit: first.sha }
+  };
+}
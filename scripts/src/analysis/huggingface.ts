@@ -0,0 +1,267 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+import fg from "fast-glob";
+import { load } from "js-yaml";
+import type { Anchor } from "lib/card/types.js";
+
+import { isMscInfrastructure, isPathDenied } from "../safety/redaction.js";
+
+export type HfAnchor = Omit<Anchor, "commit">;
+
+export interface HfReference {
+  id: string;
+  type: "model" | "dataset";
+  anchor: HfAnchor;
+  /** The reference site sets a default (argument default, env fallback, "Defaults to ..."). */
+  isDefault: boolean;
+}
+
+export interface HfModelCard {
+  /** Hub id when the directory can be matched to one (HF cache layout or a referenced id). */
+  id: string | null;
+  directory: string;
+  architecture?: { value: string; anchor: HfAnchor };
+  license?: { value: string; anchor: HfAnchor };
+  embeddingDimension?: { value: number; anchor: HfAnchor };
+  maxSequenceLength?: { value: number; anchor: HfAnchor };
+  datasets: HfReference[];
+}
+
+export interface HfInventory {
+  /** Referenced models, most referenced from source code first. */
+  models: Array<{ id: string; references: HfAnchor[] }>;
+  datasets: Array<{ id: string; references: HfAnchor[] }>;
+  /** Model cards and configs vendored into the repository; nothing is fetched from the Hub. */
+  cards: HfModelCard[];
+}
+
+const SOURCE_GLOBS = ["**/*.{py,ts,js,mjs,yaml,yml,toml,cfg,md,mdx,sh}", "**/Dockerfile*"];
+const CARD_GLOBS = ["**/config.json"];
+const IGNORE = ["**/node_modules/**", "**/.git/**", "**/.venv/**", "**/venv/**", "**/dist/**", "**/build/**", "**/site-packages/**"];
+const MAX_FILE_BYTES = 512 * 1024;
+
+const HUB_ID = "[A-Za-z0-9][\\w.-]{0,95}/[A-Za-z0-9][\\w.-]{0,95}";
+const HUB_URL_PATTERN = new RegExp(`huggingface\\.co/(datasets/)?(${HUB_ID})`, "g");
+// Quoted or backticked ids, and CLI flags such as `--model-id BAAI/bge-m3`
+const CANDIDATE_PATTERN = new RegExp(`["'\`](${HUB_ID})["'\`]|--(?:model-id|model-name-or-path|model|dataset)[= ](${HUB_ID})`, "g");
+// A bare "org/name" string is only a Hub id in a model or dataset context, otherwise it is usually a path
+const CONTEXT_PATTERN = /model|pretrained|dataset|repo_id|hugging|\bhf\b|hub/i;
+const DATASET_CONTEXT_PATTERN = /load_dataset|dataset/i;
+const FILE_LIKE = /\.(py|md|json|ya?ml|txt|csv|png|jpe?g|ts|js|html|toml|cfg|sh|lock)$/i;
+// Hub pages that are not repositories, and placeholder orgs used in examples and generated clients
+const NON_REPO_PREFIXES = new Set(["api", "blog", "collections", "default", "docs", "dummy", "example", "models", "model", "org", "organizations", "papers", "settings", "spaces", "tasks", "user", "your-org"]);
+
+export async function collectHuggingFaceInventory(): Promise<{ inventory: HfInventory; warnings: string[] }> {
+  const warnings: string[] = [];
+  const references: HfReference[] = [];
+  const files = await fg(SOURCE_GLOBS, { cwd: process.cwd(), ignore: IGNORE, onlyFiles: true });
+  for (const file of files.sort()) {
+    if (isMscInfrastructure(file) || isPathDenied(file)) {
+      continue;
+    }
+    try {
+      if ((await stat(file)).size > MAX_FILE_BYTES) {
+        continue;
+      }
+      references.push(...scanHubReferences(file, await readFile(file, "utf8")));
+    } catch (error) {
+      warnings.push(`Unable to scan ${file} for Hugging Face ids: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const referencedIds = new Set(references.map((reference) => reference.id));
+  const cards: HfModelCard[] = [];
+  const configs = await fg(CARD_GLOBS, { cwd: process.cwd(), ignore: IGNORE, onlyFiles: true });
+  for (const config of configs.sort()) {
+    if (isMscInfrastructure(config) || isPathDenied(config)) {
+      continue;
+    }
+    try {
+      const card = await readLocalModelCard(dirname(config), referencedIds);
+      if (card) {
+        cards.push(card);
+      }
+    } catch (error) {
+      warnings.push(`Unable to read model config ${config}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { inventory: buildInventory(references, cards), warnings };
+}
+
+export function scanHubReferences(path: string, content: string): HfReference[] {
+  const references: HfReference[] = [];
+  const kind: HfAnchor["kind"] = /\.mdx?$/i.test(path) ? "docs" : /\.(ya?ml|toml|cfg)$/i.test(path) || basename(path).startsWith("Dockerfile") ? "config" : "code";
+  content.split(/\r?\n/).forEach((text, index) => {
+    const anchor = { path, startLine: index + 1, endLine: index + 1, kind };
+    const seen = new Set<string>();
+    const isDefault = /default/i.test(text);
+    const push = (raw: string, type: HfReference["type"]) => {
+      const id = raw.replace(/[.]+$/, "");
+      if (!seen.has(id) && !FILE_LIKE.test(id) && !NON_REPO_PREFIXES.has(id.split("/")[0].toLowerCase())) {
+        seen.add(id);
+        references.push({ id, type, anchor, isDefault });
+      }
+    };
+
+    for (const match of text.matchAll(HUB_URL_PATTERN)) {
+      push(match[2].replace(/\.git$/, ""), match[1] ? "dataset" : "model");
+    }
+    if (!CONTEXT_PATTERN.test(text)) {
+      return;
+    }
+    for (const match of text.matchAll(CANDIDATE_PATTERN)) {
+      const id = match[1] ?? match[2];
+      if (!text.includes(`huggingface.co/${id}`) && !text.includes(`huggingface.co/datasets/${id}`)) {
+        push(id, DATASET_CONTEXT_PATTERN.test(text) && !/model/i.test(text) ? "dataset" : "model");
+      }
+    }
+  });
+  return references;
+}
+
+/**
+ * Reads a vendored model directory: transformers `config.json`, the sentence-transformers
+ * configs next to it and the README model card front matter. Returns null for config.json
+ * files that are not model configs.
+ */
+export async function readLocalModelCard(directory: string, referencedIds: Set<string> = new Set()): Promise<HfModelCard | null> {
+  const configPath = join(directory, "config.json");
+  const configRaw = await readFile(configPath, "utf8");
+  const config = JSON.parse(configRaw) as Record<string, unknown>;
+  if (!Array.isArray(config.architectures) && typeof config.model_type !== "string") {
+    return null;
+  }
+
+  const card: HfModelCard = { id: resolveModelId(directory, referencedIds), directory, datasets: [] };
+  const architecture = Array.isArray(config.architectures) ? String(config.architectures[0]) : String(config.model_type);
+  card.architecture = { value: architecture, anchor: anchorForKey(configPath, configRaw, Array.isArray(config.architectures) ? "architectures" : "model_type") };
+  const hidden = firstNumber(config, ["hidden_size", "d_model", "n_embd", "dim"]);
+  if (hidden) {
+    card.embeddingDimension = { value: hidden.value, anchor: anchorForKey(configPath, configRaw, hidden.key) };
+  }
+  const positions = firstNumber(config, ["max_position_embeddings", "n_positions", "max_seq_len"]);
+  if (positions) {
+    card.maxSequenceLength = { value: positions.value, anchor: anchorForKey(configPath, configRaw, positions.key) };
+  }
+
+  // sentence-transformers settings describe the served embedding and override the backbone config
+  const sbert = await readJsonIfExists(join(directory, "sentence_bert_config.json"));
+  if (sbert && typeof sbert.json.max_seq_length === "number") {
+    card.maxSequenceLength = { value: sbert.json.max_seq_length, anchor: anchorForKey(sbert.path, sbert.raw, "max_seq_length") };
+  }
+  const pooling = await readJsonIfExists(join(directory, "1_Pooling", "config.json"));
+  if (pooling && typeof pooling.json.word_embedding_dimension === "number") {
+    card.embeddingDimension = {
+      value: pooling.json.word_embedding_dimension,
+      anchor: anchorForKey(pooling.path, pooling.raw, "word_embedding_dimension")
+    };
+  }
+
+  const readmePath = join(directory, "README.md");
+  const readme = await readFile(readmePath, "utf8").catch(() => null);
+  const frontMatter = readme ? readFrontMatter(readme) : null;
+  if (readme && frontMatter) {
+    if (typeof frontMatter.license === "string") {
+      card.license = { value: frontMatter.license, anchor: anchorForYamlKey(readmePath, readme, "license") };
+    }
+    const datasets = Array.isArray(frontMatter.datasets) ? frontMatter.datasets : typeof frontMatter.datasets === "string" ? [frontMatter.datasets] : [];
+    const datasetsAnchor = anchorForYamlKey(readmePath, readme, "datasets");
+    datasets.filter((entry): entry is string => typeof entry === "string").forEach((id) => {
+      card.datasets.push({ id, type: "dataset", anchor: datasetsAnchor, isDefault: false });
+    });
+  }
+  return card;
+}
+
+function buildInventory(references: HfReference[], cards: HfModelCard[]): HfInventory {
+  const group = (type: HfReference["type"]) => {
+    const byId = new Map<string, HfReference[]>();
+    for (const reference of references.filter((entry) => entry.type === type)) {
+      byId.set(reference.id, [...(byId.get(reference.id) ?? []), reference]);
+    }
+    return byId;
+  };
+
+  // Defaults in library code say more about what the system runs than example lists in docs and tests
+  const siteWeight = (entry: HfReference) => (entry.anchor.kind === "docs" || isTestPath(entry.anchor.path) ? 1 : 3) + (entry.isDefault ? 5 : 0);
+  const weight = (entries: HfReference[]) => entries.reduce((sum, entry) => sum + siteWeight(entry), 0);
+  const models = [...group("model").entries()]
+    .sort(([leftId, left], [rightId, right]) => weight(right) - weight(left) || leftId.localeCompare(rightId))
+    .map(([id, entries]) => ({ id, references: [...entries].sort((a, b) => siteWeight(b) - siteWeight(a)).map((entry) => entry.anchor) }));
+
+  const datasetRefs = group("dataset");
+  for (const card of cards) {
+    for (const dataset of card.datasets) {
+      datasetRefs.set(dataset.id, [...(datasetRefs.get(dataset.id) ?? []), dataset]);
+    }
+  }
+  const datasets = [...datasetRefs.entries()]
+    .map(([id, entries]) => ({ id, references: entries.map((entry) => entry.anchor) }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  return { models, datasets, cards };
+}
+
+function isTestPath(path: string): boolean {
+  return /(^|\/)tests?\/|(^|\/)test_[^/]*$|_test\.py$|\.test\.[jt]s$/.test(path);
+}
+
+function resolveModelId(directory: string, referencedIds: Set<string>): string | null {
+  // HF cache layout: models--BAAI--bge-small-en-v1.5/snapshots/<sha>/config.json
+  const cached = directory.split("/").find((segment) => segment.startsWith("models--"));
+  if (cached) {
+    return cached.slice("models--".length).replace(/--/g, "/");
+  }
+  const tail = directory.split("/").slice(-2).join("/");
+  return referencedIds.has(tail) ? tail : null;
+}
+
+function firstNumber(record: Record<string, unknown>, keys: string[]): { key: string; value: number } | null {
+  for (const key of keys) {
+    if (typeof record[key] === "number") {
+      return { key, value: record[key] as number };
+    }
+  }
+  return null;
+}
+
+async function readJsonIfExists(path: string): Promise<{ path: string; raw: string; json: Record<string, unknown> } | null> {
+  try {
+    const raw = await readFile(path, "utf8");
+    return { path, raw, json: JSON.parse(raw) as Record<string, unknown> };
+  } catch {
+    return null;
+  }
+}
+
+function readFrontMatter(readme: string): Record<string, unknown> | null {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---/.exec(readme);
+  if (!match) {
+    return null;
+  }
+  const parsed = load(match[1]);
+  return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+}
+
+function anchorForKey(path: string, raw: string, key: string): HfAnchor {
+  return lineAnchor(path, raw, (line) => line.includes(`"${key}"`), "config");
+}
+
+function anchorForYamlKey(path: string, raw: string, key: string): HfAnchor {
+  return lineAnchor(path, raw, (line) => line.startsWith(`${key}:`), "docs");
+}
+
+function lineAnchor(path: string, raw: string, predicate: (line: string) => boolean, kind: HfAnchor["kind"]): HfAnchor {
+  const line = Math.max(1, raw.split(/\r?\n/).findIndex(predicate) + 1);
+  return { path, startLine: line, endLine: line, kind };
+}
+
+export function hubModelUri(id: string): string {
+  return `https://huggingface.co/${id}`;
+}
+
+export function hubDatasetUri(id: string): string {
+  return `https://huggingface.co/datasets/${id}`;
+}
@@ -7,6 +7,7 @@ import { glob } from "glob";
 import type { Anchor } from "lib/card/types.js";
 
 import { exec } from "../utils/exec.js";
+import { collectDependencyGraph } from "./dependencies.js";
 import { logger } from "../utils/logger.js";
 
 export interface RepositoryInsights {
@@ -58,7 +59,7 @@ export async function buildRepositoryInsights(input: {
       for (const file of dependencies.files) {
           if (file.endsWith("package.json")) {
              anchorMap["CODE#deps"] = [ ...(anchorMap["CODE#deps"] || []), await anchorForFile(file, "dependencies") ].filter(notNull);
-          } else if (file.endsWith("requirements.txt") || file.endsWith("environment.yaml") || file.endsWith("setup.py")) {
+          } else {
               // Anchor to the first highlight found in this file
               for (const dep of dependencies.highlights) {
                   const a = await anchorForFile(file, dep);
@@ -198,14 +199,15 @@ async function collectPolyglotDependencies(root: string): Promise<{ highlights:
     const highlights = new Set<string>();
     const files = [];
 
-    // Python: requirements.txt
-    if (await fs.stat(join(root, "requirements.txt")).catch(() => false)) {
-        files.push("requirements.txt");
-        const content = await fs.readFile("requirements.txt", "utf8");
-        content.split("\n").forEach(l => {
-            const name = l.split(/[=<>]/)[0].trim();
-            if (isSignificantDep(name)) highlights.add(name);
-        });
+    // Declared manifests anywhere in the repo (package.json, pyproject.toml, requirements*.txt, setup.cfg).
+    // Lockfiles are skipped: they list every transitive package, not what the project chose to depend on.
+    const graph = await collectDependencyGraph();
+    for (const manifest of graph.manifests) {
+        if (basename(manifest.path) === "poetry.lock") continue;
+        const significant = manifest.edges.filter(edge => isSignificantDep(edge.name));
+        if (significant.length === 0 && basename(manifest.path) !== "package.json") continue;
+        files.push(manifest.path);
+        significant.forEach(edge => highlights.add(edge.name));
     }
 
     // Python: environment.yaml (Conda)
@@ -233,20 +235,6 @@ async function collectPolyglotDependencies(root: string): Promise<{ highlights:
         } catch (e) { logger.warn("Failed to parse environment.yaml", { error: e }); }
     }
 
-    // Node: package.json
-    const packageJsons = await glob("**/package.json", { cwd: root, ignore: ["**/node_modules/**", "scripts/**"], maxDepth: 3 });
-    for (const pj of packageJsons) {
-        files.push(pj);
-        try {
-            const content = await fs.readFile(pj, "utf8");
-            const json = JSON.parse(content);
-            const allDeps = { ...json.dependencies, ...json.devDependencies };
-            Object.keys(allDeps).forEach(d => {
-                if (isSignificantDep(d)) highlights.add(d);
-            });
-        } catch {}
-    }
-
     // Python: setup.py (Naive regex)
     if (await fs.stat(join(root, "setup.py")).catch(() => false)) {
         files.push("setup.py");
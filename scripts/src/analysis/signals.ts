@@ -5,14 +5,23 @@ import fg from "fast-glob";
 import { load } from "js-yaml";
 
 import { logger } from "../utils/logger.js";
+import { collectApiSurface, type ApiSurface } from "./api_surface.js";
+import { collectBenchmarkReports, type BenchmarkReport } from "./benchmarks.js";
+import { collectHuggingFaceInventory, type HfInventory } from "./huggingface.js";
+import { COVERAGE_REPORT_GLOBS, parseCoverageReport, type CoverageSignal } from "./coverage.js";
 
 export interface RepositoryStaticSignals {
-  coverage: Array<{ type: string; percentage: number; source: string }>;
+  coverage: CoverageSignal[];
   openApiSpecs: Array<{ path: string; title?: string; version?: string }>;
+  /** Routes, error responses and auth schemes from OpenAPI specs, or FastAPI decorators when there is no spec. */
+  api: ApiSurface;
   metrics: Array<{ name: string; value: string; source: string }>;
+  /** Latency and throughput from pytest-benchmark JSON, locust/k6 CSV output and markdown result tables. */
+  benchmarks: BenchmarkReport[];
+  /** Hugging Face model/dataset ids referenced in source and docs, plus vendored model configs and cards. */
+  huggingFace: HfInventory;
 }
 
-const COVERAGE_GLOBS = ["**/coverage-summary.json", "**/lcov-report/index.html"];
 const OPENAPI_GLOBS = ["**/*openapi*.{json,yaml,yml}", "**/swagger*.{json,yaml,yml}"];
 const METRICS_CANDIDATES = ["docs/metrics.yaml", "docs/metrics.yml", "docs/metrics.json"];
 
@@ -21,44 +30,46 @@ export interface StaticSignalResult {
   warnings: string[];
 }
 
-export async function collectRepositoryStaticSignals(): Promise<StaticSignalResult> {
-  const warnings: string[] = [];
-  const signals: RepositoryStaticSignals = {
+export function createEmptyStaticSignals(): RepositoryStaticSignals {
+  return {
     coverage: [],
     openApiSpecs: [],
-    metrics: []
+    api: { source: null, routes: [], errors: [], authSchemes: [], version: null },
+    metrics: [],
+    benchmarks: [],
+    huggingFace: { models: [], datasets: [], cards: [] }
   };
+}
+
+export async function collectRepositoryStaticSignals(): Promise<StaticSignalResult> {
+  const warnings: string[] = [];
+  const signals = createEmptyStaticSignals();
 
   try {
-    const coverageMatches = await fg(COVERAGE_GLOBS, {
+    const coverageMatches = await fg(COVERAGE_REPORT_GLOBS, {
       cwd: process.cwd(),
       ignore: ["**/node_modules/**", "**/.git/**", "**/.next/**", "**/dist/**"],
       onlyFiles: true
     });
-    for (const match of coverageMatches) {
-      if (match.endsWith("coverage-summary.json")) {
-        try {
-          const raw = await readFile(match, "utf8");
-          const parsed = JSON.parse(raw) as {
-            total?: { lines?: { pct?: number }; statements?: { pct?: number } };
-          };
-          const pct = parsed.total?.lines?.pct ?? parsed.total?.statements?.pct;
-          if (typeof pct === "number") {
-            signals.coverage.push({ type: "lines", percentage: pct / 100, source: match });
-          }
-        } catch (error) {
-          warnings.push(`Unable to parse coverage summary ${match}: ${formatError(error)}`);
+    for (const match of coverageMatches.sort()) {
+      try {
+        const report = parseCoverageReport(match, await readFile(match, "utf8"));
+        if (report) {
+          signals.coverage.push(report);
+        } else {
+          warnings.push(`Skipped ${match}: not a recognised coverage report`);
         }
-      } else if (match.endsWith("index.html")) {
-        signals.coverage.push({ type: "lcov-report", percentage: 0, source: match });
+      } catch (error) {
+        warnings.push(`Unable to parse coverage report ${match}: ${formatError(error)}`);
       }
     }
   } catch (error) {
     warnings.push(`Coverage scan failed: ${formatError(error)}`);
   }
 
+  let openApiMatches: string[] = [];
   try {
-    const openApiMatches = await fg(OPENAPI_GLOBS, {
+    openApiMatches = await fg(OPENAPI_GLOBS, {
       cwd: process.cwd(),
       ignore: ["**/node_modules/**", "**/.git/**"],
       onlyFiles: true
@@ -78,6 +89,14 @@ export async function collectRepositoryStaticSignals(): Promise<StaticSignalResu
     warnings.push(`OpenAPI scan failed: ${formatError(error)}`);
   }
 
+  try {
+    const { surface, warnings: apiWarnings } = await collectApiSurface(openApiMatches);
+    signals.api = surface;
+    warnings.push(...apiWarnings);
+  } catch (error) {
+    warnings.push(`API surface scan failed: ${formatError(error)}`);
+  }
+
   for (const candidate of METRICS_CANDIDATES) {
     try {
       const raw = await readFile(candidate, "utf8");
@@ -91,10 +110,26 @@ export async function collectRepositoryStaticSignals(): Promise<StaticSignalResu
     }
   }
 
+  try {
+    const { reports, warnings: benchmarkWarnings } = await collectBenchmarkReports();
+    signals.benchmarks = reports;
+    warnings.push(...benchmarkWarnings);
+  } catch (error) {
+    warnings.push(`Benchmark scan failed: ${formatError(error)}`);
+  }
+
+  try {
+    const { inventory, warnings: hubWarnings } = await collectHuggingFaceInventory();
+    signals.huggingFace = inventory;
+    warnings.push(...hubWarnings);
+  } catch (error) {
+    warnings.push(`Hugging Face scan failed: ${formatError(error)}`);
+  }
+
   if (signals.coverage.length === 0) {
-    warnings.push("No coverage signals detected. Provide coverage-summary.json to unlock coverage-aware prompts.");
+    warnings.push("No coverage signals detected. Provide coverage.xml, lcov.info, coverage.json or coverage-summary.json to unlock coverage-aware prompts.");
   }
-  if (signals.openApiSpecs.length === 0) {
+  if (signals.openApiSpecs.length === 0 && signals.api.routes.length === 0) {
     warnings.push("No OpenAPI specs detected. Place openapi.yaml near service entrypoints to surface integration facts.");
   }
 
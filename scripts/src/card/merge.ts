@@ -0,0 +1,66 @@
+import { isDeepStrictEqual } from "node:util";
+
+import type { Fact, MergeConflict } from "lib/card/types.js";
+
+export interface ThreeWayMergeResult {
+  /** Facts that merge cleanly and may be patched into the current card. */
+  facts: Fact[];
+  conflicts: MergeConflict[];
+  /** Paths the proposal left at the base value while the card moved on; the card's edit is kept. */
+  keptCurrent: string[];
+}
+
+/**
+ * Three-way merge of each accepted fact: base (the fact's `currentValue`, the card value the
+ * proposal was generated from), the card at apply time, and the proposal. A path the card
+ * changed since generation conflicts unless both sides agree, and a path only the card
+ * changed keeps the card's value. `meta.baseSha` is the run's diff base, which need not be
+ * the card it read, so it cannot serve as the merge base.
+ */
+export function threeWayMerge(facts: Fact[], currentCard: unknown): ThreeWayMergeResult {
+  const merged: Fact[] = [];
+  const conflicts: MergeConflict[] = [];
+  const keptCurrent: string[] = [];
+
+  for (const fact of facts) {
+    if (!fact.jsonPointer) {
+      merged.push(fact);
+      continue;
+    }
+    // An unset currentValue (dropped from the JSON) means the field was empty at generation
+    const base = fact.currentValue;
+    const current = valueAtPointer(currentCard, fact.jsonPointer);
+
+    if (sameValue(current, base) || sameValue(current, fact.proposedValue)) {
+      merged.push(fact);
+    } else if (sameValue(fact.proposedValue, base)) {
+      keptCurrent.push(fact.jsonPath);
+    } else {
+      conflicts.push({
+        jsonPath: fact.jsonPath,
+        jsonPointer: fact.jsonPointer,
+        base: base ?? null,
+        current: current ?? null,
+        proposed: fact.proposedValue ?? null
+      });
+    }
+  }
+
+  return { facts: merged, conflicts, keptCurrent };
+}
+
+/** Missing and null are the same to the card: seeding and repair fill absent fields with null. */
+function sameValue(a: unknown, b: unknown): boolean {
+  return isDeepStrictEqual(a ?? null, b ?? null);
+}
+
+function valueAtPointer(value: unknown, pointer: string): unknown {
+  let cursor = value;
+  for (const segment of pointer.split("/").slice(1)) {
+    if (!cursor || typeof cursor !== "object") {
+      return undefined;
+    }
+    cursor = (cursor as Record<string, unknown>)[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return cursor;
+}
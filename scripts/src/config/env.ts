@@ -1,14 +1,50 @@
-import { DEFAULT_LLM_SETTINGS, DEFAULT_RATE_LIMITS, LLM_ENV_VARIABLES } from "../constants.js";
+import {
+  DEFAULT_LLM_SETTINGS,
+  DEFAULT_RATE_LIMITS,
+  DEFAULT_TOOL_LOOP_LIMITS,
+  LLM_ENV_VARIABLES,
+  LLM_FIXTURES_DIR
+} from "../constants.js";
+import { resolveModelPricing } from "../llm/pricing.js";
+
+export type LlmPassName = keyof typeof LLM_ENV_VARIABLES.routes;
+
+export type LlmRecordMode = "off" | "record" | "replay";
+
+export interface LlmModelTarget {
+  provider: string;
+  model: string;
+  apiKey: string | null;
+  baseUrl: string | null;
+}
 
 export interface LlmRuntimeConfig {
   enabled: boolean;
   dryRun: boolean;
   privacyMode: boolean;
   cacheEnabled: boolean;
+  streaming: boolean;
   apiKey: string | null;
   baseUrl: string | null;
   provider: string | null;
   model: string | null;
+  routes: Partial<Record<LlmPassName, LlmModelTarget[]>>;
+  /** Prompt version per pass ("v2" → prompts/<pass>.v2.md); passes without one use v1. */
+  promptVersions: Partial<Record<LlmPassName, string>>;
+  fallbackChain: LlmModelTarget[];
+  recording: {
+    mode: LlmRecordMode;
+    fixturesDir: string;
+  };
+  tools: {
+    enabled: boolean;
+    maxCalls: number;
+    maxTokens: number;
+  };
+  budget: {
+    maxCostUsd: number | null;
+    maxTotalTokens: number | null;
+  };
   sampling: typeof DEFAULT_LLM_SETTINGS;
   rateLimits: typeof DEFAULT_RATE_LIMITS;
 }
@@ -20,21 +56,140 @@ function parseBoolean(value: string | undefined, fallback: boolean): boolean {
   return value === "1" || value.toLowerCase() === "true";
 }
 
+/**
+ * Parse a comma-separated list of `provider:model` entries. A bare `model` uses the primary
+ * provider. Credentials come from `LLM_API_KEY_<PROVIDER>` / `LLM_BASE_URL_<PROVIDER>`, falling
+ * back to the primary key, and to the primary base URL only for the primary provider.
+ */
+function parseModelTargets(value: string | undefined, env: NodeJS.ProcessEnv): LlmModelTarget[] {
+  if (!value) {
+    return [];
+  }
+  const primaryProvider = (env[LLM_ENV_VARIABLES.provider] ?? "openai").toLowerCase();
+  const targets: LlmModelTarget[] = [];
+  for (const entry of value.split(",")) {
+    const trimmed = entry.trim();
+    if (!trimmed) {
+      continue;
+    }
+    const separator = trimmed.indexOf(":");
+    const provider = separator > 0 ? trimmed.slice(0, separator).toLowerCase() : primaryProvider;
+    const model = separator > 0 ? trimmed.slice(separator + 1) : trimmed;
+    const suffix = provider.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+    targets.push({
+      provider,
+      model,
+      apiKey: env[`${LLM_ENV_VARIABLES.providerApiKeyPrefix}${suffix}`] ?? env[LLM_ENV_VARIABLES.apiKey] ?? null,
+      baseUrl:
+        env[`${LLM_ENV_VARIABLES.providerBaseUrlPrefix}${suffix}`] ??
+        (provider === primaryProvider ? env[LLM_ENV_VARIABLES.baseUrl] ?? null : null)
+    });
+  }
+  return targets;
+}
+
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function parseOptionalLimit(name: string, value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number (got "${value}")`);
+  }
+  return parsed;
+}
+
+function parsePromptVersion(name: string, value: string | undefined): string | null {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+  if (!/^v\d+$/.test(normalized)) {
+    throw new Error(`${name} must look like "v2" (got "${value}")`);
+  }
+  return normalized;
+}
+
+function parseRecordMode(value: string | undefined): LlmRecordMode {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized || normalized === "off") {
+    return "off";
+  }
+  if (normalized === "record" || normalized === "replay") {
+    return normalized;
+  }
+  throw new Error(`${LLM_ENV_VARIABLES.recordMode} must be "record", "replay" or "off" (got "${value}")`);
+}
+
 export function resolveLlmRuntimeConfig(env: NodeJS.ProcessEnv = process.env): LlmRuntimeConfig {
   const enabled = parseBoolean(env[LLM_ENV_VARIABLES.enabled], false);
   const dryRun = parseBoolean(env[LLM_ENV_VARIABLES.dryRun], true);
   const privacyMode = parseBoolean(env[LLM_ENV_VARIABLES.privacyMode], false);
   const cacheEnabled = parseBoolean(env["LLM_CACHE_ENABLED"], true);
+  const streaming = parseBoolean(env[LLM_ENV_VARIABLES.stream], false);
+
+  const routes: LlmRuntimeConfig["routes"] = {};
+  for (const [pass, variable] of Object.entries(LLM_ENV_VARIABLES.routes) as Array<[LlmPassName, string]>) {
+    const targets = parseModelTargets(env[variable], env);
+    if (targets.length > 0) {
+      routes[pass] = targets;
+    }
+  }
+
+  const promptVersions: LlmRuntimeConfig["promptVersions"] = {};
+  for (const [pass, variable] of Object.entries(LLM_ENV_VARIABLES.promptVersions) as Array<[LlmPassName, string]>) {
+    const version = parsePromptVersion(variable, env[variable]);
+    if (version) {
+      promptVersions[pass] = version;
+    }
+  }
+
+  const fallbackChain = parseModelTargets(env[LLM_ENV_VARIABLES.fallbackChain], env);
+  const budget = {
+    maxCostUsd: parseOptionalLimit(LLM_ENV_VARIABLES.maxCostUsd, env[LLM_ENV_VARIABLES.maxCostUsd]),
+    maxTotalTokens: parseOptionalLimit(LLM_ENV_VARIABLES.maxTotalTokens, env[LLM_ENV_VARIABLES.maxTotalTokens])
+  };
+  if (enabled && budget.maxCostUsd !== null) {
+    // A cost limit cannot be enforced for a model without a price, so refuse it up front
+    const targets = [...Object.values(routes).flatMap((entries) => entries ?? []), ...fallbackChain];
+    const models = [env[LLM_ENV_VARIABLES.model] ?? "", ...targets.map((target) => target.model)].filter(Boolean);
+    const unpriced = [...new Set(models.filter((model) => !resolveModelPricing(model)))];
+    if (unpriced.length > 0) {
+      throw new Error(
+        `${LLM_ENV_VARIABLES.maxCostUsd} is set but no price is known for ${unpriced.join(", ")}; ` +
+          `add it to the pricing table in src/llm/pricing.ts or limit tokens with ${LLM_ENV_VARIABLES.maxTotalTokens} instead`
+      );
+    }
+  }
 
   return {
     enabled,
     dryRun,
     privacyMode,
     cacheEnabled,
+    streaming,
     apiKey: env[LLM_ENV_VARIABLES.apiKey] ?? null,
     baseUrl: env[LLM_ENV_VARIABLES.baseUrl] ?? null,
     provider: env[LLM_ENV_VARIABLES.provider] ?? null,
     model: env[LLM_ENV_VARIABLES.model] ?? null,
+    routes,
+    fallbackChain,
+    promptVersions,
+    recording: {
+      mode: parseRecordMode(env[LLM_ENV_VARIABLES.recordMode]),
+      fixturesDir: env[LLM_ENV_VARIABLES.fixturesDir] ?? LLM_FIXTURES_DIR
+    },
+    tools: {
+      enabled: parseBoolean(env[LLM_ENV_VARIABLES.toolCalling], false),
+      maxCalls: parseNonNegativeInt(env[LLM_ENV_VARIABLES.toolMaxCalls], DEFAULT_TOOL_LOOP_LIMITS.maxCalls),
+      maxTokens: parseNonNegativeInt(env[LLM_ENV_VARIABLES.toolMaxTokens], DEFAULT_TOOL_LOOP_LIMITS.maxTokens)
+    },
+    budget,
     sampling: DEFAULT_LLM_SETTINGS,
     rateLimits: DEFAULT_RATE_LIMITS
   };
@@ -3,9 +3,12 @@ import { join } from "node:path";
 const PROPOSALS_OVERRIDE = process.env.ML_SYSTEM_CARD_PROPOSALS_DIR;
 const ANALYSIS_OVERRIDE = process.env.ML_SYSTEM_CARD_ANALYSIS_DIR;
 const ANALYSIS_CACHE_OVERRIDE = process.env.ML_SYSTEM_CARD_ANALYSIS_CACHE_PATH;
+const LLM_CACHE_OVERRIDE = process.env.ML_SYSTEM_CARD_LLM_CACHE_DIR;
 
 export const CARD_PATH = "docs/ml_system_card.yaml";
 export const ANCHORS_PATH = "docs/ml_system_card.anchors.json";
+export const STAKEHOLDERS_PATH = "docs/stakeholders.yaml";
+export const POLICY_PATH = "docs/msc-policy.yaml";
 export const PROPOSALS_DIR = PROPOSALS_OVERRIDE ?? "docs/.proposals";
 export const DECISIONS_SUFFIX = ".decisions.json";
 export const MICRO_RECEIPTS_DIR = "docs/.card_runs";
@@ -20,6 +23,10 @@ export const MAX_CARD_GROWTH_RATIO = 3;
 
 export const ANALYSIS_DIR = ANALYSIS_OVERRIDE ?? "docs/.analysis";
 export const ANALYSIS_CACHE_PATH = ANALYSIS_CACHE_OVERRIDE ?? join(ANALYSIS_DIR, "cache.json");
+export const SEARCH_INDEX_PATH = join(ANALYSIS_DIR, "search-index.json");
+export const LLM_CACHE_DIR = LLM_CACHE_OVERRIDE ?? join(".cache", "llm");
+export const LLM_FIXTURES_DIR = join(".cache", "llm-fixtures");
+export const PROMPT_EVALS_DIR = join("docs", ".evals");
 export const EXTRACTOR_ARTIFACT_SUFFIX = ".extractor.json";
 export const REASONER_ARTIFACT_SUFFIX = ".reasoner.json";
 export const NOTES_ARTIFACT_SUFFIX = ".notes.json";
@@ -31,7 +38,39 @@ export const LLM_ENV_VARIABLES = {
 	model: "LLM_MODEL",
 	enabled: "LLM_ENABLED",
 	dryRun: "LLM_DRY_RUN",
-	privacyMode: "LLM_PRIVACY_MODE"
+	privacyMode: "LLM_PRIVACY_MODE",
+	stream: "LLM_STREAM",
+	// Extractor tool calling (repoSearch / astSummary on demand) and its per-pass budget. Off by
+	// default: every tool round resends the conversation and is not streamed; only the final
+	// answer round streams.
+	toolCalling: "LLM_TOOL_CALLING",
+	toolMaxCalls: "LLM_TOOL_MAX_CALLS",
+	toolMaxTokens: "LLM_TOOL_MAX_TOKENS",
+	// Run-wide ceilings shared by all passes; unset means unlimited
+	maxCostUsd: "LLM_MAX_COST_USD",
+	maxTotalTokens: "LLM_MAX_TOTAL_TOKENS",
+	// "record" saves every live request/response pair as a fixture; "replay" serves them offline
+	recordMode: "LLM_RECORD_MODE",
+	fixturesDir: "LLM_FIXTURES_DIR",
+	// Ordered "provider:model" lists, comma separated. Per-pass routes replace the primary
+	// model for that pass; the fallback chain is appended to every pass.
+	fallbackChain: "LLM_FALLBACK_CHAIN",
+	routes: {
+		extractor: "LLM_ROUTE_EXTRACTOR",
+		reasoner: "LLM_ROUTE_REASONER",
+		verifier: "LLM_ROUTE_VERIFIER",
+		notes: "LLM_ROUTE_NOTES"
+	},
+	// Prompt version per pass, e.g. "v2" loads prompts/extractor.v2.md; unset means v1
+	promptVersions: {
+		extractor: "LLM_PROMPT_EXTRACTOR",
+		reasoner: "LLM_PROMPT_REASONER",
+		verifier: "LLM_PROMPT_VERIFIER",
+		notes: "LLM_PROMPT_NOTES"
+	},
+	// Suffixed with the upper-cased provider id, e.g. LLM_API_KEY_ANTHROPIC
+	providerApiKeyPrefix: "LLM_API_KEY_",
+	providerBaseUrlPrefix: "LLM_BASE_URL_"
 } as const;
 
 // GPT-5.1 Specs: 400k nominal context, 272k API-configured limit, 128k output
@@ -72,12 +111,30 @@ export const DEFAULT_LLM_SETTINGS = {
 	}
 } as const;
 
+export const DEFAULT_TOOL_LOOP_LIMITS = {
+	maxCalls: 8,
+	// Estimated tokens of tool output fed back to the model
+	maxTokens: 24000
+} as const;
+
 export const DEFAULT_RATE_LIMITS = {
 	maxParallel: 2,
+	// Estimated request tokens admitted per minute (provider limit is 30k; keep headroom)
+	tokensPerMinute: 20000,
+	// Minimum spacing between request starts, plus up to jitterMs of random delay
 	baseDelayMs: 250,
 	jitterMs: 100
 } as const;
 
+export const SEARCH_ENV_VARIABLES = {
+	// "1" ranks repoSearch hits from the local index in SEARCH_INDEX_PATH instead of scanning for substrings
+	index: "REPO_SEARCH_INDEX",
+	// OpenAI-compatible embeddings endpoint (e.g. a local Infinity server); unset means BM25 only
+	embeddingsUrl: "REPO_SEARCH_EMBEDDINGS_URL",
+	embeddingsModel: "REPO_SEARCH_EMBEDDINGS_MODEL",
+	embeddingsApiKey: "REPO_SEARCH_EMBEDDINGS_API_KEY"
+} as const;
+
 export const FEATURE_FLAGS = {
 	llmEnabled: "LLM_ENABLED",
 	llmDryRun: "LLM_DRY_RUN"
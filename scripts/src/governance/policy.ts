@@ -0,0 +1,189 @@
+import { load } from "js-yaml";
+import type { Anchor, Decision, Fact, Gate, PolicyDecisionRecord } from "lib/card/types.js";
+
+import { anchorKind } from "../analysis/history.js";
+import { POLICY_PATH } from "../constants.js";
+import { readTextFile } from "../utils/fs.js";
+import { fieldPathMatches } from "./signoffs.js";
+
+type SourceKind = Fact["source"]["kind"];
+type AnchorKind = NonNullable<Anchor["kind"]>;
+
+export interface PolicyMatch {
+  jsonPaths?: string[];
+  gates?: Gate[];
+  sourceKinds?: SourceKind[];
+  /** Inclusive bounds. */
+  confidence?: { min?: number; max?: number };
+  /** Every anchor of the fact must have one of these kinds (and it needs at least one). */
+  anchorKinds?: AnchorKind[];
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  match: PolicyMatch;
+  decision: "accept" | "reject" | "lock";
+}
+
+/** A decision produced by a rule rather than a reviewer. */
+export interface PolicyDecision {
+  ruleId: string;
+  decision: Decision;
+}
+
+const GATES: Gate[] = ["OK", "Warn", "Require"];
+const SOURCE_KINDS: SourceKind[] = ["extracted", "inferred", "manual"];
+const ANCHOR_KINDS: AnchorKind[] = ["code", "openapi", "metrics", "docs", "config", "test"];
+const RULE_KEYS = new Set(["id", "description", "match", "decision"]);
+const MATCH_KEYS = new Set(["json_path", "gate", "source_kind", "confidence", "anchor_kind"]);
+
+/**
+ * Rules from docs/msc-policy.yaml; none when the file is absent. A malformed file is an
+ * error rather than an empty policy, because a misspelt condition would widen a rule.
+ */
+export async function loadPolicy(path = POLICY_PATH): Promise<PolicyRule[]> {
+  const raw = await readTextFile(path);
+  return raw ? parsePolicy(raw, path) : [];
+}
+
+export function parsePolicy(raw: string, path = POLICY_PATH): PolicyRule[] {
+  const document = load(raw) as { rules?: unknown } | null | undefined;
+  if (document === null || document === undefined) {
+    return [];
+  }
+  if (typeof document !== "object" || !Array.isArray(document.rules)) {
+    throw new Error(`${path}: expected a top-level "rules" list`);
+  }
+
+  const ids = new Set<string>();
+  return document.rules.map((entry: unknown, index: number) => {
+    const where = `${path}: rules[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`${where} must be a mapping`);
+    }
+    const rule = entry as Record<string, unknown>;
+    rejectUnknownKeys(rule, RULE_KEYS, where);
+    if (typeof rule.id !== "string" || !rule.id || ids.has(rule.id)) {
+      throw new Error(`${where} needs a unique string id`);
+    }
+    ids.add(rule.id);
+    if (rule.decision !== "accept" && rule.decision !== "reject" && rule.decision !== "lock") {
+      throw new Error(`${where} (${rule.id}): decision must be accept, reject or lock`);
+    }
+    if (!rule.match || typeof rule.match !== "object") {
+      throw new Error(`${where} (${rule.id}): match is required`);
+    }
+    return {
+      id: rule.id,
+      description: typeof rule.description === "string" ? rule.description : undefined,
+      match: parseMatch(rule.match as Record<string, unknown>, `${where} (${rule.id})`),
+      decision: rule.decision
+    };
+  });
+}
+
+function parseMatch(match: Record<string, unknown>, where: string): PolicyMatch {
+  rejectUnknownKeys(match, MATCH_KEYS, `${where}.match`);
+  const parsed: PolicyMatch = {};
+  if (match.json_path !== undefined) {
+    parsed.jsonPaths = toList(match.json_path, `${where}.match.json_path`, (value): value is string => typeof value === "string" && value.startsWith("$"));
+  }
+  if (match.gate !== undefined) {
+    parsed.gates = toList(match.gate, `${where}.match.gate`, (value): value is Gate => GATES.includes(value as Gate));
+  }
+  if (match.source_kind !== undefined) {
+    parsed.sourceKinds = toList(match.source_kind, `${where}.match.source_kind`, (value): value is SourceKind =>
+      SOURCE_KINDS.includes(value as SourceKind)
+    );
+  }
+  if (match.anchor_kind !== undefined) {
+    parsed.anchorKinds = toList(match.anchor_kind, `${where}.match.anchor_kind`, (value): value is AnchorKind =>
+      ANCHOR_KINDS.includes(value as AnchorKind)
+    );
+  }
+  if (match.confidence !== undefined) {
+    const range = match.confidence as Record<string, unknown>;
+    const bound = (value: unknown) => value === undefined || (typeof value === "number" && value >= 0 && value <= 1);
+    if (!range || typeof range !== "object" || !bound(range.min) || !bound(range.max) || Object.keys(range).some((key) => key !== "min" && key !== "max")) {
+      throw new Error(`${where}.match.confidence must be { min, max } with values between 0 and 1`);
+    }
+    parsed.confidence = { min: range.min as number | undefined, max: range.max as number | undefined };
+  }
+  return parsed;
+}
+
+export function ruleMatches(rule: PolicyRule, fact: Fact): boolean {
+  const { match } = rule;
+  if (match.jsonPaths && !match.jsonPaths.some((pattern) => fieldPathMatches(pattern, fact.jsonPath))) {
+    return false;
+  }
+  if (match.gates && !match.gates.includes(fact.gate)) {
+    return false;
+  }
+  if (match.sourceKinds && !match.sourceKinds.includes(fact.source.kind)) {
+    return false;
+  }
+  if (match.confidence) {
+    const { min = 0, max = 1 } = match.confidence;
+    if (fact.confidence < min || fact.confidence > max) {
+      return false;
+    }
+  }
+  if (match.anchorKinds) {
+    const kinds = fact.repoSources.map((anchor) => anchor.kind ?? anchorKind(anchor.path));
+    if (kinds.length === 0 || !kinds.every((kind) => match.anchorKinds!.includes(kind!))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** The first matching rule decides each fact; facts no rule matches are left to reviewers. */
+export function evaluatePolicy(facts: Fact[], rules: PolicyRule[]): PolicyDecision[] {
+  return facts.flatMap((fact) => {
+    const rule = rules.find((candidate) => ruleMatches(candidate, fact));
+    if (!rule) {
+      return [];
+    }
+    const decision: Decision =
+      rule.decision === "lock" ? { jsonPath: fact.jsonPath, decision: "accept", lock: true } : { jsonPath: fact.jsonPath, decision: rule.decision };
+    return [{ ruleId: rule.id, decision }];
+  });
+}
+
+/**
+ * Policy decisions overlaid with the reviewers' decisions, which always win for the same
+ * path. `applied` lists the policy decisions that survived, for the micro receipt.
+ */
+export function mergePolicyDecisions(
+  policy: PolicyDecision[],
+  manual: Decision[]
+): { decisions: Decision[]; applied: PolicyDecisionRecord[] } {
+  const decided = new Set(manual.map((decision) => decision.jsonPath));
+  const automatic = policy.filter((entry) => !decided.has(entry.decision.jsonPath));
+  return {
+    decisions: [...automatic.map((entry) => entry.decision), ...manual],
+    applied: automatic.map((entry) => ({
+      path: entry.decision.jsonPath,
+      rule: entry.ruleId,
+      decision: entry.decision.decision === "reject" ? "reject" : "accept",
+      ...(entry.decision.lock ? { lock: true } : {})
+    }))
+  };
+}
+
+function rejectUnknownKeys(value: Record<string, unknown>, allowed: Set<string>, where: string): void {
+  const unknown = Object.keys(value).filter((key) => !allowed.has(key));
+  if (unknown.length > 0) {
+    throw new Error(`${where}: unknown key${unknown.length === 1 ? "" : "s"} ${unknown.join(", ")}`);
+  }
+}
+
+function toList<T>(value: unknown, where: string, valid: (item: unknown) => item is T): T[] {
+  const list = Array.isArray(value) ? value : [value];
+  if (list.length === 0 || !list.every(valid)) {
+    throw new Error(`${where} has an invalid value: ${JSON.stringify(value)}`);
+  }
+  return list;
+}
@@ -0,0 +1,177 @@
+import { isDeepStrictEqual } from "node:util";
+
+import { load } from "js-yaml";
+import type { Decision, Fact, RequiredSignOff, SignOff } from "lib/card/types.js";
+
+import { matchCodeowners, readCodeowners, type CodeownersRule } from "../analysis/history.js";
+import { CARD_PATH, STAKEHOLDERS_PATH } from "../constants.js";
+import { readTextFile } from "../utils/fs.js";
+import { logger } from "../utils/logger.js";
+
+export interface StakeholderProfile {
+  id: string;
+  title: string;
+  roles: string[];
+  fieldPaths: string[];
+  watchPaths: string[];
+  /** GitHub handles allowed to decide on this stakeholder's `field_paths` from PR comments. */
+  members?: string[];
+}
+
+export const CODE_OWNER_ROLE = "Code Owner";
+
+export async function loadStakeholders(path = STAKEHOLDERS_PATH): Promise<StakeholderProfile[]> {
+  const raw = await readTextFile(path);
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = load(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object" && typeof entry.id === "string")
+      .map((entry) => ({
+        id: entry.id as string,
+        title: typeof entry.title === "string" ? entry.title : (entry.id as string),
+        roles: toStringList(entry.roles),
+        fieldPaths: toStringList(entry.field_paths),
+        watchPaths: toStringList(entry.watch_paths),
+        members: toStringList(entry.members)
+      }));
+  } catch (error) {
+    logger.warn("Failed to parse stakeholders; no sign-offs will be required", { path, error });
+    return [];
+  }
+}
+
+/** "$.mlCore.training.hyperparams" -> "$.mlCore" */
+export function sectionOf(jsonPath: string): string {
+  const match = jsonPath.match(/^\$\.([^.[]+)/);
+  return match ? `$.${match[1]}` : jsonPath;
+}
+
+/**
+ * Whether a stakeholders.yaml field path (`$.mlCore.*`, `$.mlCore.qualities[*]`,
+ * `$.nonFunctional.reliability`) covers a changed card path. A change to a parent
+ * (`$.mlCore`) touches everything below it, so it is covered as well.
+ */
+export function fieldPathCovers(pattern: string, jsonPath: string): boolean {
+  if (fieldPathMatches(pattern, jsonPath)) {
+    return true;
+  }
+  const staticPrefix = pattern.split(/\[\*\]|\.\*/)[0];
+  return staticPrefix.startsWith(jsonPath) && /^(?:$|[.[])/.test(staticPrefix.slice(jsonPath.length));
+}
+
+/** Whether `jsonPath` is the field path itself or lies below it; parents do not match. */
+export function fieldPathMatches(pattern: string, jsonPath: string): boolean {
+  const body = pattern
+    .replace(/(\.\*|\[\*\])$/, "")
+    .split(/(\[\*\]|\.\*)/)
+    .map((part) => (part === "[*]" ? "\\[\\d+\\]" : part === ".*" ? "\\.[^.[]+" : part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${body}(?:$|[.[])`).test(jsonPath);
+}
+
+/**
+ * Sign-offs a proposal needs before apply may merge it: one per stakeholder whose
+ * `field_paths` cover a changed section, plus a code-owner sign-off for sections
+ * whose card file or evidence is covered by CODEOWNERS.
+ */
+export function deriveRequiredSignOffs(
+  facts: Fact[],
+  stakeholders: StakeholderProfile[],
+  codeowners: CodeownersRule[]
+): RequiredSignOff[] {
+  const changed = facts.filter((fact) => !isDeepStrictEqual(fact.currentValue, fact.proposedValue));
+  const required = new Map<string, RequiredSignOff>();
+  const require = (key: string, create: () => RequiredSignOff, jsonPath: string) => {
+    const entry = required.get(key) ?? create();
+    if (!entry.jsonPaths.includes(jsonPath)) {
+      entry.jsonPaths.push(jsonPath);
+    }
+    required.set(key, entry);
+  };
+
+  const cardOwners = matchCodeowners(codeowners, CARD_PATH)?.owners ?? [];
+  for (const fact of changed) {
+    const section = sectionOf(fact.jsonPath);
+    for (const stakeholder of stakeholders) {
+      if (stakeholder.fieldPaths.some((pattern) => fieldPathCovers(pattern, fact.jsonPath))) {
+        const role = stakeholder.roles[0] ?? stakeholder.title;
+        require(`${section}|${stakeholder.id}`, () => ({ section, role, stakeholderId: stakeholder.id, jsonPaths: [] }), fact.jsonPath);
+      }
+    }
+
+    const owners = new Set(cardOwners);
+    for (const anchor of fact.repoSources) {
+      matchCodeowners(codeowners, anchor.path)?.owners.forEach((owner) => owners.add(owner));
+    }
+    if (owners.size > 0) {
+      const key = `${section}|${CODE_OWNER_ROLE}`;
+      require(key, () => ({ section, role: CODE_OWNER_ROLE, owners: [], jsonPaths: [] }), fact.jsonPath);
+      const entry = required.get(key)!;
+      entry.owners = [...new Set([...(entry.owners ?? []), ...owners])].sort();
+    }
+  }
+
+  return [...required.values()]
+    .map((entry) => ({ ...entry, jsonPaths: entry.jsonPaths.sort() }))
+    .sort((a, b) => a.section.localeCompare(b.section) || a.role.localeCompare(b.role));
+}
+
+export async function buildRequiredSignOffs(facts: Fact[]): Promise<RequiredSignOff[]> {
+  const [stakeholders, codeowners] = await Promise.all([loadStakeholders(), readCodeowners()]);
+  return deriveRequiredSignOffs(facts, stakeholders, codeowners);
+}
+
+/** The decision whose sign-off satisfies `required`, if any. */
+export function findSignOff(required: RequiredSignOff, decisions: Decision[]): Decision | undefined {
+  return decisions.find((decision) => {
+    if (!decision.signOff || decision.decision === "reject" || sectionOf(decision.jsonPath) !== required.section) {
+      return false;
+    }
+    if (required.owners && required.owners.length > 0) {
+      const name = normalizeHandle(decision.signOff.name);
+      return required.owners.some((owner) => normalizeHandle(owner) === name);
+    }
+    const role = decision.signOff.role.toLowerCase();
+    return role === required.role.toLowerCase() || role === required.stakeholderId;
+  });
+}
+
+export function findMissingSignOffs(required: RequiredSignOff[], decisions: Decision[]): RequiredSignOff[] {
+  return required.filter((entry) => !findSignOff(entry, decisions));
+}
+
+/** Drops facts in sections that still lack a required sign-off; apply merges the rest. */
+export function holdUnsignedSections(
+  facts: Fact[],
+  required: RequiredSignOff[],
+  decisions: Decision[]
+): { facts: Fact[]; missing: RequiredSignOff[]; heldSections: string[] } {
+  const missing = findMissingSignOffs(required, decisions);
+  const held = new Set(missing.map((entry) => entry.section));
+  return {
+    facts: facts.filter((fact) => !held.has(sectionOf(fact.jsonPath))),
+    missing,
+    heldSections: [...held].sort()
+  };
+}
+
+/** Sign-offs recorded in `decisions` for the given sections, for governance.signOffs in the card. */
+export function collectSignOffs(decisions: Decision[], sections: Set<string>): SignOff[] {
+  return decisions
+    .filter((decision) => decision.signOff && decision.decision !== "reject" && sections.has(sectionOf(decision.jsonPath)))
+    .map((decision) => decision.signOff!);
+}
+
+export function normalizeHandle(value: string): string {
+  return value.trim().replace(/^@/, "").toLowerCase();
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
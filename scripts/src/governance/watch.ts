@@ -0,0 +1,141 @@
+import type { Fact } from "lib/card/types.js";
+
+import type { CardSeed } from "../card/seed.js";
+import { fieldPathCovers, fieldPathMatches, type StakeholderProfile } from "./signoffs.js";
+
+/** An incremental run's regeneration scope, handed to each LLM pass. */
+export interface StakeholderScope {
+  affected: string[];
+  stakeholders: StakeholderProfile[];
+}
+
+/** Deterministic run bookkeeping that every run records, whichever stakeholders were affected. */
+const ALWAYS_REGENERATED = ["$.provenance.changelog"];
+
+/** Stakeholder id -> changed files that matched one of its `watch_paths`; unaffected stakeholders are absent. */
+function matchWatchPaths(files: string[], stakeholders: StakeholderProfile[]): Record<string, string[]> {
+  const matches: Record<string, string[]> = {};
+  for (const stakeholder of stakeholders) {
+    const patterns = stakeholder.watchPaths.map(watchPatternToRegExp);
+    const matched = files.filter((file) => patterns.some((pattern) => pattern.test(file)));
+    if (matched.length > 0) {
+      matches[stakeholder.id] = matched;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Stakeholder ids whose sections an incremental run regenerates, or null to regenerate
+ * everything: when no stakeholder has `watch_paths`, or when a changed file matches none of
+ * them, since nobody can say which sections that file feeds.
+ */
+export function resolveStakeholderScope(files: string[], stakeholders: StakeholderProfile[]): string[] | null {
+  if (!stakeholders.some((stakeholder) => stakeholder.watchPaths.length > 0)) {
+    return null;
+  }
+  const matches = matchWatchPaths(files, stakeholders);
+  const watched = new Set(Object.values(matches).flat());
+  return files.every((file) => watched.has(file)) ? Object.keys(matches) : null;
+}
+
+/**
+ * Whether a card path is regenerated when only `affected` stakeholders saw changes.
+ * Paths no stakeholder claims in `field_paths`, and the run's changelog entry, are always regenerated.
+ */
+export function isInScope(jsonPath: string, stakeholders: StakeholderProfile[], affected: Set<string>): boolean {
+  if (ALWAYS_REGENERATED.some((pattern) => fieldPathMatches(pattern, jsonPath))) {
+    return true;
+  }
+  const owners = stakeholders.filter((stakeholder) => stakeholder.fieldPaths.some((pattern) => fieldPathCovers(pattern, jsonPath)));
+  return owners.length === 0 || owners.some((stakeholder) => affected.has(stakeholder.id));
+}
+
+/** The entries a scoped pass works on; all of them when the run is not scoped. */
+export function filterToScope<T extends { jsonPath: string }>(entries: T[], scope: StakeholderScope | undefined): T[] {
+  if (!scope) {
+    return entries;
+  }
+  const affected = new Set(scope.affected);
+  return entries.filter((entry) => isInScope(entry.jsonPath, scope.stakeholders, affected));
+}
+
+/**
+ * Restricts a run to the affected stakeholders' `field_paths`: facts outside them are
+ * dropped and their values in the mutated card are put back to the baseline.
+ */
+export function scopeToStakeholders(
+  baseline: CardSeed,
+  mutated: CardSeed,
+  facts: Fact[],
+  stakeholders: StakeholderProfile[],
+  affected: string[]
+): { mutatedCard: CardSeed; facts: Fact[]; carriedForward: string[] } {
+  const affectedSet = new Set(affected);
+  const kept: Fact[] = [];
+  const dropped: Fact[] = [];
+  facts.forEach((fact) => (isInScope(fact.jsonPath, stakeholders, affectedSet) ? kept : dropped).push(fact));
+
+  const card = structuredClone(mutated);
+  const pointers = [...new Set(dropped.map((fact) => fact.jsonPointer).filter((pointer): pointer is string => Boolean(pointer)))];
+  // Deepest and highest array index first, so removing appended items keeps earlier indices valid
+  pointers.sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+  pointers.forEach((pointer) => restorePointer(card, baseline, pointer));
+
+  return { mutatedCard: card, facts: kept, carriedForward: dropped.map((fact) => fact.jsonPath) };
+}
+
+function restorePointer(target: unknown, baseline: unknown, pointer: string): void {
+  const tokens = pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const key = tokens.pop();
+  if (key === undefined) {
+    return;
+  }
+  const parent = resolveTokens(target, tokens);
+  if (!parent || typeof parent !== "object") {
+    return;
+  }
+  const baselineParent = resolveTokens(baseline, tokens);
+  const hasBaseline = Boolean(baselineParent) && typeof baselineParent === "object" && key in (baselineParent as object);
+  if (hasBaseline) {
+    (parent as Record<string, unknown>)[key] = structuredClone((baselineParent as Record<string, unknown>)[key]);
+  } else if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete (parent as Record<string, unknown>)[key];
+  }
+}
+
+function resolveTokens(value: unknown, tokens: string[]): unknown {
+  let cursor = value;
+  for (const token of tokens) {
+    if (!cursor || typeof cursor !== "object") {
+      return undefined;
+    }
+    cursor = (cursor as Record<string, unknown>)[token];
+  }
+  return cursor;
+}
+
+function watchPatternToRegExp(pattern: string): RegExp {
+  const body = pattern
+    .replace(/^\.?\//, "")
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/" || part === "**") {
+        return ".*";
+      }
+      if (part === "*") {
+        return "[^/]*";
+      }
+      if (part === "?") {
+        return "[^/]";
+      }
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${body}$`);
+}
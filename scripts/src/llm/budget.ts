@@ -0,0 +1,117 @@
+import type { LlmRuntimeConfig } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import { estimateCostUsd, resolveModelPricing } from "./pricing.js";
+
+export type LlmBudgetLimits = LlmRuntimeConfig["budget"];
+
+export interface LlmBudgetCut {
+  pass: string;
+  action: string;
+}
+
+export interface LlmBudgetUsage {
+  tokens: number;
+  costUsd: number;
+  /** Tokens billed by models missing from the pricing table; they count towards tokens only. */
+  unpricedTokens: number;
+}
+
+/** Raised before a network request that the remaining run budget cannot cover. */
+export class LlmBudgetExceededError extends Error {
+  constructor(message: string, public readonly promptId: string) {
+    super(message);
+    this.name = "LlmBudgetExceededError";
+  }
+}
+
+/** Share of the remaining budget the extractor's evidence may take; later passes need the rest. */
+export const EXTRACTOR_BUDGET_SHARE = 0.5;
+
+// Usage is shared by every pass of the process, like the cache session stats
+let usage: LlmBudgetUsage = { tokens: 0, costUsd: 0, unpricedTokens: 0 };
+let cuts: LlmBudgetCut[] = [];
+
+export function resetLlmBudgetSession(): void {
+  usage = { tokens: 0, costUsd: 0, unpricedTokens: 0 };
+  cuts = [];
+}
+
+export function getLlmBudgetSession(): { usage: LlmBudgetUsage; cuts: LlmBudgetCut[] } {
+  return { usage: { ...usage }, cuts: cuts.map((cut) => ({ ...cut })) };
+}
+
+export function hasBudgetLimits(limits: LlmBudgetLimits): boolean {
+  return limits.maxCostUsd !== null || limits.maxTotalTokens !== null;
+}
+
+/** Account for tokens billed by a live request. Cache hits and replays are free. */
+export function recordLlmUsage(model: string | null, promptTokens: number, completionTokens: number): void {
+  usage.tokens += promptTokens + completionTokens;
+  const cost = estimateCostUsd(model, promptTokens, completionTokens);
+  if (cost === undefined) {
+    usage.unpricedTokens += promptTokens + completionTokens;
+  } else {
+    usage.costUsd += cost;
+  }
+}
+
+/** Record something a pass dropped to stay within budget; surfaced in diagnostics and metrics. */
+export function recordBudgetCut(pass: string, action: string): void {
+  cuts.push({ pass, action });
+  logger.warn("LLM budget cut", { pass, action, spentTokens: usage.tokens, spentCostUsd: usage.costUsd });
+}
+
+/**
+ * Tokens still affordable on `model`, or null when no limit is configured. A cost limit is
+ * converted at the model's prompt rate; unpriced models are only bound by the token limit
+ * until the cost limit is already spent.
+ */
+export function remainingBudgetTokens(limits: LlmBudgetLimits, model: string | null): number | null {
+  let remaining: number | null = null;
+  if (limits.maxTotalTokens !== null) {
+    remaining = limits.maxTotalTokens - usage.tokens;
+  }
+  if (limits.maxCostUsd !== null) {
+    const costLeft = limits.maxCostUsd - usage.costUsd;
+    const pricing = resolveModelPricing(model);
+    const affordable = costLeft <= 0 ? 0 : pricing ? Math.floor((costLeft / pricing.promptPer1M) * 1_000_000) : null;
+    if (affordable !== null) {
+      remaining = remaining === null ? affordable : Math.min(remaining, affordable);
+    }
+  }
+  return remaining === null ? null : Math.max(0, remaining);
+}
+
+export function isBudgetExhausted(limits: LlmBudgetLimits, model: string | null): boolean {
+  return remainingBudgetTokens(limits, model) === 0;
+}
+
+/**
+ * Refuses a request unless the budget covers its prompt plus a full `maxCompletionTokens`
+ * answer, with the completion priced at the model's completion rate.
+ */
+export function assertWithinBudget(
+  limits: LlmBudgetLimits,
+  model: string | null,
+  promptId: string,
+  estimatedPromptTokens: number,
+  maxCompletionTokens = 0
+): void {
+  const needed = `~${estimatedPromptTokens} prompt + up to ${maxCompletionTokens} completion tokens`;
+  if (limits.maxTotalTokens !== null) {
+    const tokensLeft = Math.max(0, limits.maxTotalTokens - usage.tokens);
+    if (estimatedPromptTokens + maxCompletionTokens > tokensLeft) {
+      throw new LlmBudgetExceededError(`LLM budget exhausted: ${promptId} needs ${needed}, ${tokensLeft} tokens remain`, promptId);
+    }
+  }
+  if (limits.maxCostUsd !== null) {
+    const costLeft = Math.max(0, limits.maxCostUsd - usage.costUsd);
+    const cost = estimateCostUsd(model, estimatedPromptTokens, maxCompletionTokens);
+    if (costLeft === 0 || (cost !== undefined && cost > costLeft)) {
+      throw new LlmBudgetExceededError(
+        `LLM budget exhausted: ${promptId} needs ${needed} (~$${(cost ?? 0).toFixed(4)}), $${costLeft.toFixed(4)} remain`,
+        promptId
+      );
+    }
+  }
+}
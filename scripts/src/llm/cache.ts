@@ -0,0 +1,301 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import fsExtra from "fs-extra";
+
+import { LLM_CACHE_DIR } from "../constants.js";
+import { readJsonFile, writeJsonFile } from "../utils/fs.js";
+import { logger } from "../utils/logger.js";
+import type { LlmInvocationResult } from "./client.js";
+
+export interface LlmCacheEntry {
+  promptId: string;
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+  lastHitAt: string | null;
+  hits: number;
+  sizeBytes: number;
+}
+
+export interface LlmCacheManifest {
+  version: number;
+  entries: Record<string, LlmCacheEntry>;
+}
+
+export interface LlmCacheLimits {
+  maxBytes: number;
+  maxAgeMs: number;
+}
+
+export interface LlmCacheSessionStats {
+  hits: number;
+  misses: number;
+  savedPromptTokens: number;
+  savedCompletionTokens: number;
+}
+
+export interface LlmCacheStats {
+  entries: number;
+  totalBytes: number;
+  totalHits: number;
+  untrackedFiles: number;
+  oldestCreatedAt: string | null;
+  newestCreatedAt: string | null;
+  byPrompt: Record<string, { entries: number; bytes: number; hits: number }>;
+}
+
+const MANIFEST_FILE = "manifest.json";
+const MANIFEST_VERSION = 1;
+
+export const DEFAULT_LLM_CACHE_LIMITS: LlmCacheLimits = {
+  maxBytes: 256 * 1024 * 1024,
+  maxAgeMs: 1000 * 60 * 60 * 24 * 30 // 30 days
+};
+
+const sessionStats: LlmCacheSessionStats = {
+  hits: 0,
+  misses: 0,
+  savedPromptTokens: 0,
+  savedCompletionTokens: 0
+};
+
+// Manifest updates are read-modify-write; chain them so concurrent passes don't drop entries.
+let manifestQueue: Promise<unknown> = Promise.resolve();
+
+/** Cache lookups made by this process; feeds `proposal.meta.telemetry.cache`. */
+export function getLlmCacheSessionStats(): LlmCacheSessionStats {
+  return { ...sessionStats };
+}
+
+export function resetLlmCacheSessionStats(): void {
+  sessionStats.hits = 0;
+  sessionStats.misses = 0;
+  sessionStats.savedPromptTokens = 0;
+  sessionStats.savedCompletionTokens = 0;
+}
+
+export async function readLlmCacheManifest(dir: string = LLM_CACHE_DIR): Promise<LlmCacheManifest> {
+  try {
+    const manifest = await readJsonFile<LlmCacheManifest>(join(dir, MANIFEST_FILE));
+    if (manifest && manifest.version === MANIFEST_VERSION) {
+      return manifest;
+    }
+  } catch (error) {
+    logger.warn("LLM cache manifest unreadable; starting a new one", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  return { version: MANIFEST_VERSION, entries: {} };
+}
+
+function updateManifest<T>(dir: string, update: (manifest: LlmCacheManifest) => Promise<T> | T): Promise<T> {
+  const next = manifestQueue.then(async () => {
+    const manifest = await readLlmCacheManifest(dir);
+    const result = await update(manifest);
+    await fsExtra.ensureDir(dir);
+    await writeJsonFile(join(dir, MANIFEST_FILE), manifest);
+    return result;
+  });
+  manifestQueue = next.catch(() => undefined);
+  return next;
+}
+
+function entryPath(dir: string, digest: string): string {
+  return join(dir, `${digest}.json`);
+}
+
+/**
+ * Return the cached response for `digest`, or null on a miss. Entries past the TTL are
+ * removed and reported as misses. Hits bump the entry's LRU timestamp and hit count.
+ */
+export async function lookupCachedResponse(
+  digest: string,
+  limits: LlmCacheLimits = DEFAULT_LLM_CACHE_LIMITS,
+  dir: string = LLM_CACHE_DIR
+): Promise<LlmInvocationResult | null> {
+  const cached = await readJsonFile<LlmInvocationResult>(entryPath(dir, digest)).catch(() => null);
+  if (!cached) {
+    sessionStats.misses += 1;
+    return null;
+  }
+
+  const now = Date.now();
+  const fresh = await updateManifest(dir, async (manifest) => {
+    const entry = manifest.entries[digest];
+    if (entry && now - Date.parse(entry.createdAt) > limits.maxAgeMs) {
+      delete manifest.entries[digest];
+      await fsExtra.remove(entryPath(dir, digest));
+      return false;
+    }
+    // Responses cached before the manifest existed are adopted on first hit
+    manifest.entries[digest] = {
+      ...(entry ?? {
+        promptId: "unknown",
+        provider: null,
+        model: null,
+        createdAt: new Date(now).toISOString(),
+        sizeBytes: Buffer.byteLength(JSON.stringify(cached, null, 2))
+      }),
+      lastHitAt: new Date(now).toISOString(),
+      hits: (entry?.hits ?? 0) + 1
+    };
+    return true;
+  });
+
+  if (!fresh) {
+    sessionStats.misses += 1;
+    return null;
+  }
+  sessionStats.hits += 1;
+  sessionStats.savedPromptTokens += cached.promptTokens ?? 0;
+  sessionStats.savedCompletionTokens += cached.completionTokens ?? 0;
+  return cached;
+}
+
+export async function storeCachedResponse(
+  digest: string,
+  result: LlmInvocationResult,
+  meta: { promptId: string; provider: string | null; model: string | null },
+  limits: LlmCacheLimits = DEFAULT_LLM_CACHE_LIMITS,
+  dir: string = LLM_CACHE_DIR
+): Promise<void> {
+  const content = JSON.stringify(result, null, 2);
+  await fsExtra.ensureDir(dir);
+  await fs.writeFile(entryPath(dir, digest), content, "utf8");
+  await updateManifest(dir, async (manifest) => {
+    manifest.entries[digest] = {
+      ...meta,
+      createdAt: new Date().toISOString(),
+      lastHitAt: null,
+      hits: 0,
+      sizeBytes: Buffer.byteLength(content)
+    };
+    await removeEntries(dir, evictLlmCacheEntries(manifest.entries, limits));
+  });
+}
+
+/**
+ * Drop entries older than `maxAgeMs`, then least-recently-used entries until the total size
+ * fits in `maxBytes`. Mutates `entries` and returns the evicted digests.
+ */
+export function evictLlmCacheEntries(
+  entries: Record<string, LlmCacheEntry>,
+  limits: LlmCacheLimits,
+  now: number = Date.now()
+): string[] {
+  const evicted: string[] = [];
+  for (const [digest, entry] of Object.entries(entries)) {
+    const age = now - Date.parse(entry.createdAt ?? "");
+    if (Number.isFinite(age) && age > limits.maxAgeMs) {
+      evicted.push(digest);
+      delete entries[digest];
+    }
+  }
+
+  let totalBytes = Object.values(entries).reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  if (totalBytes <= limits.maxBytes) {
+    return evicted;
+  }
+  const lastUsed = (entry: LlmCacheEntry) => Date.parse(entry.lastHitAt ?? entry.createdAt);
+  const sorted = Object.keys(entries).sort((a, b) => lastUsed(entries[a]) - lastUsed(entries[b]));
+  for (const digest of sorted) {
+    if (totalBytes <= limits.maxBytes) {
+      break;
+    }
+    totalBytes -= entries[digest].sizeBytes;
+    evicted.push(digest);
+    delete entries[digest];
+  }
+  return evicted;
+}
+
+async function removeEntries(dir: string, digests: string[]): Promise<void> {
+  for (const digest of digests) {
+    await fsExtra.remove(entryPath(dir, digest));
+  }
+}
+
+async function listResponseFiles(dir: string): Promise<string[]> {
+  if (!(await fsExtra.pathExists(dir))) {
+    return [];
+  }
+  const files = await fs.readdir(dir);
+  return files
+    .filter((file) => file.endsWith(".json") && file !== MANIFEST_FILE)
+    .map((file) => file.slice(0, -".json".length));
+}
+
+export async function summarizeLlmCache(dir: string = LLM_CACHE_DIR): Promise<LlmCacheStats> {
+  const manifest = await readLlmCacheManifest(dir);
+  const files = await listResponseFiles(dir);
+  const entries = Object.values(manifest.entries);
+  const created = entries.map((entry) => entry.createdAt).sort();
+
+  const byPrompt: LlmCacheStats["byPrompt"] = {};
+  for (const entry of entries) {
+    const bucket = (byPrompt[entry.promptId] ??= { entries: 0, bytes: 0, hits: 0 });
+    bucket.entries += 1;
+    bucket.bytes += entry.sizeBytes;
+    bucket.hits += entry.hits;
+  }
+
+  return {
+    entries: entries.length,
+    totalBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+    totalHits: entries.reduce((sum, entry) => sum + entry.hits, 0),
+    untrackedFiles: files.filter((digest) => !manifest.entries[digest]).length,
+    oldestCreatedAt: created[0] ?? null,
+    newestCreatedAt: created[created.length - 1] ?? null,
+    byPrompt
+  };
+}
+
+/**
+ * Apply the eviction policy now. Response files missing from the manifest (written before it
+ * existed) are removed too, since nothing records their age.
+ */
+export async function pruneLlmCache(
+  limits: LlmCacheLimits = DEFAULT_LLM_CACHE_LIMITS,
+  dir: string = LLM_CACHE_DIR
+): Promise<string[]> {
+  const files = await listResponseFiles(dir);
+  return updateManifest(dir, async (manifest) => {
+    const untracked = files.filter((digest) => !manifest.entries[digest]);
+    for (const digest of Object.keys(manifest.entries)) {
+      if (!files.includes(digest)) {
+        delete manifest.entries[digest];
+      }
+    }
+    const removed = [...untracked, ...evictLlmCacheEntries(manifest.entries, limits)];
+    await removeEntries(dir, removed);
+    return removed;
+  });
+}
+
+/** Remove entries for `promptId`, including per-stakeholder ids such as `notes.v1:dev`. */
+export async function purgeLlmCacheByPrompt(promptId: string, dir: string = LLM_CACHE_DIR): Promise<string[]> {
+  return updateManifest(dir, async (manifest) => {
+    const removed = Object.entries(manifest.entries)
+      .filter(([, entry]) => entry.promptId === promptId || entry.promptId.startsWith(`${promptId}:`))
+      .map(([digest]) => digest);
+    for (const digest of removed) {
+      delete manifest.entries[digest];
+    }
+    await removeEntries(dir, removed);
+    return removed;
+  });
+}
+
+export async function exportLlmCache(
+  dir: string = LLM_CACHE_DIR
+): Promise<{ manifest: LlmCacheManifest; responses: Record<string, LlmInvocationResult> }> {
+  const manifest = await readLlmCacheManifest(dir);
+  const responses: Record<string, LlmInvocationResult> = {};
+  for (const digest of Object.keys(manifest.entries)) {
+    const response = await readJsonFile<LlmInvocationResult>(entryPath(dir, digest));
+    if (response) {
+      responses[digest] = response;
+    }
+  }
+  return { manifest, responses };
+}
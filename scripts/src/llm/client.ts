@@ -1,19 +1,39 @@
 import { createHash } from "node:crypto";
 import { performance } from "node:perf_hooks";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
 import { encodingForModel } from "js-tiktoken";
 
 import { logger } from "../utils/logger.js";
 import type { LlmRuntimeConfig } from "../config/env.js";
 import { redactSecrets } from "../safety/redaction.js";
 import { MOCK_EXTRACTOR_RESPONSE, MOCK_REASONER_RESPONSE, MOCK_VERIFIER_RESPONSE, MOCK_NOTES_RESPONSE } from "./mock_data.js";
+import { getProviderAdapter, type LlmProviderAdapter, type StreamFormat } from "./providers.js";
+import { consumeCompletionStream, LlmStreamInterruptedError } from "./streaming.js";
+import { lookupCachedResponse, storeCachedResponse } from "./cache.js";
+import { recordFixture, replayRecordedResponse } from "./replay.js";
+import { assertWithinBudget, hasBudgetLimits, recordLlmUsage } from "./budget.js";
+
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema for the call arguments. */
+  parameters: Record<string, unknown>;
+}
 
-export type ChatRole = "system" | "user" | "assistant";
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
 
 export interface ChatMessage {
   role: ChatRole;
   content: string;
+  /** Calls requested by an assistant turn. */
+  toolCalls?: LlmToolCall[];
+  /** For `tool` messages: the id of the call this message answers. */
+  toolCallId?: string;
 }
 
 export interface ChatCompletionOptions {
@@ -27,6 +47,16 @@ export interface ChatCompletionOptions {
   fallbackResponse?: string;
   jsonMode?: boolean;
   jsonSchema?: Record<string, unknown>;
+  /** Request an SSE stream instead of a single response body (ignored by providers without support). */
+  stream?: boolean;
+  /** Receives each streamed text fragment as it arrives. */
+  onDelta?: (delta: string) => void;
+  /** Functions the model may call instead of answering. Tool rounds are never streamed. */
+  tools?: LlmToolDefinition[];
+  /** "none" keeps the tools declared (required once calls are in the history) but forbids new calls. */
+  toolChoice?: "auto" | "none";
+  /** Values that differ per run (run id, generation time); masked in the request digest. */
+  runValues?: string[];
 }
 
 export interface LlmInvocationResult {
@@ -38,9 +68,19 @@ export interface LlmInvocationResult {
   latencyMs: number;
   requestDigest: string | null;
   responseDigest: string | null;
+  /** Present when the model asked for tool calls instead of (or alongside) content. */
+  toolCalls?: LlmToolCall[];
+}
+
+/** Raised for HTTP-level failures; `status` lets callers decide whether to fall back. */
+export class LlmRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "LlmRequestError";
+  }
 }
 
-const CACHE_DIR = join(process.cwd(), ".cache", "llm");
+const STREAM_PROGRESS_INTERVAL_MS = 15000;
 
 // Singleton tokenizer to avoid reloading vocab
 let tokenizer: any = null;
@@ -90,6 +130,9 @@ export async function invokeChatCompletion(
     if (options.jsonMode) {
         content = getMockContent(options.promptId);
     }
+    if (options.stream && content) {
+        options.onDelta?.(content);
+    }
 
     return {
       content: content || "Mock response",
@@ -103,6 +146,17 @@ export async function invokeChatCompletion(
     };
   }
 
+  const adapter = getProviderAdapter(runtime.provider);
+
+  // Replay serves recorded fixtures offline, so it runs before the enabled/credential checks
+  if (runtime.recording.mode === "replay") {
+    if (!runtime.model) {
+      throw new Error("LLM replay mode requires LLM_MODEL to match the recorded run");
+    }
+    const { requestDigest } = prepareRequest(adapter, runtime.model, options);
+    return replayRecordedResponse(runtime.recording.fixturesDir, requestDigest, options);
+  }
+
   if (!runtime.enabled || runtime.dryRun) {
     logger.info("LLM runtime disabled or dry-run; returning fallback", {
       promptId: options.promptId,
@@ -121,7 +175,7 @@ export async function invokeChatCompletion(
     };
   }
 
-  if (!runtime.model || !runtime.apiKey) {
+  if (!runtime.model || (adapter.capabilities.requiresApiKey && !runtime.apiKey)) {
     logger.warn("LLM runtime missing configuration; returning fallback", {
       promptId: options.promptId,
       hasModel: Boolean(runtime.model),
@@ -139,37 +193,33 @@ export async function invokeChatCompletion(
     };
   }
 
-  // Redact secrets from messages
-  const redactedMessages = options.messages.map((msg) => {
-    const { content, redactions } = redactSecrets(msg.content);
-    if (redactions > 0) {
-      logger.warn("Redacted secrets from prompt", { count: redactions, role: msg.role, promptId: options.promptId });
-    }
-    return { ...msg, content };
-  });
-
   const provider = runtime.provider?.toLowerCase() ?? "openai";
-  const payload = createPayload(provider, runtime.model, { ...options, messages: redactedMessages });
-  const requestDigest = createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+  const { streamFormat, payload, requestDigest } = prepareRequest(adapter, runtime.model, options);
 
   // Cache Check
   if (runtime.cacheEnabled && !runtime.privacyMode) {
     try {
-      const cachePath = join(CACHE_DIR, `${requestDigest}.json`);
-      if (existsSync(cachePath)) {
-        const cached = JSON.parse(readFileSync(cachePath, "utf-8"));
+      const cached = await lookupCachedResponse(requestDigest);
+      if (cached) {
         logger.debug("LLM cache hit", { promptId: options.promptId, digest: requestDigest });
-        return {
+        const result: LlmInvocationResult = {
           ...cached,
           mode: "cache",
           latencyMs: 0
         };
+        await recordIfEnabled(runtime, provider, options, payload, result);
+        return result;
       }
     } catch (error) {
       logger.warn("Failed to read LLM cache", { error });
     }
   }
 
+  // Cache hits above are free; a live request must fit in what is left of the run budget
+  if (hasBudgetLimits(runtime.budget)) {
+    assertWithinBudget(runtime.budget, runtime.model, options.promptId, estimateTokens(JSON.stringify(options.messages)), options.maxTokens);
+  }
+
   // Rate Limit Handling (Simple exponential backoff)
   // If reasoning effort is high, we retry fewer times to allow downgrade logic to kick in faster.
   // But we ensure at least 2 attempts (1 retry) to handle transient 429s with the long backoff.
@@ -178,23 +228,26 @@ export async function invokeChatCompletion(
   let response: Response | null = null;
 
   while (attempt < MAX_RETRIES) {
-    const headers = createHeaders(provider, runtime.apiKey);
-    const endpoint = resolveEndpoint(provider, runtime.baseUrl, runtime.model, runtime.apiKey);
+    const headers = adapter.createHeaders(runtime.apiKey);
+    const endpoint = adapter.resolveEndpoint(runtime.baseUrl, runtime.model, runtime.apiKey);
 
     const start = performance.now();
+    // 30 minute timeout for high-reasoning models to accommodate deep thought chains.
+    // When streaming, the timeout also covers reading the body.
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 1800000);
     try {
-      // 30 minute timeout for high-reasoning models to accommodate deep thought chains
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 1800000);
-
       response = await fetch(endpoint, {
         method: "POST",
         headers,
         body: JSON.stringify(payload),
         signal: controller.signal
       });
-      clearTimeout(timeoutId);
+      if (!streamFormat || !response.ok) {
+        clearTimeout(timeoutId);
+      }
     } catch (error) {
+      clearTimeout(timeoutId);
       attempt++;
       const delay = Math.pow(2, attempt) * 2000; // 4s, 8s...
       logger.warn("LLM network request failed; retrying...", {
@@ -209,7 +262,7 @@ export async function invokeChatCompletion(
       await new Promise(resolve => setTimeout(resolve, delay));
       continue;
     }
-    const latencyMs = performance.now() - start;
+    let latencyMs = performance.now() - start;
 
     if (response.status === 429) {
       attempt++;
@@ -244,33 +297,60 @@ export async function invokeChatCompletion(
         provider,
         endpoint: sanitizedEndpoint
       });
-      throw new Error(`LLM request failed with status ${response.status}`);
+      throw new LlmRequestError(`LLM request failed with status ${response.status}`, response.status);
     }
 
     // Success
-    const data = await response.json();
-    const content = extractContent(data, provider);
+    let data: any;
+    if (streamFormat) {
+      try {
+        data = await readStreamedResponse(response, streamFormat, options, start);
+      } catch (error) {
+        if (error instanceof LlmStreamInterruptedError) {
+          latencyMs = performance.now() - start;
+          logger.warn("LLM stream interrupted; returning partial content to caller", {
+            promptId: options.promptId,
+            provider,
+            receivedChars: error.partialContent.length,
+            error: error.message
+          });
+          recordLlmUsage(
+            runtime.model,
+            estimateTokens(JSON.stringify(options.messages)),
+            estimateTokens(error.partialContent)
+          );
+          throw new LlmStreamInterruptedError(error.message, error.partialContent, requestDigest, latencyMs);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+      latencyMs = performance.now() - start;
+    } else {
+      data = await response.json();
+    }
+    const content = streamFormat ? String(data.content ?? "") : adapter.extractContent(data);
+    const toolCalls = streamFormat ? [] : adapter.extractToolCalls?.(data) ?? [];
 
     // Usage extraction is provider specific, but we'll try standard OpenAI first or estimate
     let promptTokens = 0;
     let completionTokens = 0;
 
     if (data?.usage) {
-      promptTokens = data.usage.prompt_tokens ?? 0;
-      completionTokens = data.usage.completion_tokens ?? 0;
+      // Anthropic reports input/output tokens under the same key
+      promptTokens = data.usage.prompt_tokens ?? data.usage.input_tokens ?? 0;
+      completionTokens = data.usage.completion_tokens ?? data.usage.output_tokens ?? 0;
     } else if (data?.usageMetadata) {
       // Google
       promptTokens = data.usageMetadata.promptTokenCount ?? 0;
       completionTokens = data.usageMetadata.candidatesTokenCount ?? 0;
-    } else if (data?.input_tokens && data?.output_tokens) {
-      // Anthropic
-      promptTokens = data.input_tokens;
-      completionTokens = data.output_tokens;
     } else {
       promptTokens = estimateTokens(JSON.stringify(options.messages));
       completionTokens = estimateTokens(content);
     }
 
+    recordLlmUsage(runtime.model, promptTokens, completionTokens);
+
     const responseDigest = runtime.privacyMode
       ? null
       : createHash("sha256").update(JSON.stringify(data)).digest("hex");
@@ -283,196 +363,175 @@ export async function invokeChatCompletion(
       completionTokens,
       latencyMs,
       requestDigest,
-      responseDigest
+      responseDigest,
+      ...(toolCalls.length > 0 ? { toolCalls } : {})
     };
 
     // Cache Write
     if (runtime.cacheEnabled && !runtime.privacyMode) {
       try {
-        if (!existsSync(CACHE_DIR)) {
-          mkdirSync(CACHE_DIR, { recursive: true });
-        }
-        writeFileSync(join(CACHE_DIR, `${requestDigest}.json`), JSON.stringify(result, null, 2));
+        await storeCachedResponse(requestDigest, result, {
+          promptId: options.promptId,
+          provider,
+          model: runtime.model
+        });
       } catch (error) {
         logger.warn("Failed to write LLM cache", { error });
       }
     }
 
+    await recordIfEnabled(runtime, provider, options, payload, result);
     return result;
   }
 
-  throw new Error("Max retries exceeded");
+  // The loop only runs out through repeated 429 responses
+  throw new LlmRequestError("Max retries exceeded", 429);
 }
 
-function createHeaders(provider: string, apiKey: string): Record<string, string> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json"
-  };
-
-  if (provider === "anthropic") {
-    headers["x-api-key"] = apiKey;
-    headers["anthropic-version"] = "2023-06-01";
-  } else if (provider === "google") {
-    // Google often uses query param, but we can try header if supported by specific endpoint
-    // For now, we rely on query param injection in resolveEndpoint for Google AI Studio
-  } else if (provider.includes("azure")) {
-    headers["api-key"] = apiKey;
-  } else {
-    // OpenAI, xAI, DeepSeek, Moonshot, etc.
-    headers["Authorization"] = `Bearer ${apiKey}`;
-  }
+/**
+ * Redact secrets, shape the provider payload and compute the request digest that keys the
+ * cache and recorded fixtures.
+ */
+function prepareRequest(
+  adapter: LlmProviderAdapter,
+  model: string,
+  options: ChatCompletionOptions
+): { streamFormat: StreamFormat | null; payload: unknown; requestDigest: string } {
+  const redactedMessages = options.messages.map((msg) => {
+    const { content, redactions } = redactSecrets(msg.content);
+    if (redactions > 0) {
+      logger.warn("Redacted secrets from prompt", { count: redactions, role: msg.role, promptId: options.promptId });
+    }
+    return { ...msg, content };
+  });
 
-  return headers;
+  // Tool-call deltas are not assembled from SSE, so tool rounds always use a single response body;
+  // the same goes for providers that return a schema-constrained answer as a tool call.
+  const answersViaTool = Boolean(options.jsonSchema) && adapter.capabilities.structuredOutput === "tool";
+  const streamFormat = options.stream && !options.tools?.length && !answersViaTool ? adapter.capabilities.streaming : null;
+  const payload = adapter.createPayload(
+    model,
+    adaptOptionsToCapabilities(adapter, { ...options, messages: redactedMessages, stream: streamFormat !== null })
+  );
+  const requestDigest = createHash("sha256").update(maskRunValues(JSON.stringify(payload), options.runValues)).digest("hex");
+  return { streamFormat, payload, requestDigest };
 }
 
-function resolveEndpoint(provider: string, baseUrl: string | null, model: string, apiKey: string): string {
-  if (baseUrl) {
-    return baseUrl.replace(/\/$/, "");
-  }
-
-  switch (provider) {
-    case "anthropic":
-      return "https://api.anthropic.com/v1/messages";
-    case "google":
-      return `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-    case "xai":
-      return "https://api.x.ai/v1/chat/completions";
-    case "deepseek":
-      return "https://api.deepseek.com/chat/completions";
-    case "moonshot":
-      return "https://api.moonshot.cn/v1/chat/completions";
-    case "alibaba":
-      return "https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions";
-    case "azure":
-      // Azure requires a specific URL structure usually provided via baseUrl, but if not:
-      throw new Error("Azure provider requires a valid baseUrl (e.g. https://{resource}.openai.azure.com/openai/deployments/{deployment}/chat/completions?api-version=...)");
-    default:
-      return "https://api.openai.com/v1/chat/completions";
-  }
+/**
+ * Replace run-specific values with a placeholder before hashing, so the same prompt recorded
+ * under one run id is served again under another; a captured run can become a test fixture.
+ */
+function maskRunValues(serialized: string, values: string[] = []): string {
+  return values
+    .filter((value) => value.length > 0)
+    .reduce((masked, value) => masked.split(JSON.stringify(value).slice(1, -1)).join("<run>"), serialized);
 }
 
-function createPayload(provider: string, model: string, options: ChatCompletionOptions): unknown {
-  if (provider === "anthropic") {
-    const systemMessage = options.messages.find(m => m.role === "system");
-    const messages = options.messages.filter(m => m.role !== "system");
-    return {
-      model,
-      messages,
-      system: systemMessage?.content,
-      max_tokens: options.maxTokens,
-      temperature: options.temperature,
-      top_p: options.topP,
-    };
+async function recordIfEnabled(
+  runtime: LlmRuntimeConfig,
+  provider: string,
+  options: ChatCompletionOptions,
+  payload: unknown,
+  result: LlmInvocationResult
+): Promise<void> {
+  if (runtime.recording.mode !== "record" || !result.requestDigest) {
+    return;
   }
-
-  if (provider === "google") {
-    const systemMessage = options.messages.find(m => m.role === "system");
-    const contents = options.messages
-      .filter(m => m.role !== "system")
-      .map(m => ({
-        role: m.role === "assistant" ? "model" : "user",
-        parts: [{ text: m.content }]
-      }));
-
-    return {
-      contents,
-      systemInstruction: systemMessage ? { parts: [{ text: systemMessage.content }] } : undefined,
-      generationConfig: {
-        temperature: options.temperature,
-        topP: options.topP,
-        maxOutputTokens: options.maxTokens,
-        responseMimeType: options.jsonMode ? "application/json" : "text/plain"
-      }
-    };
+  try {
+    await recordFixture(runtime.recording.fixturesDir, {
+      requestDigest: result.requestDigest,
+      promptId: options.promptId,
+      provider,
+      model: runtime.model,
+      recordedAt: new Date().toISOString(),
+      request: runtime.privacyMode ? null : payload,
+      response: { ...result, mode: "network" }
+    });
+  } catch (error) {
+    logger.warn("Failed to record LLM fixture", {
+      promptId: options.promptId,
+      error: error instanceof Error ? error.message : String(error)
+    });
   }
+}
 
-  // OpenAI Compatible
-  let responseFormat: unknown = undefined;
-  if (options.jsonSchema) {
-    responseFormat = {
-      type: "json_schema",
-      json_schema: {
-        name: "response",
-        strict: true,
-        schema: options.jsonSchema
-      }
-    };
-  } else if (options.jsonMode) {
-    responseFormat = { type: "json_object" };
+/**
+ * Drain a streamed response and shape it like a non-streamed body so usage parsing,
+ * digests and caching work unchanged. Logs progress periodically for long generations.
+ */
+async function readStreamedResponse(
+  response: Response,
+  format: StreamFormat,
+  options: ChatCompletionOptions,
+  start: number
+): Promise<Record<string, unknown>> {
+  if (!response.body) {
+    throw new LlmStreamInterruptedError("LLM stream response has no body", "");
   }
 
-  // O1 models (o1-preview, o1-mini) do not support temperature, top_p, or max_tokens (use max_completion_tokens)
-  // and they don't support system messages in the 'messages' array in the same way (they use 'developer' role or just user)
-  // but for now we'll just strip unsupported params.
-  // GPT-5.1 also requires max_completion_tokens instead of max_tokens.
-  if (model.startsWith("o1-") || model.startsWith("gpt-5.1")) {
-    const payload: any = {
-      model,
-      messages: options.messages,
-      max_completion_tokens: options.maxTokens,
-      ...(responseFormat ? { response_format: responseFormat } : {})
-    };
-
-    // GPT-5.1 supports reasoning_effort
-    if (options.reasoningEffort) {
-      payload.reasoning_effort = options.reasoningEffort;
-    }
-
-    // GPT-5.1 supports verbosity
-    if (options.verbosity) {
-      payload.verbosity = options.verbosity;
-    }
-
-    // GPT-5.1 ONLY supports temperature/top_p if reasoning_effort is "none"
-    if (model.startsWith("gpt-5.1") && options.reasoningEffort === "none") {
-      payload.temperature = options.temperature;
-      payload.top_p = options.topP;
+  let receivedChars = 0;
+  let lastReport = performance.now();
+  const streamed = await consumeCompletionStream(response.body, format, (delta) => {
+    receivedChars += delta.length;
+    options.onDelta?.(delta);
+    const now = performance.now();
+    if (now - lastReport >= STREAM_PROGRESS_INTERVAL_MS) {
+      lastReport = now;
+      logger.info("LLM stream progress", {
+        promptId: options.promptId,
+        receivedChars,
+        elapsedMs: Math.round(now - start)
+      });
     }
-
-    return payload;
-  }
+  });
 
   return {
-    model,
-    messages: options.messages,
-    temperature: options.temperature,
-    top_p: options.topP,
-    max_tokens: options.maxTokens,
-    ...(responseFormat ? { response_format: responseFormat } : {})
+    stream: true,
+    content: streamed.content,
+    finish_reason: streamed.finishReason,
+    events: streamed.events,
+    ...(streamed.promptTokens !== null || streamed.completionTokens !== null
+      ? {
+          usage: {
+            prompt_tokens: streamed.promptTokens ?? 0,
+            completion_tokens: streamed.completionTokens ?? 0
+          }
+        }
+      : {})
   };
 }
 
-function extractContent(result: any, provider: string): string {
-  if (!result) {
-    return "";
-  }
-
-  if (provider === "anthropic") {
-    if (Array.isArray(result.content) && result.content.length > 0) {
-      return result.content[0].text;
-    }
-  }
-
-  if (provider === "google") {
-    if (result.candidates?.[0]?.content?.parts?.[0]?.text) {
-      return result.candidates[0].content.parts[0].text;
+/**
+ * Drop or reshape request features the provider does not declare support for, so adapters
+ * only ever see options they can honour.
+ */
+function adaptOptionsToCapabilities(
+  adapter: LlmProviderAdapter,
+  options: ChatCompletionOptions
+): ChatCompletionOptions {
+  const { capabilities } = adapter;
+  let messages = options.messages;
+
+  if (!capabilities.systemRole) {
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+    messages = messages.filter((m) => m.role !== "system");
+    const firstUser = messages.findIndex((m) => m.role === "user");
+    if (system && firstUser >= 0) {
+      messages = messages.map((m, index) =>
+        index === firstUser ? { ...m, content: `${system}\n\n${m.content}` } : m
+      );
     }
   }
 
-  // OpenAI / Azure / Compatible
-  if (Array.isArray(result.choices) && result.choices.length > 0) {
-    const choice = result.choices[0];
-    if (choice.message?.content) {
-      return String(choice.message.content);
-    }
-    if (choice.text) {
-      return String(choice.text);
-    }
-  }
-  if (typeof result.content === "string") {
-    return result.content;
-  }
-  return JSON.stringify(result);
+  return {
+    ...options,
+    messages,
+    jsonMode: capabilities.jsonMode ? options.jsonMode : false,
+    jsonSchema: capabilities.structuredOutput ? options.jsonSchema : undefined,
+    reasoningEffort: capabilities.reasoningEffort ? options.reasoningEffort : undefined,
+    tools: capabilities.toolCalling ? options.tools : undefined,
+    toolChoice: capabilities.toolCalling ? options.toolChoice : undefined
+  };
 }
 
 export function estimateTokens(payload: string): number {
@@ -12,17 +12,30 @@ import {
 } from "../constants.js";
 import { writeJsonFile } from "../utils/fs.js";
 import { logger } from "../utils/logger.js";
-import { loadPromptTemplate } from "../utils/prompts.js";
-import { runDeterministicPipeline } from "../pipeline/deterministic.js";
-import { invokeChatCompletion } from "./client.js";
+import { loadPassPrompt } from "../utils/prompts.js";
+import { getValueAtPointer, runDeterministicPipeline } from "../pipeline/deterministic.js";
+import { filterToScope, type StakeholderScope } from "../governance/watch.js";
+import { resolvePassChain, resolvePassModel } from "./routing.js";
+import { invokeWithTools } from "./tool_loop.js";
+import { IncrementalFactParser, LlmStreamInterruptedError } from "./streaming.js";
+import { LlmFixtureMissingError } from "./replay.js";
+import { describeSchemaErrors, parseStructuredResponse } from "./structured.js";
 import {
-  computeEvidenceTokenBudget,
+  EXTRACTOR_BUDGET_SHARE,
+  LlmBudgetExceededError,
+  recordBudgetCut,
+  remainingBudgetTokens
+} from "./budget.js";
+import {
+  computeRouteEvidenceTokenBudget,
   formatBaseCard,
   formatEvidenceForPrompt,
   formatPolicyRules,
-  formatRunMetadata
+  formatRunMetadata,
+  runSpecificValues
 } from "./formatters.js";
 import type { PassContext, ExtractorResult } from "./types.js";
+import type { AnalysisToolCall } from "../analysis/bundle.js";
 
 interface ExtractorArtifact {
   promptId: string;
@@ -36,6 +49,8 @@ interface ExtractorArtifact {
   generatedAt: string;
   attempts: number;
   retryReasons: string[];
+  /** Evidence the model requested through tool calls, across all attempts. */
+  toolCalls?: AnalysisToolCall[];
   llm?: {
     provider: string | null;
     model: string | null;
@@ -64,17 +79,21 @@ interface RawFactPayload {
 }
 
 export async function runExtractorPass(context: PassContext): Promise<ExtractorResult> {
-  const prompt = await loadPromptTemplate("extractor.v1.md");
+  const prompt = await loadPassPrompt("extractor", context.runtime.promptVersions.extractor);
   const deterministic = runDeterministicPipeline({
     baselineCard: context.baselineCard,
     changedFiles: context.analysis.changedFiles,
-    insights: context.analysis.repository
+    insights: context.analysis.repository,
+    staticSignals: context.analysis.staticSignals,
+    history: context.analysis.history,
+    runAt: context.analysis.metadata.generatedAt
   });
+  const deterministicFacts = filterToScope(deterministic.facts, context.stakeholderScope);
 
   const minConfidence = context.runtime.sampling.retryPolicy.minConfidence;
   const feedback = await loadFeedback();
   const basePrompt = (await renderExtractorPrompt(context, prompt.body, minConfidence)) + (feedback ? `\n\n${feedback}` : "");
-  const fallbackResponse = JSON.stringify({ facts: deterministic.facts });
+  const fallbackResponse = JSON.stringify({ facts: deterministicFacts });
 
   const maxAttempts = Math.max(1, context.runtime.sampling.retryPolicy.maxAttempts);
   let attemptsUsed = 0;
@@ -86,20 +105,36 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
   let llmTrace: ExtractorResult["llm"] = null;
   let metrics = { promptTokens: 0, completionTokens: 0, latencyMs: 0 };
   let llmResponseContent = fallbackResponse;
-  let resolvedFacts: Fact[] = deterministic.facts;
+  let resolvedFacts: Fact[] = deterministicFacts;
+  let salvagedFromStream = 0;
+  const toolCalls: AnalysisToolCall[] = [];
 
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
     attemptsUsed = attempt;
     const attemptPrompt = promptAugmentation
       ? `${basePrompt}\n\n### Retry Guidance\n${promptAugmentation.trim()}`
       : basePrompt;
+    const previousPromptBody = lastPromptBody;
     lastPromptBody = attemptPrompt;
+    salvagedFromStream = 0;
+
+    // Parses facts as they stream in so progress is visible and an interrupted stream
+    // still leaves us with every fact that was completely written.
+    let streamParser = new IncrementalFactParser();
+    const onDelta = (delta: string) => {
+      const before = streamParser.facts.length;
+      const completed = streamParser.push(delta).length;
+      if (completed > 0 && Math.floor((before + completed) / 10) > Math.floor(before / 10)) {
+        logger.info("Extractor streamed facts", { runId: context.runId, attempt, facts: before + completed });
+      }
+    };
 
     try {
       let result;
       try {
-        result = await invokeChatCompletion(context.runtime, {
+        const outcome = await invokeWithTools(context.runtime, "extractor", {
           promptId: prompt.id,
+          runValues: runSpecificValues(context),
           temperature: context.runtime.sampling.extractor.temperature,
           topP: context.runtime.sampling.extractor.topP,
           maxTokens: context.runtime.sampling.extractor.maxTokens,
@@ -113,9 +148,22 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
             { role: "user", content: lastPromptBody }
           ],
           fallbackResponse,
-          jsonMode: true
-        });
+          jsonMode: true,
+          jsonSchema: FACT_SCHEMA,
+          stream: context.runtime.streaming,
+          onDelta
+        }, isValidExtractorResponse);
+        toolCalls.push(...outcome.traces);
+        result = outcome.result;
       } catch (primaryError) {
+        if (
+          primaryError instanceof LlmStreamInterruptedError ||
+          primaryError instanceof LlmFixtureMissingError ||
+          primaryError instanceof LlmBudgetExceededError
+        ) {
+          throw primaryError;
+        }
+
         // Downgrade strategy for high-reasoning models
         const currentEffort = context.runtime.sampling.extractor.reasoningEffort;
         // Cast to string to avoid TS overlap errors if types are strict
@@ -127,8 +175,10 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
             error: primaryError instanceof Error ? primaryError.message : String(primaryError)
           });
 
-          result = await invokeChatCompletion(context.runtime, {
+          streamParser = new IncrementalFactParser();
+          const outcome = await invokeWithTools(context.runtime, "extractor", {
             promptId: prompt.id,
+            runValues: runSpecificValues(context),
             temperature: context.runtime.sampling.extractor.temperature,
             topP: context.runtime.sampling.extractor.topP,
             maxTokens: context.runtime.sampling.extractor.maxTokens,
@@ -142,8 +192,13 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
               { role: "user", content: lastPromptBody }
             ],
             fallbackResponse,
-            jsonMode: true
-          });
+            jsonMode: true,
+            jsonSchema: FACT_SCHEMA,
+            stream: context.runtime.streaming,
+            onDelta
+          }, isValidExtractorResponse);
+          toolCalls.push(...outcome.traces);
+          result = outcome.result;
         } else {
           throw primaryError;
         }
@@ -159,27 +214,61 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
       if (result.mode === "network") {
         mode = "llm";
         llmTrace = {
-          provider: context.runtime.provider,
-          model: context.runtime.model,
+          provider: result.provider,
+          model: result.model,
           requestDigest: result.requestDigest,
-          responseDigest: result.responseDigest
+          responseDigest: result.responseDigest,
+          fallbacks: result.fallbacks
         };
       } else {
         mode = "deterministic";
         llmTrace = null;
       }
     } catch (error) {
-      logger.warn("Extractor LLM invocation failed; using deterministic fallback", {
-        runId: context.runId,
-        attempt,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      mode = "deterministic";
-      llmTrace = null;
-      llmResponseContent = fallbackResponse;
+      // A replay miss means the recorded run no longer matches; never paper over it
+      if (error instanceof LlmFixtureMissingError) {
+        throw error;
+      }
+      if (error instanceof LlmBudgetExceededError && attempt > 1) {
+        recordBudgetCut("extractor", `skipped retry attempt ${attempt}; kept the previous attempt's facts`);
+        attemptsUsed = attempt - 1;
+        lastPromptBody = previousPromptBody;
+        break;
+      }
+      const partialFacts = error instanceof LlmStreamInterruptedError ? streamParser.facts : [];
+      if (error instanceof LlmStreamInterruptedError && partialFacts.length > 0) {
+        logger.warn("Extractor stream interrupted; keeping facts completed before the break", {
+          runId: context.runId,
+          attempt,
+          facts: partialFacts.length,
+          error: error.message
+        });
+        salvagedFromStream = partialFacts.length;
+        mode = "llm";
+        llmTrace = {
+          provider: error.provider ?? context.runtime.provider,
+          model: error.model ?? context.runtime.model,
+          requestDigest: error.requestDigest,
+          responseDigest: null
+        };
+        llmResponseContent = JSON.stringify({ facts: partialFacts });
+        metrics = { promptTokens: 0, completionTokens: 0, latencyMs: error.latencyMs };
+      } else {
+        if (error instanceof LlmBudgetExceededError) {
+          recordBudgetCut("extractor", "skipped LLM extraction; used deterministic facts");
+        }
+        logger.warn("Extractor LLM invocation failed; using deterministic fallback", {
+          runId: context.runId,
+          attempt,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        mode = "deterministic";
+        llmTrace = null;
+        llmResponseContent = fallbackResponse;
+      }
     }
 
-    const rawFacts = parseExtractorFacts(llmResponseContent);
+    const { facts: rawFacts, schemaErrors } = parseExtractorFacts(llmResponseContent);
     if (!rawFacts) {
       logger.warn("Extractor response invalid; falling back to deterministic", {
         attempt,
@@ -189,7 +278,7 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
       llmTrace = null;
     }
 
-    let mergedFacts = mergeFacts(rawFacts ?? [], deterministic.facts, context.analysis.metadata.headSha);
+    let mergedFacts = filterToScope(mergeFacts(rawFacts ?? [], deterministicFacts, context.baselineCard, context.analysis.metadata.headSha), context.stakeholderScope);
     if (mergedFacts.length > SAFETY_LIMITS.maxFacts) {
       logger.warn("Extractor produced more facts than allowed; trimming", {
         produced: mergedFacts.length,
@@ -200,12 +289,18 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
     }
 
     resolvedFacts = mergedFacts;
-    retryReasons = collectExtractorRetryReasons(mergedFacts, minConfidence);
+    // Schema violations are only actionable for model output; the fallback is ours
+    retryReasons = [
+      ...(mode === "llm" ? describeSchemaErrors(schemaErrors) : []),
+      ...collectExtractorRetryReasons(mergedFacts, minConfidence)
+    ];
 
+    // Facts salvaged from an interrupted stream are kept as-is; a retry could lose them.
     const shouldRetry =
       retryReasons.length > 0 &&
       attempt < maxAttempts &&
-      mode === "llm";
+      mode === "llm" &&
+      salvagedFromStream === 0;
 
     if (!shouldRetry) {
       break;
@@ -222,9 +317,11 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
     promptDigest: artifactPromptDigest,
     mode,
     facts: resolvedFacts,
-    deterministicFallbackFacts: deterministic.facts,
+    deterministicFallbackFacts: deterministicFacts,
     message:
-      mode === "llm"
+      salvagedFromStream > 0
+        ? `Extractor stream was interrupted; kept ${salvagedFromStream} facts completed before the break.`
+        : mode === "llm"
         ? retryReasons.length === 0
           ? "Extractor completed with live LLM orchestration."
           : "Extractor exhausted retries; review low-confidence facts."
@@ -232,7 +329,8 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
     analysisArtifact: context.analysis.artifactPath,
     generatedAt: new Date().toISOString(),
     attempts: attemptsUsed,
-    retryReasons
+    retryReasons,
+    ...(toolCalls.length > 0 ? { toolCalls } : {})
   };
 
   if (llmTrace) {
@@ -249,8 +347,15 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
     }
   }
 
-  await fsExtra.ensureDir(PROPOSALS_DIR);
-  const artifactPath = join(PROPOSALS_DIR, `${context.runId}${EXTRACTOR_ARTIFACT_SUFFIX}`);
+  if (toolCalls.length > 0) {
+    // Keep the analysis artifact the single record of every tool invocation for the run
+    context.analysis.toolCalls.push(...toolCalls);
+    await writeJsonFile(context.analysis.artifactPath, context.analysis);
+  }
+
+  const artifactsDir = context.artifactsDir ?? PROPOSALS_DIR;
+  await fsExtra.ensureDir(artifactsDir);
+  const artifactPath = join(artifactsDir, `${context.runId}${EXTRACTOR_ARTIFACT_SUFFIX}`);
   await writeJsonFile(artifactPath, artifact);
   const artifactDigest = createHash("sha256").update(JSON.stringify(artifact)).digest("hex");
 
@@ -260,6 +365,7 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
     artifact: artifactPath,
     facts: resolvedFacts.length,
     attempts: attemptsUsed,
+    toolCalls: toolCalls.length,
     remainingLowConfidence: retryReasons.length
   });
 
@@ -277,11 +383,23 @@ export async function runExtractorPass(context: PassContext): Promise<ExtractorR
 }
 
 async function renderExtractorPrompt(context: PassContext, template: string, minConfidence: number): Promise<string> {
-  // Compute a dynamic evidence budget based on the model's context window
+  // Compute a dynamic evidence budget that fits the smallest context window the pass may reach
   const maxOutputTokens = context.runtime.sampling.extractor.maxTokens;
-  const evidenceBudget = computeEvidenceTokenBudget(context.runtime.model, maxOutputTokens);
+  const targets = resolvePassChain(context.runtime, "extractor");
+  let evidenceBudget = computeRouteEvidenceTokenBudget(targets.length > 0 ? targets : [context.runtime], maxOutputTokens);
+  const affordable = remainingBudgetTokens(context.runtime.budget, resolvePassModel(context.runtime, "extractor"));
+  if (affordable !== null && Math.floor(affordable * EXTRACTOR_BUDGET_SHARE) < evidenceBudget) {
+    const trimmed = Math.max(0, Math.floor(affordable * EXTRACTOR_BUDGET_SHARE));
+    recordBudgetCut(
+      "extractor",
+      `evidence trimmed from ~${evidenceBudget} to ~${trimmed} tokens; lowest-priority files summarized or skipped`
+    );
+    evidenceBudget = trimmed;
+  }
   logger.info("Evidence token budget computed", {
+    provider: context.runtime.provider,
     model: context.runtime.model,
+    route: targets.map((target) => `${target.provider}:${target.model}`),
     maxOutputTokens,
     evidenceBudget,
     envOverride: process.env.LLM_CONTEXT_WINDOW ?? "none"
@@ -298,7 +416,23 @@ async function renderExtractorPrompt(context: PassContext, template: string, min
   for (const [placeholder, value] of replacements.entries()) {
     rendered = rendered.replaceAll(placeholder, value);
   }
-  return rendered;
+  return context.stakeholderScope ? `${rendered}\n\n${formatScope(context.stakeholderScope)}` : rendered;
+}
+
+function formatScope(scope: StakeholderScope): string {
+  const affected = new Set(scope.affected);
+  const inScope = scope.stakeholders.filter((stakeholder) => affected.has(stakeholder.id)).flatMap((stakeholder) => stakeholder.fieldPaths);
+  const outOfScope = scope.stakeholders
+    .filter((stakeholder) => !affected.has(stakeholder.id))
+    .flatMap((stakeholder) => stakeholder.fieldPaths)
+    .filter((pattern) => !inScope.includes(pattern));
+  return [
+    "### Scope",
+    "This is an incremental run. Propose facts only for these card paths (and paths no stakeholder owns):",
+    ...[...new Set(inScope)].map((pattern) => `- ${pattern}`),
+    "Do not propose facts for these paths; they are carried forward unchanged:",
+    ...[...new Set(outOfScope)].map((pattern) => `- ${pattern}`)
+  ].join("\n");
 }
 
 function collectExtractorRetryReasons(facts: Fact[], minConfidence: number): string[] {
@@ -336,30 +470,34 @@ function buildRetryGuidance(reasons: string[]): string {
   return reasons.map((reason) => `- ${reason}`).join("\n");
 }
 
-function parseExtractorFacts(raw: string): RawFactPayload[] | null {
-  const cleaned = stripCodeFences(raw.trim());
-  if (!cleaned) {
-    return null;
+function isValidExtractorResponse(raw: string): boolean {
+  return parseExtractorFacts(raw).facts !== null;
+}
+
+/**
+ * Facts from a response plus its FACT_SCHEMA violations. Facts that parse are kept even when
+ * they violate the schema: the merge normalizes them and the violations drive a retry.
+ */
+function parseExtractorFacts(raw: string): { facts: RawFactPayload[] | null; schemaErrors: string[] } {
+  const { value, errors } = parseStructuredResponse<unknown>(raw, FACT_SCHEMA);
+  if (value === null) {
+    logger.warn("Extractor response was not valid JSON", { errors, snippet: raw.slice(0, 200) });
+    return { facts: null, schemaErrors: errors };
   }
-  try {
-    const parsed = JSON.parse(cleaned);
-    if (Array.isArray(parsed)) {
-      return parsed as RawFactPayload[];
-    }
-    if (parsed && Array.isArray(parsed.facts)) {
-      return parsed.facts as RawFactPayload[];
-    }
-    return null;
-  } catch (error) {
-    logger.warn("Extractor response was not valid JSON", {
-      error: error instanceof Error ? error.message : String(error),
-      snippet: cleaned.slice(0, 200)
-    });
-    return null;
+  // Some models return the bare array; check it as if it were wrapped
+  if (Array.isArray(value)) {
+    const wrapped = parseStructuredResponse<unknown>(JSON.stringify({ facts: value }), FACT_SCHEMA);
+    return { facts: value as RawFactPayload[], schemaErrors: wrapped.errors };
   }
+  const facts = (value as { facts?: unknown })?.facts;
+  return { facts: Array.isArray(facts) ? (facts as RawFactPayload[]) : null, schemaErrors: errors };
 }
 
-function mergeFacts(rawFacts: RawFactPayload[], baselineFacts: Fact[], headSha: string): Fact[] {
+/**
+ * Overlay the model's facts on the deterministic ones. `currentValue` is always read from the
+ * baseline card, never taken from the model: it is the base of the three-way merge at apply.
+ */
+function mergeFacts(rawFacts: RawFactPayload[], baselineFacts: Fact[], baselineCard: unknown, headSha: string): Fact[] {
   if (rawFacts.length === 0) {
     return baselineFacts;
   }
@@ -405,7 +543,7 @@ function mergeFacts(rawFacts: RawFactPayload[], baselineFacts: Fact[], headSha:
       map.set(candidate.jsonPath, {
         jsonPath: candidate.jsonPath,
         jsonPointer: pointer,
-        currentValue: candidate.currentValue,
+        currentValue: getValueAtPointer(baselineCard, pointer),
         proposedValue: candidate.proposedValue,
         source: { kind: candidate.source?.kind ?? "extracted" },
         repoSources: normalizedAnchors,
@@ -419,10 +557,11 @@ function mergeFacts(rawFacts: RawFactPayload[], baselineFacts: Fact[], headSha:
     const normalizedAnchors = normalizeAnchors(candidate.repoSources ?? [], headSha);
     const mergedAnchors = normalizedAnchors.length > 0 ? normalizedAnchors : existing.repoSources;
     const confidence = normalizeConfidence(candidate.confidence, existing.confidence);
+    const jsonPointer = candidate.jsonPointer ?? existing.jsonPointer;
     map.set(candidate.jsonPath, {
       jsonPath: existing.jsonPath,
-      jsonPointer: candidate.jsonPointer ?? existing.jsonPointer,
-      currentValue: existing.currentValue,
+      jsonPointer,
+      currentValue: jsonPointer ? getValueAtPointer(baselineCard, jsonPointer) : existing.currentValue,
       proposedValue: candidate.proposedValue ?? existing.proposedValue,
       source: {
         kind: candidate.source?.kind ?? existing.source.kind
@@ -490,17 +629,6 @@ function computeGate(confidence: number): Gate {
   return "Require";
 }
 
-function stripCodeFences(content: string): string {
-  if (!content.startsWith("```")) {
-    return content;
-  }
-  const lines = content.split(/\r?\n/);
-  if (lines.length < 3) {
-    return content;
-  }
-  return lines.slice(1, -1).join("\n");
-}
-
 async function loadFeedback(): Promise<string> {
   const projectContext = await loadProjectContext();
   const feedbackPath = join(PROPOSALS_DIR, "../.feedback/rejections.jsonl");
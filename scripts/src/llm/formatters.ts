@@ -7,6 +7,7 @@ import { getPythonSkeleton } from "../analysis/ast.js";
 import type { AnalysisBundle, FileEvidence } from "../analysis/bundle.js";
 import type { RepositoryStaticSignals } from "../analysis/signals.js";
 import { estimateTokens } from "./client.js";
+import { getProviderAdapter, resolveContextWindow } from "./providers.js";
 import type { PassContext } from "./types.js";
 
 /**
@@ -28,6 +29,11 @@ export function formatRunMetadata(context: PassContext): string {
   return lines.join("\n");
 }
 
+/** The values {@link formatRunMetadata} and the changelog entry vary per run; see `runValues`. */
+export function runSpecificValues(context: PassContext): string[] {
+  return [context.runId, context.analysis.metadata.generatedAt];
+}
+
 export function formatBaseCard(card: unknown): string {
   return dump(card, { lineWidth: 120 });
 }
@@ -154,7 +160,12 @@ export function formatStaticSignals(signals: RepositoryStaticSignals): string {
   const blocks: string[] = [];
   if (signals.coverage.length > 0) {
     const coverageLines = signals.coverage
-      .map((entry) => `- ${entry.type}: ${(entry.percentage * 100).toFixed(1)}% (${entry.source})`)
+      .map((entry) => {
+        const packages = (entry.packages ?? [])
+          .slice(0, 8)
+          .map((pkg) => `    - ${pkg.name}: ${(pkg.percentage * 100).toFixed(1)}%`);
+        return [`- ${entry.type}: ${(entry.percentage * 100).toFixed(1)}% (${entry.source}:${entry.line ?? 1})`, ...packages].join("\n");
+      })
       .join("\n");
     blocks.push(`Coverage Signals:\n${coverageLines}`);
   }
@@ -164,6 +175,45 @@ export function formatStaticSignals(signals: RepositoryStaticSignals): string {
       .join("\n");
     blocks.push(`OpenAPI Specs:\n${specLines}`);
   }
+  // Bundles recorded before API extraction carry no api block
+  if (signals.api && signals.api.routes.length > 0) {
+    const routeLines = signals.api.routes
+      .slice(0, 15)
+      .map((route) => `- ${route.method} ${route.path} (${route.name}; ${route.anchor.path}:${route.anchor.startLine})`)
+      .join("\n");
+    blocks.push(`API Routes (${signals.api.source}):\n${routeLines}`);
+  }
+  if (signals.benchmarks && signals.benchmarks.length > 0) {
+    const benchmarkLines = signals.benchmarks
+      .slice(0, 5)
+      .map((report) => {
+        const measurements = report.measurements
+          .slice(0, 6)
+          .map((entry) => `    - ${entry.name} ${entry.statistic} ${entry.metric}: ${entry.value.toFixed(2)} ${entry.unit} (line ${entry.anchor.startLine})`);
+        return [`- ${report.tool} ${report.source}${report.hardware ? ` on ${report.hardware}` : ""}`, ...measurements].join("\n");
+      })
+      .join("\n");
+    blocks.push(`Benchmarks:\n${benchmarkLines}`);
+  }
+  if (signals.huggingFace && (signals.huggingFace.models.length > 0 || signals.huggingFace.cards.length > 0)) {
+    const { models, datasets, cards } = signals.huggingFace;
+    const hubLines = [
+      ...models.slice(0, 10).map((model) => `- model ${model.id} (${model.references.length} refs; ${model.references[0].path}:${model.references[0].startLine})`),
+      ...datasets.slice(0, 5).map((dataset) => `- dataset ${dataset.id} (${dataset.references[0].path}:${dataset.references[0].startLine})`),
+      ...cards.map(
+        (card) =>
+          `- local card ${card.id ?? card.directory}: ${[
+            card.architecture?.value,
+            card.embeddingDimension ? `dim ${card.embeddingDimension.value}` : null,
+            card.maxSequenceLength ? `max_seq ${card.maxSequenceLength.value}` : null,
+            card.license?.value
+          ]
+            .filter(Boolean)
+            .join(", ")}`
+      )
+    ];
+    blocks.push(`Hugging Face References:\n${hubLines.join("\n")}`);
+  }
   if (signals.metrics.length > 0) {
     const metricLines = signals.metrics
       .slice(0, 10)
@@ -229,20 +279,6 @@ function stakeholderFocus(stakeholderId: string): string {
 // Dynamic token budget computation
 // ---------------------------------------------------------------------------
 
-/**
- * Known context window sizes for common models.
- * These can be overridden via the `LLM_CONTEXT_WINDOW` env variable.
- */
-const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
-  "gpt-5.1": 272000,      // API-reported configured limit (nominal 400 000)
-  "gpt-4.1": 128000,
-  "gpt-4o": 128000,
-  "o1-preview": 128000,
-  "o1-mini": 128000,
-  "o1": 200000,
-  "o3-mini": 200000
-};
-
 /** Tokens reserved for system prompt, base card YAML, run metadata, policy rules, and template chrome. */
 const PROMPT_OVERHEAD_TOKENS = 10000;
 /** Additional safety margin to avoid borderline overflows. */
@@ -257,10 +293,11 @@ const MIN_EVIDENCE_TOKENS = 20000;
  * Formula:  evidenceBudget = contextWindow − maxOutputTokens − overhead − safetyMargin
  *
  * The caller can override the context window via the `LLM_CONTEXT_WINDOW` env variable;
- * otherwise, we look up the model name in {@link MODEL_CONTEXT_WINDOWS} and fall back to
- * {@link DEFAULT_EVIDENCE_TOKENS}.
+ * otherwise, we use the window declared by the provider adapter for the model and fall
+ * back to {@link DEFAULT_EVIDENCE_TOKENS}.
  */
 export function computeEvidenceTokenBudget(
+  provider: string | null,
   model: string | null,
   maxOutputTokens: number
 ): number {
@@ -269,14 +306,8 @@ export function computeEvidenceTokenBudget(
 
   if (envOverride && !Number.isNaN(Number(envOverride))) {
     contextWindow = Number(envOverride);
-  } else if (model) {
-    // Match the model string prefix (e.g. "gpt-5.1-0527" → "gpt-5.1")
-    for (const [prefix, window] of Object.entries(MODEL_CONTEXT_WINDOWS)) {
-      if (model.startsWith(prefix)) {
-        contextWindow = window;
-        break;
-      }
-    }
+  } else {
+    contextWindow = resolveContextWindow(getProviderAdapter(provider), model);
   }
 
   if (contextWindow === null) {
@@ -287,3 +318,14 @@ export function computeEvidenceTokenBudget(
   const budget = contextWindow - maxOutputTokens - PROMPT_OVERHEAD_TOKENS - SAFETY_MARGIN_TOKENS;
   return Math.max(MIN_EVIDENCE_TOKENS, budget);
 }
+
+/**
+ * Evidence budget for every model a pass may be routed to: the smallest of their budgets, so
+ * a route or fallback to a smaller context window does not overflow.
+ */
+export function computeRouteEvidenceTokenBudget(
+  targets: Array<{ provider: string | null; model: string | null }>,
+  maxOutputTokens: number
+): number {
+  return Math.min(...targets.map((target) => computeEvidenceTokenBudget(target.provider, target.model, maxOutputTokens)));
+}
@@ -4,10 +4,12 @@ export const MOCK_EXTRACTOR_RESPONSE = {
       jsonPath: "$.ai.engine",
       jsonPointer: "/ai/engine",
       proposedValue: "Mock Engine (PyTorch)",
+      currentValue: null,
       source: { kind: "extracted" },
-      repoSources: [{ path: "src/main.py", startLine: 1, endLine: 1, commit: "HEAD" }],
+      repoSources: [{ path: "src/main.py", startLine: 1, endLine: 1, commit: "HEAD", kind: "code" }],
       confidence: 1.0,
-      gate: "OK"
+      gate: "OK",
+      verifierNotes: ""
     }
   ]
 };
@@ -18,18 +20,15 @@ export const MOCK_REASONER_RESPONSE = {
       jsonPath: "$.ai.engine",
       jsonPointer: "/ai/engine",
       proposedValue: "Mock Engine (PyTorch)",
+      currentValue: null,
       source: { kind: "extracted" },
-      repoSources: [{ path: "src/main.py", startLine: 1, endLine: 1, commit: "HEAD" }],
+      repoSources: [{ path: "src/main.py", startLine: 1, endLine: 1, commit: "HEAD", kind: "code" }],
       confidence: 1.0,
-      gate: "OK"
+      gate: "OK",
+      verifierNotes: ""
     }
   ],
-  mutatedCard: {
-    ai: {
-      engine: "Mock Engine (PyTorch)"
-    }
-  },
-  thinking: "Mock reasoning applied."
+  reasoning: "Mock reasoning applied."
 };
 
 export const MOCK_VERIFIER_RESPONSE = {
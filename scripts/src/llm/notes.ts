@@ -8,10 +8,16 @@ import { PROPOSALS_DIR, NOTES_ARTIFACT_SUFFIX, SAFETY_LIMITS } from "../constant
 import { buildStakeholderNotes } from "../pipeline/deterministic.js";
 import { writeJsonFile } from "../utils/fs.js";
 import { logger } from "../utils/logger.js";
-import { loadPromptTemplate } from "../utils/prompts.js";
-import { invokeChatCompletion } from "./client.js";
+import { loadPassPrompt } from "../utils/prompts.js";
+import { estimateTokens } from "./client.js";
+import { invokeRoutedCompletion, type RoutedInvocationResult } from "./routing.js";
+import { LlmFixtureMissingError } from "./replay.js";
+import { LlmBudgetExceededError, recordBudgetCut } from "./budget.js";
+import { getSharedScheduler } from "./scheduler.js";
+import { describeSchemaErrors, parseStructuredResponse } from "./structured.js";
 import {
   formatRunMetadata,
+  runSpecificValues,
   summarizeFactsForStakeholder
 } from "./formatters.js";
 
@@ -31,6 +37,8 @@ interface NotesArtifact {
     note: Proposal["notes"][string] | null;
     fallback: Proposal["notes"][string] | null;
     llm?: {
+      provider: string | null;
+      model: string | null;
       requestDigest: string | null;
       responseDigest: string | null;
       promptPreview?: string;
@@ -50,6 +58,29 @@ interface NotesArtifact {
   };
 }
 
+const NOTE_SCHEMA = {
+  type: "object",
+  properties: {
+    note: {
+      anyOf: [
+        {
+          type: "object",
+          properties: {
+            overview: { type: "string" },
+            changes: { type: "string" },
+            confidence: { type: "number" }
+          },
+          required: ["overview", "changes", "confidence"],
+          additionalProperties: false
+        },
+        { type: "null" }
+      ]
+    }
+  },
+  required: ["note"],
+  additionalProperties: false
+};
+
 interface NotePayload {
   note?: { textMd?: string; overview?: string; changes?: string; confidence: number } | null;
 }
@@ -62,47 +93,76 @@ export async function runNotesPass(
   context: PassContext,
   input: ReasonerResult | VerifierResult
 ): Promise<NotesResult> {
-  const prompt = await loadPromptTemplate("notes.v1.md");
+  const prompt = await loadPassPrompt("notes", context.runtime.promptVersions.notes);
   const fallbackNotes = buildStakeholderNotes(input.facts);
-  const stakeholderIds = deriveStakeholderIds(context, fallbackNotes).slice(0, SAFETY_LIMITS.maxNotes);
+  const knownIds = deriveStakeholderIds(context, fallbackNotes).slice(0, SAFETY_LIMITS.maxNotes);
+  const scope = context.stakeholderScope ? new Set(context.stakeholderScope.affected) : null;
+  const stakeholderIds = scope ? knownIds.filter((id) => scope.has(id)) : knownIds;
 
   const aggregateMetrics = { promptTokens: 0, completionTokens: 0, latencyMs: 0 };
   const requestDigests: string[] = [];
   const responseDigests: string[] = [];
   let networkModeUsed = false;
+  let answeredBy: { provider: string | null; model: string | null } = {
+    provider: context.runtime.provider,
+    model: context.runtime.model
+  };
+  const fallbacks: string[] = [];
+  let skippedForBudget = 0;
+  // Notes are not retried; an invalid note falls back to the deterministic one and is reported
+  const errors: string[] = [];
 
   const finalNotes: Proposal["notes"] = {};
   const perStakeholder: NotesArtifact["perStakeholder"] = [];
 
-  for (const stakeholderId of stakeholderIds) {
-    const baselineFallback = resolveBaselineNote(context, stakeholderId);
-    const fallback = fallbackNotes[stakeholderId] ?? baselineFallback;
+  const requests = stakeholderIds.map((stakeholderId) => {
+    const fallback = fallbackNotes[stakeholderId] ?? resolveBaselineNote(context, stakeholderId);
     const renderedPrompt = renderNotesPrompt(context, input.facts, stakeholderId, prompt.body);
-    const fallbackResponse = JSON.stringify({ note: fallback });
-
-    let usedFallback = false;
-    let usedNetwork = false;
-    let llmRequestDigest: string | null = null;
-    let llmResponseDigest: string | null = null;
-    let llmContent = fallbackResponse;
+    return { stakeholderId, fallback, renderedPrompt, fallbackResponse: JSON.stringify({ note: fallback }) };
+  });
 
-    try {
-      const result = await invokeChatCompletion(context.runtime, {
+  // Stakeholder calls are independent, so they run concurrently within the shared rate limits;
+  // outcomes are folded below in stakeholder order to keep the artifact deterministic.
+  const scheduler = getSharedScheduler(context.runtime);
+  const outcomes = await Promise.all(requests.map(({ stakeholderId, renderedPrompt, fallbackResponse }) => {
+    const messages = [
+      {
+        role: "system" as const,
+        content: (prompt.metadata.system as string) ?? "You craft stakeholder notes for ML System Card updates."
+      },
+      { role: "user" as const, content: renderedPrompt }
+    ];
+    return scheduler.run(estimateTokens(JSON.stringify(messages)), () =>
+      invokeRoutedCompletion(context.runtime, "notes", {
         promptId: `${prompt.id}:${stakeholderId}`,
+        runValues: runSpecificValues(context),
         temperature: context.runtime.sampling.notes.temperature,
         topP: context.runtime.sampling.notes.topP,
         maxTokens: context.runtime.sampling.notes.maxTokens,
         reasoningEffort: context.runtime.sampling.notes.reasoningEffort,
-        messages: [
-          {
-            role: "system",
-            content: (prompt.metadata.system as string) ?? "You craft stakeholder notes for ML System Card updates."
-          },
-          { role: "user", content: renderedPrompt }
-        ],
+        messages,
         fallbackResponse,
-        jsonMode: true
-      });
+        jsonMode: true,
+        jsonSchema: NOTE_SCHEMA
+      }, isValidNoteResponse).then(
+        (result): { result: RoutedInvocationResult } | { error: unknown } => ({ result }),
+        (error: unknown) => ({ error })
+      )
+    );
+  }));
+
+  for (const [index, { stakeholderId, fallback, renderedPrompt, fallbackResponse }] of requests.entries()) {
+    const outcome = outcomes[index];
+
+    let usedFallback = false;
+    let usedNetwork = false;
+    let llmRequestDigest: string | null = null;
+    let llmResponseDigest: string | null = null;
+    let llmContent = fallbackResponse;
+    let stakeholderModel = answeredBy;
+
+    if ("result" in outcome) {
+      const { result } = outcome;
       llmContent = result.content;
       aggregateMetrics.promptTokens += result.promptTokens;
       aggregateMetrics.completionTokens += result.completionTokens;
@@ -112,6 +172,9 @@ export async function runNotesPass(
       if (result.mode === "network") {
         usedNetwork = true;
         networkModeUsed = true;
+        stakeholderModel = { provider: result.provider, model: result.model };
+        answeredBy = stakeholderModel;
+        fallbacks.push(...result.fallbacks);
         if (result.requestDigest) {
           requestDigests.push(result.requestDigest);
         }
@@ -121,17 +184,28 @@ export async function runNotesPass(
       } else {
         usedFallback = true;
       }
-    } catch (error) {
-      logger.warn("Notes LLM invocation failed; using deterministic fallback", {
-        runId: context.runId,
-        stakeholderId,
-        error: error instanceof Error ? error.message : String(error)
-      });
+    } else {
+      const { error } = outcome;
+      if (error instanceof LlmFixtureMissingError) {
+        throw error;
+      }
+      if (error instanceof LlmBudgetExceededError) {
+        skippedForBudget += 1;
+      } else {
+        logger.warn("Notes LLM invocation failed; using deterministic fallback", {
+          runId: context.runId,
+          stakeholderId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
       usedFallback = true;
       llmContent = fallbackResponse;
     }
 
-    const parsed = parseNoteResponse(llmContent);
+    const { payload: parsed, schemaErrors } = parseNoteResponse(llmContent);
+    if (usedNetwork) {
+      errors.push(...describeSchemaErrors(schemaErrors, `Note for ${stakeholderId}`));
+    }
     const note = normalizeNote(parsed.note, fallback);
     if (note) {
       finalNotes[stakeholderId] = note;
@@ -147,6 +221,7 @@ export async function runNotesPass(
 
     if (usedNetwork) {
       entry.llm = {
+        ...stakeholderModel,
         requestDigest: llmRequestDigest,
         responseDigest: llmResponseDigest
       };
@@ -159,6 +234,23 @@ export async function runNotesPass(
     perStakeholder.push(entry);
   }
 
+  // Stakeholders whose watch_paths saw no change keep last run's note verbatim
+  if (scope) {
+    for (const stakeholderId of knownIds) {
+      const previous = context.baselineCard.stakeholderNotes?.[stakeholderId];
+      if (!scope.has(stakeholderId) && previous && typeof previous === "object") {
+        finalNotes[stakeholderId] = previous as Proposal["notes"][string];
+      }
+    }
+  }
+
+  if (skippedForBudget > 0) {
+    recordBudgetCut(
+      "notes",
+      `skipped LLM notes for ${skippedForBudget} of ${stakeholderIds.length} stakeholders; used deterministic notes`
+    );
+  }
+
   const mode = networkModeUsed ? "llm" : "deterministic";
 
   const artifact: NotesArtifact = {
@@ -175,16 +267,16 @@ export async function runNotesPass(
 
   if (networkModeUsed) {
     artifact.llm = {
-      provider: context.runtime.provider,
-      model: context.runtime.model,
+      ...answeredBy,
       requestDigest: digestList(requestDigests),
       responseDigest: digestList(responseDigests),
       metrics: aggregateMetrics
     };
   }
 
-  await fsExtra.ensureDir(PROPOSALS_DIR);
-  const artifactPath = join(PROPOSALS_DIR, `${context.runId}${NOTES_ARTIFACT_SUFFIX}`);
+  const artifactsDir = context.artifactsDir ?? PROPOSALS_DIR;
+  await fsExtra.ensureDir(artifactsDir);
+  const artifactPath = join(artifactsDir, `${context.runId}${NOTES_ARTIFACT_SUFFIX}`);
   await writeJsonFile(artifactPath, artifact);
   const artifactDigest = createHash("sha256").update(JSON.stringify(artifact)).digest("hex");
 
@@ -192,6 +284,7 @@ export async function runNotesPass(
     runId: context.runId,
     mode,
     stakeholders: stakeholderIds.length,
+    carriedForward: knownIds.length - stakeholderIds.length,
     artifact: artifactPath
   });
 
@@ -204,14 +297,15 @@ export async function runNotesPass(
     metrics: aggregateMetrics,
     llm: networkModeUsed
       ? {
-          provider: context.runtime.provider,
-          model: context.runtime.model,
+          ...answeredBy,
           requestDigest: digestList(requestDigests),
-          responseDigest: digestList(responseDigests)
+          responseDigest: digestList(responseDigests),
+          fallbacks
         }
       : null,
     attempts: 1,
-    retryReasons: []
+    retryReasons: [],
+    errors
   } satisfies NotesResult;
 }
 
@@ -262,24 +356,18 @@ function renderNotesPrompt(
   return rendered;
 }
 
-function parseNoteResponse(raw: string): { note?: { textMd?: string; overview?: string; changes?: string; confidence: number } } {
-  const cleaned = stripCodeFences(raw.trim());
-  if (!cleaned) {
-    return { note: undefined };
-  }
-  try {
-    const parsed = JSON.parse(cleaned);
-    if (parsed && typeof parsed === "object") {
-      return parsed;
-    }
-    return { note: undefined };
-  } catch (error) {
-    logger.warn("Notes response was not valid JSON", {
-      error: error instanceof Error ? error.message : String(error),
-      snippet: cleaned.slice(0, 200)
-    });
-    return { note: undefined };
+function isValidNoteResponse(raw: string): boolean {
+  const { value } = parseStructuredResponse<NotePayload>(raw, NOTE_SCHEMA);
+  return Boolean(value) && typeof value === "object" && typeof value?.note === "object";
+}
+
+function parseNoteResponse(raw: string): { payload: NotePayload; schemaErrors: string[] } {
+  const { value, errors } = parseStructuredResponse<NotePayload>(raw, NOTE_SCHEMA);
+  if (value === null) {
+    logger.warn("Notes response was not valid JSON", { errors, snippet: raw.slice(0, 200) });
+    return { payload: { note: undefined }, schemaErrors: errors };
   }
+  return { payload: value && typeof value === "object" ? value : { note: undefined }, schemaErrors: errors };
 }
 
 function normalizeNote(
@@ -402,14 +490,3 @@ function clamp01(value: number): number {
   }
   return value;
 }
-
-function stripCodeFences(content: string): string {
-  if (!content.startsWith("```")) {
-    return content;
-  }
-  const lines = content.split(/\r?\n/);
-  if (lines.length < 3) {
-    return content;
-  }
-  return lines.slice(1, -1).join("\n");
-}
@@ -0,0 +1,36 @@
+// ── Cost estimation (USD per 1 M tokens) ──────────────────────────────
+// Keep this table up-to-date when switching models.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o":           { promptPer1M: 2.50,  completionPer1M: 10.00 },
+  "gpt-4o-mini":      { promptPer1M: 0.15,  completionPer1M: 0.60  },
+  "gpt-4-turbo":      { promptPer1M: 10.00, completionPer1M: 30.00 },
+  "gpt-4":            { promptPer1M: 30.00, completionPer1M: 60.00 },
+  "gpt-3.5-turbo":    { promptPer1M: 0.50,  completionPer1M: 1.50  },
+  "gpt-5.1":          { promptPer1M: 2.00,  completionPer1M: 8.00  },
+  "o3-mini":          { promptPer1M: 1.10,  completionPer1M: 4.40  },
+};
+
+export interface ModelPricing {
+  promptPer1M: number;
+  completionPer1M: number;
+}
+
+/** Pricing for the longest table key `model` starts with, so "gpt-4o-mini" is not billed as "gpt-4o". */
+export function resolveModelPricing(model: string | null | undefined): ModelPricing | null {
+  if (!model) return null;
+  const key = Object.keys(MODEL_PRICING)
+    .filter((k) => model.toLowerCase().startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICING[key] : null;
+}
+
+export function estimateCostUsd(
+  model: string | null | undefined,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined {
+  const p = resolveModelPricing(model);
+  if (!p) return undefined;
+  return (promptTokens / 1_000_000) * p.promptPer1M +
+         (completionTokens / 1_000_000) * p.completionPer1M;
+}
@@ -0,0 +1,135 @@
+import { join } from "node:path";
+
+import type { Fact } from "lib/card/types.js";
+
+import type { CardSeed } from "../card/seed.js";
+import type { AnalysisBundle } from "../analysis/bundle.js";
+import type { LlmPassName, LlmRuntimeConfig } from "../config/env.js";
+import { LLM_ENV_VARIABLES, PROMPT_EVALS_DIR } from "../constants.js";
+import { checkAnchorResolvability } from "../metrics/stages/apply.js";
+import { computeFactDistribution, type FactDistributionMetrics } from "../metrics/stages/generator.js";
+import type { MetricsReport } from "../metrics/types.js";
+import { logger } from "../utils/logger.js";
+import { runExtractorPass } from "./extractor.js";
+import { runReasonerPass } from "./reasoner.js";
+import { runVerifierPass } from "./verifier.js";
+
+export type PromptVersionSelection = LlmRuntimeConfig["promptVersions"];
+
+/** Eval metrics: M9–M11 distribution, M6 resolvability over every anchor, and anchor coverage. */
+export type PromptEvalMetrics = FactDistributionMetrics &
+  Pick<MetricsReport, "resolvable_anchor_count" | "total_evaluated_anchor_count"> & {
+    anchor_resolvability_rate: number;
+    /** Share of facts carrying at least one anchor (the reasoner's coverage_non_null). */
+    coverage_non_null: number;
+  };
+
+export interface PromptEvalVariant {
+  label: string;
+  promptVersions: PromptVersionSelection;
+  /** promptId each pass actually ran with. */
+  promptIds: Partial<Record<LlmPassName, string>>;
+  metrics: PromptEvalMetrics;
+}
+
+export interface PromptEvalReport {
+  analysisRunId: string;
+  headSha: string;
+  generatedAt: string;
+  variants: [PromptEvalVariant, PromptEvalVariant];
+  /** B minus A for every numeric metric. */
+  delta: Partial<Record<keyof PromptEvalMetrics, number>>;
+}
+
+/**
+ * Parse "extractor=v2,notes=v1" into a per-pass version map. Unknown passes and malformed
+ * versions are rejected so a typo cannot silently evaluate the default prompt.
+ */
+export function parsePromptVersionSelection(spec: string): PromptVersionSelection {
+  const selection: PromptVersionSelection = {};
+  const passes = Object.keys(LLM_ENV_VARIABLES.promptVersions);
+  for (const entry of spec.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [pass, version] = entry.split("=").map((part) => part.trim());
+    if (!passes.includes(pass) || !/^v\d+$/.test(version ?? "")) {
+      throw new Error(`Invalid prompt selection "${entry}"; expected <${passes.join("|")}>=v<N>`);
+    }
+    selection[pass as LlmPassName] = version;
+  }
+  return selection;
+}
+
+export function computePromptEvalMetrics(facts: Fact[], coverageNonNull: number, headSha: string): PromptEvalMetrics {
+  let resolvable = 0;
+  let evaluated = 0;
+  for (const fact of facts) {
+    for (const anchor of fact.repoSources) {
+      evaluated += 1;
+      if (checkAnchorResolvability(anchor, headSha)) {
+        resolvable += 1;
+      }
+    }
+  }
+  return {
+    ...computeFactDistribution(facts),
+    resolvable_anchor_count: resolvable,
+    total_evaluated_anchor_count: evaluated,
+    anchor_resolvability_rate: evaluated > 0 ? resolvable / evaluated : 0,
+    coverage_non_null: coverageNonNull
+  };
+}
+
+export function diffPromptEvalMetrics(a: PromptEvalMetrics, b: PromptEvalMetrics): PromptEvalReport["delta"] {
+  const delta: PromptEvalReport["delta"] = {};
+  for (const key of Object.keys(b) as Array<keyof PromptEvalMetrics>) {
+    const before = a[key];
+    const after = b[key];
+    if (typeof before === "number" && typeof after === "number") {
+      delta[key] = after - before;
+    }
+  }
+  return delta;
+}
+
+/**
+ * Run the extractor, reasoner and verifier over a recorded analysis bundle with the given
+ * prompt versions. The runtime is forced into replay mode, so every request must have a
+ * recorded fixture; a miss fails the eval rather than comparing against fallback output.
+ * The run id stays the recorded one because it is part of every prompt; only the artifacts
+ * move under PROMPT_EVALS_DIR.
+ */
+export async function runPromptVariant(
+  label: string,
+  bundle: AnalysisBundle,
+  baselineCard: CardSeed,
+  runtime: LlmRuntimeConfig,
+  promptVersions: PromptVersionSelection
+): Promise<PromptEvalVariant> {
+  const runId = bundle.metadata.runId;
+  const artifactsDir = join(PROMPT_EVALS_DIR, `${runId}.eval-${label}`);
+  const context = {
+    runId,
+    baselineCard,
+    // Tool calls are appended to the bundle and written back; keep the source bundle untouched
+    analysis: { ...structuredClone(bundle), artifactPath: join(artifactsDir, `${runId}.analysis.json`) },
+    artifactsDir,
+    runtime: {
+      ...runtime,
+      recording: { ...runtime.recording, mode: "replay" as const },
+      promptVersions: { ...runtime.promptVersions, ...promptVersions }
+    }
+  };
+
+  const extractor = await runExtractorPass(context);
+  const reasoner = await runReasonerPass(context, extractor);
+  const verifier = await runVerifierPass(context, reasoner);
+
+  const metrics = computePromptEvalMetrics(verifier.facts, reasoner.coverageNonNull, bundle.metadata.headSha);
+  logger.info("Prompt variant evaluated", { label, promptVersions: context.runtime.promptVersions, facts: metrics.facts_total });
+
+  return {
+    label,
+    promptVersions: context.runtime.promptVersions,
+    promptIds: { extractor: extractor.promptId, reasoner: reasoner.promptId, verifier: verifier.promptId },
+    metrics
+  };
+}
@@ -0,0 +1,606 @@
+import type { ChatCompletionOptions, ChatMessage, LlmToolCall } from "./client.js";
+
+export type StreamFormat = "openai" | "anthropic";
+
+/**
+ * How a provider enforces a JSON Schema natively: OpenAI-style `response_format: json_schema`,
+ * a forced tool call whose input is the answer (Anthropic), or Gemini's `responseSchema`.
+ */
+export type StructuredOutputMode = "response_format" | "tool" | "response_schema";
+
+/** Name of the synthetic tool Anthropic is forced to call when a response schema is requested. */
+export const STRUCTURED_RESPONSE_TOOL = "respond";
+
+export interface LlmProviderCapabilities {
+  /** Provider can be asked for a JSON-only response (json_object / responseMimeType). */
+  jsonMode: boolean;
+  /** Provider understands a `reasoning_effort`-style knob. */
+  reasoningEffort: boolean;
+  /** Provider accepts a dedicated system message; otherwise it is folded into the first user turn. */
+  systemRole: boolean;
+  /** SSE dialect spoken by the streaming endpoint, or null when streaming is unsupported. */
+  streaming: StreamFormat | null;
+  /** Whether requests need an API key (local runtimes usually do not). */
+  requiresApiKey: boolean;
+  /** Provider accepts function/tool declarations and returns structured tool calls. */
+  toolCalling: boolean;
+  /** Native JSON Schema enforcement, or null when the schema can only be checked after the fact. */
+  structuredOutput: StructuredOutputMode | null;
+  /**
+   * Context window in tokens. `models` is matched by model-name prefix (longest first);
+   * `default` applies to any other model served by this provider.
+   */
+  maxContext: {
+    default: number | null;
+    models?: Record<string, number>;
+  };
+}
+
+export interface LlmProviderAdapter {
+  id: string;
+  capabilities: LlmProviderCapabilities;
+  createHeaders(apiKey: string | null): Record<string, string>;
+  resolveEndpoint(baseUrl: string | null, model: string, apiKey: string | null): string;
+  createPayload(model: string, options: ChatCompletionOptions): unknown;
+  extractContent(result: any): string;
+  /** Tool calls requested in a non-streamed response; omitted by adapters without tool support. */
+  extractToolCalls?(result: any): LlmToolCall[];
+}
+
+export interface OpenAiCompatibleAdapterOptions {
+  id: string;
+  endpoint: string | null;
+  capabilities?: Partial<LlmProviderCapabilities>;
+  /** Header carrying the key; defaults to `Authorization: Bearer <key>`. */
+  apiKeyHeader?: string;
+}
+
+const OPENAI_COMPATIBLE_CAPABILITIES: LlmProviderCapabilities = {
+  jsonMode: true,
+  reasoningEffort: false,
+  systemRole: true,
+  streaming: "openai",
+  requiresApiKey: true,
+  toolCalling: true,
+  structuredOutput: "response_format",
+  maxContext: { default: null }
+};
+
+const registry = new Map<string, LlmProviderAdapter>();
+
+/**
+ * Register (or replace) the adapter for a provider id. Ids are matched case-insensitively
+ * against `LLM_PROVIDER`, so an in-house gateway can be wired in without touching the client.
+ */
+export function registerProviderAdapter(adapter: LlmProviderAdapter): void {
+  registry.set(adapter.id.toLowerCase(), adapter);
+}
+
+export function listProviderAdapters(): LlmProviderAdapter[] {
+  return [...registry.values()];
+}
+
+/**
+ * Resolve the adapter for a provider id. Unknown ids fall back to the OpenAI-compatible
+ * adapter, matching the client's historical default.
+ */
+export function getProviderAdapter(provider: string | null | undefined): LlmProviderAdapter {
+  const id = provider?.toLowerCase() ?? "openai";
+  const adapter = registry.get(id);
+  if (adapter) {
+    return adapter;
+  }
+  if (id.includes("azure")) {
+    return registry.get("azure")!;
+  }
+  return registry.get("openai")!;
+}
+
+/** Context window declared by the adapter for `model`, or null when unknown. */
+export function resolveContextWindow(adapter: LlmProviderAdapter, model: string | null): number | null {
+  const { maxContext } = adapter.capabilities;
+  if (model && maxContext.models) {
+    const prefixes = Object.keys(maxContext.models).sort((a, b) => b.length - a.length);
+    const match = prefixes.find((prefix) => model.startsWith(prefix));
+    if (match) {
+      return maxContext.models[match];
+    }
+  }
+  return maxContext.default;
+}
+
+export function createOpenAiCompatibleAdapter(options: OpenAiCompatibleAdapterOptions): LlmProviderAdapter {
+  const capabilities: LlmProviderCapabilities = {
+    ...OPENAI_COMPATIBLE_CAPABILITIES,
+    ...options.capabilities,
+    maxContext: options.capabilities?.maxContext ?? OPENAI_COMPATIBLE_CAPABILITIES.maxContext
+  };
+
+  return {
+    id: options.id,
+    capabilities,
+    createHeaders(apiKey) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (apiKey) {
+        if (options.apiKeyHeader) {
+          headers[options.apiKeyHeader] = apiKey;
+        } else {
+          headers["Authorization"] = `Bearer ${apiKey}`;
+        }
+      }
+      return headers;
+    },
+    resolveEndpoint(baseUrl) {
+      if (baseUrl) {
+        return baseUrl.replace(/\/$/, "");
+      }
+      if (!options.endpoint) {
+        throw new Error(`Provider "${options.id}" requires LLM_BASE_URL to be set`);
+      }
+      return options.endpoint;
+    },
+    createPayload: createOpenAiPayload,
+    extractContent: extractOpenAiContent,
+    extractToolCalls: extractOpenAiToolCalls
+  };
+}
+
+function createOpenAiPayload(model: string, options: ChatCompletionOptions): unknown {
+  let responseFormat: unknown = undefined;
+  if (options.jsonSchema) {
+    responseFormat = {
+      type: "json_schema",
+      json_schema: {
+        name: "response",
+        // Strict mode rejects schemas with open objects, so those are sent as best-effort hints
+        strict: isStrictCompatibleSchema(options.jsonSchema),
+        schema: options.jsonSchema
+      }
+    };
+  } else if (options.jsonMode) {
+    responseFormat = { type: "json_object" };
+  }
+
+  const streamOptions = options.stream ? { stream: true, stream_options: { include_usage: true } } : {};
+  const toolOptions = options.tools?.length
+    ? {
+        tools: options.tools.map((tool) => ({
+          type: "function",
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+        })),
+        tool_choice: options.toolChoice ?? "auto"
+      }
+    : {};
+  const messages = options.messages.map(toOpenAiMessage);
+
+  // O1 models (o1-preview, o1-mini) do not support temperature, top_p, or max_tokens (use max_completion_tokens)
+  // and they don't support system messages in the 'messages' array in the same way (they use 'developer' role or just user)
+  // but for now we'll just strip unsupported params.
+  // GPT-5.1 also requires max_completion_tokens instead of max_tokens.
+  if (model.startsWith("o1-") || model.startsWith("gpt-5.1")) {
+    const payload: any = {
+      model,
+      messages,
+      max_completion_tokens: options.maxTokens,
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+      ...toolOptions,
+      ...streamOptions
+    };
+
+    // GPT-5.1 supports reasoning_effort
+    if (options.reasoningEffort) {
+      payload.reasoning_effort = options.reasoningEffort;
+    }
+
+    // GPT-5.1 supports verbosity
+    if (options.verbosity) {
+      payload.verbosity = options.verbosity;
+    }
+
+    // GPT-5.1 ONLY supports temperature/top_p if reasoning_effort is "none"
+    if (model.startsWith("gpt-5.1") && options.reasoningEffort === "none") {
+      payload.temperature = options.temperature;
+      payload.top_p = options.topP;
+    }
+
+    return payload;
+  }
+
+  return {
+    model,
+    messages,
+    temperature: options.temperature,
+    top_p: options.topP,
+    max_tokens: options.maxTokens,
+    ...(responseFormat ? { response_format: responseFormat } : {}),
+    ...toolOptions,
+    ...streamOptions
+  };
+}
+
+/**
+ * OpenAI strict mode requires every object to list all of its properties as required and to
+ * forbid additional ones.
+ */
+export function isStrictCompatibleSchema(schema: unknown): boolean {
+  if (Array.isArray(schema)) {
+    return schema.every(isStrictCompatibleSchema);
+  }
+  if (!schema || typeof schema !== "object") {
+    return true;
+  }
+  const node = schema as Record<string, any>;
+  const isObject = node.type === "object" || (Array.isArray(node.type) && node.type.includes("object"));
+  if (isObject) {
+    const properties = Object.keys(node.properties ?? {});
+    const required: string[] = Array.isArray(node.required) ? node.required : [];
+    if (node.additionalProperties !== false || properties.some((key) => !required.includes(key))) {
+      return false;
+    }
+  }
+  return Object.entries(node).every(([key, value]) =>
+    key === "properties"
+      ? Object.values(value as Record<string, unknown>).every(isStrictCompatibleSchema)
+      : typeof value !== "object" || isStrictCompatibleSchema(value)
+  );
+}
+
+function toOpenAiMessage(message: ChatMessage): unknown {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+function extractOpenAiToolCalls(result: any): LlmToolCall[] {
+  const calls = result?.choices?.[0]?.message?.tool_calls;
+  if (!Array.isArray(calls)) {
+    return [];
+  }
+  return calls
+    .filter((call: any) => typeof call?.function?.name === "string")
+    .map((call: any, index: number) => ({
+      id: typeof call.id === "string" ? call.id : `call_${index}`,
+      name: call.function.name,
+      arguments: parseToolArguments(call.function.arguments)
+    }));
+}
+
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === "object") {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw !== "string" || !raw.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function extractOpenAiContent(result: any): string {
+  if (!result) {
+    return "";
+  }
+  if (Array.isArray(result.choices) && result.choices.length > 0) {
+    const choice = result.choices[0];
+    if (choice.message?.content) {
+      return String(choice.message.content);
+    }
+    if (choice.text) {
+      return String(choice.text);
+    }
+  }
+  if (typeof result.content === "string") {
+    return result.content;
+  }
+  return JSON.stringify(result);
+}
+
+const anthropicAdapter: LlmProviderAdapter = {
+  id: "anthropic",
+  capabilities: {
+    jsonMode: false,
+    reasoningEffort: false,
+    systemRole: true,
+    streaming: "anthropic",
+    requiresApiKey: true,
+    toolCalling: true,
+    structuredOutput: "tool",
+    maxContext: { default: 200000 }
+  },
+  createHeaders(apiKey) {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey ?? "",
+      "anthropic-version": "2023-06-01"
+    };
+  },
+  resolveEndpoint(baseUrl) {
+    return baseUrl ? baseUrl.replace(/\/$/, "") : "https://api.anthropic.com/v1/messages";
+  },
+  createPayload(model, options) {
+    const systemMessage = options.messages.find(m => m.role === "system");
+    const messages = toAnthropicMessages(options.messages.filter(m => m.role !== "system"));
+    const tools = (options.tools ?? []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+    let toolChoice: unknown = options.tools?.length ? { type: options.toolChoice ?? "auto" } : undefined;
+    if (options.jsonSchema) {
+      // The answer is the input of a forced call; with evidence tools declared the model may
+      // still pick those until tool_choice "none" asks for the final answer.
+      tools.push({
+        name: STRUCTURED_RESPONSE_TOOL,
+        description: "Return the final answer. The input must follow the response schema.",
+        input_schema: options.jsonSchema
+      });
+      toolChoice = options.tools?.length && options.toolChoice !== "none"
+        ? { type: "any" }
+        : { type: "tool", name: STRUCTURED_RESPONSE_TOOL };
+    }
+    return {
+      model,
+      messages,
+      system: systemMessage?.content,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      top_p: options.topP,
+      ...(tools.length ? { tools, tool_choice: toolChoice } : {}),
+      ...(options.stream ? { stream: true } : {})
+    };
+  },
+  extractContent(result) {
+    if (Array.isArray(result?.content) && result.content.length > 0) {
+      const answer = result.content.find(
+        (block: any) => block?.type === "tool_use" && block.name === STRUCTURED_RESPONSE_TOOL
+      );
+      if (answer) {
+        return JSON.stringify(answer.input ?? {});
+      }
+      const text = result.content.find((block: any) => block?.type === "text" || typeof block?.text === "string");
+      return text?.text ?? "";
+    }
+    return extractOpenAiContent(result);
+  },
+  extractToolCalls(result) {
+    if (!Array.isArray(result?.content)) {
+      return [];
+    }
+    return result.content
+      .filter(
+        (block: any) =>
+          block?.type === "tool_use" && typeof block.name === "string" && block.name !== STRUCTURED_RESPONSE_TOOL
+      )
+      .map((block: any) => ({ id: String(block.id), name: block.name, arguments: parseToolArguments(block.input) }));
+  }
+};
+
+/**
+ * Anthropic carries tool calls as `tool_use` blocks on the assistant turn and results as
+ * `tool_result` blocks on the following user turn; consecutive results share one turn.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): unknown[] {
+  const converted: Array<{ role: string; content: unknown }> = [];
+  for (const message of messages) {
+    if (message.role === "tool") {
+      const block = { type: "tool_result", tool_use_id: message.toolCallId, content: message.content };
+      const previous = converted[converted.length - 1];
+      if (previous?.role === "user" && Array.isArray(previous.content)) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+    if (message.toolCalls?.length) {
+      converted.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text", text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({ type: "tool_use", id: call.id, name: call.name, input: call.arguments }))
+        ]
+      });
+      continue;
+    }
+    converted.push({ role: message.role, content: message.content });
+  }
+  return converted;
+}
+
+const googleAdapter: LlmProviderAdapter = {
+  id: "google",
+  capabilities: {
+    jsonMode: true,
+    reasoningEffort: false,
+    systemRole: true,
+    streaming: null,
+    requiresApiKey: true,
+    toolCalling: false,
+    structuredOutput: "response_schema",
+    maxContext: { default: 1048576 }
+  },
+  createHeaders() {
+    // Google AI Studio takes the key as a query parameter (see resolveEndpoint)
+    return { "Content-Type": "application/json" };
+  },
+  resolveEndpoint(baseUrl, model, apiKey) {
+    if (baseUrl) {
+      return baseUrl.replace(/\/$/, "");
+    }
+    return `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
+  },
+  createPayload(_model, options) {
+    const systemMessage = options.messages.find(m => m.role === "system");
+    const contents = options.messages
+      .filter(m => m.role !== "system")
+      .map(m => ({
+        role: m.role === "assistant" ? "model" : "user",
+        parts: [{ text: m.content }]
+      }));
+
+    return {
+      contents,
+      systemInstruction: systemMessage ? { parts: [{ text: systemMessage.content }] } : undefined,
+      generationConfig: {
+        temperature: options.temperature,
+        topP: options.topP,
+        maxOutputTokens: options.maxTokens,
+        responseMimeType: options.jsonMode || options.jsonSchema ? "application/json" : "text/plain",
+        ...(options.jsonSchema ? { responseSchema: toGeminiSchema(options.jsonSchema) } : {})
+      }
+    };
+  },
+  extractContent(result) {
+    if (result?.candidates?.[0]?.content?.parts?.[0]?.text) {
+      return result.candidates[0].content.parts[0].text;
+    }
+    return extractOpenAiContent(result);
+  }
+};
+
+/**
+ * Gemini's `responseSchema` is an OpenAPI subset: no `additionalProperties`, nullability via
+ * `nullable`, and objects must declare properties. Free-form branches (open objects, untyped
+ * arrays) are dropped from `anyOf`; the full schema is still enforced by the client-side check.
+ */
+export function toGeminiSchema(schema: unknown): Record<string, unknown> {
+  const node = (schema ?? {}) as Record<string, any>;
+  const converted: Record<string, unknown> = {};
+
+  if (Array.isArray(node.type)) {
+    const types = node.type.filter((type: string) => type !== "null");
+    converted.type = types[0] ?? "string";
+    if (types.length < node.type.length) {
+      converted.nullable = true;
+    }
+  } else if (node.type) {
+    converted.type = node.type;
+  }
+  if (node.enum) {
+    converted.enum = node.enum;
+  }
+  if (node.description) {
+    converted.description = node.description;
+  }
+  if (node.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(node.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  if (Array.isArray(node.required)) {
+    converted.required = node.required;
+  }
+  if (node.items) {
+    converted.items = toGeminiSchema(node.items);
+  }
+  if (Array.isArray(node.anyOf)) {
+    const branches = node.anyOf.filter((branch: any) => !isFreeFormSchema(branch));
+    const nullable = branches.some((branch: any) => branch?.type === "null");
+    const typed = branches.filter((branch: any) => branch?.type !== "null").map(toGeminiSchema);
+    if (typed.length === 1) {
+      Object.assign(converted, typed[0]);
+    } else if (typed.length > 1) {
+      converted.anyOf = typed;
+    }
+    if (nullable) {
+      converted.nullable = true;
+    }
+  }
+  return converted;
+}
+
+function isFreeFormSchema(schema: any): boolean {
+  if (schema?.type === "object") {
+    return Object.keys(schema.properties ?? {}).length === 0;
+  }
+  if (schema?.type === "array") {
+    return !schema.items || Object.keys(schema.items).length === 0;
+  }
+  return false;
+}
+
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "openai",
+    endpoint: "https://api.openai.com/v1/chat/completions",
+    capabilities: {
+      reasoningEffort: true,
+      maxContext: {
+        default: null,
+        models: {
+          "gpt-5.1": 272000, // API-reported configured limit (nominal 400 000)
+          "gpt-4.1": 128000,
+          "gpt-4o": 128000,
+          "o1-preview": 128000,
+          "o1-mini": 128000,
+          "o1": 200000,
+          "o3-mini": 200000
+        }
+      }
+    }
+  })
+);
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "azure",
+    // Azure requires a deployment-specific URL:
+    // https://{resource}.openai.azure.com/openai/deployments/{deployment}/chat/completions?api-version=...
+    endpoint: null,
+    apiKeyHeader: "api-key",
+    capabilities: { reasoningEffort: true }
+  })
+);
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "xai",
+    endpoint: "https://api.x.ai/v1/chat/completions",
+    capabilities: { maxContext: { default: 131072 } }
+  })
+);
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "deepseek",
+    endpoint: "https://api.deepseek.com/chat/completions",
+    // JSON mode only; schemas are checked client-side
+    capabilities: { structuredOutput: null, maxContext: { default: 64000 } }
+  })
+);
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "moonshot",
+    endpoint: "https://api.moonshot.cn/v1/chat/completions",
+    capabilities: { structuredOutput: null, maxContext: { default: 128000 } }
+  })
+);
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "alibaba",
+    endpoint: "https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions",
+    capabilities: { maxContext: { default: 131072 } }
+  })
+);
+registerProviderAdapter(
+  createOpenAiCompatibleAdapter({
+    id: "ollama",
+    endpoint: "http://localhost:11434/v1/chat/completions",
+    capabilities: { requiresApiKey: false, maxContext: { default: 8192 } }
+  })
+);
+registerProviderAdapter(anthropicAdapter);
+registerProviderAdapter(googleAdapter);
@@ -5,17 +5,23 @@ import fsExtra from "fs-extra";
 import type { Fact } from "lib/card/types.js";
 
 import { PROPOSALS_DIR, REASONER_ARTIFACT_SUFFIX } from "../constants.js";
-import { runDeterministicPipeline } from "../pipeline/deterministic.js";
+import { getValueAtPointer, runDeterministicPipeline } from "../pipeline/deterministic.js";
+import { filterToScope } from "../governance/watch.js";
 import { writeJsonFile } from "../utils/fs.js";
 import { logger } from "../utils/logger.js";
-import { loadPromptTemplate } from "../utils/prompts.js";
-import { invokeChatCompletion } from "./client.js";
+import { loadPassPrompt } from "../utils/prompts.js";
+import { invokeRoutedCompletion } from "./routing.js";
+import { LlmFixtureMissingError } from "./replay.js";
+import { LlmBudgetExceededError, recordBudgetCut } from "./budget.js";
 import { FACT_SCHEMA } from "./extractor.js";
+import { reachesProvider } from "./scheduler.js";
+import { describeSchemaErrors, parseStructuredResponse } from "./structured.js";
 import {
   formatBaseCard,
   formatFactsForPrompt,
   formatPolicyRules,
-  formatRunMetadata
+  formatRunMetadata,
+  runSpecificValues
 } from "./formatters.js";
 import type { PassContext, ExtractorResult, ReasonerResult } from "./types.js";
 
@@ -23,9 +29,19 @@ const REASONER_SCHEMA = {
   type: "object",
   properties: {
     reasoning: { type: "string" },
-    facts: FACT_SCHEMA.properties.facts
+    facts: FACT_SCHEMA.properties.facts,
+    lowConfidence: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { jsonPath: { type: "string" }, reason: { type: "string" } },
+        required: ["jsonPath", "reason"],
+        additionalProperties: false
+      }
+    },
+    errors: { type: "array", items: { type: "string" } }
   },
-  required: ["reasoning", "facts"],
+  required: ["facts"],
   additionalProperties: false
 };
 
@@ -63,18 +79,25 @@ export async function runReasonerPass(
   context: PassContext,
   extractor: ExtractorResult
 ): Promise<ReasonerResult> {
-  const prompt = await loadPromptTemplate("reasoner.v1.md");
+  const prompt = await loadPassPrompt("reasoner", context.runtime.promptVersions.reasoner);
   const deterministic = runDeterministicPipeline({
     baselineCard: context.baselineCard,
     changedFiles: context.analysis.changedFiles,
-    insights: context.analysis.repository
+    insights: context.analysis.repository,
+    staticSignals: context.analysis.staticSignals,
+    history: context.analysis.history,
+    runAt: context.analysis.metadata.generatedAt
   });
 
+  const scope = context.stakeholderScope;
+  const extractedFacts = filterToScope(extractor.facts, scope);
+  const deterministicLowConfidence = filterToScope(deterministic.lowConfidence, scope);
+
   const minConfidence = context.runtime.sampling.retryPolicy.minConfidence;
-  const basePrompt = renderReasonerPrompt(context, extractor.facts, prompt.body, minConfidence);
+  const basePrompt = renderReasonerPrompt(context, extractedFacts, prompt.body, minConfidence);
   const fallbackResponse = JSON.stringify({
-    facts: extractor.facts,
-    lowConfidence: deterministic.lowConfidence
+    facts: extractedFacts,
+    lowConfidence: deterministicLowConfidence
   });
 
   const maxAttempts = Math.max(1, context.runtime.sampling.retryPolicy.maxAttempts);
@@ -88,26 +111,31 @@ export async function runReasonerPass(
   let metrics = { promptTokens: 0, completionTokens: 0, latencyMs: 0 };
   let llmContent = fallbackResponse;
 
-  let mergedFacts = extractor.facts;
+  let mergedFacts = extractedFacts;
   let mutatedCard = applyFactsToCard(context.baselineCard, mergedFacts);
   let coverageNonNull = computeCoverage(mergedFacts);
-  let lowConfidence = deterministic.lowConfidence;
+  let lowConfidence = deterministicLowConfidence;
 
-  // Initial cool-down to allow token bucket to refill after Extractor pass
-  await new Promise(resolve => setTimeout(resolve, 60000));
+  // Initial cool-down to allow token bucket to refill after Extractor pass; replays and
+  // dry-runs (e.g. prompt evals) send nothing, so they skip it
+  if (reachesProvider(context.runtime)) {
+    await new Promise(resolve => setTimeout(resolve, 60000));
+  }
 
   for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
     attemptsUsed = attempt;
     const attemptPrompt = promptAugmentation
       ? `${basePrompt}\n\n### Retry Guidance\n${promptAugmentation.trim()}`
       : basePrompt;
+    const previousPromptBody = lastPromptBody;
     lastPromptBody = attemptPrompt;
 
     try {
       let result;
       try {
-        result = await invokeChatCompletion(context.runtime, {
+        result = await invokeRoutedCompletion(context.runtime, "reasoner", {
           promptId: prompt.id,
+          runValues: runSpecificValues(context),
           temperature: context.runtime.sampling.reasoner.temperature,
           topP: context.runtime.sampling.reasoner.topP,
           maxTokens: context.runtime.sampling.reasoner.maxTokens,
@@ -121,9 +149,13 @@ export async function runReasonerPass(
             { role: "user", content: lastPromptBody }
           ],
           fallbackResponse,
-          jsonMode: true
-        });
+          jsonMode: true,
+          jsonSchema: REASONER_SCHEMA
+        }, isValidReasonerResponse);
       } catch (primaryError) {
+        if (primaryError instanceof LlmFixtureMissingError || primaryError instanceof LlmBudgetExceededError) {
+          throw primaryError;
+        }
         const currentEffort = context.runtime.sampling.reasoner.reasoningEffort;
         const effortStr = String(currentEffort);
 
@@ -132,8 +164,9 @@ export async function runReasonerPass(
           logger.warn(`Reasoner LLM failed with ${currentEffort} reasoning; downgrading to ${newEffort}`, {
             error: primaryError instanceof Error ? primaryError.message : String(primaryError)
           });
-          result = await invokeChatCompletion(context.runtime, {
+          result = await invokeRoutedCompletion(context.runtime, "reasoner", {
             promptId: prompt.id,
+            runValues: runSpecificValues(context),
             temperature: context.runtime.sampling.reasoner.temperature,
             topP: context.runtime.sampling.reasoner.topP,
             maxTokens: context.runtime.sampling.reasoner.maxTokens,
@@ -147,8 +180,9 @@ export async function runReasonerPass(
               { role: "user", content: lastPromptBody }
             ],
             fallbackResponse,
-            jsonMode: true
-          });
+            jsonMode: true,
+            jsonSchema: REASONER_SCHEMA
+          }, isValidReasonerResponse);
         } else {
           throw primaryError;
         }
@@ -163,16 +197,29 @@ export async function runReasonerPass(
       if (result.mode === "network") {
         mode = "llm";
         llmTrace = {
-          provider: context.runtime.provider,
-          model: context.runtime.model,
+          provider: result.provider,
+          model: result.model,
           requestDigest: result.requestDigest,
-          responseDigest: result.responseDigest
+          responseDigest: result.responseDigest,
+          fallbacks: result.fallbacks
         };
       } else {
         mode = "deterministic";
         llmTrace = null;
       }
     } catch (error) {
+      if (error instanceof LlmFixtureMissingError) {
+        throw error;
+      }
+      if (error instanceof LlmBudgetExceededError) {
+        if (attempt > 1) {
+          recordBudgetCut("reasoner", `skipped retry attempt ${attempt}; kept the previous attempt's facts`);
+          attemptsUsed = attempt - 1;
+          lastPromptBody = previousPromptBody;
+          break;
+        }
+        recordBudgetCut("reasoner", "skipped LLM reasoning; kept extractor facts");
+      }
       logger.warn("Reasoner LLM invocation failed; using deterministic fallback", {
         runId: context.runId,
         attempt,
@@ -183,16 +230,19 @@ export async function runReasonerPass(
       llmContent = fallbackResponse;
     }
 
-    const payload = parseReasonerResponse(llmContent);
-    mergedFacts = reconcileFacts(extractor.facts, payload.facts ?? [], context.analysis.metadata.headSha);
+    const { payload, schemaErrors } = parseReasonerResponse(llmContent);
+    mergedFacts = filterToScope(reconcileFacts(extractedFacts, payload.facts ?? [], context.baselineCard, context.analysis.metadata.headSha), scope);
     mutatedCard = applyFactsToCard(context.baselineCard, mergedFacts);
     coverageNonNull = computeCoverage(mergedFacts);
-    lowConfidence = (payload.lowConfidence ?? collectLowConfidence(mergedFacts)).map(item => ({
+    lowConfidence = filterToScope(payload.lowConfidence ?? collectLowConfidence(mergedFacts), scope).map(item => ({
       jsonPath: item.jsonPath,
       reason: item.reason || "low confidence"
     }));
 
-    retryReasons = collectReasonerRetryReasons(mergedFacts, lowConfidence, minConfidence);
+    retryReasons = [
+      ...(mode === "llm" ? describeSchemaErrors(schemaErrors) : []),
+      ...collectReasonerRetryReasons(mergedFacts, lowConfidence, minConfidence)
+    ];
 
     const shouldRetry =
       retryReasons.length > 0 &&
@@ -237,8 +287,9 @@ export async function runReasonerPass(
     }
   }
 
-  await fsExtra.ensureDir(PROPOSALS_DIR);
-  const artifactPath = join(PROPOSALS_DIR, `${context.runId}${REASONER_ARTIFACT_SUFFIX}`);
+  const artifactsDir = context.artifactsDir ?? PROPOSALS_DIR;
+  await fsExtra.ensureDir(artifactsDir);
+  const artifactPath = join(artifactsDir, `${context.runId}${REASONER_ARTIFACT_SUFFIX}`);
   await writeJsonFile(artifactPath, artifact);
   const artifactDigest = createHash("sha256").update(JSON.stringify(artifact)).digest("hex");
 
@@ -287,27 +338,21 @@ function renderReasonerPrompt(
   return rendered;
 }
 
-function parseReasonerResponse(raw: string): ReasonerPayload {
-  const cleaned = stripCodeFences(raw.trim());
-  if (!cleaned) {
-    return {};
-  }
-  try {
-    const parsed = JSON.parse(cleaned) as ReasonerPayload;
-    if (parsed && typeof parsed === "object") {
-      return parsed;
-    }
-    return {};
-  } catch (error) {
-    logger.warn("Reasoner response was not valid JSON", {
-      error: error instanceof Error ? error.message : String(error),
-      snippet: cleaned.slice(0, 200)
-    });
-    return {};
+function isValidReasonerResponse(raw: string): boolean {
+  const { value } = parseStructuredResponse<ReasonerPayload>(raw, REASONER_SCHEMA);
+  return Boolean(value) && typeof value === "object" && Array.isArray(value?.facts);
+}
+
+function parseReasonerResponse(raw: string): { payload: ReasonerPayload; schemaErrors: string[] } {
+  const { value, errors } = parseStructuredResponse<ReasonerPayload>(raw, REASONER_SCHEMA);
+  if (value === null) {
+    logger.warn("Reasoner response was not valid JSON", { errors, snippet: raw.slice(0, 200) });
+    return { payload: {}, schemaErrors: errors };
   }
+  return { payload: value && typeof value === "object" ? value : {}, schemaErrors: errors };
 }
 
-function reconcileFacts(baseFacts: Fact[], patches: Partial<Fact>[], headSha: string): Fact[] {
+function reconcileFacts(baseFacts: Fact[], patches: Partial<Fact>[], baselineCard: unknown, headSha: string): Fact[] {
   const map = new Map<string, Fact>();
   const SHA_REGEX = /^[0-9a-fA-F]{7,40}$/;
   const VALID_KINDS = ["code", "openapi", "metrics", "docs", "config", "test"];
@@ -348,9 +393,12 @@ function reconcileFacts(baseFacts: Fact[], patches: Partial<Fact>[], headSha: st
       });
     }
 
+    // A moved pointer re-reads its merge base from the baseline card, never from the model
+    const jsonPointer = patch.jsonPointer ?? existing.jsonPointer;
     map.set(patch.jsonPath, {
       ...existing,
-      jsonPointer: patch.jsonPointer ?? existing.jsonPointer,
+      jsonPointer,
+      currentValue: jsonPointer ? getValueAtPointer(baselineCard, jsonPointer) : existing.currentValue,
       proposedValue: patch.proposedValue ?? existing.proposedValue,
       repoSources: newAnchors,
       confidence: typeof patch.confidence === "number" ? patch.confidence : existing.confidence,
@@ -458,14 +506,3 @@ function buildReasonerRetryGuidance(retryReasons: string[]): string {
   const bulletList = retryReasons.map((reason, index) => `${index + 1}. ${reason}`).join("\n");
   return `Please resolve all outstanding issues before responding again:\n${bulletList}\n\nReturn a complete JSON response that addresses every item.`;
 }
-
-function stripCodeFences(content: string): string {
-  if (!content.startsWith("```")) {
-    return content;
-  }
-  const lines = content.split(/\r?\n/);
-  if (lines.length < 3) {
-    return content;
-  }
-  return lines.slice(1, -1).join("\n");
-}
@@ -0,0 +1,87 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import fsExtra from "fs-extra";
+
+import { readJsonFile, writeJsonFile } from "../utils/fs.js";
+import { logger } from "../utils/logger.js";
+import type { ChatCompletionOptions, LlmInvocationResult } from "./client.js";
+
+export interface LlmFixture {
+  requestDigest: string;
+  promptId: string;
+  provider: string;
+  model: string | null;
+  recordedAt: string;
+  /** Provider payload that produced the digest; null when recorded in privacy mode. */
+  request: unknown;
+  response: LlmInvocationResult;
+}
+
+/** Raised in replay mode when no fixture was recorded for a request. */
+export class LlmFixtureMissingError extends Error {
+  constructor(
+    message: string,
+    public readonly requestDigest: string,
+    public readonly promptId: string
+  ) {
+    super(message);
+    this.name = "LlmFixtureMissingError";
+  }
+}
+
+function fixturePath(dir: string, digest: string): string {
+  return join(dir, `${digest}.json`);
+}
+
+export async function recordFixture(dir: string, fixture: LlmFixture): Promise<void> {
+  await fsExtra.ensureDir(dir);
+  await writeJsonFile(fixturePath(dir, fixture.requestDigest), fixture);
+  logger.debug("Recorded LLM fixture", { promptId: fixture.promptId, digest: fixture.requestDigest, dir });
+}
+
+export async function listFixtures(dir: string): Promise<LlmFixture[]> {
+  if (!(await fsExtra.pathExists(dir))) {
+    return [];
+  }
+  const fixtures: LlmFixture[] = [];
+  for (const file of (await fs.readdir(dir)).sort()) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    const fixture = await readJsonFile<LlmFixture>(join(dir, file));
+    if (fixture?.requestDigest) {
+      fixtures.push(fixture);
+    }
+  }
+  return fixtures;
+}
+
+/**
+ * Serve the recorded response for `requestDigest`. Any request that was not recorded is a
+ * hard failure: a silently different prompt would make the replayed run meaningless.
+ */
+export async function replayRecordedResponse(
+  dir: string,
+  requestDigest: string,
+  options: ChatCompletionOptions
+): Promise<LlmInvocationResult> {
+  const fixture = await readJsonFile<LlmFixture>(fixturePath(dir, requestDigest));
+  if (!fixture) {
+    const samePrompt = (await listFixtures(dir)).filter((entry) => entry.promptId === options.promptId);
+    const hint =
+      samePrompt.length > 0
+        ? `${samePrompt.length} fixture(s) exist for this prompt; the prompt, model or sampling settings changed since recording.`
+        : "No fixtures exist for this prompt; re-record with LLM_RECORD_MODE=record.";
+    throw new LlmFixtureMissingError(
+      `No recorded LLM fixture for ${options.promptId} (request ${requestDigest}) in ${dir}. ${hint}`,
+      requestDigest,
+      options.promptId
+    );
+  }
+
+  logger.debug("Replaying LLM fixture", { promptId: options.promptId, digest: requestDigest });
+  if (options.stream && fixture.response.content) {
+    options.onDelta?.(fixture.response.content);
+  }
+  return { ...fixture.response };
+}
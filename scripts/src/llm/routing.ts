@@ -0,0 +1,127 @@
+import type { LlmModelTarget, LlmPassName, LlmRuntimeConfig } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+import {
+  invokeChatCompletion,
+  LlmRequestError,
+  type ChatCompletionOptions,
+  type LlmInvocationResult
+} from "./client.js";
+import { LlmStreamInterruptedError } from "./streaming.js";
+
+export interface RoutedInvocationResult extends LlmInvocationResult {
+  /** Provider and model that produced `content`. */
+  provider: string | null;
+  model: string | null;
+  /** Targets skipped before this one answered, with the reason. */
+  fallbacks: string[];
+}
+
+/**
+ * Ordered targets for a pass: its explicit route (or the primary provider/model), followed by
+ * the global fallback chain. Duplicates are dropped so a target is tried at most once.
+ */
+export function resolvePassChain(runtime: LlmRuntimeConfig, pass: LlmPassName): LlmModelTarget[] {
+  const primary: LlmModelTarget[] =
+    runtime.routes[pass] ??
+    (runtime.model
+      ? [
+          {
+            provider: runtime.provider?.toLowerCase() ?? "openai",
+            model: runtime.model,
+            apiKey: runtime.apiKey,
+            baseUrl: runtime.baseUrl
+          }
+        ]
+      : []);
+
+  const seen = new Set<string>();
+  return [...primary, ...runtime.fallbackChain].filter((target) => {
+    const key = describeTarget(target);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Model a pass is sent to first; the run budget is priced against it. */
+export function resolvePassModel(runtime: LlmRuntimeConfig, pass: LlmPassName): string | null {
+  return resolvePassChain(runtime, pass)[0]?.model ?? runtime.model;
+}
+
+/**
+ * Invoke the chat completion for `pass`, walking the pass's model chain. Moves to the next
+ * target on 5xx, exhausted 429 retries, or — when `isValid` is given — a response whose content
+ * fails validation. The last target's response is returned even if it is invalid so the pass
+ * can apply its own fallback.
+ */
+export async function invokeRoutedCompletion(
+  runtime: LlmRuntimeConfig,
+  pass: LlmPassName,
+  options: ChatCompletionOptions,
+  isValid?: (content: string) => boolean
+): Promise<RoutedInvocationResult> {
+  const chain = resolvePassChain(runtime, pass);
+  if (chain.length === 0) {
+    const result = await invokeChatCompletion(runtime, options);
+    return { ...result, provider: runtime.provider, model: runtime.model, fallbacks: [] };
+  }
+
+  const fallbacks: string[] = [];
+  for (const [index, target] of chain.entries()) {
+    const isLast = index === chain.length - 1;
+    const targetRuntime: LlmRuntimeConfig = {
+      ...runtime,
+      provider: target.provider,
+      model: target.model,
+      apiKey: target.apiKey,
+      baseUrl: target.baseUrl
+    };
+
+    try {
+      const result = await invokeChatCompletion(targetRuntime, options);
+      // A tool-call round carries no final content yet, so it is not validated
+      const answered = (result.toolCalls?.length ?? 0) > 0 || !isValid || isValid(result.content);
+      if (!isLast && result.mode !== "dry-run" && !answered) {
+        fallbacks.push(`${describeTarget(target)}: schema-invalid response`);
+        logger.warn("LLM response failed validation; trying next model", {
+          pass,
+          promptId: options.promptId,
+          target: describeTarget(target),
+          next: describeTarget(chain[index + 1])
+        });
+        continue;
+      }
+      return { ...result, provider: target.provider, model: target.model, fallbacks };
+    } catch (error) {
+      if (error instanceof LlmStreamInterruptedError) {
+        error.provider = target.provider;
+        error.model = target.model;
+      }
+      if (isLast || !shouldFallBack(error)) {
+        throw error;
+      }
+      const status = (error as LlmRequestError).status;
+      fallbacks.push(`${describeTarget(target)}: ${status === 429 ? "rate limit retries exhausted" : `HTTP ${status}`}`);
+      logger.warn("LLM request failed; trying next model", {
+        pass,
+        promptId: options.promptId,
+        target: describeTarget(target),
+        next: describeTarget(chain[index + 1]),
+        status
+      });
+    }
+  }
+
+  // Unreachable: the last target either returns or throws
+  throw new Error(`No model answered pass ${pass}`);
+}
+
+function shouldFallBack(error: unknown): boolean {
+  return error instanceof LlmRequestError && (error.status >= 500 || error.status === 429);
+}
+
+function describeTarget(target: LlmModelTarget): string {
+  return `${target.provider}:${target.model}`;
+}
@@ -0,0 +1,123 @@
+import type { LlmRuntimeConfig } from "../config/env.js";
+import { logger } from "../utils/logger.js";
+
+export interface RateLimits {
+  maxParallel: number;
+  tokensPerMinute: number;
+  baseDelayMs: number;
+  jitterMs: number;
+}
+
+export interface RateLimitedScheduler {
+  /**
+   * Run `task` once a concurrency slot is free and `estimatedTokens` fit in the per-minute
+   * token bucket. Tasks are admitted in submission order.
+   */
+  run<T>(estimatedTokens: number, task: () => Promise<T>): Promise<T>;
+  /** Charge tokens spent outside the scheduler (e.g. an earlier pass) against the bucket. */
+  charge(tokens: number): void;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createRateLimitedScheduler(limits: RateLimits): RateLimitedScheduler {
+  const maxParallel = Math.max(1, limits.maxParallel);
+  const capacity = Math.max(1, limits.tokensPerMinute);
+  const refillPerMs = capacity / 60000;
+
+  let available = capacity;
+  let refilledAt = Date.now();
+  let nextStartAt = 0;
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  // Admission is serialized so token waits and start spacing apply in submission order
+  let admission: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    available = Math.min(capacity, available + (now - refilledAt) * refillPerMs);
+    refilledAt = now;
+  };
+
+  const acquireSlot = async () => {
+    if (active < maxParallel) {
+      active += 1;
+      return;
+    }
+    // The releasing task hands its slot over directly, so `active` is unchanged
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active -= 1;
+    }
+  };
+
+  const admit = async (estimatedTokens: number) => {
+    // A request larger than the whole bucket waits for a full bucket rather than forever
+    const needed = Math.min(Math.max(0, estimatedTokens), capacity);
+    refill();
+    if (available < needed) {
+      const waitMs = Math.ceil((needed - available) / refillPerMs);
+      logger.info("Rate limiter waiting for token budget", { waitMs, needed, tokensPerMinute: capacity });
+      await sleep(waitMs);
+      refill();
+    }
+    available -= needed;
+
+    const spacing = nextStartAt - Date.now();
+    if (spacing > 0) {
+      await sleep(spacing);
+    }
+    nextStartAt = Date.now() + limits.baseDelayMs + Math.random() * limits.jitterMs;
+  };
+
+  return {
+    async run(estimatedTokens, task) {
+      await acquireSlot();
+      try {
+        const admitted = admission.then(() => admit(estimatedTokens));
+        admission = admitted.catch(() => undefined);
+        await admitted;
+        return await task();
+      } finally {
+        releaseSlot();
+      }
+    },
+    charge(tokens) {
+      refill();
+      available -= Math.max(0, tokens);
+    }
+  };
+}
+
+/** Whether requests from this runtime reach a provider (as opposed to dry-run or replay). */
+export function reachesProvider(runtime: LlmRuntimeConfig): boolean {
+  return runtime.enabled && !runtime.dryRun && runtime.recording.mode !== "replay";
+}
+
+/** Used when no request reaches a provider: nothing to pace. */
+const unthrottled: RateLimitedScheduler = {
+  run: (_estimatedTokens, task) => task(),
+  charge: () => undefined
+};
+
+let shared: { limits: RateLimits; scheduler: RateLimitedScheduler } | null = null;
+
+/**
+ * Scheduler shared by every pass in the process, so back-to-back passes draw from the same
+ * token bucket. Recreated if the runtime's limits change.
+ */
+export function getSharedScheduler(runtime: LlmRuntimeConfig): RateLimitedScheduler {
+  if (!reachesProvider(runtime)) {
+    return unthrottled;
+  }
+  if (!shared || JSON.stringify(shared.limits) !== JSON.stringify(runtime.rateLimits)) {
+    shared = { limits: { ...runtime.rateLimits }, scheduler: createRateLimitedScheduler(runtime.rateLimits) };
+  }
+  return shared.scheduler;
+}
@@ -0,0 +1,322 @@
+import { logger } from "../utils/logger.js";
+import type { StreamFormat } from "./providers.js";
+
+export interface SseEvent {
+  event: string | null;
+  data: string;
+}
+
+export interface StreamedCompletion {
+  content: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  finishReason: string | null;
+  events: number;
+}
+
+/**
+ * Raised when a streamed completion stops before the provider signalled the end of
+ * the message (socket reset, timeout abort, missing terminal event). The text that
+ * arrived before the break is preserved so callers can salvage complete facts.
+ */
+export class LlmStreamInterruptedError extends Error {
+  /** Filled in by the router with the target that was streaming when the break happened. */
+  provider: string | null = null;
+  model: string | null = null;
+
+  constructor(
+    message: string,
+    public readonly partialContent: string,
+    public readonly requestDigest: string | null = null,
+    public readonly latencyMs = 0
+  ) {
+    super(message);
+    this.name = "LlmStreamInterruptedError";
+  }
+}
+
+export async function* parseSseStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = findEventBoundary(buffer);
+      while (boundary) {
+        const block = buffer.slice(0, boundary.index);
+        buffer = buffer.slice(boundary.index + boundary.length);
+        const event = parseSseBlock(block);
+        if (event) {
+          yield event;
+        }
+        boundary = findEventBoundary(buffer);
+      }
+    }
+
+    buffer += decoder.decode();
+    const trailing = parseSseBlock(buffer);
+    if (trailing) {
+      yield trailing;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function findEventBoundary(buffer: string): { index: number; length: number } | null {
+  const match = /\r?\n\r?\n/.exec(buffer);
+  return match ? { index: match.index, length: match[0].length } : null;
+}
+
+function parseSseBlock(block: string): SseEvent | null {
+  let event: string | null = null;
+  const data: string[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const field = separator >= 0 ? line.slice(0, separator) : line;
+    const value = separator >= 0 ? line.slice(separator + 1).replace(/^ /, "") : "";
+    if (field === "event") {
+      event = value;
+    } else if (field === "data") {
+      data.push(value);
+    }
+  }
+  if (data.length === 0 && !event) {
+    return null;
+  }
+  return { event, data: data.join("\n") };
+}
+
+interface StreamState {
+  content: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  finishReason: string | null;
+  completed: boolean;
+}
+
+/**
+ * Drain an SSE response body into a single completion. `onDelta` receives every text
+ * fragment as it arrives. Throws {@link LlmStreamInterruptedError} with the text seen so
+ * far if the stream errors or ends without a terminal event.
+ */
+export async function consumeCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  format: StreamFormat,
+  onDelta?: (delta: string) => void
+): Promise<StreamedCompletion> {
+  const state: StreamState = {
+    content: "",
+    promptTokens: null,
+    completionTokens: null,
+    finishReason: null,
+    completed: false
+  };
+  let events = 0;
+
+  try {
+    for await (const event of parseSseStream(body)) {
+      events += 1;
+      const delta = format === "anthropic" ? applyAnthropicEvent(event, state) : applyOpenAiEvent(event, state);
+      if (delta) {
+        state.content += delta;
+        onDelta?.(delta);
+      }
+    }
+  } catch (error) {
+    throw new LlmStreamInterruptedError(
+      `LLM stream interrupted: ${error instanceof Error ? error.message : String(error)}`,
+      state.content
+    );
+  }
+
+  if (!state.completed) {
+    throw new LlmStreamInterruptedError("LLM stream ended before the provider signalled completion", state.content);
+  }
+
+  return {
+    content: state.content,
+    promptTokens: state.promptTokens,
+    completionTokens: state.completionTokens,
+    finishReason: state.finishReason,
+    events
+  };
+}
+
+function applyOpenAiEvent(event: SseEvent, state: StreamState): string {
+  if (event.data === "[DONE]") {
+    state.completed = true;
+    return "";
+  }
+  const chunk = parseEventData(event);
+  if (!chunk) {
+    return "";
+  }
+  if (chunk.error) {
+    throw new Error(typeof chunk.error.message === "string" ? chunk.error.message : JSON.stringify(chunk.error));
+  }
+  if (chunk.usage) {
+    state.promptTokens = chunk.usage.prompt_tokens ?? state.promptTokens;
+    state.completionTokens = chunk.usage.completion_tokens ?? state.completionTokens;
+  }
+  const choice = Array.isArray(chunk.choices) ? chunk.choices[0] : undefined;
+  if (!choice) {
+    return "";
+  }
+  if (choice.finish_reason) {
+    state.finishReason = String(choice.finish_reason);
+    state.completed = true;
+  }
+  const text = choice.delta?.content ?? choice.text;
+  return typeof text === "string" ? text : "";
+}
+
+function applyAnthropicEvent(event: SseEvent, state: StreamState): string {
+  const payload = parseEventData(event);
+  if (!payload) {
+    return "";
+  }
+  switch (payload.type ?? event.event) {
+    case "message_start":
+      state.promptTokens = payload.message?.usage?.input_tokens ?? state.promptTokens;
+      return "";
+    case "content_block_delta":
+      return payload.delta?.type === "text_delta" && typeof payload.delta.text === "string" ? payload.delta.text : "";
+    case "message_delta":
+      state.completionTokens = payload.usage?.output_tokens ?? state.completionTokens;
+      state.finishReason = payload.delta?.stop_reason ?? state.finishReason;
+      return "";
+    case "message_stop":
+      state.completed = true;
+      return "";
+    case "error":
+      throw new Error(payload.error?.message ?? "Anthropic stream error");
+    default:
+      return "";
+  }
+}
+
+function parseEventData(event: SseEvent): any {
+  if (!event.data) {
+    return null;
+  }
+  try {
+    return JSON.parse(event.data);
+  } catch (error) {
+    logger.debug("Skipping non-JSON stream event", {
+      event: event.event,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * Incremental scanner for `{"facts": [...]}` (or a bare top-level array) that emits each
+ * fact object as soon as its closing brace arrives. Anything after the last complete
+ * object — a half-written fact, a missing closing bracket — is simply never emitted.
+ */
+export class IncrementalFactParser {
+  private buffer = "";
+  private position = 0;
+  private readonly stack: Array<"object" | "array" | "facts"> = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString: string | null = null;
+  private elementStart = -1;
+  private readonly completed: unknown[] = [];
+
+  get facts(): unknown[] {
+    return [...this.completed];
+  }
+
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const emitted: unknown[] = [];
+
+    for (; this.position < this.buffer.length; this.position += 1) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = this.buffer.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case "{":
+          if (this.top() === "facts") {
+            this.elementStart = this.position;
+          }
+          this.stack.push("object");
+          break;
+        case "[": {
+          const isFactsArray =
+            this.stack.length === 0 ||
+            (this.stack.length === 1 && this.stack[0] === "object" && this.lastString === "facts");
+          this.stack.push(isFactsArray ? "facts" : "array");
+          break;
+        }
+        case "}":
+        case "]":
+          this.stack.pop();
+          if (char === "}" && this.top() === "facts" && this.elementStart >= 0) {
+            const fact = this.parseElement(this.buffer.slice(this.elementStart, this.position + 1));
+            this.elementStart = -1;
+            if (fact !== undefined) {
+              this.completed.push(fact);
+              emitted.push(fact);
+            }
+          }
+          break;
+        default:
+          break;
+      }
+    }
+
+    return emitted;
+  }
+
+  private top(): "object" | "array" | "facts" | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  private parseElement(raw: string): unknown {
+    try {
+      return JSON.parse(raw);
+    } catch (error) {
+      logger.debug("Skipping malformed streamed fact", {
+        error: error instanceof Error ? error.message : String(error),
+        snippet: raw.slice(0, 200)
+      });
+      return undefined;
+    }
+  }
+}
+
+export function parsePartialFacts(content: string): unknown[] {
+  const parser = new IncrementalFactParser();
+  parser.push(content);
+  return parser.facts;
+}
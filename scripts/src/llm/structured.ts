@@ -0,0 +1,81 @@
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+
+export interface StructuredResponse<T> {
+  /** Parsed JSON, or null when the content is not JSON at all. */
+  value: T | null;
+  /** Schema violations (or the parse error), formatted for logs and retry guidance. */
+  errors: string[];
+}
+
+const MAX_REPORTED_ERRORS = 5;
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new WeakMap<object, ValidateFunction>();
+
+function getValidator(schema: Record<string, unknown>): ValidateFunction {
+  let validate = validators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * Parse a model response and check it against the JSON Schema the request asked for.
+ * Providers with native structured output should already comply; the check also covers
+ * providers that only offer JSON mode, cached and replayed responses.
+ */
+export function parseStructuredResponse<T = unknown>(
+  raw: string,
+  schema: Record<string, unknown>
+): StructuredResponse<T> {
+  const cleaned = stripCodeFences(raw.trim());
+  if (!cleaned) {
+    return { value: null, errors: ["response was empty"] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(cleaned);
+  } catch (error) {
+    return { value: null, errors: [`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  return { value: value as T, errors: validateAgainstSchema(value, schema) };
+}
+
+export function validateAgainstSchema(value: unknown, schema: Record<string, unknown>): string[] {
+  const validate = getValidator(schema);
+  if (validate(value)) {
+    return [];
+  }
+  return (validate.errors ?? []).slice(0, MAX_REPORTED_ERRORS).map(formatSchemaError);
+}
+
+/** One retry reason summarising schema violations, or none when the response complied. */
+export function describeSchemaErrors(errors: string[], subject = "Response"): string[] {
+  if (errors.length === 0) {
+    return [];
+  }
+  return [`${subject} did not match the required JSON schema: ${errors.join("; ")}`];
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  const location = error.instancePath || "(root)";
+  if (error.keyword === "additionalProperties") {
+    return `${location} has unexpected property "${(error.params as { additionalProperty: string }).additionalProperty}"`;
+  }
+  return `${location} ${error.message ?? "is invalid"}`;
+}
+
+export function stripCodeFences(content: string): string {
+  if (!content.startsWith("```")) {
+    return content;
+  }
+  const lines = content.split(/\r?\n/);
+  if (lines.length < 3) {
+    return content;
+  }
+  return lines.slice(1, -1).join("\n");
+}
@@ -0,0 +1,251 @@
+import { createHash } from "node:crypto";
+import { isAbsolute, normalize } from "node:path";
+import { performance } from "node:perf_hooks";
+
+import fsExtra from "fs-extra";
+
+import type { LlmPassName, LlmRuntimeConfig } from "../config/env.js";
+import type { AnalysisToolCall } from "../analysis/bundle.js";
+import { isMscInfrastructure, isPathDenied } from "../safety/redaction.js";
+import { astSummary, repoSearch, resolveTwoHopNeighbors } from "../tools/index.js";
+import type { ToolInvocationMetrics } from "../tools/types.js";
+import { logger } from "../utils/logger.js";
+import { estimateTokens, type ChatCompletionOptions, type ChatMessage, type LlmToolCall, type LlmToolDefinition } from "./client.js";
+import { invokeRoutedCompletion, type RoutedInvocationResult } from "./routing.js";
+
+const MAX_SEARCH_HITS = 25;
+
+export const EVIDENCE_TOOLS: LlmToolDefinition[] = [
+  {
+    name: "repoSearch",
+    description:
+      "Search the repository. Returns matching lines with two lines of context. When the local search index is enabled, " +
+      "natural-language queries work and hits are ranked by relevance with a score.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Text to search for." },
+        includeGlobs: { type: "array", items: { type: "string" }, description: "Limit the search to these globs." },
+        maxHits: { type: "number", description: `At most ${MAX_SEARCH_HITS}.` }
+      },
+      required: ["query"]
+    }
+  },
+  {
+    name: "astSummary",
+    description: "List the functions, classes, interfaces, variables and (Python) FastAPI routes declared in a TypeScript/JavaScript/Python file, with line ranges.",
+    parameters: {
+      type: "object",
+      properties: { file: { type: "string", description: "Repository-relative path." } },
+      required: ["file"]
+    }
+  },
+  {
+    name: "neighbors",
+    description: "Files reachable from a source file within two hops of relative imports (Python: relative and in-repo package imports).",
+    parameters: {
+      type: "object",
+      properties: { file: { type: "string", description: "Repository-relative path." } },
+      required: ["file"]
+    }
+  }
+];
+
+export interface ToolLoopResult {
+  /** Final answer; token and latency metrics are summed over every round. */
+  result: RoutedInvocationResult;
+  traces: AnalysisToolCall[];
+  rounds: number;
+}
+
+/**
+ * Let the model request evidence through `tools` before answering. Each round's calls are
+ * executed and fed back until the model answers without calling a tool, or the call/token
+ * budget runs out — then one last round is sent without tools to force an answer. That round
+ * streams when streaming is on; rounds that declare tools never do, so tool calling trades
+ * some streaming and extra prompt tokens for evidence.
+ */
+export async function invokeWithTools(
+  runtime: LlmRuntimeConfig,
+  pass: LlmPassName,
+  options: ChatCompletionOptions,
+  isValid?: (content: string) => boolean,
+  tools: LlmToolDefinition[] = EVIDENCE_TOOLS
+): Promise<ToolLoopResult> {
+  if (!runtime.tools.enabled || runtime.tools.maxCalls === 0) {
+    return { result: await invokeRoutedCompletion(runtime, pass, options, isValid), traces: [], rounds: 1 };
+  }
+
+  const messages: ChatMessage[] = [...options.messages];
+  const traces: AnalysisToolCall[] = [];
+  const totals = { promptTokens: 0, completionTokens: 0, latencyMs: 0 };
+  let toolTokens = 0;
+  let rounds = 0;
+
+  const withinBudget = () => traces.length < runtime.tools.maxCalls && toolTokens < runtime.tools.maxTokens;
+
+  while (true) {
+    rounds += 1;
+    const open = withinBudget();
+    const result = await invokeRoutedCompletion(
+      runtime,
+      pass,
+      open ? { ...options, messages, tools, toolChoice: "auto" } : { ...options, messages: inlineToolExchanges(messages) },
+      isValid
+    );
+    totals.promptTokens += result.promptTokens;
+    totals.completionTokens += result.completionTokens;
+    totals.latencyMs += result.latencyMs;
+
+    const requested = result.toolCalls ?? [];
+    if (requested.length === 0 || !open) {
+      return { result: { ...result, ...totals }, traces, rounds };
+    }
+
+    messages.push({ role: "assistant", content: result.content, toolCalls: requested });
+    for (const call of requested) {
+      let output: string;
+      if (withinBudget()) {
+        const execution = await executeToolCall(call);
+        output = execution.output;
+        toolTokens += estimateTokens(output);
+        traces.push({
+          tool: call.name,
+          target: execution.target,
+          traceDigest: createHash("sha256").update(JSON.stringify(call.arguments)).digest("hex"),
+          metrics: execution.metrics,
+          requestedBy: pass,
+          round: rounds
+        });
+      } else {
+        output = JSON.stringify({ error: "Tool budget exhausted; answer with the evidence gathered so far." });
+      }
+      messages.push({ role: "tool", toolCallId: call.id, content: output });
+    }
+
+    logger.info("LLM tool round completed", {
+      pass,
+      promptId: options.promptId,
+      round: rounds,
+      calls: requested.map((call) => call.name),
+      totalCalls: traces.length,
+      toolTokens
+    });
+  }
+}
+
+/**
+ * Tool calls and results rewritten as plain turns for the final round, which declares no
+ * tools: providers reject tool blocks in a request without tool definitions.
+ */
+function inlineToolExchanges(messages: ChatMessage[]): ChatMessage[] {
+  const inlined: ChatMessage[] = [];
+  let results: ChatMessage | null = null;
+  for (const message of messages) {
+    if (message.role === "tool") {
+      const result = `Result of tool call ${message.toolCallId ?? ""}:\n${message.content}`;
+      if (results) {
+        results.content += `\n\n${result}`;
+      } else {
+        results = { role: "user", content: result };
+        inlined.push(results);
+      }
+      continue;
+    }
+    results = null;
+    if (message.toolCalls?.length) {
+      const calls = message.toolCalls.map((call) => `Called ${call.name} ${JSON.stringify(call.arguments)} (${call.id})`);
+      inlined.push({ role: "assistant", content: [message.content, ...calls].filter(Boolean).join("\n") });
+    } else {
+      inlined.push(message);
+    }
+  }
+  if (results) {
+    results.content += "\n\nNo more tool calls are available; answer with the evidence gathered so far.";
+  }
+  return inlined;
+}
+
+interface ToolExecution {
+  target: string;
+  output: string;
+  metrics: ToolInvocationMetrics;
+}
+
+/** Run one requested call. Failures are reported back to the model rather than thrown. */
+async function executeToolCall(call: LlmToolCall): Promise<ToolExecution> {
+  const args = call.arguments;
+  const failed = (target: string, error: string): ToolExecution => ({
+    target,
+    output: JSON.stringify({ error }),
+    metrics: { elapsedMs: 0, tokensPrompt: 0, tokensCompletion: 0 }
+  });
+
+  try {
+    switch (call.name) {
+      case "repoSearch": {
+        const query = typeof args.query === "string" ? args.query.trim() : "";
+        if (!query) {
+          return failed("", "repoSearch requires a non-empty query");
+        }
+        const trace = await repoSearch({
+          query,
+          includeGlobs: Array.isArray(args.includeGlobs)
+            ? args.includeGlobs.filter((glob): glob is string => typeof glob === "string")
+            : undefined,
+          maxHits: Math.min(MAX_SEARCH_HITS, typeof args.maxHits === "number" && args.maxHits > 0 ? args.maxHits : MAX_SEARCH_HITS)
+        });
+        const hits = trace.response.hits.filter((hit) => isReadablePath(hit.file));
+        return {
+          target: query,
+          output: JSON.stringify({ hits, truncated: trace.response.truncated, ranking: trace.response.ranking }),
+          metrics: trace.metrics
+        };
+      }
+      case "astSummary": {
+        const file = normalizeRepoPath(args.file);
+        if (!file) {
+          return failed(String(args.file ?? ""), "file must be a readable repository-relative path");
+        }
+        if (!/\.((t|j)sx?|py)$/.test(file)) {
+          return failed(file, "astSummary supports TypeScript, JavaScript and Python files only");
+        }
+        const trace = await astSummary({ file });
+        return { target: file, output: JSON.stringify(trace.response), metrics: trace.metrics };
+      }
+      case "neighbors": {
+        const file = normalizeRepoPath(args.file);
+        if (!file) {
+          return failed(String(args.file ?? ""), "file must be a readable repository-relative path");
+        }
+        const started = performance.now();
+        const neighbors = (await resolveTwoHopNeighbors(file)).filter(isReadablePath);
+        const output = JSON.stringify({ file, neighbors });
+        return {
+          target: file,
+          output,
+          metrics: { elapsedMs: performance.now() - started, tokensPrompt: estimateTokens(file), tokensCompletion: estimateTokens(output) }
+        };
+      }
+      default:
+        return failed("", `Unknown tool ${call.name}`);
+    }
+  } catch (error) {
+    return failed(String(args.file ?? args.query ?? ""), error instanceof Error ? error.message : String(error));
+  }
+}
+
+function normalizeRepoPath(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim() || isAbsolute(value)) {
+    return null;
+  }
+  const path = normalize(value.trim()).replace(/^\.\//, "");
+  if (path.startsWith("..") || !isReadablePath(path) || !fsExtra.existsSync(path)) {
+    return null;
+  }
+  return path;
+}
+
+function isReadablePath(path: string): boolean {
+  return !isPathDenied(path) && !isMscInfrastructure(path);
+}
@@ -3,12 +3,20 @@ import type { Fact, Proposal } from "lib/card/types.js";
 import type { CardSeed } from "../card/seed.js";
 import type { AnalysisBundle } from "../analysis/bundle.js";
 import type { LlmRuntimeConfig } from "../config/env.js";
+import type { StakeholderScope } from "../governance/watch.js";
 
 export interface PassContext {
   runId: string;
   baselineCard: CardSeed;
   analysis: AnalysisBundle;
   runtime: LlmRuntimeConfig;
+  /** Where pass artifacts are written; defaults to PROPOSALS_DIR. */
+  artifactsDir?: string;
+  /**
+   * Set on incremental runs: passes only produce facts and notes for the affected stakeholders'
+   * sections, and the rest carry forward.
+   */
+  stakeholderScope?: StakeholderScope;
 }
 
 export interface PassMetrics {
@@ -22,6 +30,8 @@ export interface LlmTraceSummary {
   model: string | null;
   requestDigest: string | null;
   responseDigest: string | null;
+  /** Models skipped by the fallback chain before `model` answered. */
+  fallbacks?: string[];
 }
 
 export interface PassResultBase {
@@ -33,6 +43,8 @@ export interface PassResultBase {
   llm: LlmTraceSummary | null;
   attempts: number;
   retryReasons: string[];
+  /** Problems with model output the pass does not retry, e.g. schema violations; reported in pass telemetry. */
+  errors?: string[];
 }
 
 export interface ExtractorResult extends PassResultBase {
@@ -5,9 +5,14 @@ import { summarizeNotebook } from "../analysis/bundle.js";
 import type { Fact, Anchor } from "lib/card/types.js";
 import { readTextFile } from "../utils/fs.js";
 import { logger } from "../utils/logger.js";
-import { loadPromptTemplate } from "../utils/prompts.js";
-import { invokeChatCompletion } from "./client.js";
-import { formatRunMetadata } from "./formatters.js";
+import { loadPassPrompt } from "../utils/prompts.js";
+import { invokeRoutedCompletion, resolvePassModel, type RoutedInvocationResult } from "./routing.js";
+import { formatRunMetadata, runSpecificValues } from "./formatters.js";
+import { filterToScope } from "../governance/watch.js";
+import { LlmBudgetExceededError, recordBudgetCut, remainingBudgetTokens } from "./budget.js";
+import { LlmFixtureMissingError } from "./replay.js";
+import { getSharedScheduler } from "./scheduler.js";
+import { describeSchemaErrors, parseStructuredResponse } from "./structured.js";
 import type { PassContext, ReasonerResult, VerifierResult } from "./types.js";
 
 const VERIFIER_SCHEMA = {
@@ -48,10 +53,10 @@ export async function runVerifierPass(
   context: PassContext,
   reasonerResult: ReasonerResult
 ): Promise<VerifierResult> {
-  const prompt = await loadPromptTemplate("verifier.v1.md");
+  const prompt = await loadPassPrompt("verifier", context.runtime.promptVersions.verifier);
 
     // 1. Prepare Facts and Snippets
-  const factsToVerify = reasonerResult.facts.filter(f => f.repoSources && f.repoSources.length > 0);
+  const factsToVerify = filterToScope(reasonerResult.facts, context.stakeholderScope).filter(f => f.repoSources && f.repoSources.length > 0);
 
   if (factsToVerify.length === 0) {
     logger.info("No facts with anchors to verify; skipping verifier pass.");
@@ -91,6 +96,17 @@ export async function runVerifierPass(
     }
   }
 
+  // Under a run budget that cannot cover every fact, verify the most confident facts first:
+  // they would otherwise pass review as OK without a second look.
+  const pricedModel = resolvePassModel(context.runtime, "verifier");
+  const budgetLeft = remainingBudgetTokens(context.runtime.budget, pricedModel);
+  const fullEstimate = estimateTokens(JSON.stringify(factsWithSnippets)) +
+    estimateTokens(Object.values(snippets).join("\n"));
+  const budgetConstrained = budgetLeft !== null && fullEstimate > budgetLeft;
+  if (budgetConstrained) {
+    factsWithSnippets.sort((a, b) => b.confidence - a.confidence);
+  }
+
   // Prepare facts without embedded snippets to save tokens
   const factsPayload = factsWithSnippets.map(f => ({
     jsonPath: f.jsonPath,
@@ -112,11 +128,18 @@ export async function runVerifierPass(
   let totalPromptTokens = 0;
   let totalCompletionTokens = 0;
   let totalLatencyMs = 0;
-  let lastResponse = null;
-
-  // Smart Batching: Group by token count to avoid TPM limits
-  const TARGET_TPM = 20000; // Target 20k TPM (limit is 30k)
-  const MAX_BATCH_TOKENS = 5000; // Increased slightly as we have dynamic throttling
+  let lastResponse: RoutedInvocationResult | null = null;
+  const fallbacks: string[] = [];
+
+  // Smart Batching: Group by token count so the scheduler can pace batches against the TPM limit
+  // Smaller batches when the budget is short, so running out strands fewer facts
+  const MAX_BATCH_TOKENS = budgetConstrained ? 2500 : 5000;
+  if (budgetConstrained) {
+    recordBudgetCut(
+      "verifier",
+      `verification needs ~${fullEstimate} tokens but ~${budgetLeft} remain; batches halved and most confident facts verified first`
+    );
+  }
   const batches: { facts: typeof factsPayload, snippets: Record<string, string> }[] = [];
 
   let currentBatchFacts: typeof factsPayload = [];
@@ -148,8 +171,8 @@ export async function runVerifierPass(
     }
 
     // If a single item is larger than MAX_BATCH_TOKENS, we must still process it.
-    // We'll put it in its own batch, even if it exceeds the limit, and rely on throttling to handle it.
-    // The throttling logic uses the ACTUAL token count of the batch, so it will just wait longer.
+    // We'll put it in its own batch, even if it exceeds the limit, and rely on the scheduler to handle it.
+    // The scheduler waits for a full token bucket before starting an oversized batch.
     currentBatchFacts.push(item);
     Object.assign(currentBatchSnippets, newSnippets);
     currentTokens += itemTokens;
@@ -161,55 +184,97 @@ export async function runVerifierPass(
 
   logger.info(`Verifier prepared ${batches.length} batches for ${factsPayload.length} facts.`);
 
-  // Initial cool-down to allow token bucket to refill after Reasoner pass
-  // Increased to 60s to ensure bucket is ready
-  await new Promise(resolve => setTimeout(resolve, 60000));
+  // The reasoner's tokens were spent against the same per-minute limit moments ago
+  const scheduler = getSharedScheduler(context.runtime);
+  scheduler.charge(reasonerResult.metrics.promptTokens + reasonerResult.metrics.completionTokens);
 
-  for (let i = 0; i < batches.length; i++) {
-    const chunk = batches[i];
+  // Once one batch is skipped for budget, skip every batch not yet started
+  let budgetStopped = false;
+  // A failed batch leaves only its own facts unverified; the other batches keep running
+  const failedBatches = new Set<number>();
+  const outcomes = await Promise.all(batches.map((chunk, index) => {
     const estimatedTokens = estimateTokens(JSON.stringify(chunk));
+    return scheduler.run(estimatedTokens, async (): Promise<RoutedInvocationResult | null> => {
+      const remaining = remainingBudgetTokens(context.runtime.budget, pricedModel);
+      if (budgetStopped || (remaining !== null && estimatedTokens > remaining)) {
+        budgetStopped = true;
+        return null;
+      }
 
-    // Dynamic Delay based on Token Usage
-    if (i > 0) {
-      // Calculate delay needed to replenish tokens at TARGET_TPM rate
-      // Formula: (Tokens / TPM) * 60 * 1000 ms
-      const delayMs = Math.ceil((estimatedTokens / TARGET_TPM) * 60 * 1000);
-      logger.info(`Throttling for ${delayMs}ms to respect ${TARGET_TPM} TPM...`);
-      await new Promise(resolve => setTimeout(resolve, delayMs));
-    }
-
-    const promptBody = prompt.body
-      .replace("{RUN_METADATA}", formatRunMetadata(context))
-      .replace("{FACTS_TO_VERIFY}", JSON.stringify(chunk)); // Compact JSON to save tokens
-
-
-    const response = await invokeChatCompletion(context.runtime, {
-      promptId: meta.id,
-      temperature: meta.sampling.temperature,
-      topP: meta.sampling.top_p,
-      maxTokens: meta.max_tokens,
-      reasoningEffort: context.runtime.sampling.verifier.reasoningEffort,
-      verbosity: context.runtime.sampling.verifier.verbosity,
-      messages: [
-        { role: "system", content: promptBody }
-      ],
-      jsonSchema: VERIFIER_SCHEMA,
-      fallbackResponse: JSON.stringify({ verifications: [] })
+      const promptBody = prompt.body
+        .replace("{RUN_METADATA}", formatRunMetadata(context))
+        .replace("{FACTS_TO_VERIFY}", JSON.stringify(chunk)); // Compact JSON to save tokens
+
+      try {
+        return await invokeRoutedCompletion(context.runtime, "verifier", {
+          promptId: meta.id,
+          runValues: runSpecificValues(context),
+          temperature: meta.sampling.temperature,
+          topP: meta.sampling.top_p,
+          maxTokens: meta.max_tokens,
+          reasoningEffort: context.runtime.sampling.verifier.reasoningEffort,
+          verbosity: context.runtime.sampling.verifier.verbosity,
+          messages: [
+            { role: "system", content: promptBody }
+          ],
+          jsonSchema: VERIFIER_SCHEMA,
+          fallbackResponse: JSON.stringify({ verifications: [] })
+        }, isValidVerifierResponse);
+      } catch (error) {
+        if (error instanceof LlmFixtureMissingError) {
+          throw error;
+        }
+        if (error instanceof LlmBudgetExceededError) {
+          budgetStopped = true;
+        } else {
+          logger.warn("Verifier batch failed; its facts are left unverified", {
+            batch: index + 1,
+            facts: chunk.facts.length,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          failedBatches.add(index);
+        }
+        return null;
+      }
     });
+  }));
+
+  // Fold in batch order so the merged verifications do not depend on completion order
+  let skippedBatches = 0;
+  let skippedFacts = 0;
+  // Batches are not retried; facts missing from an invalid response stay unverified and are reported
+  const errors: string[] = [];
+  for (const [index, response] of outcomes.entries()) {
+    if (!response) {
+      if (!failedBatches.has(index)) {
+        skippedBatches += 1;
+        skippedFacts += batches[index].facts.length;
+      }
+      continue;
+    }
 
     lastResponse = response;
+    fallbacks.push(...response.fallbacks);
     totalPromptTokens += response.promptTokens;
     totalCompletionTokens += response.completionTokens;
     totalLatencyMs += response.latencyMs;
 
-    try {
-      const parsed = JSON.parse(response.content);
-      if (parsed && Array.isArray(parsed.verifications)) {
-        allVerifications.push(...parsed.verifications);
-      }
-    } catch (err) {
-      logger.warn("Failed to parse verifier response", { error: err });
+    const { value, errors: schemaErrors } = parseStructuredResponse<{ verifications?: unknown }>(response.content, VERIFIER_SCHEMA);
+    if (value === null) {
+      logger.warn("Failed to parse verifier response", { errors: schemaErrors });
+    } else if (Array.isArray(value.verifications)) {
+      allVerifications.push(...(value.verifications as VerificationItem[]));
     }
+    if (response.mode === "network") {
+      errors.push(...describeSchemaErrors(schemaErrors, `Verifier batch ${index + 1}`));
+    }
+  }
+
+  if (skippedBatches > 0) {
+    recordBudgetCut(
+      "verifier",
+      `skipped ${skippedBatches} of ${batches.length} batches; ${skippedFacts} facts left unverified`
+    );
   }
 
   // 5. Apply Verifications
@@ -272,13 +337,15 @@ export async function runVerifierPass(
       latencyMs: totalLatencyMs
     },
     llm: {
-      provider: context.runtime.provider,
-      model: context.runtime.model,
+      provider: lastResponse?.provider ?? context.runtime.provider,
+      model: lastResponse?.model ?? context.runtime.model,
       requestDigest: lastResponse?.requestDigest ?? "",
-      responseDigest: lastResponse?.responseDigest ?? ""
+      responseDigest: lastResponse?.responseDigest ?? "",
+      fallbacks
     },
     attempts: 1,
     retryReasons: [],
+    errors,
     facts: verifiedFacts,
     verifications: allVerifications
   };
@@ -327,6 +394,11 @@ async function collectSnippets(facts: Fact[]): Promise<Record<string, string>> {
   return snippets;
 }
 
+function isValidVerifierResponse(raw: string): boolean {
+  const { value } = parseStructuredResponse<{ verifications?: unknown }>(raw, VERIFIER_SCHEMA);
+  return Array.isArray(value?.verifications);
+}
+
 function getAnchorId(anchor: Anchor): string {
   return `${anchor.path}:${anchor.startLine}-${anchor.endLine}`;
 }
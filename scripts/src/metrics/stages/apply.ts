@@ -42,7 +42,7 @@ function isTrivial(path: string, value: any): boolean {
   return false;
 }
 
-function checkAnchorResolvability(anchor: any, sha: string): boolean {
+export function checkAnchorResolvability(anchor: any, sha: string): boolean {
   try {
     // git cat-file -e <sha>:<path>
     execSync(`git cat-file -e ${sha}:${anchor.path}`, { stdio: "ignore" });
@@ -1,46 +1,30 @@
 import * as fs from "fs";
 import * as path from "path";
 import { writeMetrics } from "../storage.js";
-
-// ── Cost estimation (USD per 1 M tokens) ──────────────────────────────
-// Keep this table up-to-date when switching models.
-const MODEL_PRICING: Record<string, { promptPer1M: number; completionPer1M: number }> = {
-  "gpt-4o":           { promptPer1M: 2.50,  completionPer1M: 10.00 },
-  "gpt-4o-mini":      { promptPer1M: 0.15,  completionPer1M: 0.60  },
-  "gpt-4-turbo":      { promptPer1M: 10.00, completionPer1M: 30.00 },
-  "gpt-4":            { promptPer1M: 30.00, completionPer1M: 60.00 },
-  "gpt-3.5-turbo":    { promptPer1M: 0.50,  completionPer1M: 1.50  },
-  "gpt-5.1":          { promptPer1M: 2.00,  completionPer1M: 8.00  },
-  "o3-mini":          { promptPer1M: 1.10,  completionPer1M: 4.40  },
-};
-
-function estimateCostUsd(
-  model: string | null | undefined,
-  promptTokens: number,
-  completionTokens: number
-): number | undefined {
-  if (!model) return undefined;
-  const key = Object.keys(MODEL_PRICING).find(
-    (k) => model.toLowerCase().startsWith(k)
-  );
-  if (!key) return undefined;
-  const p = MODEL_PRICING[key];
-  return (promptTokens / 1_000_000) * p.promptPer1M +
-         (completionTokens / 1_000_000) * p.completionPer1M;
-}
-
-export async function runGeneratorStage(runId: string) {
-  const proposalPath = path.join(process.cwd(), "docs", ".proposals", `${runId}.json`);
-
-  if (!fs.existsSync(proposalPath)) {
-    console.warn(`Proposal file not found: ${proposalPath}`);
-    return;
-  }
-
-  const proposal = JSON.parse(fs.readFileSync(proposalPath, "utf-8"));
-  const facts = proposal.facts || [];
-
-  // ── Fact / gate / provenance counts (M9-M11) ───────────────────────
+import { estimateCostUsd } from "../../llm/pricing.js";
+import type { MetricsReport } from "../types.js";
+
+export type FactDistributionMetrics = Pick<
+  MetricsReport,
+  | "facts_total"
+  | "gate_ok_count"
+  | "gate_warn_count"
+  | "gate_require_count"
+  | "gate_ok_pct"
+  | "gate_warn_pct"
+  | "gate_require_pct"
+  | "provenance_extracted_count"
+  | "provenance_inferred_count"
+  | "provenance_manual_count"
+  | "provenance_extracted_pct"
+  | "provenance_inferred_pct"
+  | "provenance_manual_pct"
+>;
+
+/** Fact / gate / provenance counts (M9-M11) over proposal facts. */
+export function computeFactDistribution(
+  facts: Array<{ gate?: string; source?: { kind?: string } }>
+): FactDistributionMetrics {
   const facts_total = facts.length;
 
   let gate_ok_count = 0;
@@ -62,13 +46,35 @@ export async function runGeneratorStage(runId: string) {
     else if (kind === "manual") provenance_manual_count++;
   }
 
-  const gate_ok_pct = facts_total > 0 ? gate_ok_count / facts_total : 0;
-  const gate_warn_pct = facts_total > 0 ? gate_warn_count / facts_total : 0;
-  const gate_require_pct = facts_total > 0 ? gate_require_count / facts_total : 0;
+  return {
+    facts_total,
+    gate_ok_count,
+    gate_warn_count,
+    gate_require_count,
+    gate_ok_pct: facts_total > 0 ? gate_ok_count / facts_total : 0,
+    gate_warn_pct: facts_total > 0 ? gate_warn_count / facts_total : 0,
+    gate_require_pct: facts_total > 0 ? gate_require_count / facts_total : 0,
+    provenance_extracted_count,
+    provenance_inferred_count,
+    provenance_manual_count,
+    provenance_extracted_pct: facts_total > 0 ? provenance_extracted_count / facts_total : 0,
+    provenance_inferred_pct: facts_total > 0 ? provenance_inferred_count / facts_total : 0,
+    provenance_manual_pct: facts_total > 0 ? provenance_manual_count / facts_total : 0
+  };
+}
+
+export async function runGeneratorStage(runId: string) {
+  const proposalPath = path.join(process.cwd(), "docs", ".proposals", `${runId}.json`);
 
-  const provenance_extracted_pct = facts_total > 0 ? provenance_extracted_count / facts_total : 0;
-  const provenance_inferred_pct = facts_total > 0 ? provenance_inferred_count / facts_total : 0;
-  const provenance_manual_pct = facts_total > 0 ? provenance_manual_count / facts_total : 0;
+  if (!fs.existsSync(proposalPath)) {
+    console.warn(`Proposal file not found: ${proposalPath}`);
+    return;
+  }
+
+  const proposal = JSON.parse(fs.readFileSync(proposalPath, "utf-8"));
+  const facts = proposal.facts || [];
+
+  const distribution = computeFactDistribution(facts);
 
   // ── Telemetry from proposal.meta ────────────────────────────────────
   const telemetry = proposal.meta?.telemetry;
@@ -96,33 +102,49 @@ export async function runGeneratorStage(runId: string) {
   const pass_notes_prompt_tokens         = passes?.notes?.promptTokens         ?? undefined;
   const pass_notes_completion_tokens     = passes?.notes?.completionTokens     ?? undefined;
 
+  // ── Cache hits (served locally, so excluded from the cost estimate) ─
+  const cache = telemetry?.cache;
+  const llm_cache_hits   = cache?.hits   ?? undefined;
+  const llm_cache_misses = cache?.misses ?? undefined;
+  const savedPrompt      = cache?.savedPromptTokens     ?? 0;
+  const savedCompletion  = cache?.savedCompletionTokens ?? 0;
+  const llm_cache_saved_tokens = cache ? savedPrompt + savedCompletion : undefined;
+
+  // ── Budget cuts (LLM_MAX_COST_USD / LLM_MAX_TOTAL_TOKENS) ─────────
+  const budget = telemetry?.budget;
+  const budget_max_cost_usd     = budget?.maxCostUsd     ?? undefined;
+  const budget_max_total_tokens = budget?.maxTotalTokens ?? undefined;
+  const budget_cuts: string[] | undefined = budget?.cuts?.map(
+    (cut: { pass: string; action: string }) => `${cut.pass}: ${cut.action}`
+  );
+  const budget_cut_count = budget_cuts?.length;
+
   // ── Cost estimate ──────────────────────────────────────────────────
   const estimated_cost_usd = estimateCostUsd(
     llm_model,
-    total_prompt_tokens ?? 0,
-    total_completion_tokens ?? 0
+    Math.max(0, (total_prompt_tokens ?? 0) - savedPrompt),
+    Math.max(0, (total_completion_tokens ?? 0) - savedCompletion)
   );
+  const estimated_cost_saved_usd = cache
+    ? estimateCostUsd(llm_model, savedPrompt, savedCompletion)
+    : undefined;
 
   writeMetrics(runId, {
-    facts_total,
-    gate_ok_count,
-    gate_warn_count,
-    gate_require_count,
-    gate_ok_pct,
-    gate_warn_pct,
-    gate_require_pct,
-    provenance_extracted_count,
-    provenance_inferred_count,
-    provenance_manual_count,
-    provenance_extracted_pct,
-    provenance_inferred_pct,
-    provenance_manual_pct,
+    ...distribution,
     total_latency_ms,
     total_prompt_tokens,
     total_completion_tokens,
     total_tokens,
     total_retries,
     estimated_cost_usd,
+    llm_cache_hits,
+    llm_cache_misses,
+    llm_cache_saved_tokens,
+    estimated_cost_saved_usd,
+    budget_max_cost_usd,
+    budget_max_total_tokens,
+    budget_cut_count,
+    budget_cuts,
     pass_extractor_latency_ms,
     pass_extractor_prompt_tokens,
     pass_extractor_completion_tokens,
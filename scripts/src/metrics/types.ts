@@ -80,6 +80,16 @@ export interface MetricsReport {
   total_tokens?: number;
   total_retries?: number;
   estimated_cost_usd?: number;
+  // LLM response cache: hits are served locally and excluded from estimated_cost_usd
+  llm_cache_hits?: number;
+  llm_cache_misses?: number;
+  llm_cache_saved_tokens?: number;
+  estimated_cost_saved_usd?: number;
+  // Run budget (LLM_MAX_COST_USD / LLM_MAX_TOTAL_TOKENS) and what passes cut to honour it
+  budget_max_cost_usd?: number;
+  budget_max_total_tokens?: number;
+  budget_cut_count?: number;
+  budget_cuts?: string[];
 
   // ── Per-pass breakdown ──
   pass_extractor_latency_ms?: number;
@@ -2,12 +2,24 @@ import type { Fact, Gate, Anchor } from "lib/card/types.js";
 
 import type { CardSeed } from "../card/seed.js";
 import type { Proposal } from "lib/card/types.js";
+import type { ApiSurface } from "../analysis/api_surface.js";
+import { describeBenchmarkSource, type BenchmarkMeasurement, type BenchmarkReport } from "../analysis/benchmarks.js";
+import type { CoverageSignal } from "../analysis/coverage.js";
+import type { GitHistory, HistoryAnchor } from "../analysis/history.js";
+import { hubDatasetUri, hubModelUri, type HfInventory } from "../analysis/huggingface.js";
 import type { RepositoryInsights } from "../analysis/repository.js";
+import type { RepositoryStaticSignals } from "../analysis/signals.js";
 
 export interface DeterministicPipelineInput {
   baselineCard: CardSeed;
   changedFiles: string[];
   insights: RepositoryInsights;
+  /** Optional so bundles recorded before static API extraction still replay. */
+  staticSignals?: RepositoryStaticSignals;
+  /** Commits since the previous run; absent for bundles recorded before history mining. */
+  history?: GitHistory;
+  /** Date of the run's changelog entry, so a replayed run proposes the same entry; defaults to now. */
+  runAt?: string;
 }
 
 export interface DeterministicPipelineResult {
@@ -23,7 +35,10 @@ export function runDeterministicPipeline(
   const { mutatedCard, facts } = buildFactsAndMutations(
     input.baselineCard,
     input.changedFiles,
-    input.insights
+    input.insights,
+    input.staticSignals,
+    input.history,
+    input.runAt
   );
 
   const coverageNonNull = computeCoverageDiagnostic(facts);
@@ -42,7 +57,10 @@ export function runDeterministicPipeline(
 function buildFactsAndMutations(
   baseline: CardSeed,
   changedFiles: string[],
-  context: RepositoryInsights
+  context: RepositoryInsights,
+  signals: RepositoryStaticSignals | undefined,
+  history: GitHistory | undefined,
+  runAt: string | undefined
 ): { mutatedCard: CardSeed; facts: Fact[] } {
   const mutated = deepClone(baseline);
   const facts: Fact[] = [];
@@ -203,7 +221,18 @@ function buildFactsAndMutations(
     sourceKind: "extracted"
   });
 
-  if (context.coverageHint) {
+  const coverageReport = selectCoverageReport(signals?.coverage ?? []);
+  if (coverageReport) {
+    addFact({
+      jsonPath: "$.devInsight.qualitySignals.coverageHint",
+      jsonPointer: "/devInsight/qualitySignals/coverageHint",
+      proposedValue: describeCoverage(coverageReport),
+      currentValue: getValueAtPointer(baseline, "/devInsight/qualitySignals/coverageHint"),
+      anchors: [{ path: coverageReport.source, startLine: coverageReport.line, endLine: coverageReport.line, kind: "metrics" }],
+      confidence: 0.9,
+      sourceKind: "extracted"
+    });
+  } else if (context.coverageHint) {
     addFact({
       jsonPath: "$.devInsight.qualitySignals.coverageHint",
       jsonPointer: "/devInsight/qualitySignals/coverageHint",
@@ -237,7 +266,24 @@ function buildFactsAndMutations(
     });
   }
 
-  const changelogFacts = buildChangelogFacts(mutated, baseline, changedFiles, context);
+  if (signals?.api) {
+    addApiFacts(signals.api, baseline, addFact);
+  }
+
+  // Bundles recorded before benchmark ingestion carry no benchmarks block
+  if (signals?.benchmarks) {
+    addBenchmarkFacts(signals.benchmarks, baseline, addFact);
+  }
+
+  if (signals?.huggingFace) {
+    addHuggingFaceFacts(signals.huggingFace, baseline, addFact);
+  }
+
+  if (history) {
+    addHistoryFacts(history, baseline, addFact);
+  }
+
+  const changelogFacts = buildChangelogFacts(mutated, baseline, changedFiles, context, runAt);
   changelogFacts.facts.forEach((fact) => facts.push(fact));
 
   return {
@@ -293,6 +339,264 @@ export function buildStakeholderNotes(facts: Fact[]): Proposal["notes"] {
   return notes;
 }
 
+/**
+ * publicApis and errorModel as one fact each, so removed routes and statuses drop out; entries
+ * are matched to the card's by method+path or httpStatus and keep their curated fields. Plus the
+ * API schemas/version and the first recognised auth scheme. Spec-derived facts are trusted
+ * slightly more than decorator scans, which can miss routers mounted under a prefix.
+ */
+function addApiFacts(api: ApiSurface, baseline: CardSeed, addFact: (fact: DraftFact) => void): void {
+  const confidence = api.source === "openapi" ? 0.9 : 0.85;
+
+  if (api.routes.length > 0) {
+    addFact({
+      jsonPath: "$.devInsight.architecture.publicApis",
+      jsonPointer: "/devInsight/architecture/publicApis",
+      proposedValue: api.routes.map((route) => ({
+        ...(baseline.devInsight.architecture.publicApis.find((entry) => entry.method === route.method && entry.path === route.path) ?? {}),
+        name: route.name,
+        path: route.path,
+        method: route.method,
+        ...(route.signature ? { signature: route.signature } : {}),
+        file: route.anchor.path
+      })),
+      currentValue: getValueAtPointer(baseline, "/devInsight/architecture/publicApis"),
+      anchors: api.routes.map((route) => route.anchor),
+      confidence,
+      sourceKind: "extracted"
+    });
+  }
+
+  if (api.errors.length > 0) {
+    addFact({
+      jsonPath: "$.integration.errorModel",
+      jsonPointer: "/integration/errorModel",
+      proposedValue: api.errors.map((error) => ({
+        ...(baseline.integration.errorModel.find((entry) => entry.httpStatus === error.httpStatus) ?? {}),
+        code: error.code,
+        httpStatus: error.httpStatus,
+        retryable: error.retryable,
+        ...(error.description ? { description: error.description } : {})
+      })),
+      currentValue: getValueAtPointer(baseline, "/integration/errorModel"),
+      anchors: api.errors.map((error) => error.anchor),
+      confidence,
+      sourceKind: "extracted"
+    });
+  }
+
+  const inputSchemas = [...new Set(api.routes.map((route) => route.requestSchema).filter(isString))];
+  const outputSchemas = [...new Set(api.routes.map((route) => route.responseSchema).filter(isString))];
+  if (inputSchemas.length > 0 || outputSchemas.length > 0 || api.version) {
+    const schemaRoutes = api.routes.filter((route) => route.requestSchema || route.responseSchema);
+    addFact({
+      jsonPath: "$.integration.api",
+      jsonPointer: "/integration/api",
+      proposedValue: {
+        ...(inputSchemas.length > 0 ? { inputSchema: inputSchemas.join(", ") } : {}),
+        ...(outputSchemas.length > 0 ? { outputSchema: outputSchemas.join(", ") } : {}),
+        ...(api.version ? { version: api.version.value } : {})
+      },
+      currentValue: getValueAtPointer(baseline, "/integration/api"),
+      anchors: [...(api.version ? [api.version.anchor] : []), ...schemaRoutes.slice(0, 5).map((route) => route.anchor)],
+      confidence,
+      sourceKind: "extracted"
+    });
+  }
+
+  const scheme = api.authSchemes[0];
+  if (scheme) {
+    const currentSecurity = getValueAtPointer(baseline, "/integration/security") as Record<string, unknown> | null;
+    addFact({
+      jsonPath: "$.integration.security",
+      jsonPointer: "/integration/security",
+      // Keep curated fields such as rateLimitRps; bearer/basic schemes collapse into "apiKey", hence the lower confidence
+      proposedValue: {
+        ...(currentSecurity ?? {}),
+        auth: scheme.auth,
+        ...(scheme.scopes.length > 0 ? { scopes: scheme.scopes } : {})
+      },
+      currentValue: currentSecurity,
+      anchors: [scheme.anchor],
+      confidence: confidence - 0.1,
+      sourceKind: "extracted"
+    });
+  }
+}
+
+// Load tests measure the served endpoint, result tables are hand-maintained, micro-benchmarks time single functions
+const BENCHMARK_TOOL_PRIORITY: Array<{ tool: BenchmarkReport["tool"]; confidence: number }> = [
+  { tool: "locust", confidence: 0.85 },
+  { tool: "k6", confidence: 0.85 },
+  { tool: "markdown", confidence: 0.8 },
+  { tool: "pytest-benchmark", confidence: 0.75 }
+];
+
+/**
+ * runtimePerf latency percentiles, throughput and hardware from the most representative
+ * benchmark output. All values come from one report and one benchmark row so that they
+ * describe the same measurement.
+ */
+function addBenchmarkFacts(reports: BenchmarkReport[], baseline: CardSeed, addFact: (fact: DraftFact) => void): void {
+  const ranked = BENCHMARK_TOOL_PRIORITY.flatMap(({ tool, confidence }) =>
+    reports.filter((report) => report.tool === tool).map((report) => ({ report, confidence }))
+  );
+  const selected = ranked.find(({ report }) => report.measurements.some((entry) => entry.statistic === "p50"));
+  if (!selected) {
+    return;
+  }
+  const { report, confidence } = selected;
+  const name = report.measurements.find((entry) => entry.statistic === "p50")!.name;
+  const pick = (metric: BenchmarkMeasurement["metric"], statistic: BenchmarkMeasurement["statistic"]) =>
+    report.measurements.find((entry) => entry.name === name && entry.metric === metric && entry.statistic === statistic);
+
+  const p50 = pick("latency", "p50")!;
+  const p95 = pick("latency", "p95");
+  const throughput = pick("throughput", "mean") ?? report.measurements.find((entry) => entry.metric === "throughput");
+  const base = "/devInsight/runtimePerf";
+
+  for (const [field, measurement] of [["latencyMsP50", p50], ["latencyMsP95", p95]] as const) {
+    if (measurement) {
+      addFact({
+        jsonPath: `$.devInsight.runtimePerf.${field}`,
+        jsonPointer: `${base}/${field}`,
+        proposedValue: roundTo(measurement.value, 2),
+        currentValue: getValueAtPointer(baseline, `${base}/${field}`),
+        anchors: [measurement.anchor],
+        confidence,
+        sourceKind: "extracted"
+      });
+    }
+  }
+
+  if (throughput) {
+    addFact({
+      jsonPath: "$.devInsight.runtimePerf.throughput",
+      jsonPointer: `${base}/throughput`,
+      proposedValue: { value: roundTo(throughput.value, 2), unit: throughput.unit },
+      currentValue: getValueAtPointer(baseline, `${base}/throughput`),
+      anchors: [throughput.anchor],
+      confidence,
+      sourceKind: "extracted"
+    });
+  }
+
+  if (report.hardware && report.hardwareAnchor) {
+    addFact({
+      jsonPath: "$.devInsight.runtimePerf.hardware",
+      jsonPointer: `${base}/hardware`,
+      proposedValue: report.hardware,
+      currentValue: getValueAtPointer(baseline, `${base}/hardware`),
+      anchors: [report.hardwareAnchor],
+      confidence,
+      sourceKind: "extracted"
+    });
+  }
+
+  addFact({
+    jsonPath: "$.devInsight.runtimePerf.notes",
+    jsonPointer: `${base}/notes`,
+    proposedValue: `Latency for ${name} measured with ${describeBenchmarkSource(report)}`,
+    currentValue: getValueAtPointer(baseline, `${base}/notes`),
+    anchors: [p50.anchor, ...(report.hardwareAnchor ? [report.hardwareAnchor] : [])],
+    confidence,
+    sourceKind: "extracted"
+  });
+}
+
+/**
+ * mlCore facts from Hugging Face references: the most referenced model becomes
+ * artifactURIs.model, a vendored config/card for it fills training.hyperparams, and dataset
+ * ids are appended to datasets unless the card already lists them. Curated fields are kept.
+ */
+function addHuggingFaceFacts(hub: HfInventory, baseline: CardSeed, addFact: (fact: DraftFact) => void): void {
+  const primary = hub.models[0];
+  if (primary) {
+    const currentArtifacts = getValueAtPointer(baseline, "/mlCore/artifactURIs") as Record<string, unknown> | null;
+    addFact({
+      jsonPath: "$.mlCore.artifactURIs",
+      jsonPointer: "/mlCore/artifactURIs",
+      proposedValue: { ...(currentArtifacts ?? {}), model: hubModelUri(primary.id) },
+      currentValue: currentArtifacts,
+      anchors: primary.references.slice(0, 3),
+      // Repos mention many example models; the ranking only approximates the one that is served
+      confidence: 0.75,
+      sourceKind: "extracted"
+    });
+  }
+
+  const card = hub.cards.find((entry) => primary && entry.id === primary.id) ?? hub.cards[0];
+  if (card) {
+    const currentTraining = getValueAtPointer(baseline, "/mlCore/training") as Record<string, unknown> | null;
+    const currentHyperparams = (currentTraining?.hyperparams ?? {}) as Record<string, unknown>;
+    // The schema has no model-level slot for these, so they sit with the model's other configuration
+    const hyperparams = {
+      ...currentHyperparams,
+      model: card.id ?? card.directory,
+      ...(card.architecture ? { architecture: card.architecture.value } : {}),
+      ...(card.embeddingDimension ? { embeddingDimension: card.embeddingDimension.value } : {}),
+      ...(card.maxSequenceLength ? { maxSequenceLength: card.maxSequenceLength.value } : {}),
+      ...(card.license ? { license: card.license.value } : {})
+    };
+    addFact({
+      jsonPath: "$.mlCore.training",
+      jsonPointer: "/mlCore/training",
+      proposedValue: { ...(currentTraining ?? {}), hyperparams },
+      currentValue: currentTraining,
+      anchors: [card.architecture, card.embeddingDimension, card.maxSequenceLength, card.license]
+        .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry))
+        .map((entry) => entry.anchor),
+      confidence: 0.9,
+      sourceKind: "extracted"
+    });
+  }
+
+  const currentDatasets = (getValueAtPointer(baseline, "/mlCore/datasets") as Array<Record<string, unknown>> | null) ?? [];
+  let appended = 0;
+  for (const dataset of hub.datasets) {
+    const uri = hubDatasetUri(dataset.id);
+    const existing = currentDatasets.findIndex((entry) => entry.name === dataset.id || entry.uri === uri);
+    const index = existing >= 0 ? existing : currentDatasets.length + appended++;
+    const pointer = `/mlCore/datasets/${index}`;
+    addFact({
+      jsonPath: `$.mlCore.datasets[${index}]`,
+      jsonPointer: pointer,
+      proposedValue: { ...(currentDatasets[existing] ?? {}), name: dataset.id, uri },
+      currentValue: getValueAtPointer(baseline, pointer),
+      anchors: dataset.references.slice(0, 3),
+      confidence: 0.8,
+      sourceKind: "extracted"
+    });
+  }
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Several reports can coexist (e.g. Python and frontend suites); the one measuring the most lines speaks for the repo
+function selectCoverageReport(reports: CoverageSignal[]): CoverageSignal | null {
+  return reports.reduce<CoverageSignal | null>(
+    (best, report) => (!best || report.linesValid > best.linesValid ? report : best),
+    null
+  );
+}
+
+function describeCoverage(report: CoverageSignal): string {
+  const lowest = [...report.packages]
+    .filter((entry) => entry.linesValid > 0)
+    .sort((a, b) => a.percentage - b.percentage)
+    .slice(0, 3)
+    .map((entry) => `${entry.name} ${(entry.percentage * 100).toFixed(1)}%`);
+  const base = `${(report.percentage * 100).toFixed(1)}% line coverage (${report.linesCovered}/${report.linesValid} lines, ${report.type} report ${report.source})`;
+  return lowest.length > 1 ? `${base}; lowest packages: ${lowest.join(", ")}` : base;
+}
+
+function isString(value: string | undefined): value is string {
+  return typeof value === "string";
+}
+
 function computeCoverageDiagnostic(facts: Fact[]): number {
   if (facts.length === 0) {
     return 0;
@@ -301,11 +605,87 @@ function computeCoverageDiagnostic(facts: Fact[]): number {
   return anchored / facts.length;
 }
 
+function addHistoryFacts(history: GitHistory, baseline: CardSeed, addFact: (fact: DraftFact) => void): void {
+  const changelog = (baseline.provenance?.changelog ?? []) as Array<{ headSha?: string }>;
+  const recorded = new Set(changelog.map((entry) => entry.headSha).filter(Boolean));
+  let index = changelog.length;
+  for (const entry of history.changelog) {
+    if (recorded.has(entry.headSha)) {
+      continue;
+    }
+    addFact({
+      jsonPath: `$.provenance.changelog[${index}]`,
+      jsonPointer: `/provenance/changelog/${index}`,
+      proposedValue: {
+        date: entry.date,
+        summary: entry.summary,
+        by: entry.by,
+        files: entry.files.map((path) => ({ path })),
+        headSha: entry.headSha
+      },
+      currentValue: undefined,
+      anchors: entry.anchors,
+      confidence: 0.9,
+      sourceKind: "extracted"
+    });
+    if (entry.anchors.length > 0) {
+      index += 1;
+    }
+  }
+
+  // Curated owners stay as written; derived owners are only added for people not yet listed
+  const currentOwners = (baseline.meta?.owners ?? []) as Array<{ name: string; role: string }>;
+  const listed = new Set(currentOwners.map((owner) => owner.name.toLowerCase()));
+  const derived = new Map<string, { roles: Map<string, string[]>; anchors: HistoryAnchor[]; codeowner: boolean }>();
+  for (const owner of history.owners) {
+    if (listed.has(owner.name.toLowerCase())) {
+      continue;
+    }
+    const entry = derived.get(owner.name) ?? { roles: new Map<string, string[]>(), anchors: [] as HistoryAnchor[], codeowner: false };
+    const role = owner.source === "codeowners" ? "codeowner" : "maintainer";
+    entry.roles.set(role, [...(entry.roles.get(role) ?? []), owner.component]);
+    if (!entry.anchors.some((anchor) => anchor.path === owner.anchor.path && anchor.startLine === owner.anchor.startLine)) {
+      entry.anchors.push(owner.anchor);
+    }
+    entry.codeowner ||= owner.source === "codeowners";
+    derived.set(owner.name, entry);
+  }
+  if (derived.size > 0) {
+    const added = [...derived.entries()].map(([name, entry]) => ({
+      name,
+      role: [...entry.roles.entries()].map(([role, components]) => `${role} (${components.join(", ")})`).join("; ")
+    }));
+    const entries = [...derived.values()];
+    addFact({
+      jsonPath: "$.meta.owners",
+      jsonPointer: "/meta/owners",
+      proposedValue: [...currentOwners, ...added],
+      currentValue: getValueAtPointer(baseline, "/meta/owners"),
+      anchors: entries.flatMap((entry) => entry.anchors),
+      confidence: entries.every((entry) => entry.codeowner) ? 0.9 : 0.7,
+      sourceKind: entries.every((entry) => entry.codeowner) ? "extracted" : "inferred"
+    });
+  }
+
+  if (history.createdAt) {
+    addFact({
+      jsonPath: "$.meta.createdAt",
+      jsonPointer: "/meta/createdAt",
+      proposedValue: history.createdAt.value,
+      currentValue: getValueAtPointer(baseline, "/meta/createdAt"),
+      anchors: [history.createdAt.anchor],
+      confidence: 0.85,
+      sourceKind: "extracted"
+    });
+  }
+}
+
 function buildChangelogFacts(
   mutated: CardSeed,
   baseline: CardSeed,
   changedFiles: string[],
-  context: RepositoryInsights
+  context: RepositoryInsights,
+  runAt = new Date().toISOString()
 ): { card: CardSeed; facts: Fact[] } {
   const changelog: Array<Record<string, unknown>> = Array.isArray(mutated.provenance?.changelog)
     ? [...(mutated.provenance!.changelog as Array<Record<string, unknown>>)]
@@ -322,7 +702,7 @@ function buildChangelogFacts(
   }
 
   const entry = {
-    date: new Date().toISOString(),
+    date: runAt,
     summary: `ML System Card run ${context.runId} observed ${changedFiles.length} changed files`,
     files: changedFiles.map((path) => ({ path })),
     runId: context.runId,
@@ -365,7 +745,8 @@ interface DraftFact {
   jsonPointer: string;
   proposedValue: unknown;
   currentValue: unknown;
-  anchors?: Array<Omit<Anchor, "commit">>;
+  /** Anchors default to the run's head commit; history facts pin the commit they describe. */
+  anchors?: HistoryAnchor[];
   confidence: number;
   sourceKind: "extracted" | "inferred" | "manual";
   gate?: Gate;
@@ -383,7 +764,7 @@ function toFact(draft: DraftFact, headSha: string): Fact {
 
   const repoSources: Anchor[] = (draft.anchors ?? []).map((anchor) => ({
     ...anchor,
-    commit: headSha
+    commit: anchor.commit ?? headSha
   }));
 
   return {
@@ -430,7 +811,8 @@ function applyJsonPointer(target: any, pointer: string, value: unknown): void {
   }
 }
 
-function getValueAtPointer(target: any, pointer: string): unknown {
+/** Value of `target` at a JSON pointer, or undefined when any segment is missing. */
+export function getValueAtPointer(target: any, pointer: string): unknown {
   const tokens = pointer
     .split("/")
     .slice(1)
@@ -0,0 +1,258 @@
+import type { Decision, Fact } from "lib/card/types.js";
+
+import { matchCodeowners, readCodeowners, type CodeownersRule } from "../analysis/history.js";
+import { CARD_PATH, PROPOSALS_DIR } from "../constants.js";
+import { validateDecisions } from "../contracts/validators.js";
+import {
+  CODE_OWNER_ROLE,
+  fieldPathCovers,
+  loadStakeholders,
+  normalizeHandle,
+  sectionOf,
+  type StakeholderProfile
+} from "../governance/signoffs.js";
+import { createIssueComment, listIssueComments, type IssueComment } from "../utils/github.js";
+import { logger } from "../utils/logger.js";
+import { applyReviewAction, lockDecision, readDecisionsFile, readProposal, recordSignOff, saveDecisions } from "./session.js";
+
+export type CommentCommand =
+  | { verb: "accept" | "reject" | "lock"; jsonPath: string }
+  | { verb: "edit"; jsonPath: string; value: unknown }
+  | { verb: "sign-off"; jsonPath: string; role?: string };
+
+/** One `/msc` line from a comment, parsed or rejected. */
+export type ParsedCommand = { line: string } & ({ command: CommentCommand; error?: undefined } | { command?: undefined; error: string });
+
+export interface CommandOutcome {
+  line: string;
+  applied: boolean;
+  message: string;
+}
+
+export interface CommandAuthority {
+  stakeholders: StakeholderProfile[];
+  codeowners: CodeownersRule[];
+}
+
+export interface IngestCommentsOptions {
+  runId: string;
+  prNumber: number;
+  proposalsDir?: string;
+  /** Defaults to docs/stakeholders.yaml and the repository CODEOWNERS. */
+  authority?: CommandAuthority;
+  /** Account that posts the replies; only its reply markers count. Defaults to MSC_BOT_LOGIN or github-actions[bot]. */
+  botLogin?: string;
+}
+
+export interface IngestCommentsResult {
+  comments: number;
+  applied: number;
+  rejected: number;
+  decisions: Decision[];
+}
+
+const COMMAND_PREFIX = "/msc";
+const DEFAULT_BOT_LOGIN = "github-actions[bot]";
+const REPLY_MARKER = /<!-- msc-command-reply:(\d+) -->/g;
+const JSON_PATH_PATTERN = /^\$(?:\.[A-Za-z_][\w-]*|\[\d+\])+$/;
+const USAGE =
+  "expected `/msc accept|reject|lock <jsonPath>`, `/msc edit <jsonPath> <json value>` or `/msc sign-off <section> [role]`";
+
+/**
+ * Pulls `/msc` commands out of a comment body. Quoted lines and fenced code are ignored so
+ * replies that echo a command are never executed again.
+ */
+export function parseCommentCommands(body: string): ParsedCommand[] {
+  const parsed: ParsedCommand[] = [];
+  let inFence = false;
+  for (const raw of body.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith("```") || line.startsWith("~~~")) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence || !new RegExp(`^${COMMAND_PREFIX}(?:\\s|$)`).test(line)) {
+      continue;
+    }
+    parsed.push({ line, ...parseCommandLine(line.slice(COMMAND_PREFIX.length).trim()) });
+  }
+  return parsed;
+}
+
+function parseCommandLine(text: string): { command: CommentCommand } | { error: string } {
+  const match = text.match(/^(\S+)\s*(\S*)\s*([\s\S]*)$/);
+  const verb = match?.[1]?.toLowerCase() ?? "";
+  const jsonPath = match?.[2] ?? "";
+  const rest = match?.[3]?.trim() ?? "";
+  if (!jsonPath) {
+    return { error: USAGE };
+  }
+  if (!JSON_PATH_PATTERN.test(jsonPath)) {
+    return { error: `\`${jsonPath}\` is not a card JSONPath like \`$.business.useCase\`` };
+  }
+
+  switch (verb) {
+    case "accept":
+    case "reject":
+    case "lock":
+      return rest ? { error: `unexpected text after ${verb}: ${USAGE}` } : { command: { verb, jsonPath } };
+    case "edit":
+      if (!rest) {
+        return { error: "edit needs a JSON value, e.g. `/msc edit $.meta.maturity \"beta\"`" };
+      }
+      try {
+        return { command: { verb, jsonPath, value: JSON.parse(rest) } };
+      } catch (_error) {
+        return { error: `edit value is not valid JSON (quote strings): ${rest}` };
+      }
+    case "sign-off":
+    case "signoff":
+      if (sectionOf(jsonPath) !== jsonPath) {
+        return { error: `sign-off applies to a whole section such as \`${sectionOf(jsonPath)}\`` };
+      }
+      return { command: { verb: "sign-off", jsonPath, role: rest.replace(/^["']|["']$/g, "") || undefined } };
+    default:
+      return { error: `unknown command \`${verb}\`: ${USAGE}` };
+  }
+}
+
+/**
+ * Roles `login` holds for `jsonPath`: a stakeholder role when listed under `members` of a
+ * stakeholder whose `field_paths` cover it, and Code Owner when CODEOWNERS lists the handle
+ * for the card file or any evidence file behind the path.
+ */
+export function rolesForCommenter(login: string, jsonPath: string, evidencePaths: string[], authority: CommandAuthority): string[] {
+  const handle = normalizeHandle(login);
+  const roles = authority.stakeholders
+    .filter((stakeholder) => (stakeholder.members ?? []).some((member) => normalizeHandle(member) === handle))
+    .filter((stakeholder) => stakeholder.fieldPaths.some((pattern) => fieldPathCovers(pattern, jsonPath)))
+    .map((stakeholder) => stakeholder.roles[0] ?? stakeholder.title);
+  const owners = [CARD_PATH, ...evidencePaths].flatMap((path) => matchCodeowners(authority.codeowners, path)?.owners ?? []);
+  if (owners.some((owner) => normalizeHandle(owner) === handle)) {
+    roles.push(CODE_OWNER_ROLE);
+  }
+  return [...new Set(roles)];
+}
+
+/** Checks and applies one command for `login`; `decisions` is returned unchanged when it is refused. */
+export function applyCommentCommand(
+  decisions: Decision[],
+  command: CommentCommand,
+  context: { login: string; timestamp: string; facts: Fact[]; authority: CommandAuthority }
+): { decisions: Decision[]; message: string; applied: boolean } {
+  const refuse = (message: string) => ({ decisions, message, applied: false });
+  const facts =
+    command.verb === "sign-off"
+      ? context.facts.filter((fact) => sectionOf(fact.jsonPath) === command.jsonPath)
+      : context.facts.filter((fact) => fact.jsonPath === command.jsonPath);
+  if (facts.length === 0) {
+    return refuse(`\`${command.jsonPath}\` has no proposed changes in this run`);
+  }
+  const evidence = facts.flatMap((fact) => fact.repoSources.map((anchor) => anchor.path));
+  const roles = rolesForCommenter(context.login, command.jsonPath, evidence, context.authority);
+  if (roles.length === 0) {
+    return refuse(`@${context.login} is not a stakeholder member or code owner for \`${command.jsonPath}\``);
+  }
+
+  const previous = decisions.find((decision) => decision.jsonPath === command.jsonPath);
+  const keep = { lock: previous?.lock, skipGeneration: previous?.skipGeneration };
+  switch (command.verb) {
+    case "accept":
+    case "reject":
+      return { decisions: applyReviewAction(decisions, command.jsonPath, { decision: command.verb, ...keep }), message: `${command.verb}ed`, applied: true };
+    case "edit":
+      return {
+        decisions: applyReviewAction(decisions, command.jsonPath, { decision: "edit", editedValue: command.value, ...keep }),
+        message: "edited",
+        applied: true
+      };
+    case "lock":
+      return { decisions: lockDecision(decisions, command.jsonPath), message: "locked", applied: true };
+    case "sign-off": {
+      const requested = command.role?.toLowerCase();
+      const role = requested ? roles.find((candidate) => candidate.toLowerCase() === requested) : roles[0];
+      if (!role) {
+        return refuse(`@${context.login} cannot sign off as ${command.role}; eligible roles: ${roles.join(", ")}`);
+      }
+      const signOff = { role, name: context.login, timestamp: context.timestamp };
+      return { decisions: recordSignOff(decisions, command.jsonPath, signOff), message: `signed off as ${role}`, applied: true };
+    }
+  }
+}
+
+/** The reply posted under a comment, listing what happened to each of its commands. */
+export function formatCommandReply(comment: IssueComment, outcomes: CommandOutcome[]): string {
+  const lines = outcomes.map((outcome) => `- ${outcome.applied ? "✅" : "❌"} \`${outcome.line}\` — ${outcome.message}`);
+  return [`<!-- msc-command-reply:${comment.id} -->`, `@${comment.user?.login ?? "unknown"} decisions from your comment:`, "", ...lines].join("\n");
+}
+
+/**
+ * Reads `/msc` commands from a pull request's comments, merges the authorized ones into
+ * `<runId>.decisions.json` and replies to each comment. Comments that already have a reply
+ * are skipped, so the command can run on every new comment.
+ */
+export async function ingestComments(options: IngestCommentsOptions): Promise<IngestCommentsResult> {
+  const proposalsDir = options.proposalsDir ?? PROPOSALS_DIR;
+  const proposal = await readProposal(options.runId, proposalsDir);
+  if (!proposal) {
+    throw new Error(`Proposal ${options.runId} not found in ${proposalsDir}`);
+  }
+  const authority = options.authority ?? { stakeholders: await loadStakeholders(), codeowners: await readCodeowners() };
+  const comments = await listIssueComments(options.prNumber);
+  // Anyone can paste a marker, so only the bot's own replies mark a comment as answered
+  const botLogin = normalizeHandle(options.botLogin ?? (process.env.MSC_BOT_LOGIN || DEFAULT_BOT_LOGIN));
+  const isBotReply = (comment: IssueComment) => normalizeHandle(comment.user?.login ?? "") === botLogin;
+  const answered = new Set(
+    comments.filter(isBotReply).flatMap((comment) => [...(comment.body ?? "").matchAll(REPLY_MARKER)].map((match) => Number(match[1])))
+  );
+
+  let decisions = await readDecisionsFile(options.runId, proposalsDir);
+  const replies: Array<{ comment: IssueComment; outcomes: CommandOutcome[] }> = [];
+  const pending = comments
+    .filter((comment) => !answered.has(comment.id) && !isBotReply(comment))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+  for (const comment of pending) {
+    const parsed = parseCommentCommands(comment.body ?? "");
+    if (parsed.length === 0) {
+      continue;
+    }
+    const outcomes: CommandOutcome[] = [];
+    for (const entry of parsed) {
+      if (entry.error !== undefined) {
+        outcomes.push({ line: entry.line, applied: false, message: entry.error });
+        continue;
+      }
+      const login = comment.user?.login ?? "";
+      const result = applyCommentCommand(decisions, entry.command, {
+        login,
+        timestamp: comment.created_at,
+        facts: proposal.facts,
+        authority
+      });
+      // Validate each command on its own so one bad value does not block the rest
+      const errors = result.applied ? await validateDecisions(result.decisions) : [];
+      if (errors.length > 0) {
+        outcomes.push({ line: entry.line, applied: false, message: `decision failed schema validation: ${errors.join("; ")}` });
+        continue;
+      }
+      decisions = result.decisions;
+      outcomes.push({ line: entry.line, applied: result.applied, message: result.message });
+    }
+    replies.push({ comment, outcomes });
+  }
+
+  const applied = replies.flatMap((reply) => reply.outcomes).filter((outcome) => outcome.applied).length;
+  if (applied > 0) {
+    const { path, errors } = await saveDecisions(options.runId, decisions, proposalsDir);
+    if (errors.length > 0) {
+      throw new Error(`Merged decisions failed schema validation: ${errors.join("; ")}`);
+    }
+    logger.info("Decisions merged from PR comments", { runId: options.runId, path, applied });
+  }
+  for (const reply of replies) {
+    await createIssueComment(options.prNumber, formatCommandReply(reply.comment, reply.outcomes));
+  }
+
+  const total = replies.flatMap((reply) => reply.outcomes).length;
+  return { comments: replies.length, applied, rejected: total - applied, decisions };
+}
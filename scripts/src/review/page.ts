@@ -0,0 +1,188 @@
+/**
+ * Single-page review UI served by the review dashboard. Plain DOM code, no build step:
+ * it talks to `/api/runs` and renders everything with textContent so card values are never
+ * interpreted as HTML.
+ */
+export function renderReviewPage(options: { runId: string | null }): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ML System Card review</title>
+<style>
+  body { font: 14px/1.45 system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { display: flex; gap: 12px; align-items: center; padding: 12px 20px; background: #fff; border-bottom: 1px solid #d0d7de; position: sticky; top: 0; }
+  header h1 { font-size: 16px; margin: 0 auto 0 0; }
+  main { padding: 16px 20px; }
+  .fact { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; margin-bottom: 12px; padding: 12px; }
+  .fact h2 { font: 600 14px ui-monospace, monospace; margin: 0 0 8px; display: flex; gap: 8px; align-items: center; }
+  .gate { font-size: 12px; padding: 1px 6px; border-radius: 10px; background: #ddf4ff; }
+  .gate.Warn { background: #fff8c5; } .gate.Require { background: #ffebe9; }
+  .values { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; }
+  pre { margin: 0; padding: 8px; background: #f6f8fa; border-radius: 4px; overflow: auto; max-height: 240px; font-size: 12px; white-space: pre-wrap; }
+  .snippet { margin-top: 8px; } .snippet summary { cursor: pointer; font-size: 12px; color: #57606a; }
+  .controls { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; margin-top: 10px; }
+  textarea { width: 100%; min-height: 80px; font: 12px ui-monospace, monospace; margin-top: 6px; }
+  #status { font-size: 13px; } #status.error { color: #cf222e; }
+  .signoffs { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 12px; margin-bottom: 16px; }
+  .signoffs label { display: block; margin: 4px 0; }
+</style>
+</head>
+<body>
+<header>
+  <h1>ML System Card review</h1>
+  <select id="run"></select>
+  <span id="status"></span>
+  <button id="save" type="button">Save decisions</button>
+</header>
+<main>
+  <section class="signoffs" id="signoffs" hidden></section>
+  <div id="facts"></div>
+</main>
+<script>
+const preselected = ${JSON.stringify(options.runId)};
+const state = { runId: null, session: null };
+
+function el(tag, props = {}, children = []) {
+  const node = document.createElement(tag);
+  Object.assign(node, props);
+  for (const child of children) node.append(child);
+  return node;
+}
+
+function show(value) {
+  return value === undefined ? "(unset)" : JSON.stringify(value, null, 2);
+}
+
+function setStatus(text, isError = false) {
+  const status = document.getElementById("status");
+  status.textContent = text;
+  status.className = isError ? "error" : "";
+}
+
+async function loadRuns() {
+  const { runs } = await (await fetch("/api/runs")).json();
+  const select = document.getElementById("run");
+  select.replaceChildren(...runs.map((run) => el("option", { value: run.runId, textContent: run.runId + " (" + run.decided + "/" + run.facts + " decided)" })));
+  if (runs.length === 0) {
+    setStatus("No proposals found");
+    return;
+  }
+  select.value = runs.some((run) => run.runId === preselected) ? preselected : runs[0].runId;
+  await loadSession(select.value);
+}
+
+async function loadSession(runId) {
+  const response = await fetch("/api/runs/" + encodeURIComponent(runId));
+  const body = await response.json();
+  if (!response.ok) {
+    setStatus(body.error, true);
+    return;
+  }
+  state.runId = runId;
+  state.session = body;
+  renderSignOffs(body);
+  document.getElementById("facts").replaceChildren(...body.items.map(renderItem));
+  setStatus(body.items.length + " facts");
+}
+
+function renderItem(item, index) {
+  const { fact, decision } = item;
+  const choice = decision ? decision.decision : "";
+  const name = "decision-" + index;
+  const radios = ["", "accept", "reject", "edit"].map((value) =>
+    el("label", {}, [el("input", { type: "radio", name, value, checked: choice === value }), " " + (value || "undecided")])
+  );
+  const edit = el("textarea", { hidden: choice !== "edit", value: show(decision && decision.decision === "edit" ? decision.editedValue : fact.proposedValue) });
+  radios.forEach((label) => label.firstChild.addEventListener("change", () => { edit.hidden = label.firstChild.value !== "edit"; }));
+  const lock = el("input", { type: "checkbox", checked: Boolean(decision && decision.lock) });
+  const skip = el("input", { type: "checkbox", checked: Boolean(decision && decision.skipGeneration) });
+
+  const snippets = item.snippets.map((snippet) =>
+    el("details", { className: "snippet", open: item.snippets.length === 1 }, [
+      el("summary", { textContent: snippet.path + ":" + snippet.startLine + "-" + snippet.endLine + " @ " + snippet.commit.slice(0, 12) + " (" + snippet.source + ")" }),
+      el("pre", { textContent: snippet.lines.map((line) => String(line.number).padStart(5) + "  " + line.text).join("\\n") || "(not available)" })
+    ])
+  );
+
+  const node = el("article", { className: "fact" }, [
+    el("h2", {}, [el("span", { textContent: fact.jsonPath }), el("span", { className: "gate " + fact.gate, textContent: fact.gate }), el("span", { textContent: (fact.confidence * 100).toFixed(0) + "%" })]),
+    el("div", { className: "values" }, [
+      el("div", {}, [el("strong", { textContent: "Current" }), el("pre", { textContent: show(fact.currentValue) })]),
+      el("div", {}, [el("strong", { textContent: "Proposed" }), el("pre", { textContent: show(fact.proposedValue) })])
+    ]),
+    ...(fact.verifierNotes ? [el("p", { textContent: fact.verifierNotes })] : []),
+    ...snippets,
+    el("div", { className: "controls" }, [...radios, el("label", {}, [lock, " lock"]), el("label", {}, [skip, " skip generation"])]),
+    edit
+  ]);
+  node.readDecision = () => {
+    const selected = radios.map((label) => label.firstChild).find((input) => input.checked);
+    if (!selected || !selected.value) return null;
+    const result = { jsonPath: fact.jsonPath, decision: selected.value };
+    if (selected.value === "edit") result.editedValue = JSON.parse(edit.value);
+    if (lock.checked) result.lock = true;
+    if (skip.checked) result.skipGeneration = true;
+    if (decision && decision.signOff) result.signOff = decision.signOff;
+    return result;
+  };
+  return node;
+}
+
+function renderSignOffs(session) {
+  const section = document.getElementById("signoffs");
+  section.hidden = session.signOffs.length === 0;
+  const signed = (required) => session.decisions.find((decision) => decision.signOff && decision.jsonPath === required.section && decision.signOff.role === required.role);
+  section.replaceChildren(
+    el("strong", { textContent: "Required sign-offs" }),
+    ...session.signOffs.map((required) => {
+      const existing = signed(required);
+      const input = el("input", { placeholder: required.owners ? required.owners.join(" / ") : "name", value: existing ? existing.signOff.name : "" });
+      input.dataset.section = required.section;
+      input.dataset.role = required.role;
+      return el("label", {}, [required.section + " — " + required.role + ": ", input]);
+    })
+  );
+}
+
+function collectDecisions() {
+  const facts = [...document.querySelectorAll(".fact")].map((node) => node.readDecision()).filter(Boolean);
+  const factPaths = new Set(state.session.items.map((item) => item.fact.jsonPath));
+  // Keep section-level sign-offs that are not edited here
+  const kept = state.session.decisions.filter((decision) => !factPaths.has(decision.jsonPath) && !(decision.signOff && state.session.signOffs.some((required) => required.section === decision.jsonPath && required.role === decision.signOff.role)));
+  const signOffs = [...document.querySelectorAll("#signoffs input")].filter((input) => input.value.trim()).map((input) => {
+    const previous = state.session.decisions.find((decision) => decision.signOff && decision.jsonPath === input.dataset.section && decision.signOff.role === input.dataset.role && decision.signOff.name === input.value.trim());
+    return { jsonPath: input.dataset.section, decision: "accept", signOff: { role: input.dataset.role, name: input.value.trim(), timestamp: previous ? previous.signOff.timestamp : new Date().toISOString() } };
+  });
+  return [...kept, ...facts, ...signOffs];
+}
+
+document.getElementById("run").addEventListener("change", (event) => loadSession(event.target.value));
+document.getElementById("save").addEventListener("click", async () => {
+  let decisions;
+  try {
+    decisions = collectDecisions();
+  } catch (error) {
+    setStatus("Edited value is not valid JSON: " + error.message, true);
+    return;
+  }
+  const response = await fetch("/api/runs/" + encodeURIComponent(state.runId) + "/decisions", {
+    method: "PUT",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(decisions)
+  });
+  const body = await response.json();
+  if (!response.ok) {
+    setStatus(body.error + (body.errors ? ": " + body.errors.join("; ") : ""), true);
+    return;
+  }
+  setStatus("Saved " + body.decisions + " decisions to " + body.path);
+  await loadSession(state.runId);
+});
+
+loadRuns().catch((error) => setStatus(error.message, true));
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,121 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+
+import type { Decision } from "lib/card/types.js";
+
+import { PROPOSALS_DIR } from "../constants.js";
+import { logger } from "../utils/logger.js";
+import { renderReviewPage } from "./page.js";
+import { isValidRunId, listProposals, loadReviewSession, saveDecisions } from "./session.js";
+
+export interface ReviewServerOptions {
+  proposalsDir?: string;
+  /** Run preselected in the UI; defaults to the newest proposal. */
+  runId?: string;
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: string[]
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Local review dashboard: the UI at `/`, proposals and their decisions under `/api/runs`.
+ * Decisions are validated against decisions.schema.json before they are written.
+ */
+export function createReviewServer(options: ReviewServerOptions = {}): Server {
+  const proposalsDir = options.proposalsDir ?? PROPOSALS_DIR;
+
+  return createServer((request, response) => {
+    handleRequest(request, response, proposalsDir, options.runId ?? null).catch((error: unknown) => {
+      if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message, errors: error.details });
+        return;
+      }
+      logger.error("Review request failed", { url: request.url, error: error instanceof Error ? error.message : String(error) });
+      sendJson(response, 500, { error: "Internal error" });
+    });
+  });
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  proposalsDir: string,
+  preselectedRunId: string | null
+): Promise<void> {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+
+  if (request.method === "GET" && segments.length === 0) {
+    response.writeHead(200, { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" });
+    response.end(renderReviewPage({ runId: preselectedRunId }));
+    return;
+  }
+
+  if (segments[0] !== "api" || segments[1] !== "runs") {
+    throw new HttpError(404, `Not found: ${url.pathname}`);
+  }
+
+  if (segments.length === 2 && request.method === "GET") {
+    sendJson(response, 200, { runs: await listProposals(proposalsDir) });
+    return;
+  }
+
+  const runId = segments[2];
+  if (!runId || !isValidRunId(runId)) {
+    throw new HttpError(400, "Invalid run id");
+  }
+
+  if (segments.length === 3 && request.method === "GET") {
+    const session = await loadReviewSession(runId, proposalsDir).catch((error: unknown) => {
+      throw new HttpError(404, error instanceof Error ? error.message : String(error));
+    });
+    sendJson(response, 200, session);
+    return;
+  }
+
+  if (segments.length === 4 && segments[3] === "decisions" && request.method === "PUT") {
+    const body = await readJsonBody(request);
+    if (!Array.isArray(body)) {
+      throw new HttpError(400, "Expected an array of decisions");
+    }
+    const { path, errors } = await saveDecisions(runId, body as Decision[], proposalsDir);
+    if (errors.length > 0) {
+      throw new HttpError(400, "Decisions failed schema validation", errors);
+    }
+    logger.info("Decisions saved from review dashboard", { runId, path, decisions: body.length });
+    sendJson(response, 200, { path, decisions: body.length });
+    return;
+  }
+
+  throw new HttpError(405, `${request.method} not supported for ${url.pathname}`);
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch (_error) {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function sendJson(response: ServerResponse, status: number, payload: unknown): void {
+  response.writeHead(status, { "content-type": "application/json; charset=utf-8", "cache-control": "no-store" });
+  response.end(JSON.stringify(payload));
+}
@@ -0,0 +1,227 @@
+import { readdir } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { Anchor, Decision, Fact, Proposal, RequiredSignOff, SignOff } from "lib/card/types.js";
+
+import {
+  DECISIONS_SUFFIX,
+  EXTRACTOR_ARTIFACT_SUFFIX,
+  NOTES_ARTIFACT_SUFFIX,
+  PROPOSALS_DIR,
+  REASONER_ARTIFACT_SUFFIX
+} from "../constants.js";
+import { validateDecisions } from "../contracts/validators.js";
+import { isPathDenied, redactSecrets } from "../safety/redaction.js";
+import { readTextFile, writeTextFile } from "../utils/fs.js";
+import { readFileAtCommit } from "../utils/git.js";
+
+export interface AnchorSnippet {
+  path: string;
+  startLine: number;
+  endLine: number;
+  commit: string;
+  /** Where the lines came from: the anchored commit, the working tree when that commit is unavailable, or nowhere. */
+  source: "commit" | "worktree" | "missing";
+  lines: Array<{ number: number; text: string }>;
+}
+
+export interface ReviewItem {
+  fact: Fact;
+  decision: Decision | null;
+  snippets: AnchorSnippet[];
+}
+
+export interface ReviewSession {
+  runId: string;
+  proposal: Proposal;
+  decisions: Decision[];
+  items: ReviewItem[];
+  signOffs: RequiredSignOff[];
+}
+
+export interface ProposalSummary {
+  runId: string;
+  generatedAt: string | null;
+  facts: number;
+  decided: number;
+}
+
+export type ReviewAction =
+  | { decision: "accept" | "reject"; lock?: boolean; skipGeneration?: boolean }
+  | { decision: "edit"; editedValue: unknown; lock?: boolean; skipGeneration?: boolean };
+
+const ARTIFACT_SUFFIXES = [DECISIONS_SUFFIX, EXTRACTOR_ARTIFACT_SUFFIX, REASONER_ARTIFACT_SUFFIX, NOTES_ARTIFACT_SUFFIX];
+const RUN_ID_PATTERN = /^[\w.-]+$/;
+const SNIPPET_CONTEXT_LINES = 2;
+const MAX_SNIPPET_LINES = 40;
+
+export function isValidRunId(runId: string): boolean {
+  return RUN_ID_PATTERN.test(runId) && !runId.includes("..");
+}
+
+/** Proposals awaiting review, newest first. */
+export async function listProposals(proposalsDir = PROPOSALS_DIR): Promise<ProposalSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(proposalsDir);
+  } catch (_error) {
+    return [];
+  }
+  const summaries: ProposalSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json") || ARTIFACT_SUFFIXES.some((suffix) => file.endsWith(suffix))) {
+      continue;
+    }
+    const runId = file.slice(0, -".json".length);
+    const proposal = await readProposal(runId, proposalsDir);
+    if (!proposal) {
+      continue;
+    }
+    const decisions = await readDecisionsFile(runId, proposalsDir);
+    const factPaths = new Set(proposal.facts.map((fact) => fact.jsonPath));
+    summaries.push({
+      runId,
+      generatedAt: proposal.meta.provenance?.generatedAt ?? null,
+      facts: proposal.facts.length,
+      decided: decisions.filter((decision) => factPaths.has(decision.jsonPath)).length
+    });
+  }
+  return summaries.sort((a, b) => (b.generatedAt ?? "").localeCompare(a.generatedAt ?? "") || a.runId.localeCompare(b.runId));
+}
+
+export async function loadReviewSession(runId: string, proposalsDir = PROPOSALS_DIR): Promise<ReviewSession> {
+  if (!isValidRunId(runId)) {
+    throw new Error(`Invalid run id: ${runId}`);
+  }
+  const proposal = await readProposal(runId, proposalsDir);
+  if (!proposal) {
+    throw new Error(`Proposal missing at ${join(proposalsDir, `${runId}.json`)}`);
+  }
+  const decisions = await readDecisionsFile(runId, proposalsDir);
+  const items: ReviewItem[] = [];
+  for (const fact of proposal.facts) {
+    items.push({
+      fact,
+      decision: decisions.find((decision) => decision.jsonPath === fact.jsonPath) ?? null,
+      snippets: await Promise.all(fact.repoSources.map((anchor) => resolveAnchorSnippet(anchor)))
+    });
+  }
+  return { runId, proposal, decisions, items, signOffs: proposal.governance?.signOffs ?? [] };
+}
+
+/** The anchored lines plus a little context, read at the anchor's commit when the clone has it. */
+export async function resolveAnchorSnippet(anchor: Anchor): Promise<AnchorSnippet> {
+  const snippet: AnchorSnippet = {
+    path: anchor.path,
+    startLine: anchor.startLine,
+    endLine: anchor.endLine,
+    commit: anchor.commit,
+    source: "missing",
+    lines: []
+  };
+  if (isPathDenied(anchor.path)) {
+    return snippet;
+  }
+
+  let content: string | null = null;
+  if (/^[0-9a-f]{7,40}$/i.test(anchor.commit)) {
+    content = await readFileAtCommit(anchor.path, anchor.commit).catch(() => null);
+    snippet.source = content === null ? "missing" : "commit";
+  }
+  if (content === null) {
+    content = await readTextFile(anchor.path);
+    snippet.source = content === null ? "missing" : "worktree";
+  }
+  if (content === null) {
+    return snippet;
+  }
+
+  const lines = redactSecrets(content).content.split(/\r?\n/);
+  const first = Math.max(1, anchor.startLine - SNIPPET_CONTEXT_LINES);
+  const last = Math.min(lines.length, Math.max(anchor.endLine, anchor.startLine) + SNIPPET_CONTEXT_LINES, first + MAX_SNIPPET_LINES - 1);
+  for (let number = first; number <= last; number += 1) {
+    snippet.lines.push({ number, text: lines[number - 1] });
+  }
+  return snippet;
+}
+
+/** Records `action` for `jsonPath`, replacing any earlier decision for it. */
+export function applyReviewAction(decisions: Decision[], jsonPath: string, action: ReviewAction): Decision[] {
+  const previous = decisions.find((decision) => decision.jsonPath === jsonPath);
+  const next: Decision = { jsonPath, decision: action.decision };
+  if (action.decision === "edit") {
+    next.editedValue = action.editedValue;
+  }
+  if (action.lock !== undefined) {
+    next.lock = action.lock;
+  }
+  if (action.skipGeneration !== undefined) {
+    next.skipGeneration = action.skipGeneration;
+  }
+  if (previous?.signOff) {
+    next.signOff = previous.signOff;
+  }
+  return [...decisions.filter((decision) => decision.jsonPath !== jsonPath), next];
+}
+
+/** Locks `jsonPath`, keeping an existing decision and otherwise accepting the proposed value. */
+export function lockDecision(decisions: Decision[], jsonPath: string): Decision[] {
+  const previous = decisions.find((decision) => decision.jsonPath === jsonPath);
+  const action: ReviewAction =
+    previous?.decision === "edit"
+      ? { decision: "edit", editedValue: previous.editedValue, lock: true, skipGeneration: previous.skipGeneration }
+      : { decision: previous?.decision ?? "accept", lock: true, skipGeneration: previous?.skipGeneration };
+  return applyReviewAction(decisions, jsonPath, action);
+}
+
+/** Records a section sign-off, replacing an earlier one for the same section and role. */
+export function recordSignOff(decisions: Decision[], section: string, signOff: SignOff): Decision[] {
+  const role = signOff.role.toLowerCase();
+  return [
+    ...decisions.filter((decision) => !(decision.jsonPath === section && decision.signOff?.role.toLowerCase() === role)),
+    { jsonPath: section, decision: "accept", signOff }
+  ];
+}
+
+/** Validates against decisions.schema.json and writes `<runId>.decisions.json` only when valid. */
+export async function saveDecisions(
+  runId: string,
+  decisions: Decision[],
+  proposalsDir = PROPOSALS_DIR
+): Promise<{ path: string; errors: string[] }> {
+  if (!isValidRunId(runId)) {
+    throw new Error(`Invalid run id: ${runId}`);
+  }
+  const path = join(proposalsDir, `${runId}${DECISIONS_SUFFIX}`);
+  const errors = await validateDecisions(decisions);
+  if (errors.length === 0) {
+    await writeTextFile(path, JSON.stringify(decisions, null, 2));
+  }
+  return { path, errors };
+}
+
+export async function readDecisionsFile(runId: string, proposalsDir = PROPOSALS_DIR): Promise<Decision[]> {
+  const raw = await readTextFile(join(proposalsDir, `${runId}${DECISIONS_SUFFIX}`));
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? (parsed as Decision[]) : [];
+  } catch (_error) {
+    return [];
+  }
+}
+
+export async function readProposal(runId: string, proposalsDir = PROPOSALS_DIR): Promise<Proposal | null> {
+  const raw = await readTextFile(join(proposalsDir, `${runId}.json`));
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Proposal;
+    return parsed && Array.isArray(parsed.facts) && parsed.meta ? parsed : null;
+  } catch (_error) {
+    return null;
+  }
+}
@@ -0,0 +1,246 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { emitKeypressEvents } from "node:readline";
+
+import type { Decision, Gate } from "lib/card/types.js";
+
+import { PROPOSALS_DIR } from "../constants.js";
+import {
+  applyReviewAction,
+  loadReviewSession,
+  lockDecision,
+  saveDecisions,
+  type ReviewItem
+} from "./session.js";
+
+export interface DiffLine {
+  kind: " " | "-" | "+";
+  text: string;
+}
+
+export interface TerminalReviewOptions {
+  runId: string;
+  proposalsDir?: string;
+  input?: NodeJS.ReadStream;
+  output?: NodeJS.WriteStream;
+  /** Opens `file` for editing and resolves once the editor exits; defaults to `$VISUAL`/`$EDITOR`. */
+  editFile?: (file: string) => Promise<void>;
+}
+
+const GATE_ORDER: Record<Gate, number> = { Require: 0, Warn: 1, OK: 2 };
+const KEY_HELP = "[a]ccept  [r]eject  [e]dit  [l]ock  [n]ext  [p]rev  [q]uit";
+
+const color = (code: number, text: string) => `\x1b[${code}m${text}\x1b[0m`;
+
+/** Require first, then Warn, then OK; least confident first within a gate. */
+export function orderForReview(items: ReviewItem[]): ReviewItem[] {
+  return [...items].sort(
+    (a, b) =>
+      GATE_ORDER[a.fact.gate] - GATE_ORDER[b.fact.gate] ||
+      a.fact.confidence - b.fact.confidence ||
+      a.fact.jsonPath.localeCompare(b.fact.jsonPath)
+  );
+}
+
+/** Line diff of the pretty-printed values, via a longest common subsequence table. */
+export function diffValues(current: unknown, proposed: unknown): DiffLine[] {
+  const before = formatValue(current).split("\n");
+  const after = formatValue(proposed).split("\n");
+  const table = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      table[i][j] = before[i] === after[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ kind: " ", text: before[i] });
+      i += 1;
+      j += 1;
+    } else if (i < before.length && (j === after.length || table[i + 1][j] >= table[i][j + 1])) {
+      lines.push({ kind: "-", text: before[i] });
+      i += 1;
+    } else {
+      lines.push({ kind: "+", text: after[j] });
+      j += 1;
+    }
+  }
+  return lines;
+}
+
+export function renderReviewItem(item: ReviewItem, position: number, total: number): string {
+  const { fact, decision } = item;
+  const out: string[] = [];
+  out.push(`${color(1, `[${position + 1}/${total}] ${fact.jsonPath}`)}  gate=${fact.gate}  confidence=${fact.confidence.toFixed(2)}`);
+  if (decision) {
+    out.push(color(36, `decided: ${decision.decision}${decision.lock ? " (locked)" : ""}`));
+  }
+  if (fact.verifierNotes) {
+    out.push(color(2, fact.verifierNotes));
+  }
+  out.push("");
+  for (const line of diffValues(fact.currentValue, fact.proposedValue)) {
+    const text = `${line.kind} ${line.text}`;
+    out.push(line.kind === "+" ? color(32, text) : line.kind === "-" ? color(31, text) : text);
+  }
+  for (const snippet of item.snippets) {
+    out.push("");
+    out.push(color(33, `${snippet.path}:${snippet.startLine}-${snippet.endLine} @ ${snippet.commit.slice(0, 12)} (${snippet.source})`));
+    for (const line of snippet.lines) {
+      const anchored = line.number >= snippet.startLine && line.number <= snippet.endLine;
+      out.push(`${anchored ? ">" : " "}${String(line.number).padStart(5)}  ${line.text}`);
+    }
+  }
+  return out.join("\n");
+}
+
+/**
+ * Walks a proposal's facts one keystroke at a time. Every decision is validated and written to
+ * `<runId>.decisions.json` immediately, and a rerun resumes at the first undecided fact.
+ */
+export async function runTerminalReview(options: TerminalReviewOptions): Promise<Decision[]> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const proposalsDir = options.proposalsDir ?? PROPOSALS_DIR;
+  const editFile = options.editFile ?? openInEditor;
+  if (!input.isTTY) {
+    throw new Error("workflow:decide needs an interactive terminal; use workflow:review or edit the decisions file instead");
+  }
+
+  const session = await loadReviewSession(options.runId, proposalsDir);
+  const items = orderForReview(session.items);
+  let decisions = session.decisions;
+  if (items.length === 0) {
+    output.write("Proposal has no facts to review.\n");
+    return decisions;
+  }
+  let index = Math.max(0, items.findIndex((item) => !item.decision));
+  let message = session.decisions.length > 0 ? `Resumed: ${items.filter((item) => item.decision).length} of ${items.length} already decided` : "";
+
+  const record = async (label: string, update: (current: Decision[], jsonPath: string) => Decision[]): Promise<boolean> => {
+    const item = items[index];
+    const next = update(decisions, item.fact.jsonPath);
+    const { path, errors } = await saveDecisions(options.runId, next, proposalsDir);
+    if (errors.length > 0) {
+      message = color(31, `Not saved: ${errors.join("; ")}`);
+      return false;
+    }
+    decisions = next;
+    item.decision = next.find((decision) => decision.jsonPath === item.fact.jsonPath) ?? null;
+    message = `Saved ${label} for ${item.fact.jsonPath} to ${path}`;
+    return true;
+  };
+
+  const draw = () => {
+    output.write("\x1b[2J\x1b[H");
+    output.write(`${renderReviewItem(items[index], index, items.length)}\n\n${color(2, KEY_HELP)}\n`);
+    if (message) {
+      output.write(`${message}\n`);
+    }
+  };
+
+  emitKeypressEvents(input);
+  input.setRawMode(true);
+  input.resume();
+  try {
+    draw();
+    for (;;) {
+      const key = await nextKey(input);
+      const item = items[index];
+      const keep = { lock: item.decision?.lock, skipGeneration: item.decision?.skipGeneration };
+      let advance = false;
+      message = "";
+      if (key === "q" || key === "\u0003") {
+        break;
+      } else if (key === "a") {
+        advance = await record("accept", (current, jsonPath) => applyReviewAction(current, jsonPath, { decision: "accept", ...keep }));
+      } else if (key === "r") {
+        advance = await record("reject", (current, jsonPath) => applyReviewAction(current, jsonPath, { decision: "reject", ...keep }));
+      } else if (key === "l") {
+        advance = await record("lock", lockDecision);
+      } else if (key === "e") {
+        // Hand the terminal to the editor while it runs
+        input.setRawMode(false);
+        input.pause();
+        const edited = await editValue(item, editFile).finally(() => {
+          input.setRawMode(true);
+          input.resume();
+        });
+        if (edited.ok) {
+          const editedValue = edited.value;
+          advance = await record("edit", (current, jsonPath) => applyReviewAction(current, jsonPath, { decision: "edit", editedValue, ...keep }));
+        } else {
+          message = color(31, edited.error);
+        }
+      } else if (key === "n" || key === "right" || key === "down") {
+        index = Math.min(items.length - 1, index + 1);
+      } else if (key === "p" || key === "left" || key === "up") {
+        index = Math.max(0, index - 1);
+      }
+      if (advance) {
+        if (index === items.length - 1) {
+          break;
+        }
+        index += 1;
+      }
+      draw();
+    }
+  } finally {
+    input.setRawMode(false);
+    input.pause();
+  }
+
+  const decided = items.filter((item) => item.decision).length;
+  output.write(`\n${decided} of ${items.length} facts decided for ${options.runId}.\n`);
+  return decisions;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value, null, 2);
+}
+
+function nextKey(input: NodeJS.ReadStream): Promise<string> {
+  return new Promise((resolve) => {
+    input.once("keypress", (sequence: string | undefined, key: { name?: string; ctrl?: boolean } | undefined) => {
+      resolve(key?.ctrl && key.name === "c" ? "\u0003" : (key?.name ?? sequence ?? ""));
+    });
+  });
+}
+
+async function editValue(item: ReviewItem, editFile: (file: string) => Promise<void>): Promise<{ ok: true; value: unknown } | { ok: false; error: string }> {
+  const dir = await mkdtemp(join(tmpdir(), "card-decide-"));
+  const file = join(dir, "value.json");
+  const start = item.decision?.decision === "edit" ? item.decision.editedValue : item.fact.proposedValue;
+  try {
+    await writeFile(file, `${formatValue(start ?? null)}\n`, "utf8");
+    try {
+      await editFile(file);
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    const raw = await readFile(file, "utf8");
+    try {
+      return { ok: true, value: JSON.parse(raw) };
+    } catch (error) {
+      return { ok: false, error: `Edited value is not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function openInEditor(file: string): Promise<void> {
+  const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+  return new Promise((resolve, reject) => {
+    // Run through the shell so EDITOR values with arguments ("code --wait") work
+    const child = spawn(`${editor} "${file}"`, { stdio: "inherit", shell: true });
+    child.once("error", reject);
+    child.once("exit", (code) => (code === 0 ? resolve() : reject(new Error(`Editor ${editor} exited with status ${code}`))));
+  });
+}
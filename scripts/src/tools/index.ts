@@ -1,12 +1,21 @@
 import { readFile } from "node:fs/promises";
-import { resolve, dirname, extname } from "node:path";
+import { resolve, dirname, extname, join } from "node:path";
 import { performance } from "node:perf_hooks";
 
 import fg from "fast-glob";
 import fsExtra from "fs-extra";
 import ts from "typescript";
 
+import { extractPythonImports, summarizePythonAst } from "../analysis/ast.js";
 import { logger } from "../utils/logger.js";
+import {
+  isSearchIndexEnabled,
+  resolveEmbeddingBackend,
+  searchWithIndex,
+  updateSearchIndex,
+  type EmbeddingBackend,
+  type SearchIndex
+} from "./search_index.js";
 
 import type {
   AstSummaryRequest,
@@ -27,6 +36,26 @@ const DEFAULT_EXCLUDES = [
 
 const MAX_CONTEXT_RADIUS = 2;
 
+// Refreshed at most once per process; later searches in the same run reuse it
+let searchIndexPromise: Promise<SearchIndex> | null = null;
+
+/** The refreshed search index, or null when it cannot be built; the next search tries again. */
+async function loadRefreshedSearchIndex(backend: EmbeddingBackend | null): Promise<SearchIndex | null> {
+  searchIndexPromise ??= updateSearchIndex({ backend }).then(({ index, stats }) => {
+    logger.info("Search index refreshed", { ...stats, embeddingModel: index.embeddingModel });
+    return index;
+  });
+  try {
+    return await searchIndexPromise;
+  } catch (error) {
+    searchIndexPromise = null;
+    logger.warn("Search index unavailable; falling back to substring search", {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
 export async function repoSearch(request: RepoSearchRequest): Promise<ToolTrace<RepoSearchResponse>> {
   const start = performance.now();
   const maxHits = request.maxHits ?? 25;
@@ -47,6 +76,26 @@ export async function repoSearch(request: RepoSearchRequest): Promise<ToolTrace<
     dot: false
   });
 
+  const backend = resolveEmbeddingBackend();
+  const index = isSearchIndexEnabled() ? await loadRefreshedSearchIndex(backend) : null;
+  if (index) {
+    const ranked = await searchWithIndex(index, request.query, { maxHits: maxHits + 1, backend, paths: new Set(entries) });
+    const response: RepoSearchResponse = {
+      hits: ranked.slice(0, maxHits),
+      truncated: ranked.length > maxHits,
+      ranking: index.embeddingModel && backend ? "hybrid" : "bm25"
+    };
+    return {
+      request,
+      response,
+      metrics: {
+        elapsedMs: performance.now() - start,
+        tokensPrompt: estimateTokens(JSON.stringify(request)),
+        tokensCompletion: estimateTokens(JSON.stringify(response))
+      }
+    };
+  }
+
   const hits: RepoSearchResponse["hits"] = [];
   const queryLower = request.query.toLowerCase();
 
@@ -85,7 +134,7 @@ export async function repoSearch(request: RepoSearchRequest): Promise<ToolTrace<
 
   const elapsedMs = performance.now() - start;
   const truncated = hits.length >= maxHits && entries.length > hits.length;
-  const response: RepoSearchResponse = { hits, truncated };
+  const response: RepoSearchResponse = { hits, truncated, ranking: "substring" };
 
   return {
     request,
@@ -105,6 +154,10 @@ export async function astSummary(request: AstSummaryRequest): Promise<ToolTrace<
   logger.debug("astSummary invoked", { file: request.file });
 
   const text = await readFile(absolutePath, "utf8");
+  if (extname(absolutePath) === ".py") {
+    return buildAstTrace(request, start, await summarizePythonAst(text));
+  }
+
   const sourceFile = ts.createSourceFile(
     absolutePath,
     text,
@@ -140,17 +193,20 @@ export async function astSummary(request: AstSummaryRequest): Promise<ToolTrace<
 
   visit(sourceFile);
 
-  const response: AstSummaryResponse = {
-    file: request.file,
-    nodes: nodes.sort((a, b) => a.startLine - b.startLine)
-  };
+  return buildAstTrace(request, start, nodes.sort((a, b) => a.startLine - b.startLine));
+}
 
-  const elapsedMs = performance.now() - start;
+function buildAstTrace(
+  request: AstSummaryRequest,
+  start: number,
+  nodes: AstSummaryResponse["nodes"]
+): ToolTrace<AstSummaryResponse> {
+  const response: AstSummaryResponse = { file: request.file, nodes };
   return {
     request,
     response,
     metrics: {
-      elapsedMs,
+      elapsedMs: performance.now() - start,
       tokensPrompt: estimateTokens(request.file),
       tokensCompletion: estimateTokens(JSON.stringify(response))
     }
@@ -220,6 +276,16 @@ async function findNeighbors(sourcePath: string): Promise<string[]> {
     const directory = dirname(sourcePath);
     const neighbors = new Set<string>();
 
+    if (extname(sourcePath) === ".py") {
+      for (const target of await extractPythonImports(text)) {
+        const resolved = resolvePythonModule(directory, target);
+        if (resolved) {
+          neighbors.add(resolved);
+        }
+      }
+      return Array.from(neighbors).sort((a, b) => a.localeCompare(b));
+    }
+
     const importRegex = /import\s+(?:[^"']+?from\s+)?["']([^"']+)["']/g;
     const requireRegex = /require\(\s*["']([^"']+)["']\s*\)/g;
 
@@ -270,6 +336,47 @@ function resolveRelativeModule(baseDir: string, target: string): string | null {
   return resolved;
 }
 
+/**
+ * Resolve a Python import to a repository file. Relative imports resolve against the
+ * importing package; absolute ones against the directory holding the top-level package
+ * (e.g. `libs/infinity_emb` for `infinity_emb.args`) and then the repository root.
+ * Unresolvable modules (stdlib, third-party) yield null.
+ */
+function resolvePythonModule(baseDir: string, target: string): string | null {
+  const relative = /^(\.+)(.*)$/.exec(target);
+  let roots: string[];
+  let modulePath: string;
+  if (relative) {
+    let root = baseDir || ".";
+    for (let level = 1; level < relative[1].length; level += 1) {
+      root = dirname(root);
+    }
+    roots = [root];
+    modulePath = relative[2];
+  } else {
+    roots = [findPythonSourceRoot(baseDir || "."), "."];
+    modulePath = target;
+  }
+
+  for (const root of roots) {
+    const base = join(root, ...modulePath.split(".").filter(Boolean));
+    for (const candidate of [`${base}.py`, join(base, "__init__.py")]) {
+      if (fsExtra.existsSync(resolve(process.cwd(), candidate))) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+function findPythonSourceRoot(directory: string): string {
+  let current = directory;
+  while (current !== "." && fsExtra.existsSync(resolve(process.cwd(), current, "__init__.py"))) {
+    current = dirname(current);
+  }
+  return current;
+}
+
 function estimateTokens(payload: string | number | boolean | null | undefined): number {
   if (!payload) {
     return 0;
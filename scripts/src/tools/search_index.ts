@@ -0,0 +1,382 @@
+import { createHash } from "node:crypto";
+import { readFile, stat, writeFile } from "node:fs/promises";
+import { dirname, extname } from "node:path";
+
+import fg from "fast-glob";
+import fsExtra from "fs-extra";
+
+import {
+  ANALYSIS_DIR,
+  ANCHORS_PATH,
+  CARD_PATH,
+  MICRO_RECEIPTS_DIR,
+  PROPOSALS_DIR,
+  SEARCH_ENV_VARIABLES,
+  SEARCH_INDEX_PATH
+} from "../constants.js";
+import { isMscInfrastructure, isPathDenied } from "../safety/redaction.js";
+import { readJsonFile } from "../utils/fs.js";
+import { logger } from "../utils/logger.js";
+import type { RepoSearchHit } from "./types.js";
+
+export interface SearchIndexChunk {
+  startLine: number;
+  endLine: number;
+  /** Token count, for BM25 length normalisation. */
+  length: number;
+  terms: Record<string, number>;
+  embedding?: number[];
+}
+
+export interface SearchIndexFile {
+  contentSha: string;
+  chunks: SearchIndexChunk[];
+}
+
+export interface SearchIndex {
+  version: number;
+  /** Model the stored embeddings came from; they are recomputed when it changes. */
+  embeddingModel: string | null;
+  files: Record<string, SearchIndexFile>;
+}
+
+export interface EmbeddingBackend {
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface SearchIndexUpdateStats {
+  files: number;
+  reused: number;
+  rebuilt: number;
+  removed: number;
+  embedded: number;
+}
+
+export interface RankedSearchOptions {
+  maxHits: number;
+  backend?: EmbeddingBackend | null;
+  /** Restrict hits to these repository-relative paths. */
+  paths?: Set<string>;
+}
+
+const INDEX_VERSION = 1;
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 10;
+const MAX_FILE_BYTES = 256 * 1024;
+const EMBEDDING_BATCH = 32;
+const EMBEDDING_TEXT_CHARS = 2000;
+const CONTEXT_RADIUS = 2;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Share of the hybrid score given to embedding similarity; BM25 is normalised to the best hit
+const EMBEDDING_WEIGHT = 0.5;
+
+const TEXT_EXTENSIONS = new Set([
+  ".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".go", ".rs", ".java", ".kt", ".rb", ".sh",
+  ".md", ".mdx", ".rst", ".txt", ".yaml", ".yml", ".toml", ".cfg", ".ini", ".json", ".ipynb"
+]);
+// The card and its run artifacts are outputs; searching them would feed the card back into itself
+const INDEX_EXCLUDES = [
+  "**/node_modules/**", "**/.git/**", "**/dist/**", "**/.next/**", "**/coverage/**", "**/.turbo/**", "**/.venv/**", "**/venv/**",
+  CARD_PATH, ANCHORS_PATH, `${ANALYSIS_DIR}/**`, `${PROPOSALS_DIR}/**`, `${MICRO_RECEIPTS_DIR}/**`
+];
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "in", "is", "it", "of",
+  "on", "or", "the", "this", "that", "to", "what", "when", "where", "which", "who", "why", "with"
+]);
+const SUFFIXES = ["ations", "ation", "ings", "ing", "ers", "ed", "es", "er", "e", "s"];
+
+export function isSearchIndexEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  const value = env[SEARCH_ENV_VARIABLES.index];
+  return value === "1" || value?.toLowerCase() === "true";
+}
+
+export function resolveEmbeddingBackend(env: NodeJS.ProcessEnv = process.env): EmbeddingBackend | null {
+  const url = env[SEARCH_ENV_VARIABLES.embeddingsUrl];
+  const model = env[SEARCH_ENV_VARIABLES.embeddingsModel];
+  if (!url || !model) {
+    return null;
+  }
+  return createOpenAiEmbeddingBackend(url, model, env[SEARCH_ENV_VARIABLES.embeddingsApiKey] ?? null);
+}
+
+/** POSTs to `<baseUrl>/embeddings` in the OpenAI request/response shape, which Infinity also serves. */
+export function createOpenAiEmbeddingBackend(baseUrl: string, model: string, apiKey: string | null): EmbeddingBackend {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+  return {
+    model,
+    async embed(texts: string[]): Promise<number[][]> {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+        body: JSON.stringify({ model, input: texts })
+      });
+      if (!response.ok) {
+        throw new Error(`Embeddings request failed with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+      const body = (await response.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+      const data = [...(body.data ?? [])].sort((a, b) => a.index - b.index);
+      if (data.length !== texts.length) {
+        throw new Error(`Embeddings response returned ${data.length} vectors for ${texts.length} inputs`);
+      }
+      return data.map((entry) => entry.embedding);
+    }
+  };
+}
+
+export async function loadSearchIndex(indexPath: string = SEARCH_INDEX_PATH): Promise<SearchIndex> {
+  const index = await readJsonFile<SearchIndex>(indexPath);
+  if (!index || index.version !== INDEX_VERSION) {
+    return { version: INDEX_VERSION, embeddingModel: null, files: {} };
+  }
+  return index;
+}
+
+/**
+ * Brings the index in line with the working tree: files whose contentSha is unchanged keep
+ * their chunks (and embeddings, when the model matches), changed files are re-chunked and
+ * deleted files dropped. An unreachable embedding backend leaves the index BM25-only.
+ */
+export async function updateSearchIndex(
+  options: { indexPath?: string; backend?: EmbeddingBackend | null } = {}
+): Promise<{ index: SearchIndex; stats: SearchIndexUpdateStats }> {
+  const indexPath = options.indexPath ?? SEARCH_INDEX_PATH;
+  const backend = options.backend ?? null;
+  const previous = await loadSearchIndex(indexPath);
+  const keepEmbeddings = backend !== null && previous.embeddingModel === backend.model;
+  const index: SearchIndex = { version: INDEX_VERSION, embeddingModel: backend?.model ?? null, files: {} };
+  const stats: SearchIndexUpdateStats = { files: 0, reused: 0, rebuilt: 0, removed: 0, embedded: 0 };
+  const texts = new Map<SearchIndexChunk, string>();
+
+  const entries = await fg(["**/*"], { cwd: process.cwd(), ignore: [...INDEX_EXCLUDES, indexPath], onlyFiles: true, dot: false });
+  for (const path of entries.sort()) {
+    if (!TEXT_EXTENSIONS.has(extname(path).toLowerCase()) || isPathDenied(path) || isMscInfrastructure(path)) {
+      continue;
+    }
+    try {
+      if ((await stat(path)).size > MAX_FILE_BYTES) {
+        continue;
+      }
+      const content = await readFile(path, "utf8");
+      const contentSha = createHash("sha256").update(content).digest("hex");
+      const cached = previous.files[path];
+      let file: SearchIndexFile;
+      if (cached?.contentSha === contentSha) {
+        file = { contentSha, chunks: cached.chunks.map((chunk) => (keepEmbeddings ? chunk : withoutEmbedding(chunk))) };
+        stats.reused += 1;
+      } else {
+        file = { contentSha, chunks: chunkContent(path, content) };
+        stats.rebuilt += 1;
+      }
+      if (backend) {
+        const lines = content.split(/\r?\n/);
+        for (const chunk of file.chunks.filter((entry) => !entry.embedding)) {
+          texts.set(chunk, `${path}\n${lines.slice(chunk.startLine - 1, chunk.endLine).join("\n")}`.slice(0, EMBEDDING_TEXT_CHARS));
+        }
+      }
+      index.files[path] = file;
+    } catch (error) {
+      logger.warn("Search index skipped unreadable file", { path, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  stats.files = Object.keys(index.files).length;
+  stats.removed = Object.keys(previous.files).filter((path) => !index.files[path]).length;
+
+  if (backend && texts.size > 0) {
+    stats.embedded = await embedChunks(backend, texts);
+    if (stats.embedded < texts.size) {
+      // A partially embedded index would rank chunks inconsistently; fall back to BM25 everywhere
+      Object.values(index.files).forEach((file) => {
+        file.chunks = file.chunks.map(withoutEmbedding);
+      });
+      index.embeddingModel = null;
+    }
+  }
+
+  await fsExtra.ensureDir(dirname(indexPath));
+  // Compact on purpose: embeddings make the pretty-printed form several times larger
+  await writeFile(indexPath, JSON.stringify(index), "utf8");
+  return { index, stats };
+}
+
+/** Ranks chunks by BM25 over the query terms, blended with embedding similarity when both sides have vectors. */
+export async function searchWithIndex(index: SearchIndex, query: string, options: RankedSearchOptions): Promise<RepoSearchHit[]> {
+  const queryTerms = [...new Set(tokenize(query))];
+  const candidates = Object.entries(index.files)
+    .filter(([path]) => !options.paths || options.paths.has(path))
+    .flatMap(([path, file]) => file.chunks.map((chunk) => ({ path, contentSha: file.contentSha, chunk })));
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const averageLength = candidates.reduce((sum, entry) => sum + entry.chunk.length, 0) / candidates.length || 1;
+  const idf = new Map(
+    queryTerms.map((term) => {
+      const df = candidates.filter((entry) => entry.chunk.terms[term]).length;
+      return [term, Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5))];
+    })
+  );
+  const bm25 = candidates.map(({ chunk }) =>
+    queryTerms.reduce((sum, term) => {
+      const tf = chunk.terms[term] ?? 0;
+      if (tf === 0) {
+        return sum;
+      }
+      const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / averageLength);
+      return sum + (idf.get(term) ?? 0) * ((tf * (BM25_K1 + 1)) / norm);
+    }, 0)
+  );
+
+  let queryEmbedding: number[] | null = null;
+  if (options.backend && index.embeddingModel === options.backend.model) {
+    try {
+      [queryEmbedding] = await options.backend.embed([query]);
+    } catch (error) {
+      logger.warn("Query embedding failed; ranking with BM25 only", { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const maxBm25 = Math.max(...bm25, 0);
+  const scored = candidates
+    .map((entry, position) => {
+      const lexical = maxBm25 > 0 ? bm25[position] / maxBm25 : 0;
+      const score =
+        queryEmbedding && entry.chunk.embedding
+          ? (1 - EMBEDDING_WEIGHT) * lexical + EMBEDDING_WEIGHT * cosine(queryEmbedding, entry.chunk.embedding)
+          : bm25[position];
+      return { ...entry, score };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path) || a.chunk.startLine - b.chunk.startLine);
+
+  const hits: RepoSearchHit[] = [];
+  const seen = new Set<string>();
+  for (const entry of scored) {
+    if (hits.length >= options.maxHits) {
+      break;
+    }
+    const hit = await buildHit(entry.path, entry.contentSha, entry.chunk, queryTerms, entry.score);
+    if (hit && !seen.has(`${hit.file}:${hit.line}`)) {
+      seen.add(`${hit.file}:${hit.line}`);
+      hits.push(hit);
+    }
+  }
+  return hits;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+// Crude suffix stripping so "batching"/"batches" and "configured"/"configuration" meet
+function stem(token: string): string {
+  const suffix = SUFFIXES.find((entry) => token.endsWith(entry) && token.length - entry.length >= 4);
+  return suffix ? token.slice(0, -suffix.length) : token;
+}
+
+// Every chunk also carries its path's tokens, so batch_handler.py matches "batching" throughout
+function chunkContent(path: string, content: string): SearchIndexChunk[] {
+  const lines = content.split(/\r?\n/);
+  const pathTokens = tokenize(path.replace(/\.[^./]+$/, ""));
+  const chunks: SearchIndexChunk[] = [];
+  for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+    const end = Math.min(lines.length, start + CHUNK_LINES);
+    const tokens = [...pathTokens, ...tokenize(lines.slice(start, end).join("\n"))];
+    if (tokens.length > 0) {
+      const terms: Record<string, number> = {};
+      tokens.forEach((token) => {
+        terms[token] = (terms[token] ?? 0) + 1;
+      });
+      chunks.push({ startLine: start + 1, endLine: end, length: tokens.length, terms });
+    }
+    if (end === lines.length) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+async function embedChunks(backend: EmbeddingBackend, texts: Map<SearchIndexChunk, string>): Promise<number> {
+  const pending = [...texts.entries()];
+  let embedded = 0;
+  for (let offset = 0; offset < pending.length; offset += EMBEDDING_BATCH) {
+    const batch = pending.slice(offset, offset + EMBEDDING_BATCH);
+    try {
+      const vectors = await backend.embed(batch.map(([, text]) => text));
+      batch.forEach(([chunk], position) => {
+        chunk.embedding = vectors[position].map((value) => Math.round(value * 1e4) / 1e4);
+      });
+      embedded += batch.length;
+    } catch (error) {
+      logger.warn("Embedding backend unavailable; search index stays BM25-only", {
+        model: backend.model,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      break;
+    }
+  }
+  return embedded;
+}
+
+// The hit line is the one in the chunk sharing the most terms with the query. A file edited
+// since indexing is skipped: its lines no longer match the chunk that ranked.
+async function buildHit(
+  path: string,
+  contentSha: string,
+  chunk: SearchIndexChunk,
+  queryTerms: string[],
+  score: number
+): Promise<RepoSearchHit | null> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch {
+    return null;
+  }
+  if (createHash("sha256").update(content).digest("hex") !== contentSha) {
+    logger.debug("Search index is stale for file; skipping hit", { path });
+    return null;
+  }
+  const lines = content.split(/\r?\n/);
+  let best = chunk.startLine - 1;
+  let bestOverlap = -1;
+  for (let index = chunk.startLine - 1; index < Math.min(chunk.endLine, lines.length); index += 1) {
+    const terms = new Set(tokenize(lines[index]));
+    const overlap = queryTerms.filter((term) => terms.has(term)).length;
+    if (overlap > bestOverlap) {
+      best = index;
+      bestOverlap = overlap;
+    }
+  }
+  return {
+    file: path,
+    line: best + 1,
+    text: (lines[best] ?? "").trim(),
+    context: lines.slice(Math.max(0, best - CONTEXT_RADIUS), Math.min(lines.length, best + CONTEXT_RADIUS + 1)).map((entry) => entry.trim()),
+    score: Math.round(score * 1e4) / 1e4
+  };
+}
+
+function withoutEmbedding(chunk: SearchIndexChunk): SearchIndexChunk {
+  const { embedding: _embedding, ...rest } = chunk;
+  return rest;
+}
+
+function cosine(left: number[], right: number[]): number {
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+  for (let index = 0; index < Math.min(left.length, right.length); index += 1) {
+    dot += left[index] * right[index];
+    leftNorm += left[index] * left[index];
+    rightNorm += right[index] * right[index];
+  }
+  return leftNorm > 0 && rightNorm > 0 ? dot / Math.sqrt(leftNorm * rightNorm) : 0;
+}
@@ -10,11 +10,15 @@ export interface RepoSearchHit {
   line: number;
   text: string;
   context?: string[];
+  /** Relevance score; only set when hits come from the search index. */
+  score?: number;
 }
 
 export interface RepoSearchResponse {
   hits: RepoSearchHit[];
   truncated: boolean;
+  /** How hits were found: substring scan, or ranked from the index by BM25 alone or blended with embeddings. */
+  ranking?: "substring" | "bm25" | "hybrid";
 }
 
 export interface AstSummaryRequest {
@@ -69,3 +69,87 @@ export async function readFileAtCommit(path: string, commit: string): Promise<st
     throw error;
   }
 }
+
+export interface GitLogCommit {
+  sha: string;
+  parents: string[];
+  author: string;
+  email: string;
+  /** Author date, ISO 8601. */
+  date: string;
+  subject: string;
+  body: string;
+  files: string[];
+}
+
+const LOG_RECORD = "\x1e";
+const LOG_FIELD = "\x1f";
+const LOG_FILES = "\x1d";
+
+/**
+ * Commits in `range` (e.g. "abc123..HEAD"; null for all of HEAD's history), newest first,
+ * with the files each one touched. Merge commits list no files. Author names honour .mailmap.
+ */
+export async function logCommits(
+  range: string | null,
+  options: { cwd?: string; maxCount?: number; noMerges?: boolean } = {}
+): Promise<GitLogCommit[]> {
+  const format = [`${LOG_RECORD}%H`, "%P", "%aN", "%aE", "%aI", "%s", `%b${LOG_FILES}`].join(LOG_FIELD);
+  const args = ["log", `--format=${format}`, "--name-only", "--no-renames"];
+  if (options.maxCount) {
+    args.push("-n", String(options.maxCount));
+  }
+  if (options.noMerges) {
+    args.push("--no-merges");
+  }
+  args.push(range ?? "HEAD", "--");
+  const { stdout } = await exec("git", args, { cwd: options.cwd });
+  return stdout
+    .split(LOG_RECORD)
+    .filter((record) => record.trim().length > 0)
+    .map((record) => {
+      const [header, fileList = ""] = record.split(LOG_FILES);
+      const [sha, parents, author, email, date, subject, body] = header.split(LOG_FIELD);
+      return {
+        sha,
+        parents: parents ? parents.split(" ") : [],
+        author,
+        email,
+        date,
+        subject,
+        body: body.trim(),
+        files: fileList.split("\n").map((line) => line.trim()).filter(Boolean)
+      };
+    });
+}
+
+/** Commits reachable from `head` but not from `base`, e.g. the commits a PR merge brought in. */
+export async function revList(base: string, head: string, options: { cwd?: string } = {}): Promise<string[]> {
+  const { stdout } = await exec("git", ["rev-list", `${base}..${head}`], { cwd: options.cwd });
+  return stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export async function commitExists(sha: string, options: { cwd?: string } = {}): Promise<boolean> {
+  try {
+    await exec("git", ["cat-file", "-e", `${sha}^{commit}`], { cwd: options.cwd });
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+export async function rootCommits(options: { cwd?: string } = {}): Promise<string[]> {
+  const { stdout } = await exec("git", ["rev-list", "--max-parents=0", "HEAD"], { cwd: options.cwd });
+  return stdout
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export async function isShallowRepository(options: { cwd?: string } = {}): Promise<boolean> {
+  const { stdout } = await exec("git", ["rev-parse", "--is-shallow-repository"], { cwd: options.cwd });
+  return stdout.trim() === "true";
+}
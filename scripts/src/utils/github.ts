@@ -2,7 +2,7 @@ import { logger } from "./logger.js";
 
 type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
 
-const API_BASE = "https://api.github.com";
+const DEFAULT_API_BASE = "https://api.github.com";
 const USER_AGENT = "ml-system-card-scripts";
 
 interface RepoContext {
@@ -40,7 +40,9 @@ async function githubRequest<T>(
   options: { query?: Record<string, string | number | undefined>; body?: Record<string, unknown> } = {}
 ): Promise<T> {
   const context = resolveRepoContext();
-  const url = new URL(`${API_BASE}${path}`);
+  // Actions sets GITHUB_API_URL (it differs on GitHub Enterprise); tests point it at a local stub
+  const apiBase = (process.env.GITHUB_API_URL || DEFAULT_API_BASE).replace(/\/+$/, "");
+  const url = new URL(`${apiBase}${path}`);
   if (options.query) {
     for (const [key, value] of Object.entries(options.query)) {
       if (typeof value === "undefined") continue;
@@ -73,7 +75,7 @@ async function githubRequest<T>(
 
 type Label = { name?: string | null };
 
-type MinimalPullRequest = {
+export type MinimalPullRequest = {
   number: number;
   head: { ref: string };
   base: { ref: string };
@@ -153,6 +155,34 @@ export async function createIssueComment(number: number, body: string): Promise<
   });
 }
 
+export type IssueComment = {
+  id: number;
+  body?: string | null;
+  user?: { login: string; type?: string } | null;
+  created_at: string;
+  html_url?: string;
+};
+
+/** All conversation comments on an issue or pull request, oldest first. */
+export async function listIssueComments(number: number): Promise<IssueComment[]> {
+  const context = resolveRepoContext();
+  const comments: IssueComment[] = [];
+  for (let page = 1; ; page += 1) {
+    const batch = await githubRequest<IssueComment[]>("GET", `/repos/${context.owner}/${context.repo}/issues/${number}/comments`, {
+      query: { per_page: 100, page }
+    });
+    comments.push(...batch);
+    if (batch.length < 100) {
+      return comments;
+    }
+  }
+}
+
+export async function getPullRequest(number: number): Promise<MinimalPullRequest> {
+  const context = resolveRepoContext();
+  return githubRequest<MinimalPullRequest>("GET", `/repos/${context.owner}/${context.repo}/pulls/${number}`);
+}
+
 export async function getPullRequestLabels(number: number): Promise<string[]> {
   const context = resolveRepoContext();
   const pr = await githubRequest<MinimalPullRequest>("GET", `/repos/${context.owner}/${context.repo}/pulls/${number}`);
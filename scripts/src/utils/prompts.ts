@@ -1,4 +1,4 @@
-import { readFile } from "node:fs/promises";
+import { readdir, readFile } from "node:fs/promises";
 
 import { load } from "js-yaml";
 
@@ -10,6 +10,8 @@ export interface PromptTemplate {
 
 const PROMPTS_DIR = new URL("../../prompts/", import.meta.url);
 
+export const DEFAULT_PROMPT_VERSION = "v1";
+
 export async function loadPromptTemplate(relativePath: string): Promise<PromptTemplate> {
   const url = new URL(relativePath, PROMPTS_DIR);
   const raw = await readFile(url, "utf8");
@@ -30,3 +32,23 @@ export async function readAllPromptTemplates(): Promise<PromptTemplate[]> {
     loadPromptTemplate("notes.v1.md")
   ]);
 }
+
+/** Versions available for a pass, from `prompts/<pass>.v<N>.md`, in numeric order. */
+export async function listPromptVersions(pass: string): Promise<string[]> {
+  const pattern = new RegExp(`^${pass}\\.(v\\d+)\\.md$`);
+  const files = await readdir(PROMPTS_DIR);
+  return files
+    .map((file) => pattern.exec(file)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+}
+
+/** Load the prompt registered for `pass` at `version` (v1 unless configured otherwise). */
+export async function loadPassPrompt(pass: string, version?: string): Promise<PromptTemplate> {
+  const resolved = version ?? DEFAULT_PROMPT_VERSION;
+  const available = await listPromptVersions(pass);
+  if (!available.includes(resolved)) {
+    throw new Error(`No ${resolved} prompt for ${pass}; available: ${available.join(", ") || "none"}`);
+  }
+  return loadPromptTemplate(`${pass}.${resolved}.md`);
+}
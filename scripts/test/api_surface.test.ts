@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+
+import { parseOpenApiSpec, scanFastApiSource } from "../src/analysis/api_surface.js";
+import type { RepositoryInsights } from "../src/analysis/repository.js";
+import { createEmptyStaticSignals, type RepositoryStaticSignals } from "../src/analysis/signals.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import { runDeterministicPipeline } from "../src/pipeline/deterministic.js";
+
+const SPEC = [
+  "openapi: 3.0.3",
+  "info:",
+  "  title: Embeddings",
+  "  version: 1.2.0",
+  "paths:",
+  "  /embeddings:",
+  "    post:",
+  "      operationId: embed",
+  "      requestBody:",
+  "        content:",
+  "          application/json:",
+  "            schema:",
+  "              $ref: '#/components/schemas/EmbeddingInput'",
+  "      responses:",
+  "        '200':",
+  "          description: OK",
+  "          content:",
+  "            application/json:",
+  "              schema:",
+  "                $ref: '#/components/schemas/EmbeddingResult'",
+  "        '429':",
+  "          description: Too many requests",
+  "components:",
+  "  securitySchemes:",
+  "    oauth:",
+  "      type: oauth2",
+  "      flows:",
+  "        clientCredentials:",
+  "          tokenUrl: https://auth.example/token",
+  "          scopes:",
+  "            embed:write: Create embeddings",
+  ""
+].join("\n");
+
+const ROUTER_SOURCE = [
+  "from fastapi import APIRouter, HTTPException, status",
+  "",
+  "router = APIRouter(prefix=\"/v1\")",
+  "",
+  "@router.post(\"/rerank\", response_model=RerankResult)",
+  "async def rerank(request: Request, body: RerankInput):",
+  "    if not body.query:",
+  "        raise HTTPException(status_code=status.HTTP_400_BAD_REQUEST)",
+  "    return run(body)",
+  ""
+].join("\n");
+
+describe("parseOpenApiSpec", () => {
+  it("extracts routes, schemas, error responses and auth schemes with line anchors", () => {
+    const surface = parseOpenApiSpec("api/openapi.yaml", SPEC);
+
+    expect(surface.routes).toEqual([
+      {
+        method: "POST",
+        path: "/embeddings",
+        name: "embed",
+        signature: "(EmbeddingInput) -> EmbeddingResult",
+        requestSchema: "EmbeddingInput",
+        responseSchema: "EmbeddingResult",
+        anchor: { path: "api/openapi.yaml", startLine: 7, endLine: 22, kind: "openapi" }
+      }
+    ]);
+    expect(surface.errors).toEqual([
+      {
+        code: "TOO_MANY_REQUESTS",
+        httpStatus: 429,
+        retryable: true,
+        description: "Too many requests",
+        anchor: { path: "api/openapi.yaml", startLine: 21, endLine: 21, kind: "openapi" }
+      }
+    ]);
+    expect(surface.authSchemes).toEqual([
+      { name: "oauth", auth: "oauth2", scopes: ["embed:write"], anchor: { path: "api/openapi.yaml", startLine: 25, endLine: 25, kind: "openapi" } }
+    ]);
+    expect(surface.version?.value).toBe("1.2.0");
+    expect(surface.version?.anchor.startLine).toBe(4);
+  });
+});
+
+describe("scanFastApiSource", () => {
+  it("applies APIRouter prefixes and picks up payload types and HTTPException statuses", async () => {
+    const surface = await scanFastApiSource("app/routes.py", ROUTER_SOURCE);
+
+    expect(surface.routes).toEqual([
+      {
+        method: "POST",
+        path: "/v1/rerank",
+        name: "rerank",
+        signature: "async rerank(request: Request, body: RerankInput)",
+        requestSchema: "RerankInput",
+        responseSchema: "RerankResult",
+        anchor: { path: "app/routes.py", startLine: 5, endLine: 9, kind: "code" }
+      }
+    ]);
+    expect(surface.errors.map((error) => [error.code, error.httpStatus, error.anchor.startLine])).toEqual([
+      ["BAD_REQUEST", 400, 8]
+    ]);
+  });
+});
+
+describe("deterministic API facts", () => {
+  const insights = {
+    runId: "run-1",
+    headSha: "abc123",
+    languages: [],
+    entrypoints: [],
+    components: [],
+    dependencyHighlights: [],
+    testsPresent: false,
+    coverageHint: null,
+    nonGoals: [],
+    outOfScopeUse: [],
+    userPopulations: [],
+    dataFlow: [],
+    governancePolicies: [],
+    repositoryUrl: null,
+    anchorMap: {}
+  } as unknown as RepositoryInsights;
+
+  it("emits anchored extracted facts for the route list and error model", () => {
+    const surface = parseOpenApiSpec("api/openapi.yaml", SPEC);
+    const staticSignals: RepositoryStaticSignals = { ...createEmptyStaticSignals(), api: surface };
+
+    const { facts, mutatedCard } = runDeterministicPipeline({
+      baselineCard: createEmptyCard(),
+      changedFiles: [],
+      insights,
+      staticSignals
+    });
+
+    const byPath = new Map(facts.map((fact) => [fact.jsonPath, fact]));
+    expect(byPath.get("$.devInsight.architecture.publicApis")?.proposedValue).toEqual([
+      {
+        name: "embed",
+        path: "/embeddings",
+        method: "POST",
+        signature: "(EmbeddingInput) -> EmbeddingResult",
+        file: "api/openapi.yaml"
+      }
+    ]);
+    expect(byPath.get("$.integration.errorModel")?.source.kind).toBe("extracted");
+    expect(byPath.get("$.integration.errorModel")?.repoSources[0]).toMatchObject({ startLine: 21, commit: "abc123" });
+    expect(mutatedCard.integration.api).toEqual({ inputSchema: "EmbeddingInput", outputSchema: "EmbeddingResult", version: "1.2.0" });
+    expect(mutatedCard.integration.security).toEqual({ auth: "oauth2", scopes: ["embed:write"] });
+  });
+
+  it("keeps curated fields on matching entries and drops stale ones", () => {
+    const baselineCard = createEmptyCard();
+    baselineCard.devInsight.architecture.publicApis = [
+      { name: "legacy", path: "/v0/embed", method: "POST", file: "api/openapi.yaml" },
+      { name: "embed", path: "/embeddings", method: "POST", owner: "platform" }
+    ];
+    baselineCard.integration.errorModel = [
+      { code: "GONE", httpStatus: 410, retryable: false },
+      { code: "RATE_LIMITED", httpStatus: 429, retryable: true, remediation: "Back off and retry" }
+    ];
+
+    const { facts } = runDeterministicPipeline({
+      baselineCard,
+      changedFiles: [],
+      insights,
+      staticSignals: { ...createEmptyStaticSignals(), api: parseOpenApiSpec("api/openapi.yaml", SPEC) }
+    });
+
+    const byPath = new Map(facts.map((fact) => [fact.jsonPath, fact]));
+    expect(byPath.get("$.devInsight.architecture.publicApis")?.proposedValue).toEqual([
+      expect.objectContaining({ name: "embed", path: "/embeddings", owner: "platform" })
+    ]);
+    expect(byPath.get("$.devInsight.architecture.publicApis")?.currentValue).toEqual(baselineCard.devInsight.architecture.publicApis);
+    expect(byPath.get("$.integration.errorModel")?.proposedValue).toEqual([
+      expect.objectContaining({ code: "TOO_MANY_REQUESTS", httpStatus: 429, remediation: "Back off and retry" })
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { parseBenchmarkOutput } from "../src/analysis/benchmarks.js";
+import type { RepositoryInsights } from "../src/analysis/repository.js";
+import { createEmptyStaticSignals } from "../src/analysis/signals.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import { runDeterministicPipeline } from "../src/pipeline/deterministic.js";
+
+const PYTEST_BENCHMARK = JSON.stringify(
+  {
+    machine_info: { machine: "x86_64", cpu: { brand_raw: "AMD EPYC 7B13" } },
+    benchmarks: [{ name: "test_embed_batch", stats: { min: 0.01, median: 0.0125, mean: 0.013, ops: 76.9 } }]
+  },
+  null,
+  4
+);
+
+const LOCUST_STATS = [
+  "Type,Name,Request Count,Failure Count,Median Response Time,Average Response Time,Min Response Time,Max Response Time,Average Content Size,Requests/s,Failures/s,50%,66%,75%,80%,90%,95%,98%,99%,99.9%,99.99%,100%",
+  "POST,/embeddings,1200,0,41,45.2,12,310,2048,39.8,0,41,48,52,55,63,78,95,120,290,310,310",
+  ",Aggregated,1200,0,41,45.2,12,310,2048,39.8,0,42,48,52,55,63,80,95,120,290,310,310"
+].join("\n");
+
+const K6_CSV = [
+  "metric_name,timestamp,metric_value,check,error,error_code,group,method,name,proto,scenario,status,url",
+  "http_reqs,1700000000,1,,,,,POST,/embeddings,HTTP/1.1,default,200,http://localhost/embeddings",
+  "http_req_duration,1700000000,10,,,,,POST,/embeddings,HTTP/1.1,default,200,http://localhost/embeddings",
+  "http_reqs,1700000001,1,,,,,POST,/embeddings,HTTP/1.1,default,200,http://localhost/embeddings",
+  "http_req_duration,1700000001,20,,,,,POST,/embeddings,HTTP/1.1,default,200,http://localhost/embeddings",
+  "http_reqs,1700000002,1,,,,,POST,/embeddings,HTTP/1.1,default,200,http://localhost/embeddings",
+  "http_req_duration,1700000002,30,,,,,POST,/embeddings,HTTP/1.1,default,200,http://localhost/embeddings"
+].join("\n");
+
+const MARKDOWN = [
+  "# Benchmarks",
+  "",
+  "Hardware: NVIDIA A10G, 24 GB",
+  "",
+  "| Model | Batch | p50 (ms) | p95 | Throughput (emb/s) |",
+  "|-------|------:|---------:|----:|-------------------:|",
+  "| bge-small | 32 | 8.1 | 0.012 s | 3,950 |",
+  ""
+].join("\n");
+
+describe("parseBenchmarkOutput", () => {
+  it("converts pytest-benchmark seconds to milliseconds and records the machine", () => {
+    const report = parseBenchmarkOutput("bench/results.json", PYTEST_BENCHMARK);
+    expect(report).toMatchObject({ tool: "pytest-benchmark", hardware: "AMD EPYC 7B13, x86_64" });
+    expect(report?.hardwareAnchor?.startLine).toBe(2);
+    expect(report?.measurements.map((entry) => [entry.statistic, entry.metric, entry.value, entry.unit])).toEqual([
+      ["p50", "latency", 12.5, "ms"],
+      ["mean", "latency", 13, "ms"],
+      ["mean", "throughput", 76.9, "ops/s"]
+    ]);
+    expect(parseBenchmarkOutput("bench/config.json", JSON.stringify({ rounds: 5 }))).toBeNull();
+  });
+
+  it("reads locust percentiles with the aggregated row first and computes k6 percentiles from samples", () => {
+    const locust = parseBenchmarkOutput("bench/run_stats.csv", LOCUST_STATS);
+    expect(locust?.measurements.slice(0, 4).map((entry) => [entry.name, entry.statistic, entry.value, entry.anchor.startLine])).toEqual([
+      ["Aggregated", "p50", 42, 3],
+      ["Aggregated", "p95", 80, 3],
+      ["Aggregated", "p99", 120, 3],
+      ["Aggregated", "mean", 39.8, 3]
+    ]);
+
+    const k6 = parseBenchmarkOutput("bench/k6.csv", K6_CSV);
+    expect(k6?.measurements).toEqual([
+      { name: "http_req_duration", metric: "latency", statistic: "p50", value: 20, unit: "ms", anchor: { path: "bench/k6.csv", startLine: 3, endLine: 7, kind: "metrics" } },
+      { name: "http_req_duration", metric: "latency", statistic: "p95", value: 30, unit: "ms", anchor: { path: "bench/k6.csv", startLine: 3, endLine: 7, kind: "metrics" } },
+      { name: "http_reqs", metric: "throughput", statistic: "mean", value: 1.5, unit: "req/s", anchor: { path: "bench/k6.csv", startLine: 3, endLine: 7, kind: "metrics" } }
+    ]);
+  });
+
+  it("reads markdown tables with units from the header or the cell", () => {
+    const report = parseBenchmarkOutput("docs/benchmarks/results.md", MARKDOWN);
+    expect(report).toMatchObject({ tool: "markdown", hardware: "NVIDIA A10G, 24 GB", hardwareAnchor: { startLine: 3 } });
+    expect(report?.measurements.map((entry) => [entry.name, entry.statistic, entry.value, entry.unit, entry.anchor.startLine])).toEqual([
+      ["bge-small", "p50", 8.1, "ms", 7],
+      ["bge-small", "p95", 12, "ms", 7],
+      ["bge-small", "mean", 3950, "emb/s", 7]
+    ]);
+  });
+});
+
+describe("runtimePerf facts", () => {
+  it("prefers load-test output and keeps every value anchored to its row", () => {
+    const insights = {
+      runId: "run-1",
+      headSha: "abc123",
+      languages: [],
+      entrypoints: [],
+      components: [],
+      dependencyHighlights: [],
+      testsPresent: false,
+      coverageHint: null,
+      nonGoals: [],
+      outOfScopeUse: [],
+      userPopulations: [],
+      dataFlow: [],
+      governancePolicies: [],
+      repositoryUrl: null,
+      anchorMap: {}
+    } as unknown as RepositoryInsights;
+    const benchmarks = [
+      parseBenchmarkOutput("bench/results.json", PYTEST_BENCHMARK)!,
+      parseBenchmarkOutput("bench/run_stats.csv", LOCUST_STATS)!
+    ];
+
+    const { facts, mutatedCard } = runDeterministicPipeline({
+      baselineCard: createEmptyCard(),
+      changedFiles: [],
+      insights,
+      staticSignals: { ...createEmptyStaticSignals(), benchmarks }
+    });
+
+    const byPath = new Map(facts.map((fact) => [fact.jsonPath, fact]));
+    expect(byPath.get("$.devInsight.runtimePerf.latencyMsP50")?.proposedValue).toBe(42);
+    expect(byPath.get("$.devInsight.runtimePerf.latencyMsP95")?.repoSources).toEqual([
+      { path: "bench/run_stats.csv", startLine: 3, endLine: 3, kind: "metrics", commit: "abc123" }
+    ]);
+    expect(byPath.get("$.devInsight.runtimePerf.throughput")?.proposedValue).toEqual({ value: 39.8, unit: "req/s" });
+    expect(byPath.has("$.devInsight.runtimePerf.hardware")).toBe(false);
+    expect(mutatedCard.devInsight.runtimePerf).toMatchObject({
+      latencyMsP50: 42,
+      latencyMsP95: 80,
+      notes: "Latency for Aggregated measured with locust run_stats.csv"
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import {
+  assertWithinBudget,
+  getLlmBudgetSession,
+  isBudgetExhausted,
+  LlmBudgetExceededError,
+  recordBudgetCut,
+  recordLlmUsage,
+  remainingBudgetTokens,
+  resetLlmBudgetSession
+} from "../src/llm/budget.js";
+import { invokeChatCompletion } from "../src/llm/client.js";
+import { resolveModelPricing } from "../src/llm/pricing.js";
+import { resolveLlmRuntimeConfig } from "../src/config/env.js";
+import { makeRuntime } from "./fixtures/runtime.js";
+
+describe("LLM budget controller", () => {
+  beforeEach(() => {
+    resetLlmBudgetSession();
+  });
+
+  it("tracks tokens and cost across calls", () => {
+    recordLlmUsage("gpt-4o", 1_000_000, 0);
+    recordLlmUsage("some-local-model", 500, 500);
+
+    const { usage } = getLlmBudgetSession();
+    expect(usage.tokens).toBe(1_001_000);
+    expect(usage.costUsd).toBeCloseTo(2.5);
+    expect(usage.unpricedTokens).toBe(1000);
+  });
+
+  it("takes the tighter of the token and cost limits", () => {
+    const limits = { maxCostUsd: 5, maxTotalTokens: 3_000_000 };
+    expect(remainingBudgetTokens({ maxCostUsd: null, maxTotalTokens: null }, "gpt-4o")).toBeNull();
+    // $5 at $2.50 per 1M prompt tokens
+    expect(remainingBudgetTokens(limits, "gpt-4o")).toBe(2_000_000);
+    // Unpriced models are only bound by the token limit
+    expect(remainingBudgetTokens(limits, "some-local-model")).toBe(3_000_000);
+
+    recordLlmUsage("gpt-4o", 2_000_000, 0);
+    expect(isBudgetExhausted(limits, "gpt-4o")).toBe(true);
+    expect(remainingBudgetTokens(limits, "some-local-model")).toBe(0);
+  });
+
+  it("refuses live requests the remaining budget cannot cover", async () => {
+    const runtime = makeRuntime({
+      budget: { maxCostUsd: null, maxTotalTokens: 5 },
+      // Never contacted: the guard runs before any network request
+      baseUrl: "http://127.0.0.1:9"
+    });
+
+    const error = await invokeChatCompletion(runtime, {
+      promptId: "notes.v1:dev",
+      temperature: 0,
+      topP: 1,
+      maxTokens: 100,
+      messages: [{ role: "user", content: "write a rather long stakeholder note about this change" }]
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(LlmBudgetExceededError);
+    expect(error.promptId).toBe("notes.v1:dev");
+  });
+
+  it("records Anthropic usage from a non-streamed response", async () => {
+    const server = createServer((_request, response) => {
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify({
+          content: [{ type: "text", text: "ok" }],
+          usage: { input_tokens: 120, output_tokens: 30 }
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const runtime = makeRuntime({
+        provider: "anthropic",
+        model: "claude-3-5-sonnet",
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      });
+      const result = await invokeChatCompletion(runtime, {
+        promptId: "reasoner.v1",
+        temperature: 0,
+        topP: 1,
+        maxTokens: 100,
+        messages: [{ role: "user", content: "hello" }]
+      });
+
+      expect(result.promptTokens).toBe(120);
+      expect(result.completionTokens).toBe(30);
+      expect(getLlmBudgetSession().usage.tokens).toBe(150);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it("reserves the full completion allowance at the completion rate", () => {
+    // 1000 prompt tokens fit in 1500, but not with a 1000-token answer
+    expect(() => assertWithinBudget({ maxCostUsd: null, maxTotalTokens: 1500 }, "gpt-4o", "reasoner.v1", 1000, 1000)).toThrow(
+      LlmBudgetExceededError
+    );
+    expect(() => assertWithinBudget({ maxCostUsd: null, maxTotalTokens: 2000 }, "gpt-4o", "reasoner.v1", 1000, 1000)).not.toThrow();
+
+    // gpt-4o: 100k prompt tokens cost $0.25 and 100k completion tokens $1.00
+    expect(() => assertWithinBudget({ maxCostUsd: 1, maxTotalTokens: null }, "gpt-4o", "reasoner.v1", 100_000, 100_000)).toThrow(
+      LlmBudgetExceededError
+    );
+    expect(() => assertWithinBudget({ maxCostUsd: 1.5, maxTotalTokens: null }, "gpt-4o", "reasoner.v1", 100_000, 100_000)).not.toThrow();
+  });
+
+  it("prices a model by its longest matching table key", () => {
+    expect(resolveModelPricing("gpt-4o-mini-2024-07-18")).toEqual({ promptPer1M: 0.15, completionPer1M: 0.6 });
+    expect(resolveModelPricing("gpt-4o-2024-08-06")).toEqual({ promptPer1M: 2.5, completionPer1M: 10 });
+  });
+
+  it("rejects a cost limit for models without a price", () => {
+    const env = { LLM_ENABLED: "true", LLM_MODEL: "gpt-4o", LLM_MAX_COST_USD: "2" };
+    expect(resolveLlmRuntimeConfig(env).budget.maxCostUsd).toBe(2);
+    expect(() => resolveLlmRuntimeConfig({ ...env, LLM_FALLBACK_CHAIN: "anthropic:claude-sonnet-4" })).toThrow(
+      /LLM_MAX_COST_USD is set but no price is known for claude-sonnet-4/
+    );
+    expect(() => resolveLlmRuntimeConfig({ ...env, LLM_MODEL: "some-local-model", LLM_MAX_COST_USD: "", LLM_MAX_TOTAL_TOKENS: "1000" })).not.toThrow();
+  });
+
+  it("collects cuts for diagnostics", () => {
+    recordBudgetCut("notes", "skipped LLM notes for 2 of 3 stakeholders; used deterministic notes");
+    expect(getLlmBudgetSession().cuts).toEqual([
+      { pass: "notes", action: "skipped LLM notes for 2 of 3 stakeholders; used deterministic notes" }
+    ]);
+  });
+});
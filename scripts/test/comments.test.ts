@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer, type Server } from "node:http";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { resolve } from "node:path";
+
+vi.mock("../src/contracts/validators.js", async () => {
+  const { default: Ajv } = await import("ajv");
+  const { default: addFormats } = await import("ajv-formats");
+  const { readFile: read } = await import("node:fs/promises");
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validate = ajv.compile(JSON.parse(await read(resolve(process.cwd(), "../lib/decisions.schema.json"), "utf8")));
+  return {
+    validateDecisions: async (decisions: unknown) =>
+      validate(decisions) ? [] : (validate.errors ?? []).map((error) => `${error.instancePath || "/"} ${error.message}`)
+  };
+});
+
+import type { Fact, Proposal } from "lib/card/types.js";
+
+import { parseCodeowners } from "../src/analysis/history.js";
+import { ingestComments, parseCommentCommands, type CommandAuthority } from "../src/review/comments.js";
+import type { IssueComment } from "../src/utils/github.js";
+
+const FIXTURE_ROOT = resolve(process.cwd(), "test/fixtures/comments");
+
+const AUTHORITY: CommandAuthority = {
+  stakeholders: [
+    { id: "product-manager", title: "Product Manager", roles: ["Product Manager"], fieldPaths: ["$.business.*", "$.meta.*"], watchPaths: [], members: ["pm-pat"] }
+  ],
+  codeowners: parseCodeowners(".github/CODEOWNERS", "libs/ @lib-owner\n")
+};
+
+function fact(jsonPath: string, path = "README.md"): Fact {
+  return {
+    jsonPath,
+    currentValue: null,
+    proposedValue: "new",
+    source: { kind: "extracted" },
+    repoSources: [{ path, startLine: 1, endLine: 1, commit: "abc1234" }],
+    confidence: 0.9,
+    gate: "OK"
+  };
+}
+
+const proposal: Proposal = {
+  meta: { runId: "run-7", baseSha: "abc1234", schemaVersion: "1.0.0", thresholds: { ok: 0.8, warn: 0.5 } },
+  facts: [fact("$.business.useCase"), fact("$.meta.maturity"), fact("$.mlCore.problem", "libs/engine.py")],
+  patch: [],
+  notes: {},
+  diagnostics: { coverage_non_null: 1, low_confidence: [] },
+  confidence_report: [],
+  sources: []
+};
+
+describe("parseCommentCommands", () => {
+  it("parses commands and ignores quoted or fenced lines", () => {
+    const parsed = parseCommentCommands(
+      ['Looks good.', '/msc accept $.business.useCase', '/msc edit $.meta.maturity "beta"', "> /msc reject $.x", "```", "/msc reject $.y", "```", "/msc edit $.meta.maturity beta", "/msc frobnicate $.a"].join("\n")
+    );
+    expect(parsed.map((entry) => entry.command ?? entry.error)).toEqual([
+      { verb: "accept", jsonPath: "$.business.useCase" },
+      { verb: "edit", jsonPath: "$.meta.maturity", value: "beta" },
+      "edit value is not valid JSON (quote strings): beta",
+      expect.stringContaining("unknown command `frobnicate`")
+    ]);
+  });
+});
+
+describe("ingestComments", () => {
+  let server: Server;
+  const comments: IssueComment[] = [];
+  const posted: Array<{ path: string; body: string }> = [];
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    await mkdir(FIXTURE_ROOT, { recursive: true });
+    await writeFile(resolve(FIXTURE_ROOT, "run-7.json"), JSON.stringify(proposal));
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk: Buffer) => (body += chunk.toString("utf8")));
+      request.on("end", () => {
+        const url = new URL(request.url ?? "/", "http://stub");
+        if (request.method === "GET" && url.pathname === "/repos/acme/card/issues/12/comments") {
+          const page = Number(url.searchParams.get("page") ?? "1");
+          response.writeHead(200, { "content-type": "application/json" });
+          response.end(JSON.stringify(page === 1 ? comments : []));
+          return;
+        }
+        if (request.method === "POST" && url.pathname === "/repos/acme/card/issues/12/comments") {
+          const { body: text } = JSON.parse(body) as { body: string };
+          posted.push({ path: url.pathname, body: text });
+          comments.push({ id: 1000 + posted.length, body: text, user: { login: "github-actions[bot]" }, created_at: "2024-06-02T00:00:00Z" });
+          response.writeHead(201, { "content-type": "application/json" });
+          response.end("{}");
+          return;
+        }
+        response.writeHead(404).end();
+      });
+    });
+    await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+    process.env.GITHUB_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    process.env.GITHUB_REPOSITORY = "acme/card";
+    process.env.GITHUB_TOKEN = "test-token";
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await new Promise((done) => server.close(done));
+    await rm(FIXTURE_ROOT, { recursive: true, force: true });
+  });
+
+  it("merges authorized commands, replies to each comment and skips answered ones", async () => {
+    comments.push(
+      { id: 1, body: '/msc accept $.business.useCase\n/msc edit $.meta.maturity "beta"', user: { login: "PM-Pat" }, created_at: "2024-06-01T10:00:00Z" },
+      { id: 2, body: "/msc reject $.mlCore.problem", user: { login: "pm-pat" }, created_at: "2024-06-01T11:00:00Z" },
+      { id: 3, body: "/msc lock $.mlCore.problem\n/msc sign-off $.mlCore", user: { login: "lib-owner" }, created_at: "2024-06-01T12:00:00Z" },
+      // A forged reply marker from someone other than the bot must not suppress comment 1
+      { id: 4, body: "<!-- msc-command-reply:1 -->", user: { login: "mallory" }, created_at: "2024-06-01T09:00:00Z" }
+    );
+
+    const result = await ingestComments({ runId: "run-7", prNumber: 12, proposalsDir: FIXTURE_ROOT, authority: AUTHORITY });
+
+    expect(result).toMatchObject({ comments: 3, applied: 4, rejected: 1 });
+    const written = JSON.parse(await readFile(resolve(FIXTURE_ROOT, "run-7.decisions.json"), "utf8"));
+    expect(written).toEqual([
+      { jsonPath: "$.business.useCase", decision: "accept" },
+      { jsonPath: "$.meta.maturity", decision: "edit", editedValue: "beta" },
+      { jsonPath: "$.mlCore.problem", decision: "accept", lock: true },
+      { jsonPath: "$.mlCore", decision: "accept", signOff: { role: "Code Owner", name: "lib-owner", timestamp: "2024-06-01T12:00:00Z" } }
+    ]);
+    expect(posted).toHaveLength(3);
+    expect(posted[0].body).toContain("<!-- msc-command-reply:1 -->");
+    expect(posted[1].body).toContain("❌ `/msc reject $.mlCore.problem` — @pm-pat is not a stakeholder member or code owner");
+    expect(posted[2].body).toContain("✅ `/msc sign-off $.mlCore` — signed off as Code Owner");
+
+    const rerun = await ingestComments({ runId: "run-7", prNumber: 12, proposalsDir: FIXTURE_ROOT, authority: AUTHORITY });
+    expect(rerun).toMatchObject({ comments: 0, applied: 0 });
+    expect(posted).toHaveLength(3);
+  });
+});
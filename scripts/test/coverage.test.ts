@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import { parseCoverageReport } from "../src/analysis/coverage.js";
+import type { RepositoryInsights } from "../src/analysis/repository.js";
+import { createEmptyStaticSignals } from "../src/analysis/signals.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import { runDeterministicPipeline } from "../src/pipeline/deterministic.js";
+
+const COBERTURA = [
+  '<?xml version="1.0" ?>',
+  '<coverage version="7.4.0" line-rate="0.75" lines-covered="3" lines-valid="4" branch-rate="0">',
+  "  <packages>",
+  '    <package name="infinity_emb" line-rate="1">',
+  '      <classes><class name="args.py"><lines><line number="1" hits="1"/><line number="2" hits="3"/></lines></class></classes>',
+  "    </package>",
+  '    <package name="infinity_emb.transformer" line-rate="0.5">',
+  '      <classes><class name="utils.py"><lines><line number="1" hits="1"/><line number="2" hits="0"/></lines></class></classes>',
+  "    </package>",
+  "  </packages>",
+  "</coverage>"
+].join("\n");
+
+const LCOV = [
+  "TN:",
+  "SF:src/a.ts",
+  "LF:10",
+  "LH:8",
+  "end_of_record",
+  "SF:src/nested/b.ts",
+  "LF:10",
+  "LH:2",
+  "end_of_record"
+].join("\n");
+
+const COVERAGE_PY_JSON = JSON.stringify(
+  {
+    meta: { version: "7.4.0" },
+    files: {
+      "pkg/core.py": { summary: { covered_lines: 9, num_statements: 10 } },
+      "pkg/io/reader.py": { summary: { covered_lines: 1, num_statements: 10 } }
+    },
+    totals: { covered_lines: 10, num_statements: 20, percent_covered: 50 }
+  },
+  null,
+  2
+);
+
+describe("parseCoverageReport", () => {
+  it("reads Cobertura totals and per-package rates with the line of the root element", () => {
+    const report = parseCoverageReport("libs/infinity_emb/coverage.xml", COBERTURA);
+    expect(report).toMatchObject({ type: "cobertura", percentage: 0.75, line: 2, linesCovered: 3, linesValid: 4 });
+    expect(report?.packages).toEqual([
+      { name: "infinity_emb", percentage: 1, linesCovered: 2, linesValid: 2 },
+      { name: "infinity_emb.transformer", percentage: 0.5, linesCovered: 1, linesValid: 2 }
+    ]);
+  });
+
+  it("sums lcov records and groups them by directory", () => {
+    const report = parseCoverageReport("coverage/lcov.info", LCOV);
+    expect(report).toMatchObject({ type: "lcov", percentage: 0.5, line: 3, linesCovered: 10, linesValid: 20 });
+    expect(report?.packages.map((entry) => [entry.name, entry.percentage])).toEqual([
+      ["src", 0.8],
+      ["src/nested", 0.2]
+    ]);
+  });
+
+  it("reads coverage.py JSON totals and rejects unrelated coverage.json files", () => {
+    const report = parseCoverageReport("coverage.json", COVERAGE_PY_JSON);
+    expect(report).toMatchObject({ type: "coverage.py", percentage: 0.5, linesValid: 20 });
+    expect(report?.line).toBe(COVERAGE_PY_JSON.split("\n").findIndex((line) => line.includes('"totals"')) + 1);
+    expect(parseCoverageReport("coverage.json", JSON.stringify({ threshold: 80 }))).toBeNull();
+  });
+});
+
+describe("coverageHint fact", () => {
+  it("anchors the hint at the report line of the largest report", () => {
+    const insights = {
+      runId: "run-1",
+      headSha: "abc123",
+      languages: [],
+      entrypoints: [],
+      components: [],
+      dependencyHighlights: [],
+      testsPresent: true,
+      coverageHint: "Tests detected in repository structure.",
+      nonGoals: [],
+      outOfScopeUse: [],
+      userPopulations: [],
+      dataFlow: [],
+      governancePolicies: [],
+      repositoryUrl: null,
+      anchorMap: {}
+    } as unknown as RepositoryInsights;
+    const coverage = [
+      parseCoverageReport("libs/infinity_emb/coverage.xml", COBERTURA)!,
+      parseCoverageReport("coverage/lcov.info", LCOV)!
+    ];
+
+    const { facts } = runDeterministicPipeline({
+      baselineCard: createEmptyCard(),
+      changedFiles: [],
+      insights,
+      staticSignals: { ...createEmptyStaticSignals(), coverage }
+    });
+
+    const fact = facts.find((entry) => entry.jsonPath === "$.devInsight.qualitySignals.coverageHint");
+    expect(fact?.proposedValue).toBe(
+      "50.0% line coverage (10/20 lines, lcov report coverage/lcov.info); lowest packages: src/nested 20.0%, src 80.0%"
+    );
+    expect(fact?.source.kind).toBe("extracted");
+    expect(fact?.repoSources).toEqual([
+      { path: "coverage/lcov.info", startLine: 3, endLine: 3, kind: "metrics", commit: "abc123" }
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import { parseManifest } from "../src/analysis/dependencies.js";
+
+describe("parseManifest (python)", () => {
+  it("maps PEP 621 dependencies, extras and dependency groups to edge kinds", () => {
+    const manifest = parseManifest(
+      "libs/pkg/pyproject.toml",
+      [
+        "[project]",
+        'name = "pkg"',
+        'dependencies = ["numpy>=1.20,<2", "uvicorn[standard]>=0.32; python_version < \'3.13\'"]',
+        "",
+        "[project.optional-dependencies]",
+        'server = ["fastapi>=0.103"]',
+        'all = ["fastapi>=0.103", "torch"]',
+        "",
+        "[dependency-groups]",
+        'test = ["pytest>=8", {include-group = "lint"}]'
+      ].join("\n")
+    );
+
+    expect(manifest.ecosystem).toBe("pypi");
+    expect(manifest.packageName).toBe("pkg");
+    expect(manifest.edges).toEqual([
+      { name: "numpy", spec: ">=1.20,<2", kind: "runtime" },
+      { name: "uvicorn", spec: "[standard]>=0.32; python_version < '3.13'", kind: "runtime" },
+      { name: "fastapi", spec: ">=0.103", kind: "optional", extras: ["all", "server"] },
+      { name: "torch", spec: "*", kind: "optional", extras: ["all"] },
+      { name: "pytest", spec: ">=8", kind: "dev", group: "test" }
+    ]);
+  });
+
+  it("reads Poetry main, optional and group dependencies", () => {
+    const manifest = parseManifest(
+      "pyproject.toml",
+      [
+        "[tool.poetry]",
+        'name = "infinity_emb"',
+        "",
+        "[tool.poetry.dependencies]",
+        'python = ">=3.9,<3.14"',
+        'numpy = ">=1.20.0,<2"',
+        'uvicorn = {version = "^0.32.0", optional = true, extras = ["standard"]}',
+        "",
+        "[tool.poetry.group.lint.dependencies]",
+        'ruff = "^0.7.0"',
+        "",
+        "[tool.poetry.extras]",
+        'server = ["uvicorn"]'
+      ].join("\n")
+    );
+
+    expect(manifest.packageName).toBe("infinity_emb");
+    expect(manifest.edges).toEqual([
+      { name: "numpy", spec: ">=1.20.0,<2", kind: "runtime" },
+      { name: "uvicorn", spec: "[standard]^0.32.0", kind: "optional", extras: ["server"] },
+      { name: "ruff", spec: "^0.7.0", kind: "dev", group: "lint" }
+    ]);
+  });
+
+  it("reads requirements files, setup.cfg and poetry.lock", () => {
+    const dev = parseManifest("requirements-dev.txt", "-r requirements.txt\npytest==8.0  # tests\n\n--index-url https://x\n");
+    expect(dev.edges).toEqual([{ name: "pytest", spec: "==8.0", kind: "dev", group: "dev" }]);
+
+    const setupCfg = parseManifest(
+      "setup.cfg",
+      "[metadata]\nname = demo\n\n[options]\ninstall_requires =\n    requests>=2\n\n[options.extras_require]\nml =\n    torch\n"
+    );
+    expect(setupCfg.packageName).toBe("demo");
+    expect(setupCfg.edges).toEqual([
+      { name: "requests", spec: ">=2", kind: "runtime" },
+      { name: "torch", spec: "*", kind: "optional", extras: ["ml"] }
+    ]);
+
+    const lock = parseManifest(
+      "poetry.lock",
+      [
+        "[[package]]",
+        'name = "torch"',
+        'version = "2.4.0"',
+        "optional = true",
+        "",
+        "[[package]]",
+        'name = "pytest"',
+        'version = "8.3.3"',
+        'groups = ["test"]',
+        "",
+        "[extras]",
+        'torch = ["torch"]'
+      ].join("\n")
+    );
+    expect(lock.edges).toEqual([
+      { name: "torch", spec: "==2.4.0", kind: "optional", extras: ["torch"] },
+      { name: "pytest", spec: "==8.3.3", kind: "dev", group: "test" }
+    ]);
+  });
+});
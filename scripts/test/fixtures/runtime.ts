@@ -0,0 +1,26 @@
+import type { LlmRuntimeConfig } from "../../src/config/env.js";
+import { DEFAULT_LLM_SETTINGS, DEFAULT_RATE_LIMITS } from "../../src/constants.js";
+
+/** A live OpenAI runtime with caching, streaming, tools and budgets off; tests override what they exercise. */
+export function makeRuntime(overrides: Partial<LlmRuntimeConfig> = {}): LlmRuntimeConfig {
+  return {
+    enabled: true,
+    dryRun: false,
+    privacyMode: false,
+    cacheEnabled: false,
+    streaming: false,
+    routes: {},
+    fallbackChain: [],
+    promptVersions: {},
+    recording: { mode: "off", fixturesDir: ".cache/llm-fixtures" },
+    tools: { enabled: false, maxCalls: 0, maxTokens: 0 },
+    budget: { maxCostUsd: null, maxTotalTokens: null },
+    apiKey: "sk-test",
+    baseUrl: null,
+    provider: "openai",
+    model: "gpt-4o",
+    sampling: DEFAULT_LLM_SETTINGS,
+    rateLimits: DEFAULT_RATE_LIMITS,
+    ...overrides
+  };
+}
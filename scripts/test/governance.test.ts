@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import type { Decision, Fact } from "lib/card/types.js";
+
+import { parseCodeowners } from "../src/analysis/history.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import {
+  collectSignOffs,
+  deriveRequiredSignOffs,
+  fieldPathCovers,
+  holdUnsignedSections,
+  type StakeholderProfile
+} from "../src/governance/signoffs.js";
+import { resolveStakeholderScope, scopeToStakeholders } from "../src/governance/watch.js";
+
+const STAKEHOLDERS: StakeholderProfile[] = [
+  { id: "data-scientist", title: "Data Scientist", roles: ["Data Scientist"], fieldPaths: ["$.mlCore.*"], watchPaths: [] },
+  { id: "ml-engineer", title: "ML Engineer", roles: ["Machine Learning Engineer"], fieldPaths: ["$.devInsight.*", "$.mlCore.qualities[*]"], watchPaths: [] },
+  { id: "product-manager", title: "Product Manager", roles: ["Product Manager"], fieldPaths: ["$.business.*"], watchPaths: [] }
+];
+
+const CODEOWNERS = parseCodeowners(".github/CODEOWNERS", "libs/infinity_emb/ @michaelfeil\n/docs/ml_system_card.yaml @card-team\n");
+
+function fact(jsonPath: string, proposedValue: unknown, currentValue: unknown, path = "README.md"): Fact {
+  return {
+    jsonPath,
+    jsonPointer: `/${jsonPath.slice(2).replace(/\[(\d+)\]/g, ".$1").split(".").join("/")}`,
+    currentValue,
+    proposedValue,
+    source: { kind: "extracted" },
+    repoSources: [{ path, startLine: 1, endLine: 1, commit: "abc1234" }],
+    confidence: 0.9,
+    gate: "OK"
+  };
+}
+
+const signOff = (role: string, name: string) => ({ role, name, timestamp: "2024-05-01T12:00:00Z" });
+
+describe("fieldPathCovers", () => {
+  it("matches wildcards, array items and parent paths", () => {
+    expect(fieldPathCovers("$.mlCore.*", "$.mlCore.training.hyperparams")).toBe(true);
+    expect(fieldPathCovers("$.mlCore.qualities[*]", "$.mlCore.qualities[2].name")).toBe(true);
+    expect(fieldPathCovers("$.mlCore.qualities[*]", "$.mlCore")).toBe(true);
+    expect(fieldPathCovers("$.nonFunctional.reliability", "$.nonFunctional.reliabilityNotes")).toBe(false);
+    expect(fieldPathCovers("$.business.*", "$.mlCore.problem")).toBe(false);
+  });
+});
+
+describe("deriveRequiredSignOffs", () => {
+  it("requires stakeholder and code-owner sign-offs only for sections that changed", () => {
+    const facts = [
+      fact("$.mlCore.qualities[0]", { name: "latency" }, null, "libs/infinity_emb/engine.py"),
+      fact("$.devInsight.runtimePerf.latencyMsP50", 42, 40),
+      fact("$.business.useCase", "Embeddings", "Embeddings")
+    ];
+
+    expect(deriveRequiredSignOffs(facts, STAKEHOLDERS, CODEOWNERS)).toEqual([
+      { section: "$.devInsight", role: "Code Owner", owners: ["@card-team"], jsonPaths: ["$.devInsight.runtimePerf.latencyMsP50"] },
+      { section: "$.devInsight", role: "Machine Learning Engineer", stakeholderId: "ml-engineer", jsonPaths: ["$.devInsight.runtimePerf.latencyMsP50"] },
+      { section: "$.mlCore", role: "Code Owner", owners: ["@card-team", "@michaelfeil"], jsonPaths: ["$.mlCore.qualities[0]"] },
+      { section: "$.mlCore", role: "Data Scientist", stakeholderId: "data-scientist", jsonPaths: ["$.mlCore.qualities[0]"] },
+      { section: "$.mlCore", role: "Machine Learning Engineer", stakeholderId: "ml-engineer", jsonPaths: ["$.mlCore.qualities[0]"] }
+    ]);
+  });
+});
+
+describe("holdUnsignedSections", () => {
+  it("keeps sections without a matching sign-off out of the merge", () => {
+    const facts = [fact("$.mlCore.problem", "Serve embeddings", null), fact("$.business.useCase", "Search", null)];
+    const required = deriveRequiredSignOffs(facts, STAKEHOLDERS, []);
+    const decisions: Decision[] = [
+      { jsonPath: "$.mlCore.problem", decision: "accept", signOff: signOff("data-scientist", "Ada") },
+      // Wrong role for the business section
+      { jsonPath: "$.business", decision: "accept", signOff: signOff("Data Scientist", "Ada") }
+    ];
+
+    const result = holdUnsignedSections(facts, required, decisions);
+    expect(result.facts.map((entry) => entry.jsonPath)).toEqual(["$.mlCore.problem"]);
+    expect(result.heldSections).toEqual(["$.business"]);
+    expect(collectSignOffs(decisions, new Set(["$.mlCore"]))).toEqual([signOff("data-scientist", "Ada")]);
+  });
+
+  it("accepts a code-owner sign-off only from a listed handle", () => {
+    const facts = [fact("$.mlCore.problem", "Serve embeddings", null, "libs/infinity_emb/engine.py")];
+    const required = deriveRequiredSignOffs(facts, [], CODEOWNERS);
+    const stranger: Decision[] = [{ jsonPath: "$.mlCore", decision: "accept", signOff: signOff("Code Owner", "someone") }];
+    const owner: Decision[] = [{ jsonPath: "$.mlCore", decision: "accept", signOff: signOff("Code Owner", "MichaelFeil") }];
+
+    expect(holdUnsignedSections(facts, required, stranger).facts).toEqual([]);
+    expect(holdUnsignedSections(facts, required, owner).facts).toHaveLength(1);
+  });
+});
+
+describe("scopeToStakeholders", () => {
+  it("carries unaffected stakeholder sections forward and keeps unclaimed paths and the changelog", () => {
+    const baseline = createEmptyCard();
+    baseline.business.useCase = "Search";
+    baseline.provenance.changelog = [{ date: "2024-01-01T00:00:00Z", summary: "earlier run" }];
+    const mutated = structuredClone(baseline);
+    mutated.business.useCase = "Semantic search";
+    mutated.mlCore.problem = "Serve embeddings";
+    mutated.provenance.changelog.push({ date: "2024-02-01T00:00:00Z", summary: "this run" });
+    mutated.integration.api = { version: "1.0" };
+    const facts = [
+      fact("$.business.useCase", "Semantic search", "Search"),
+      fact("$.mlCore.problem", "Serve embeddings", null),
+      fact("$.provenance.changelog[1]", { summary: "this run" }, undefined),
+      fact("$.integration.api", { version: "1.0" }, null)
+    ];
+    const stakeholders = [
+      ...STAKEHOLDERS,
+      { id: "historian", title: "Historian", roles: [], fieldPaths: ["$.provenance.*"], watchPaths: [] }
+    ];
+
+    const scoped = scopeToStakeholders(baseline, mutated, facts, stakeholders, ["product-manager"]);
+
+    expect(scoped.facts.map((entry) => entry.jsonPath)).toEqual(["$.business.useCase", "$.provenance.changelog[1]", "$.integration.api"]);
+    expect(scoped.carriedForward).toEqual(["$.mlCore.problem"]);
+    expect(scoped.mutatedCard.business.useCase).toBe("Semantic search");
+    expect(scoped.mutatedCard.mlCore.problem).toBe(baseline.mlCore.problem);
+    expect(scoped.mutatedCard.provenance.changelog).toEqual(mutated.provenance.changelog);
+    expect(scoped.mutatedCard.integration.api).toEqual({ version: "1.0" });
+  });
+});
+
+describe("resolveStakeholderScope", () => {
+  const watching: StakeholderProfile[] = [
+    { ...STAKEHOLDERS[0], watchPaths: ["notebooks/**"] },
+    { ...STAKEHOLDERS[2], watchPaths: ["README.md", "docs/**"] }
+  ];
+
+  it("scopes to the stakeholders whose watch_paths cover every changed file", () => {
+    expect(resolveStakeholderScope(["docs/usage.md", "README.md"], watching)).toEqual(["product-manager"]);
+  });
+
+  it("regenerates everything when a changed file matches no stakeholder", () => {
+    expect(resolveStakeholderScope(["libs/infinity_emb/engine.py"], watching)).toBeNull();
+    expect(resolveStakeholderScope(["docs/usage.md", "libs/infinity_emb/engine.py"], watching)).toBeNull();
+  });
+
+  it("regenerates everything when no stakeholder has watch_paths", () => {
+    expect(resolveStakeholderScope(["docs/usage.md"], STAKEHOLDERS)).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { collectGitHistory, matchCodeowners, parseCodeowners } from "../src/analysis/history.js";
+import type { RepositoryInsights } from "../src/analysis/repository.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import { runDeterministicPipeline } from "../src/pipeline/deterministic.js";
+import { exec } from "../src/utils/exec.js";
+
+let repo: string;
+let baseSha: string;
+
+async function git(...args: string[]): Promise<string> {
+  const { stdout } = await exec("git", ["-c", "user.name=CI", "-c", "user.email=ci@example.com", ...args], { cwd: repo });
+  return stdout.trim();
+}
+
+async function commit(files: Record<string, string>, subject: string, author: string, date: string): Promise<string> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(repo, path)), { recursive: true });
+    await writeFile(join(repo, path), content);
+  }
+  await git("add", "-A");
+  await git("commit", "-q", "-m", subject, `--author=${author} <${author.toLowerCase().replace(/\s+/g, ".")}@example.com>`, `--date=${date}`);
+  return git("rev-parse", "HEAD");
+}
+
+beforeAll(async () => {
+  repo = await mkdtemp(join(tmpdir(), "msc-history-"));
+  await git("init", "-q", "-b", "main");
+  await commit({ "README.md": "# demo\n" }, "Initial commit", "Ada Lovelace", "2023-01-02T10:00:00Z");
+  baseSha = await commit({ ".github/CODEOWNERS": "# owners\n/docs/ @docs-team\n" }, "chore: add codeowners", "Ada Lovelace", "2023-01-03T10:00:00Z");
+
+  await commit({ "libs/engine/batch.py": "x = 1\n" }, "feat(engine): dynamic batching", "Ada Lovelace", "2023-02-01T10:00:00Z");
+  await commit({ "libs/engine/queue.py": "y = 1\n" }, "fix: drop stale requests", "Grace Hopper", "2023-02-02T10:00:00Z");
+  await commit({ "docs/usage.md": "usage\n" }, "Document usage (#7)", "Grace Hopper", "2023-02-03T10:00:00Z");
+
+  await git("checkout", "-q", "-b", "feature/cache");
+  await commit({ "libs/engine/cache.py": "z = 1\n" }, "feat: add cache", "Linus Torvalds", "2023-02-04T10:00:00Z");
+  await git("checkout", "-q", "main");
+  await git("merge", "-q", "--no-ff", "feature/cache", "-m", "Merge pull request #9 from someone/feature/cache", "-m", "Cache embeddings between requests");
+});
+
+afterAll(async () => {
+  await rm(repo, { recursive: true, force: true });
+});
+
+describe("parseCodeowners", () => {
+  it("anchors each rule and lets the last matching rule win", () => {
+    const rules = parseCodeowners(".github/CODEOWNERS", "# comment\n* @everyone\n\n/docs/ @docs-team @alice\n*.py @py\n");
+    expect(rules.map((rule) => [rule.pattern, rule.anchor.startLine])).toEqual([
+      ["*", 2],
+      ["/docs/", 4],
+      ["*.py", 5]
+    ]);
+    expect(matchCodeowners(rules, "docs/usage.md")?.owners).toEqual(["@docs-team", "@alice"]);
+    expect(matchCodeowners(rules, "docs/tools/gen.py")?.owners).toEqual(["@py"]);
+    expect(matchCodeowners(rules, "libs/engine/batch.md")?.owners).toEqual(["@everyone"]);
+  });
+});
+
+describe("collectGitHistory", () => {
+  it("groups commits since the last run by pull request and conventional type", async () => {
+    const { history, warnings } = await collectGitHistory({ sinceSha: baseSha, cwd: repo });
+
+    expect(warnings).toEqual([]);
+    expect(history.range).toBe(`${baseSha}..HEAD`);
+    expect(history.changelog.map((entry) => [entry.key, entry.summary, entry.by])).toEqual([
+      ["feat", "Features (1 commit): dynamic batching", "Ada Lovelace"],
+      ["fix", "Fixes (1 commit): drop stale requests", "Grace Hopper"],
+      ["#7", "#7 Document usage", "Grace Hopper"],
+      ["#9", "#9 Cache embeddings between requests", "Linus Torvalds"]
+    ]);
+    const pr = history.changelog[3];
+    expect(pr.files).toEqual(["libs/engine/cache.py"]);
+    expect(pr.anchors).toEqual([{ path: "libs/engine/cache.py", startLine: 1, endLine: 1, kind: "code", commit: pr.commits[1] }]);
+    expect(history.createdAt?.value).toBe("2023-01-02T10:00:00.000Z");
+  });
+
+  it("prefers CODEOWNERS over authorship and falls back to a window when the last run is unknown", async () => {
+    const { history, warnings } = await collectGitHistory({ sinceSha: "0123456789abcdef0123456789abcdef01234567", cwd: repo, maxCommits: 2 });
+
+    expect(warnings[0]).toMatch(/not in this clone; walking the last 2 commits/);
+    expect(history.sinceSha).toBeNull();
+    expect(history.owners.map((owner) => [owner.component, owner.name, owner.source])).toEqual([
+      [".", "Ada Lovelace", "authorship"],
+      [".github", "Ada Lovelace", "authorship"],
+      ["docs", "@docs-team", "codeowners"],
+      ["libs/engine", "Ada Lovelace", "authorship"],
+      ["libs/engine", "Grace Hopper", "authorship"]
+    ]);
+  });
+});
+
+describe("history facts", () => {
+  it("adds commit-anchored changelog entries before the run entry and keeps curated owners", async () => {
+    const { history } = await collectGitHistory({ sinceSha: baseSha, cwd: repo });
+    const baselineCard = createEmptyCard();
+    baselineCard.meta.owners = [{ name: "Ada Lovelace", role: "lead" }];
+    baselineCard.provenance.changelog = [{ date: "2023-02-03T10:00:00Z", summary: "already recorded", headSha: history.changelog[2].headSha }];
+    const insights = {
+      runId: "run-2",
+      headSha: "abc123",
+      languages: [],
+      entrypoints: [],
+      components: [],
+      dependencyHighlights: [],
+      testsPresent: false,
+      coverageHint: null,
+      nonGoals: [],
+      outOfScopeUse: [],
+      userPopulations: [],
+      dataFlow: [],
+      governancePolicies: [],
+      repositoryUrl: null,
+      anchorMap: {}
+    } as unknown as RepositoryInsights;
+
+    const { mutatedCard, facts } = runDeterministicPipeline({
+      baselineCard,
+      changedFiles: ["libs/engine/cache.py"],
+      insights,
+      history
+    });
+
+    const changelog = mutatedCard.provenance.changelog as Array<{ summary: string; runId?: string }>;
+    expect(changelog.map((entry) => entry.summary)).toEqual([
+      "already recorded",
+      "Features (1 commit): dynamic batching",
+      "Fixes (1 commit): drop stale requests",
+      "#9 Cache embeddings between requests",
+      "ML System Card run run-2 observed 1 changed files"
+    ]);
+    const feat = facts.find((fact) => fact.jsonPath === "$.provenance.changelog[1]");
+    expect(feat?.repoSources[0].commit).toBe(history.changelog[0].headSha);
+
+    expect(mutatedCard.meta.owners).toEqual([
+      { name: "Ada Lovelace", role: "lead" },
+      { name: "@docs-team", role: "codeowner (docs)" },
+      { name: "Grace Hopper", role: "maintainer (libs/engine)" }
+    ]);
+    expect(facts.find((fact) => fact.jsonPath === "$.meta.owners")?.gate).toBe("Warn");
+    expect(mutatedCard.meta.createdAt).toBe("2023-01-02T10:00:00.000Z");
+  });
+});
@@ -0,0 +1,135 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { readLocalModelCard, scanHubReferences, type HfInventory } from "../src/analysis/huggingface.js";
+import type { RepositoryInsights } from "../src/analysis/repository.js";
+import { createEmptyStaticSignals } from "../src/analysis/signals.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import { runDeterministicPipeline } from "../src/pipeline/deterministic.js";
+
+const FIXTURE_ROOT = join("test", "fixtures", "huggingface");
+const MODEL_DIR = join(FIXTURE_ROOT, "models--BAAI--bge-small-en-v1.5", "snapshots", "abc");
+
+const SOURCE = [
+  "import datasets",
+  "",
+  "MODEL_ID = os.environ.get(\"MODEL_ID\", default=\"BAAI/bge-small-en-v1.5\")",
+  "corpus = datasets.load_dataset(\"mteb/scidocs\")",
+  "path = \"docs/assets\"",
+  "client = Client(model=\"default/not-specified\")",
+  ""
+].join("\n");
+
+beforeAll(async () => {
+  await mkdir(join(MODEL_DIR, "1_Pooling"), { recursive: true });
+  await writeFile(
+    join(MODEL_DIR, "config.json"),
+    JSON.stringify({ architectures: ["BertModel"], hidden_size: 384, max_position_embeddings: 512, model_type: "bert" }, null, 2)
+  );
+  await writeFile(join(MODEL_DIR, "sentence_bert_config.json"), JSON.stringify({ max_seq_length: 256 }, null, 2));
+  await writeFile(join(MODEL_DIR, "1_Pooling", "config.json"), JSON.stringify({ word_embedding_dimension: 384 }, null, 2));
+  await writeFile(
+    join(MODEL_DIR, "README.md"),
+    ["---", "tags:", "  - sentence-transformers", "license: mit", "datasets:", "  - ms_marco", "---", "", "# bge-small-en-v1.5", ""].join("\n")
+  );
+});
+
+afterAll(async () => {
+  await rm(FIXTURE_ROOT, { recursive: true, force: true });
+});
+
+describe("scanHubReferences", () => {
+  it("finds model and dataset ids in context and skips paths and placeholders", () => {
+    const references = scanHubReferences("app/settings.py", SOURCE);
+    expect(references.map((reference) => [reference.id, reference.type, reference.anchor.startLine, reference.isDefault])).toEqual([
+      ["BAAI/bge-small-en-v1.5", "model", 3, true],
+      ["mteb/scidocs", "dataset", 4, false]
+    ]);
+
+    const docs = scanHubReferences("README.md", "See https://huggingface.co/datasets/ms_marco/v2 and `--model-id BAAI/bge-m3`.");
+    expect(docs.map((reference) => [reference.id, reference.type, reference.anchor.kind])).toEqual([
+      ["ms_marco/v2", "dataset", "docs"],
+      ["BAAI/bge-m3", "model", "docs"]
+    ]);
+  });
+});
+
+describe("readLocalModelCard", () => {
+  it("reads architecture, sentence-transformers settings and the card license offline", async () => {
+    const card = await readLocalModelCard(MODEL_DIR);
+    expect(card).toMatchObject({
+      id: "BAAI/bge-small-en-v1.5",
+      architecture: { value: "BertModel", anchor: { path: join(MODEL_DIR, "config.json"), startLine: 2, kind: "config" } },
+      embeddingDimension: { value: 384, anchor: { path: join(MODEL_DIR, "1_Pooling", "config.json") } },
+      maxSequenceLength: { value: 256, anchor: { path: join(MODEL_DIR, "sentence_bert_config.json"), startLine: 2 } },
+      license: { value: "mit", anchor: { path: join(MODEL_DIR, "README.md"), startLine: 4, kind: "docs" } }
+    });
+    expect(card?.datasets.map((dataset) => dataset.id)).toEqual(["ms_marco"]);
+  });
+});
+
+describe("mlCore facts", () => {
+  it("fills artifactURIs, training hyperparams and datasets while keeping curated entries", async () => {
+    const card = (await readLocalModelCard(MODEL_DIR))!;
+    const huggingFace: HfInventory = {
+      models: [{ id: "BAAI/bge-small-en-v1.5", references: [{ path: "app/settings.py", startLine: 3, endLine: 3, kind: "code" }] }],
+      datasets: [
+        { id: "mteb/scidocs", references: [{ path: "app/settings.py", startLine: 4, endLine: 4, kind: "code" }] },
+        { id: "ms_marco", references: [card.datasets[0].anchor] }
+      ],
+      cards: [card]
+    };
+    const baselineCard = createEmptyCard();
+    baselineCard.mlCore.artifactURIs = { dockerImage: "docker.io/example/infinity:latest" };
+    baselineCard.mlCore.datasets = [{ name: "ms_marco", license: "cc-by-4.0" }];
+    const insights = {
+      runId: "run-1",
+      headSha: "abc123",
+      languages: [],
+      entrypoints: [],
+      components: [],
+      dependencyHighlights: [],
+      testsPresent: false,
+      coverageHint: null,
+      nonGoals: [],
+      outOfScopeUse: [],
+      userPopulations: [],
+      dataFlow: [],
+      governancePolicies: [],
+      repositoryUrl: null,
+      anchorMap: {}
+    } as unknown as RepositoryInsights;
+
+    const { mutatedCard, facts } = runDeterministicPipeline({
+      baselineCard,
+      changedFiles: [],
+      insights,
+      staticSignals: { ...createEmptyStaticSignals(), huggingFace }
+    });
+
+    expect(mutatedCard.mlCore.artifactURIs).toEqual({
+      dockerImage: "docker.io/example/infinity:latest",
+      model: "https://huggingface.co/BAAI/bge-small-en-v1.5"
+    });
+    expect(mutatedCard.mlCore.training?.hyperparams).toEqual({
+      model: "BAAI/bge-small-en-v1.5",
+      architecture: "BertModel",
+      embeddingDimension: 384,
+      maxSequenceLength: 256,
+      license: "mit"
+    });
+    expect(mutatedCard.mlCore.datasets).toEqual([
+      { name: "ms_marco", license: "cc-by-4.0", uri: "https://huggingface.co/datasets/ms_marco" },
+      { name: "mteb/scidocs", uri: "https://huggingface.co/datasets/mteb/scidocs" }
+    ]);
+    const training = facts.find((fact) => fact.jsonPath === "$.mlCore.training");
+    expect(training?.repoSources.map((anchor) => anchor.path)).toEqual([
+      join(MODEL_DIR, "config.json"),
+      join(MODEL_DIR, "1_Pooling", "config.json"),
+      join(MODEL_DIR, "sentence_bert_config.json"),
+      join(MODEL_DIR, "README.md")
+    ]);
+  });
+});
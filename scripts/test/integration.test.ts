@@ -1,11 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 import { runExtractorPass } from "../src/llm/extractor.js";
 import { runReasonerPass } from "../src/llm/reasoner.js";
+import { runVerifierPass } from "../src/llm/verifier.js";
 import { MOCK_EXTRACTOR_RESPONSE, MOCK_REASONER_RESPONSE } from "../src/llm/mock_data.js";
 import type { PassContext } from "../src/llm/types.js";
-import { DEFAULT_LLM_SETTINGS, DEFAULT_RATE_LIMITS } from "../src/constants.js";
+import { makeRuntime } from "./fixtures/runtime.js";
 
 // Mock the LLM client
 vi.mock("../src/llm/client.js", () => ({
@@ -56,18 +59,7 @@ describe("LLM Pipeline Integration", () => {
         governancePolicies: []
       } as any
     } as any,
-    runtime: {
-      enabled: true,
-      dryRun: false,
-      cacheEnabled: false,
-      provider: "openai",
-      model: "gpt-5.1",
-      apiKey: "sk-test",
-      baseUrl: "https://api.openai.com/v1",
-      privacyMode: false,
-      sampling: DEFAULT_LLM_SETTINGS,
-      rateLimits: DEFAULT_RATE_LIMITS
-    }
+    runtime: makeRuntime({ model: "gpt-5.1", baseUrl: "https://api.openai.com/v1" })
   };
 
   beforeEach(() => {
@@ -136,6 +128,153 @@ describe("LLM Pipeline Integration", () => {
 
   }, 120000);
 
+  it("only extracts facts in the stakeholder scope", async () => {
+    const proposed = (jsonPath: string) => ({
+      ...MOCK_EXTRACTOR_RESPONSE.facts[0],
+      jsonPath,
+      jsonPointer: `/${jsonPath.slice(2).replace(/\./g, "/")}`
+    });
+    (invokeChatCompletion as any).mockResolvedValue({
+      content: JSON.stringify({ facts: [proposed("$.business.useCase"), proposed("$.mlCore.problem")] }),
+      raw: {},
+      mode: "network",
+      promptTokens: 100,
+      completionTokens: 50,
+      latencyMs: 200,
+      requestDigest: "req-digest",
+      responseDigest: "res-digest"
+    });
+
+    const result = await runExtractorPass({
+      ...mockContext,
+      stakeholderScope: {
+        affected: ["product-manager"],
+        stakeholders: [
+          { id: "product-manager", title: "Product Manager", roles: [], fieldPaths: ["$.business.*"], watchPaths: ["README.md"] },
+          { id: "data-scientist", title: "Data Scientist", roles: [], fieldPaths: ["$.mlCore.*"], watchPaths: ["notebooks/**"] }
+        ]
+      }
+    });
+
+    expect(result.facts.map((fact) => fact.jsonPath)).toContain("$.business.useCase");
+    expect(result.facts.map((fact) => fact.jsonPath)).not.toContain("$.mlCore.problem");
+    const prompt = (invokeChatCompletion as any).mock.calls[0][1].messages[1].content as string;
+    expect(prompt).toContain("### Scope");
+    expect(prompt).toMatch(/carried forward unchanged:\n- \$\.mlCore\.\*/);
+  });
+
+  it("reads currentValue from the baseline card, never from the model", async () => {
+    const proposed = (jsonPath: string, jsonPointer: string) => ({
+      ...MOCK_EXTRACTOR_RESPONSE.facts[0],
+      jsonPath,
+      jsonPointer,
+      currentValue: "made up by the model"
+    });
+    (invokeChatCompletion as any).mockResolvedValue({
+      content: JSON.stringify({ facts: [proposed("$.meta.title", "/meta/title"), proposed("$.safety.limitations", "/safety/limitations")] }),
+      raw: {},
+      mode: "network",
+      promptTokens: 100,
+      completionTokens: 50,
+      latencyMs: 200,
+      requestDigest: "req-digest",
+      responseDigest: "res-digest"
+    });
+
+    const result = await runExtractorPass(mockContext);
+
+    const currentValueOf = (jsonPath: string) => result.facts.find((fact) => fact.jsonPath === jsonPath)?.currentValue;
+    expect(currentValueOf("$.meta.title")).toBe("Original Title");
+    expect(currentValueOf("$.safety.limitations")).toEqual([]);
+  });
+
+  it("keeps the other verifier batches when one batch fails", async () => {
+    const workDir = mkdtempSync(join(tmpdir(), "verifier-batches-"));
+    // Each snippet fills most of a batch, so the two facts are verified in separate requests
+    writeFileSync(join(workDir, "a.md"), "alpha ".repeat(1400));
+    writeFileSync(join(workDir, "b.md"), "bravo ".repeat(1400));
+    const fact = (jsonPath: string, path: string) => ({
+      jsonPath,
+      jsonPointer: `/${jsonPath.slice(2).replace(/\./g, "/")}`,
+      proposedValue: "value",
+      currentValue: null,
+      source: { kind: "extracted" as const },
+      repoSources: [{ path: join(workDir, path), startLine: 1, endLine: 1, commit: "HEAD", kind: "docs" as const }],
+      confidence: 0.9,
+      gate: "OK" as const
+    });
+    (invokeChatCompletion as any).mockImplementation(async (_runtime: unknown, options: any) => {
+      if (options.messages[0].content.includes("alpha")) {
+        throw new Error("socket hang up");
+      }
+      return {
+        content: JSON.stringify({
+          verifications: [{ jsonPath: "$.business.intendedUse", valid: false, comment: "The snippet says something else; wrong value.", adjustedConfidence: 0.1 }]
+        }),
+        raw: {},
+        mode: "network",
+        promptTokens: 100,
+        completionTokens: 50,
+        latencyMs: 200,
+        requestDigest: "req-digest",
+        responseDigest: "res-digest"
+      };
+    });
+
+    try {
+      const result = await runVerifierPass(mockContext, {
+        facts: [fact("$.business.useCase", "a.md"), fact("$.business.intendedUse", "b.md")],
+        metrics: { promptTokens: 0, completionTokens: 0, latencyMs: 0 }
+      } as any);
+
+      expect(invokeChatCompletion).toHaveBeenCalledTimes(2);
+      const gateOf = (jsonPath: string) => result.facts.find((entry) => entry.jsonPath === jsonPath)?.gate;
+      // The failed batch's fact is left unverified; the answered batch is still applied
+      expect(gateOf("$.business.useCase")).toBe("OK");
+      expect(gateOf("$.business.intendedUse")).toBe("Require");
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports verifier schema violations as pass errors, not retries", async () => {
+    const workDir = mkdtempSync(join(tmpdir(), "verifier-schema-"));
+    writeFileSync(join(workDir, "a.md"), "Serves embeddings over HTTP.");
+    (invokeChatCompletion as any).mockResolvedValue({
+      content: JSON.stringify({ verifications: [{ jsonPath: "$.business.useCase", comment: "Looks right." }] }),
+      raw: {},
+      mode: "network",
+      promptTokens: 100,
+      completionTokens: 50,
+      latencyMs: 200,
+      requestDigest: "req-digest",
+      responseDigest: "res-digest"
+    });
+
+    try {
+      const result = await runVerifierPass(mockContext, {
+        facts: [
+          {
+            jsonPath: "$.business.useCase",
+            jsonPointer: "/business/useCase",
+            proposedValue: "Embedding server",
+            currentValue: null,
+            source: { kind: "extracted" },
+            repoSources: [{ path: join(workDir, "a.md"), startLine: 1, endLine: 1, commit: "HEAD", kind: "docs" }],
+            confidence: 0.9,
+            gate: "OK"
+          }
+        ],
+        metrics: { promptTokens: 0, completionTokens: 0, latencyMs: 0 }
+      } as any);
+
+      expect(result.retryReasons).toEqual([]);
+      expect(result.errors?.[0]).toContain("Verifier batch 1");
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+  });
+
   it("handles malformed JSON gracefully", async () => {
     (invokeChatCompletion as any).mockResolvedValue({
       content: "{ invalid json",
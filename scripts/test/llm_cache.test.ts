@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+  evictLlmCacheEntries,
+  getLlmCacheSessionStats,
+  lookupCachedResponse,
+  pruneLlmCache,
+  purgeLlmCacheByPrompt,
+  readLlmCacheManifest,
+  resetLlmCacheSessionStats,
+  storeCachedResponse,
+  summarizeLlmCache,
+  type LlmCacheEntry
+} from "../src/llm/cache.js";
+import type { LlmInvocationResult } from "../src/llm/client.js";
+
+const LIMITS = { maxBytes: 1024 * 1024, maxAgeMs: 60_000 };
+
+function result(content: string): LlmInvocationResult {
+  return {
+    content,
+    raw: null,
+    mode: "network",
+    promptTokens: 100,
+    completionTokens: 20,
+    latencyMs: 5,
+    requestDigest: "req",
+    responseDigest: "res"
+  };
+}
+
+describe("LLM response cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "llm-cache-"));
+    resetLlmCacheSessionStats();
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records hits in the manifest and session stats", async () => {
+    await storeCachedResponse("aaa", result("{}"), { promptId: "extractor.v1", provider: "openai", model: "gpt-4o" }, LIMITS, dir);
+
+    expect(await lookupCachedResponse("missing", LIMITS, dir)).toBeNull();
+    expect((await lookupCachedResponse("aaa", LIMITS, dir))?.content).toBe("{}");
+
+    const manifest = await readLlmCacheManifest(dir);
+    expect(manifest.entries.aaa).toMatchObject({ promptId: "extractor.v1", model: "gpt-4o", hits: 1 });
+    expect(getLlmCacheSessionStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      savedPromptTokens: 100,
+      savedCompletionTokens: 20
+    });
+  });
+
+  it("treats entries past the TTL as misses", async () => {
+    await storeCachedResponse("old", result("{}"), { promptId: "notes.v1:dev", provider: null, model: null }, LIMITS, dir);
+    expect(await lookupCachedResponse("old", { ...LIMITS, maxAgeMs: -1 }, dir)).toBeNull();
+    expect((await readLlmCacheManifest(dir)).entries.old).toBeUndefined();
+  });
+
+  it("evicts expired entries, then least recently used until under the size limit", () => {
+    const now = Date.parse("2026-01-10T00:00:00Z");
+    const entry = (createdAt: string, lastHitAt: string | null): LlmCacheEntry => ({
+      promptId: "p",
+      provider: null,
+      model: null,
+      createdAt,
+      lastHitAt,
+      hits: 0,
+      sizeBytes: 400
+    });
+    const entries = {
+      expired: entry("2025-01-01T00:00:00Z", null),
+      coldest: entry("2026-01-05T00:00:00Z", null),
+      warm: entry("2026-01-01T00:00:00Z", "2026-01-09T00:00:00Z"),
+      newest: entry("2026-01-08T00:00:00Z", null)
+    };
+    const evicted = evictLlmCacheEntries(entries, { maxBytes: 800, maxAgeMs: 30 * 24 * 3600 * 1000 }, now);
+    expect(evicted).toEqual(["expired", "coldest"]);
+    expect(Object.keys(entries).sort()).toEqual(["newest", "warm"]);
+  });
+
+  it("purges by prompt id, stats by prompt, and prunes untracked files", async () => {
+    const meta = (promptId: string) => ({ promptId, provider: "openai", model: "gpt-4o" });
+    await storeCachedResponse("n1", result("a"), meta("notes.v1:dev"), LIMITS, dir);
+    await storeCachedResponse("n2", result("b"), meta("notes.v1:ops"), LIMITS, dir);
+    await storeCachedResponse("e1", result("c"), meta("extractor.v1"), LIMITS, dir);
+    writeFileSync(join(dir, "legacy.json"), JSON.stringify(result("d")));
+
+    const stats = await summarizeLlmCache(dir);
+    expect(stats.entries).toBe(3);
+    expect(stats.untrackedFiles).toBe(1);
+    expect(stats.byPrompt["notes.v1:dev"].entries).toBe(1);
+
+    expect((await purgeLlmCacheByPrompt("notes.v1", dir)).sort()).toEqual(["n1", "n2"]);
+    expect(await pruneLlmCache(LIMITS, dir)).toEqual(["legacy"]);
+
+    const after = await summarizeLlmCache(dir);
+    expect(after.entries).toBe(1);
+    expect(after.untrackedFiles).toBe(0);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import type { Fact } from "lib/card/types.js";
+
+import { threeWayMerge } from "../src/card/merge.js";
+
+function fact(jsonPath: string, proposedValue: unknown, currentValue?: unknown): Fact {
+  const entry: Fact = {
+    jsonPath,
+    jsonPointer: `/${jsonPath.slice(2).split(".").join("/")}`,
+    proposedValue,
+    source: { kind: "extracted" },
+    repoSources: [],
+    confidence: 0.9,
+    gate: "OK"
+  };
+  return currentValue === undefined ? entry : { ...entry, currentValue };
+}
+
+describe("threeWayMerge", () => {
+  it("merges untouched paths, keeps card-only edits and reports conflicting ones", () => {
+    const current = {
+      business: { useCase: "Semantic search", intendedUse: "Internal" },
+      meta: { maturity: "alpha", owners: [{ name: "a" }, { name: "b" }] }
+    };
+    const facts = [
+      fact("$.meta.maturity", "beta", "alpha"),
+      fact("$.business.intendedUse", "Internal", null),
+      fact("$.business.useCase", "Search", "Search"),
+      fact("$.meta.owners", [{ name: "a" }, { name: "c" }], [{ name: "a" }])
+    ];
+
+    const result = threeWayMerge(facts, current);
+
+    expect(result.facts.map((entry) => entry.jsonPath)).toEqual(["$.meta.maturity", "$.business.intendedUse"]);
+    expect(result.keptCurrent).toEqual(["$.business.useCase"]);
+    expect(result.conflicts).toEqual([
+      {
+        jsonPath: "$.meta.owners",
+        jsonPointer: "/meta/owners",
+        base: [{ name: "a" }],
+        current: [{ name: "a" }, { name: "b" }],
+        proposed: [{ name: "a" }, { name: "c" }]
+      }
+    ]);
+  });
+
+  it("uses the value the proposal was generated from and treats a missing one as empty", () => {
+    // The card already read "Semantic search" when the proposal was generated, whatever it was at the run's diff base
+    const current = { business: { useCase: "Semantic search", owner: "Hand edited" } };
+    const result = threeWayMerge(
+      [fact("$.business.useCase", "Vector search", "Semantic search"), fact("$.business.intendedUse", "Internal"), fact("$.business.owner", "Team")],
+      current
+    );
+
+    expect(result.facts.map((entry) => entry.jsonPath)).toEqual(["$.business.useCase", "$.business.intendedUse"]);
+    expect(result.conflicts).toMatchObject([{ jsonPath: "$.business.owner", base: null, current: "Hand edited", proposed: "Team" }]);
+  });
+});
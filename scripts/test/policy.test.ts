@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+
+import type { Fact } from "lib/card/types.js";
+
+import { evaluatePolicy, mergePolicyDecisions, parsePolicy } from "../src/governance/policy.js";
+
+function fact(jsonPath: string, overrides: Partial<Fact> = {}): Fact {
+  return {
+    jsonPath,
+    proposedValue: "value",
+    source: { kind: "extracted" },
+    repoSources: [{ path: "libs/infinity_emb/engine.py", startLine: 1, endLine: 2, commit: "abc1234" }],
+    confidence: 0.9,
+    gate: "OK",
+    ...overrides
+  };
+}
+
+const POLICY = `
+rules:
+  - id: reject-low-confidence
+    match:
+      confidence: { max: 0.4 }
+    decision: reject
+  - id: lock-openapi
+    match:
+      json_path:
+        - $.integration.api
+        - "$.integration.endpoints[*]"
+      anchor_kind: openapi
+    decision: lock
+  - id: accept-extracted-dev-insight
+    match:
+      json_path: $.devInsight.*
+      gate: OK
+      source_kind: extracted
+      anchor_kind: [code, config]
+    decision: accept
+`;
+
+describe("policy rules", () => {
+  it("lets the first matching rule decide and leaves the rest to reviewers", () => {
+    const rules = parsePolicy(POLICY);
+    const facts = [
+      fact("$.devInsight.runtimePerf.latencyMsP50"),
+      fact("$.devInsight.entrypoints", { gate: "Warn" }),
+      fact("$.devInsight.codeStructure", { confidence: 0.3 }),
+      fact("$.devInsight.qualitySignals", { repoSources: [{ path: "README.md", startLine: 1, endLine: 1, commit: "abc1234" }] }),
+      fact("$.integration.endpoints[2]", { repoSources: [{ path: "openapi.json", startLine: 4, endLine: 9, commit: "abc1234", kind: "openapi" }] }),
+      fact("$.devInsightNotes")
+    ];
+
+    expect(evaluatePolicy(facts, rules)).toEqual([
+      { ruleId: "accept-extracted-dev-insight", decision: { jsonPath: "$.devInsight.runtimePerf.latencyMsP50", decision: "accept" } },
+      { ruleId: "reject-low-confidence", decision: { jsonPath: "$.devInsight.codeStructure", decision: "reject" } },
+      { ruleId: "lock-openapi", decision: { jsonPath: "$.integration.endpoints[2]", decision: "accept", lock: true } }
+    ]);
+  });
+
+  it("gives reviewers' decisions precedence and attributes the remaining ones to their rules", () => {
+    const policy = evaluatePolicy([fact("$.devInsight.a"), fact("$.devInsight.b")], parsePolicy(POLICY));
+    const merged = mergePolicyDecisions(policy, [{ jsonPath: "$.devInsight.b", decision: "reject" }]);
+
+    expect(merged.decisions).toEqual([
+      { jsonPath: "$.devInsight.a", decision: "accept" },
+      { jsonPath: "$.devInsight.b", decision: "reject" }
+    ]);
+    expect(merged.applied).toEqual([{ path: "$.devInsight.a", rule: "accept-extracted-dev-insight", decision: "accept" }]);
+  });
+
+  it("rejects malformed rules instead of widening them", () => {
+    expect(() => parsePolicy("rules:\n  - id: a\n    match: { gates: OK }\n    decision: accept\n")).toThrow(/unknown key gates/);
+    expect(() => parsePolicy("rules:\n  - id: a\n    match: { gate: Maybe }\n    decision: accept\n")).toThrow(/match.gate/);
+    expect(() => parsePolicy("rules:\n  - id: a\n    match: {}\n    decision: edit\n")).toThrow(/accept, reject or lock/);
+    expect(parsePolicy("")).toEqual([]);
+  });
+});
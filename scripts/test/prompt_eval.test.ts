@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Fact } from "lib/card/types.js";
+
+// Recording reaches the stub provider; skip the reasoner's rate-limit cool-down
+vi.mock("../src/llm/scheduler.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/llm/scheduler.js")>()),
+  reachesProvider: () => false
+}));
+
+import type { AnalysisBundle } from "../src/analysis/bundle.js";
+import { createEmptyCard } from "../src/card/seed.js";
+import { resolveLlmRuntimeConfig } from "../src/config/env.js";
+import { PROMPT_EVALS_DIR } from "../src/constants.js";
+import { runExtractorPass } from "../src/llm/extractor.js";
+import {
+  computePromptEvalMetrics,
+  diffPromptEvalMetrics,
+  parsePromptVersionSelection,
+  runPromptVariant
+} from "../src/llm/prompt_eval.js";
+import { listFixtures } from "../src/llm/replay.js";
+import { runReasonerPass } from "../src/llm/reasoner.js";
+import { runVerifierPass } from "../src/llm/verifier.js";
+import { listPromptVersions, loadPassPrompt } from "../src/utils/prompts.js";
+import { makeRuntime } from "./fixtures/runtime.js";
+
+function fact(jsonPath: string, gate: Fact["gate"], path: string): Fact {
+  return {
+    jsonPath,
+    jsonPointer: jsonPath.replace("$", "").replace(/\./g, "/"),
+    proposedValue: "x",
+    source: { kind: "extracted" },
+    repoSources: [{ path, startLine: 1, endLine: 3, commit: "HEAD", kind: "config" }],
+    confidence: 0.9,
+    gate
+  } as Fact;
+}
+
+describe("prompt versions", () => {
+  it("loads the configured version and rejects unknown ones", async () => {
+    expect(await listPromptVersions("extractor")).toEqual(["v1"]);
+    expect((await loadPassPrompt("notes")).id).toBe("notes.v1");
+    await expect(loadPassPrompt("notes", "v9")).rejects.toThrow("No v9 prompt for notes; available: v1");
+  });
+
+  it("reads per-pass versions from the environment", () => {
+    const runtime = resolveLlmRuntimeConfig({ LLM_PROMPT_EXTRACTOR: "V2" });
+    expect(runtime.promptVersions).toEqual({ extractor: "v2" });
+    expect(() => resolveLlmRuntimeConfig({ LLM_PROMPT_NOTES: "latest" })).toThrow("LLM_PROMPT_NOTES");
+  });
+
+  it("parses eval selections strictly", () => {
+    expect(parsePromptVersionSelection("extractor=v2, reasoner=v1")).toEqual({ extractor: "v2", reasoner: "v1" });
+    expect(() => parsePromptVersionSelection("extractr=v2")).toThrow("Invalid prompt selection");
+  });
+});
+
+describe("prompt eval metrics", () => {
+  it("scores gate distribution and anchor resolvability, and diffs variants", () => {
+    const a = computePromptEvalMetrics(
+      [fact("$.a", "OK", "scripts/package.json"), fact("$.b", "Warn", "scripts/no-such-file.ts")],
+      1,
+      "HEAD"
+    );
+    expect(a).toMatchObject({
+      facts_total: 2,
+      gate_ok_count: 1,
+      gate_warn_pct: 0.5,
+      resolvable_anchor_count: 1,
+      total_evaluated_anchor_count: 2,
+      anchor_resolvability_rate: 0.5
+    });
+
+    const b = computePromptEvalMetrics([fact("$.a", "OK", "scripts/package.json")], 1, "HEAD");
+    const delta = diffPromptEvalMetrics(a, b);
+    expect(delta.facts_total).toBe(-1);
+    expect(delta.anchor_resolvability_rate).toBe(0.5);
+    expect(delta.gate_ok_pct).toBe(0.5);
+  });
+});
+
+describe("runPromptVariant", () => {
+  const workDir = mkdtempSync(join(tmpdir(), "prompt-eval-"));
+  const fixturesDir = join(workDir, "fixtures");
+  const bundle = {
+    metadata: { runId: "run-42", baseSha: "BASE", headSha: "HEAD", generatedAt: "2024-06-01T00:00:00Z", cacheDigest: "digest" },
+    fileEvidence: [],
+    changedFiles: ["README.md"],
+    toolCalls: [],
+    artifactPath: join(workDir, "run-42.analysis.json"),
+    repository: {
+      anchorMap: {},
+      headSha: "HEAD",
+      runId: "run-42",
+      useCase: "Embedding server",
+      intendedUse: "Serve embeddings",
+      nonGoals: [],
+      outOfScopeUse: [],
+      repositoryUrl: "https://github.com/owner/repo",
+      languages: ["TypeScript"],
+      entrypoints: ["src/index.ts"],
+      components: [],
+      dependencyHighlights: [],
+      testsPresent: true,
+      coverageHint: null,
+      problemSummary: "",
+      userPopulations: [],
+      dataFlow: [],
+      governancePolicies: []
+    }
+  } as unknown as AnalysisBundle;
+  let server: Server;
+  let requests = 0;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      request.resume();
+      request.on("end", () => {
+        requests += 1;
+        response.writeHead(200, { "content-type": "application/json" });
+        response.end(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ facts: [] }) } }], usage: { prompt_tokens: 1, completion_tokens: 1 } }));
+      });
+    });
+    await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+  });
+
+  afterAll(async () => {
+    await new Promise((done) => server.close(done));
+    rmSync(workDir, { recursive: true, force: true });
+    rmSync(join(PROMPT_EVALS_DIR, "run-42.eval-a"), { recursive: true, force: true });
+  });
+
+  it("replays a recorded run under the recorded run id", async () => {
+    const runtime = makeRuntime({ baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, recording: { mode: "record", fixturesDir } });
+    const baselineCard = createEmptyCard();
+    const context = { runId: "run-42", baselineCard, analysis: structuredClone(bundle), runtime, artifactsDir: workDir };
+    const reasoner = await runReasonerPass(context, await runExtractorPass(context));
+    await runVerifierPass(context, reasoner);
+    const recorded = requests;
+    expect((await listFixtures(fixturesDir)).length).toBeGreaterThan(0);
+
+    const variant = await runPromptVariant("a", bundle, baselineCard, runtime, {});
+
+    expect(requests).toBe(recorded);
+    expect(variant.promptIds.extractor).toBe("extractor.v1");
+    expect(variant.metrics.facts_total).toBe(reasoner.facts.length);
+  });
+});
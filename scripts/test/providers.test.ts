@@ -0,0 +1,60 @@
+import { describe, it, expect, afterEach } from "vitest";
+
+import { computeEvidenceTokenBudget, computeRouteEvidenceTokenBudget } from "../src/llm/formatters.js";
+import {
+  createOpenAiCompatibleAdapter,
+  getProviderAdapter,
+  registerProviderAdapter,
+  resolveContextWindow
+} from "../src/llm/providers.js";
+
+describe("provider adapter registry", () => {
+  afterEach(() => {
+    delete process.env.LLM_CONTEXT_WINDOW;
+  });
+
+  it("resolves built-in adapters and falls back to OpenAI-compatible", () => {
+    expect(getProviderAdapter("Anthropic").id).toBe("anthropic");
+    expect(getProviderAdapter("azure-openai").id).toBe("azure");
+    expect(getProviderAdapter("unknown-gateway").id).toBe("openai");
+    expect(getProviderAdapter(null).id).toBe("openai");
+  });
+
+  it("matches model context windows by longest prefix", () => {
+    const openai = getProviderAdapter("openai");
+    expect(resolveContextWindow(openai, "gpt-5.1-0527")).toBe(272000);
+    expect(resolveContextWindow(openai, "o1-mini-2024")).toBe(128000);
+    expect(resolveContextWindow(openai, "o1-2024")).toBe(200000);
+    expect(resolveContextWindow(openai, "text-davinci")).toBeNull();
+  });
+
+  it("lets callers register a custom gateway", () => {
+    registerProviderAdapter(
+      createOpenAiCompatibleAdapter({
+        id: "in-house",
+        endpoint: "https://llm.internal/v1/chat/completions",
+        apiKeyHeader: "x-gateway-key",
+        capabilities: { systemRole: false, maxContext: { default: 64000 } }
+      })
+    );
+    const adapter = getProviderAdapter("in-house");
+    expect(adapter.createHeaders("secret")["x-gateway-key"]).toBe("secret");
+    expect(adapter.resolveEndpoint(null, "any", null)).toBe("https://llm.internal/v1/chat/completions");
+    expect(computeEvidenceTokenBudget("in-house", "any", 10000)).toBe(64000 - 10000 - 15000);
+  });
+
+  it("prefers the LLM_CONTEXT_WINDOW override and defaults for unknown models", () => {
+    expect(computeEvidenceTokenBudget("openai", "mystery-model", 1000)).toBe(150000);
+    process.env.LLM_CONTEXT_WINDOW = "100000";
+    expect(computeEvidenceTokenBudget("openai", "gpt-5.1", 50000)).toBe(35000);
+  });
+
+  it("sizes evidence for the smallest context window in a route chain", () => {
+    const route = [
+      { provider: "openai", model: "gpt-5.1" },
+      { provider: "anthropic", model: "claude-sonnet-4" }
+    ];
+    expect(computeRouteEvidenceTokenBudget(route, 10000)).toBe(200000 - 10000 - 15000);
+    expect(computeRouteEvidenceTokenBudget(route.slice(0, 1), 10000)).toBe(272000 - 10000 - 15000);
+  });
+});
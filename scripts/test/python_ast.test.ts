@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+
+import { astSummary, resolveTwoHopNeighbors } from "../src/tools/index.js";
+
+const FIXTURE_ROOT = "test/fixtures/python-ast";
+
+const SERVER_SOURCE = [
+  "from fastapi import FastAPI",
+  "from .engine import Engine",
+  "import os, pkg.args",
+  "PORT = 7997",
+  "",
+  "",
+  "class Server(Base):",
+  "    def start(self, port: int = PORT) -> None:",
+  "        pass",
+  "",
+  "",
+  "def create_server(engine: Engine):",
+  "    app = FastAPI()",
+  "",
+  "    @app.get(\"/health\")",
+  "    async def health() -> dict:",
+  "        return {}",
+  "",
+  "    @app.post(",
+  "        \"/embeddings\",",
+  "        operation_id=\"embeddings\",",
+  "    )",
+  "    async def embed(body: dict):",
+  "        def helper():",
+  "            pass",
+  "        return helper()",
+  "",
+  "    return app",
+  ""
+].join("\n");
+
+async function seedFixtures() {
+  const pkg = resolve(process.cwd(), FIXTURE_ROOT, "pkg");
+  await mkdir(pkg, { recursive: true });
+  await writeFile(resolve(pkg, "__init__.py"), "", "utf8");
+  await writeFile(resolve(pkg, "server.py"), SERVER_SOURCE, "utf8");
+  await writeFile(resolve(pkg, "engine.py"), "from . import args\n", "utf8");
+  await writeFile(resolve(pkg, "args.py"), "class EngineArgs:\n    pass\n", "utf8");
+}
+
+describe("python structural evidence", () => {
+  beforeAll(async () => {
+    await seedFixtures();
+  });
+
+  afterAll(async () => {
+    await rm(resolve(process.cwd(), FIXTURE_ROOT), { recursive: true, force: true });
+  });
+
+  it("summarizes classes, functions, module variables and FastAPI routes with line ranges", async () => {
+    const trace = await astSummary({ file: `${FIXTURE_ROOT}/pkg/server.py` });
+    const nodes = trace.response.nodes.map(({ name, kind, startLine, endLine }) => ({ name, kind, startLine, endLine }));
+
+    expect(nodes).toEqual([
+      { name: "PORT", kind: "variable", startLine: 4, endLine: 4 },
+      { name: "Server", kind: "class", startLine: 7, endLine: 9 },
+      { name: "start", kind: "method", startLine: 8, endLine: 9 },
+      { name: "create_server", kind: "function", startLine: 12, endLine: 28 },
+      { name: "GET /health", kind: "route", startLine: 15, endLine: 17 },
+      { name: "POST /embeddings", kind: "route", startLine: 19, endLine: 26 }
+    ]);
+    const signatures = Object.fromEntries(trace.response.nodes.map((node) => [node.name, node.signature]));
+    expect(signatures.start).toBe("start(self, port: int = PORT) -> None");
+    expect(signatures["GET /health"]).toBe("async health() -> dict");
+    expect(signatures.Server).toBe("class Server(Base)");
+  });
+
+  it("resolves relative and in-repo package imports to files, skipping stdlib modules", async () => {
+    const neighbors = await resolveTwoHopNeighbors(`${FIXTURE_ROOT}/pkg/server.py`);
+    expect(neighbors).toEqual([`${FIXTURE_ROOT}/pkg/args.py`, `${FIXTURE_ROOT}/pkg/engine.py`]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { invokeChatCompletion } from "../src/llm/client.js";
+import { runExtractorPass } from "../src/llm/extractor.js";
+import { listFixtures, LlmFixtureMissingError } from "../src/llm/replay.js";
+import { readJsonFile } from "../src/utils/fs.js";
+import type { PassContext } from "../src/llm/types.js";
+import type { LlmRecordMode, LlmRuntimeConfig } from "../src/config/env.js";
+import { makeRuntime } from "./fixtures/runtime.js";
+
+describe("LLM record/replay", () => {
+  let server: Server;
+  let baseUrl = "";
+  let fixturesDir: string;
+  let requests = 0;
+
+  beforeAll(async () => {
+    fixturesDir = mkdtempSync(join(tmpdir(), "llm-fixtures-"));
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (data) => {
+        body += data;
+      });
+      req.on("end", () => {
+        requests += 1;
+        const prompt = JSON.parse(body).messages.at(-1).content as string;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            choices: [{ message: { content: JSON.stringify({ echo: prompt }) } }],
+            usage: { prompt_tokens: 5, completion_tokens: 3 }
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    if (server.listening) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  function runtimeFor(mode: LlmRecordMode): LlmRuntimeConfig {
+    return makeRuntime({
+      enabled: mode !== "replay",
+      recording: { mode, fixturesDir },
+      apiKey: mode === "replay" ? null : "sk-test",
+      baseUrl
+    });
+  }
+
+  const optionsFor = (content: string) => ({
+    promptId: "extractor.v1",
+    temperature: 0,
+    topP: 1,
+    maxTokens: 100,
+    messages: [{ role: "user" as const, content }],
+    jsonMode: true
+  });
+
+  it("records live responses and replays them offline", async () => {
+    const recorded = await invokeChatCompletion(runtimeFor("record"), optionsFor("first"));
+    expect(recorded.mode).toBe("network");
+
+    const fixtures = await listFixtures(fixturesDir);
+    expect(fixtures).toHaveLength(1);
+    expect(fixtures[0]).toMatchObject({ requestDigest: recorded.requestDigest, promptId: "extractor.v1", model: "gpt-4o" });
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    const replayed = await invokeChatCompletion(runtimeFor("replay"), optionsFor("first"));
+    expect(replayed.content).toBe(recorded.content);
+    expect(replayed.promptTokens).toBe(5);
+    expect(requests).toBe(1);
+  });
+
+  it("fails loudly on an unrecorded request", async () => {
+    const error = await invokeChatCompletion(runtimeFor("replay"), optionsFor("second")).catch((err) => err);
+    expect(error).toBeInstanceOf(LlmFixtureMissingError);
+    expect(error.promptId).toBe("extractor.v1");
+    expect(error.message).toContain("1 fixture(s) exist for this prompt");
+  });
+});
+
+describe("captured run fixture", () => {
+  // Recorded from a gpt-4o extractor run; re-record when the extractor prompt changes
+  const capturedDir = join("test", "fixtures", "replay", "extractor-run");
+  let artifactsDir: string;
+
+  beforeAll(() => {
+    artifactsDir = mkdtempSync(join(tmpdir(), "replay-artifacts-"));
+  });
+
+  afterAll(() => {
+    rmSync(artifactsDir, { recursive: true, force: true });
+  });
+
+  it("replays the recorded extractor response under a new run id", async () => {
+    const captured = await readJsonFile<Pick<PassContext, "runId" | "baselineCard" | "analysis">>(join(capturedDir, "run.json"));
+    const runId = "replay-run-7";
+    const generatedAt = "2026-10-01T00:00:00.000Z";
+
+    const result = await runExtractorPass({
+      runId,
+      baselineCard: captured!.baselineCard,
+      analysis: {
+        ...captured!.analysis,
+        metadata: { ...captured!.analysis.metadata, runId, generatedAt },
+        repository: { ...captured!.analysis.repository, runId }
+      },
+      artifactsDir,
+      runtime: makeRuntime({ enabled: false, apiKey: null, recording: { mode: "replay", fixturesDir: join(capturedDir, "llm") } })
+    });
+
+    expect(result.mode).toBe("llm");
+    expect(result.facts.find((fact) => fact.jsonPath === "$.safety.limitations")?.proposedValue).toEqual([
+      "Embeddings are only evaluated on English text."
+    ]);
+    expect(result.facts.find((fact) => fact.jsonPath === "$.provenance.changelog[0]")?.proposedValue).toMatchObject({ runId, date: generatedAt });
+  });
+});
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { PassThrough } from "node:stream";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { resolve } from "node:path";
+
+vi.mock("../src/contracts/validators.js", async () => {
+  const { default: Ajv } = await import("ajv");
+  const { default: addFormats } = await import("ajv-formats");
+  const { readFile: read } = await import("node:fs/promises");
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validate = ajv.compile(JSON.parse(await read(resolve(process.cwd(), "../lib/decisions.schema.json"), "utf8")));
+  return {
+    validateDecisions: async (decisions: unknown) =>
+      validate(decisions) ? [] : (validate.errors ?? []).map((error) => `${error.instancePath || "/"} ${error.message}`)
+  };
+});
+
+import type { Proposal } from "lib/card/types.js";
+
+import { createReviewServer } from "../src/review/server.js";
+import { applyReviewAction, type ReviewItem } from "../src/review/session.js";
+import { diffValues, orderForReview, runTerminalReview } from "../src/review/terminal.js";
+
+const FIXTURE_ROOT = resolve(process.cwd(), "test/fixtures/review");
+const SOURCE_PATH = "test/fixtures/review/src/model.py";
+
+const proposal: Proposal = {
+  meta: { runId: "run-1", baseSha: "deadbeef", schemaVersion: "1.0.0", thresholds: { ok: 0.8, warn: 0.5 } },
+  facts: [
+    {
+      jsonPath: "$.mlCore.problem",
+      jsonPointer: "/mlCore/problem",
+      currentValue: null,
+      proposedValue: "Serve embeddings",
+      source: { kind: "extracted" },
+      repoSources: [{ path: SOURCE_PATH, startLine: 3, endLine: 3, commit: "deadbeef" }],
+      confidence: 0.92,
+      gate: "OK"
+    }
+  ],
+  patch: [],
+  notes: {},
+  diagnostics: { coverage_non_null: 1, low_confidence: [] },
+  confidence_report: [],
+  sources: [SOURCE_PATH]
+};
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  await mkdir(resolve(FIXTURE_ROOT, "proposals"), { recursive: true });
+  await mkdir(resolve(FIXTURE_ROOT, "src"), { recursive: true });
+  await writeFile(resolve(FIXTURE_ROOT, "src/model.py"), ["import torch", "", "def embed(text):", "    return model(text)", ""].join("\n"));
+  await writeFile(resolve(FIXTURE_ROOT, "proposals/run-1.json"), JSON.stringify(proposal));
+  await writeFile(resolve(FIXTURE_ROOT, "proposals/run-1.extractor.json"), "{}");
+
+  server = createReviewServer({ proposalsDir: resolve(FIXTURE_ROOT, "proposals") });
+  await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((done) => server.close(done));
+  await rm(FIXTURE_ROOT, { recursive: true, force: true });
+});
+
+describe("review dashboard", () => {
+  it("lists proposals and resolves anchor snippets", async () => {
+    const runs = await (await fetch(`${baseUrl}/api/runs`)).json();
+    expect(runs.runs).toEqual([{ runId: "run-1", generatedAt: null, facts: 1, decided: 0 }]);
+
+    const session = await (await fetch(`${baseUrl}/api/runs/run-1`)).json();
+    expect(session.items[0].snippets[0]).toMatchObject({ source: "worktree", startLine: 3 });
+    expect(session.items[0].snippets[0].lines.map((line: { number: number }) => line.number)).toEqual([1, 2, 3, 4, 5]);
+    expect(session.items[0].snippets[0].lines[2].text).toBe("def embed(text):");
+
+    expect((await fetch(`${baseUrl}/api/runs/missing`)).status).toBe(404);
+    expect(await (await fetch(`${baseUrl}/`)).text()).toContain("ML System Card review");
+  });
+
+  it("writes decisions only when they pass schema validation", async () => {
+    const decisions = applyReviewAction([], "$.mlCore.problem", { decision: "edit", editedValue: "Serve text embeddings", lock: true });
+    const saved = await fetch(`${baseUrl}/api/runs/run-1/decisions`, { method: "PUT", body: JSON.stringify(decisions) });
+    expect(saved.status).toBe(200);
+    const written = JSON.parse(await readFile(resolve(FIXTURE_ROOT, "proposals/run-1.decisions.json"), "utf8"));
+    expect(written).toEqual([{ jsonPath: "$.mlCore.problem", decision: "edit", editedValue: "Serve text embeddings", lock: true }]);
+
+    const rejected = await fetch(`${baseUrl}/api/runs/run-1/decisions`, {
+      method: "PUT",
+      body: JSON.stringify([{ jsonPath: "$.mlCore.problem", decision: "maybe" }])
+    });
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).errors.length).toBeGreaterThan(0);
+    const unchanged = JSON.parse(await readFile(resolve(FIXTURE_ROOT, "proposals/run-1.decisions.json"), "utf8"));
+    expect(unchanged).toEqual(written);
+  });
+});
+
+function fakeTerminal() {
+  const input = Object.assign(new PassThrough(), { isTTY: true, setRawMode: () => input }) as unknown as NodeJS.ReadStream;
+  const output = new PassThrough() as unknown as NodeJS.WriteStream;
+  output.resume();
+  // Each key is sent once the review is waiting for the next keystroke
+  const press = async (...keys: string[]) => {
+    for (const key of keys) {
+      while (input.listenerCount("keypress") === 0) {
+        await new Promise((done) => setTimeout(done, 5));
+      }
+      input.emit("keypress", key, { name: key });
+    }
+  };
+  return { input, output, press };
+}
+
+describe("terminal review", () => {
+  const item = (jsonPath: string, gate: "OK" | "Warn" | "Require", confidence: number) =>
+    ({ fact: { ...proposal.facts[0], jsonPath, gate, confidence }, decision: null, snippets: [] }) as ReviewItem;
+
+  it("orders facts by gate, then confidence", () => {
+    const ordered = orderForReview([item("$.a", "OK", 0.9), item("$.b", "Require", 0.6), item("$.c", "Warn", 0.7), item("$.d", "Require", 0.4)]);
+    expect(ordered.map((entry) => entry.fact.jsonPath)).toEqual(["$.d", "$.b", "$.c", "$.a"]);
+  });
+
+  it("diffs pretty-printed values line by line", () => {
+    expect(diffValues({ a: 1, b: 2 }, { a: 1, b: 3 })).toEqual([
+      { kind: " ", text: "{" },
+      { kind: " ", text: '  "a": 1,' },
+      { kind: "-", text: '  "b": 2' },
+      { kind: "+", text: '  "b": 3' },
+      { kind: " ", text: "}" }
+    ]);
+  });
+
+  it("saves every keystroke decision and resumes at the first undecided fact", async () => {
+    const run: Proposal = {
+      ...proposal,
+      meta: { ...proposal.meta, runId: "run-2" },
+      facts: [
+        { ...proposal.facts[0], jsonPath: "$.business.useCase", jsonPointer: "/business/useCase", gate: "OK" },
+        { ...proposal.facts[0], gate: "Require", confidence: 0.4 }
+      ]
+    };
+    const proposalsDir = resolve(FIXTURE_ROOT, "proposals");
+    await writeFile(resolve(proposalsDir, "run-2.json"), JSON.stringify(run));
+    const readDecisions = async () => JSON.parse(await readFile(resolve(proposalsDir, "run-2.decisions.json"), "utf8"));
+
+    const first = fakeTerminal();
+    const editFile = async (file: string) => writeFile(file, '"Serve multilingual embeddings"\n');
+    const firstRun = runTerminalReview({ runId: "run-2", proposalsDir, input: first.input, output: first.output, editFile });
+    await first.press("e", "q");
+    await firstRun;
+    expect(await readDecisions()).toEqual([{ jsonPath: "$.mlCore.problem", decision: "edit", editedValue: "Serve multilingual embeddings" }]);
+
+    const second = fakeTerminal();
+    const secondRun = runTerminalReview({ runId: "run-2", proposalsDir, input: second.input, output: second.output, editFile });
+    await second.press("l");
+    await secondRun;
+    expect(await readDecisions()).toEqual([
+      { jsonPath: "$.mlCore.problem", decision: "edit", editedValue: "Serve multilingual embeddings" },
+      { jsonPath: "$.business.useCase", decision: "accept", lock: true }
+    ]);
+  });
+});
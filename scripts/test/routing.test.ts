@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { resolveLlmRuntimeConfig, type LlmModelTarget } from "../src/config/env.js";
+import { invokeRoutedCompletion, resolvePassChain, resolvePassModel } from "../src/llm/routing.js";
+import { LlmRequestError } from "../src/llm/client.js";
+
+describe("model routing configuration", () => {
+  it("parses per-pass routes and the fallback chain from env", () => {
+    const runtime = resolveLlmRuntimeConfig({
+      LLM_PROVIDER: "openai",
+      LLM_MODEL: "gpt-5.1",
+      LLM_API_KEY: "sk-primary",
+      LLM_BASE_URL: "https://gateway.local/v1/chat/completions",
+      LLM_API_KEY_ANTHROPIC: "sk-anthropic",
+      LLM_ROUTE_NOTES: "gpt-4o-mini",
+      LLM_FALLBACK_CHAIN: "anthropic:claude-sonnet-4, openai:gpt-5.1"
+    });
+
+    expect(runtime.routes.notes).toEqual([
+      {
+        provider: "openai",
+        model: "gpt-4o-mini",
+        apiKey: "sk-primary",
+        baseUrl: "https://gateway.local/v1/chat/completions"
+      }
+    ]);
+    expect(runtime.fallbackChain[0]).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4",
+      apiKey: "sk-anthropic",
+      baseUrl: null
+    });
+
+    const labels = (targets: LlmModelTarget[]) => targets.map((t) => `${t.provider}:${t.model}`);
+    expect(labels(resolvePassChain(runtime, "notes"))).toEqual([
+      "openai:gpt-4o-mini",
+      "anthropic:claude-sonnet-4",
+      "openai:gpt-5.1"
+    ]);
+    // The primary model is already the tail of the fallback chain; it is only tried once.
+    expect(labels(resolvePassChain(runtime, "reasoner"))).toEqual(["openai:gpt-5.1", "anthropic:claude-sonnet-4"]);
+    // Budgets are priced against the model a pass is routed to
+    expect(resolvePassModel(runtime, "notes")).toBe("gpt-4o-mini");
+    expect(resolvePassModel(runtime, "reasoner")).toBe("gpt-5.1");
+  });
+});
+
+describe("invokeRoutedCompletion", () => {
+  let server: Server;
+  let baseUrl = "";
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      req.on("end", () => {
+        const route = req.url?.slice(1);
+        if (route === "down") {
+          res.writeHead(503).end("unavailable");
+          return;
+        }
+        if (route === "forbidden") {
+          res.writeHead(403).end("nope");
+          return;
+        }
+        const content = route === "garbled" ? "not json at all" : JSON.stringify({ facts: [] });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ choices: [{ message: { content } }], usage: { prompt_tokens: 3, completion_tokens: 4 } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function runtimeWithChain(routes: string[]) {
+    const runtime = resolveLlmRuntimeConfig({
+      LLM_ENABLED: "1",
+      LLM_DRY_RUN: "0",
+      LLM_CACHE_ENABLED: "0",
+      LLM_PROVIDER: "openai",
+      LLM_API_KEY: "sk-test"
+    });
+    runtime.routes.extractor = routes.map((route) => ({
+      provider: "openai",
+      model: `model-${route}`,
+      apiKey: "sk-test",
+      baseUrl: `${baseUrl}/${route}`
+    }));
+    return runtime;
+  }
+
+  const options = {
+    promptId: "extractor.v1",
+    temperature: 0,
+    topP: 1,
+    maxTokens: 100,
+    messages: [{ role: "user" as const, content: "hi" }],
+    jsonMode: true
+  };
+  const isValid = (content: string) => {
+    try {
+      return Array.isArray(JSON.parse(content).facts);
+    } catch (_error) {
+      return false;
+    }
+  };
+
+  it("falls back past 5xx and schema-invalid responses and records who answered", async () => {
+    const result = await invokeRoutedCompletion(runtimeWithChain(["down", "garbled", "ok"]), "extractor", options, isValid);
+    expect(result.model).toBe("model-ok");
+    expect(result.provider).toBe("openai");
+    expect(result.fallbacks).toEqual(["openai:model-down: HTTP 503", "openai:model-garbled: schema-invalid response"]);
+    expect(result.promptTokens).toBe(3);
+  });
+
+  it("does not fall back on client errors", async () => {
+    await expect(
+      invokeRoutedCompletion(runtimeWithChain(["forbidden", "ok"]), "extractor", options, isValid)
+    ).rejects.toBeInstanceOf(LlmRequestError);
+  });
+});
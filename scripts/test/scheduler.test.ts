@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+
+import { createRateLimitedScheduler } from "../src/llm/scheduler.js";
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe("createRateLimitedScheduler", () => {
+  it("never runs more than maxParallel tasks at once and keeps result order", async () => {
+    const scheduler = createRateLimitedScheduler({ maxParallel: 2, tokensPerMinute: 1_000_000, baseDelayMs: 0, jitterMs: 0 });
+    let active = 0;
+    let peak = 0;
+    const started: number[] = [];
+
+    const results = await Promise.all([0, 1, 2, 3, 4].map((id) =>
+      scheduler.run(10, async () => {
+        started.push(id);
+        active += 1;
+        peak = Math.max(peak, active);
+        await sleep(20);
+        active -= 1;
+        return id * 2;
+      })
+    ));
+
+    expect(peak).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+    expect(results).toEqual([0, 2, 4, 6, 8]);
+  });
+
+  it("waits for the token bucket to refill after earlier spending", async () => {
+    // 60k tokens per minute refills one token per millisecond
+    const scheduler = createRateLimitedScheduler({ maxParallel: 4, tokensPerMinute: 60_000, baseDelayMs: 0, jitterMs: 0 });
+    scheduler.charge(60_000);
+
+    const startedAt = Date.now();
+    await scheduler.run(150, async () => undefined);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(140);
+  });
+
+  it("spaces request starts by the base delay", async () => {
+    const scheduler = createRateLimitedScheduler({ maxParallel: 3, tokensPerMinute: 1_000_000, baseDelayMs: 50, jitterMs: 0 });
+    const starts: number[] = [];
+
+    await Promise.all([0, 1, 2].map(() => scheduler.run(1, async () => {
+      starts.push(Date.now());
+    })));
+
+    expect(starts[1] - starts[0]).toBeGreaterThanOrEqual(45);
+    expect(starts[2] - starts[1]).toBeGreaterThanOrEqual(45);
+  });
+});
@@ -0,0 +1,121 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { SEARCH_INDEX_PATH } from "../src/constants.js";
+import { repoSearch } from "../src/tools/index.js";
+import { searchWithIndex, tokenize, updateSearchIndex, type EmbeddingBackend } from "../src/tools/search_index.js";
+
+const FIXTURE_DIR = join("test", "fixtures", "search-index");
+const INDEX_PATH = join(FIXTURE_DIR, "index", "search-index.json");
+const BATCHING = join(FIXTURE_DIR, "batch_handler.py");
+const QUEUE = join(FIXTURE_DIR, "queue.md");
+
+const BATCHING_SOURCE = [
+  "class BatchHandler:",
+  "    def __init__(self, max_batch_size: int = 32):",
+  "        # batches are configured from EngineArgs",
+  "        self.max_batch_size = max_batch_size",
+  ""
+].join("\n");
+
+// Two-dimensional "embeddings": how much a text is about batching vs. queueing
+function createFakeBackend(): EmbeddingBackend & { calls: number } {
+  const backend = {
+    model: "fake-embedder",
+    calls: 0,
+    async embed(texts: string[]) {
+      backend.calls += 1;
+      return texts.map((text) => [(text.match(/batch/gi) ?? []).length, (text.match(/queue|backpressure/gi) ?? []).length + 0.1]);
+    }
+  };
+  return backend;
+}
+
+beforeAll(async () => {
+  await mkdir(FIXTURE_DIR, { recursive: true });
+  await writeFile(BATCHING, BATCHING_SOURCE);
+  await writeFile(QUEUE, "# Queue\n\nRequests wait in a bounded queue; backpressure returns 429.\n");
+});
+
+afterAll(async () => {
+  await rm(FIXTURE_DIR, { recursive: true, force: true });
+});
+
+describe("tokenize", () => {
+  it("splits identifiers, drops stopwords and folds common suffixes", () => {
+    expect(tokenize("where is batching configured")).toEqual(["batch", "configur"]);
+    expect(tokenize("maxBatchSize configuration")).toEqual(["max", "batch", "size", "configur"]);
+  });
+});
+
+describe("search index", () => {
+  it("rebuilds only files whose contentSha changed and keeps their embeddings", async () => {
+    const backend = createFakeBackend();
+    const first = await updateSearchIndex({ indexPath: INDEX_PATH, backend });
+    expect(first.index.files[BATCHING]?.chunks[0].embedding).toBeDefined();
+    expect(first.index.embeddingModel).toBe("fake-embedder");
+
+    const callsAfterBuild = backend.calls;
+    const second = await updateSearchIndex({ indexPath: INDEX_PATH, backend });
+    expect(second.stats).toMatchObject({ rebuilt: 0, embedded: 0, removed: 0 });
+    expect(backend.calls).toBe(callsAfterBuild);
+
+    await writeFile(QUEUE, "# Queue\n\nRequests wait in a bounded queue.\n");
+    const third = await updateSearchIndex({ indexPath: INDEX_PATH, backend });
+    expect(third.stats).toMatchObject({ rebuilt: 1, embedded: 1 });
+    expect(third.index.files[INDEX_PATH]).toBeUndefined();
+  });
+
+  it("ranks natural-language queries with scores, restricted to the requested paths", async () => {
+    const { index } = await updateSearchIndex({ indexPath: INDEX_PATH, backend: null });
+    const hits = await searchWithIndex(index, "where is batching configured", { maxHits: 5, paths: new Set([BATCHING, QUEUE]) });
+
+    expect(hits[0]).toMatchObject({ file: BATCHING, line: 3, text: "# batches are configured from EngineArgs" });
+    expect(hits[0].score).toBeGreaterThan(0);
+    expect(hits.every((hit) => hit.file === BATCHING)).toBe(true);
+  });
+
+  it("blends embedding similarity so related chunks rank without shared words", async () => {
+    const backend = createFakeBackend();
+    const { index } = await updateSearchIndex({ indexPath: INDEX_PATH, backend });
+    const hits = await searchWithIndex(index, "backpressure", { maxHits: 2, backend, paths: new Set([BATCHING, QUEUE]) });
+
+    expect(hits.map((hit) => hit.file)).toEqual([QUEUE, BATCHING]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score ?? 0);
+  });
+
+  it("skips hits in files edited since they were indexed", async () => {
+    const { index } = await updateSearchIndex({ indexPath: INDEX_PATH, backend: null });
+    await writeFile(BATCHING, `# moved down\n${BATCHING_SOURCE}`);
+    try {
+      const hits = await searchWithIndex(index, "where is batching configured", { maxHits: 5, paths: new Set([BATCHING]) });
+      expect(hits).toEqual([]);
+    } finally {
+      await writeFile(BATCHING, BATCHING_SOURCE);
+    }
+  });
+});
+
+describe("repoSearch with the search index", () => {
+  afterAll(async () => {
+    delete process.env.REPO_SEARCH_INDEX;
+    await rm(SEARCH_INDEX_PATH, { recursive: true, force: true });
+  });
+
+  it("falls back to substring search when the index cannot be written, and retries it later", async () => {
+    process.env.REPO_SEARCH_INDEX = "1";
+    // A directory where the index file belongs makes the refresh fail
+    await mkdir(SEARCH_INDEX_PATH, { recursive: true });
+    const request = { query: "max_batch_size", includeGlobs: [`${FIXTURE_DIR}/**`] };
+
+    const fallback = await repoSearch(request);
+    expect(fallback.response.ranking).toBe("substring");
+    expect(fallback.response.hits[0]).toMatchObject({ file: BATCHING });
+
+    await rm(SEARCH_INDEX_PATH, { recursive: true, force: true });
+    const ranked = await repoSearch(request);
+    expect(ranked.response.ranking).toBe("bm25");
+  }, 60000);
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { invokeChatCompletion } from "../src/llm/client.js";
+import { IncrementalFactParser, LlmStreamInterruptedError, parsePartialFacts } from "../src/llm/streaming.js";
+import type { LlmRuntimeConfig } from "../src/config/env.js";
+import { makeRuntime } from "./fixtures/runtime.js";
+
+const FACT_A = { jsonPath: "$.meta.title", proposedValue: "Streaming {card}", confidence: 0.9 };
+const FACT_B = { jsonPath: "$.meta.owners", proposedValue: ["a\"b", "c]d"], confidence: 0.8 };
+const FULL_CONTENT = JSON.stringify({ facts: [FACT_A, FACT_B] });
+
+type StubScenario = "openai" | "anthropic" | "broken";
+
+function chunk(text: string, size: number): string[] {
+  const parts: string[] = [];
+  for (let index = 0; index < text.length; index += size) {
+    parts.push(text.slice(index, index + size));
+  }
+  return parts;
+}
+
+function writeEvent(res: ServerResponse, data: unknown, event?: string): void {
+  const prefix = event ? `event: ${event}\n` : "";
+  res.write(`${prefix}data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`);
+}
+
+function runScenario(scenario: StubScenario, res: ServerResponse): void {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  const pieces = chunk(FULL_CONTENT, 7);
+
+  if (scenario === "anthropic") {
+    writeEvent(res, { type: "message_start", message: { usage: { input_tokens: 42 } } }, "message_start");
+    for (const text of pieces) {
+      writeEvent(res, { type: "content_block_delta", delta: { type: "text_delta", text } }, "content_block_delta");
+    }
+    writeEvent(res, { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 17 } }, "message_delta");
+    writeEvent(res, { type: "message_stop" }, "message_stop");
+    res.end();
+    return;
+  }
+
+  const sent = scenario === "broken" ? pieces.slice(0, Math.ceil(pieces.length * 0.75)) : pieces;
+  for (const text of sent) {
+    writeEvent(res, { choices: [{ delta: { content: text }, finish_reason: null }] });
+  }
+  if (scenario === "broken") {
+    // Let the partial body reach the client before cutting the connection.
+    setTimeout(() => res.destroy(), 50);
+    return;
+  }
+  writeEvent(res, { choices: [{ delta: {}, finish_reason: "stop" }] });
+  writeEvent(res, { choices: [], usage: { prompt_tokens: 11, completion_tokens: 22 } });
+  writeEvent(res, "[DONE]");
+  res.end();
+}
+
+describe("IncrementalFactParser", () => {
+  it("emits each fact as soon as its closing brace arrives", () => {
+    const parser = new IncrementalFactParser();
+    const emitted: unknown[] = [];
+    for (const piece of chunk(FULL_CONTENT, 3)) {
+      emitted.push(...parser.push(piece));
+    }
+    expect(emitted).toEqual([FACT_A, FACT_B]);
+  });
+
+  it("keeps complete facts and drops a half-written trailing fact", () => {
+    const truncated = FULL_CONTENT.slice(0, FULL_CONTENT.indexOf("c]d"));
+    expect(parsePartialFacts(`\`\`\`json\n${truncated}`)).toEqual([FACT_A]);
+  });
+
+  it("accepts a bare top-level array", () => {
+    expect(parsePartialFacts(JSON.stringify([FACT_B]))).toEqual([FACT_B]);
+  });
+});
+
+describe("invokeChatCompletion streaming", () => {
+  let server: Server;
+  let baseUrl = "";
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (data) => {
+        body += data;
+      });
+      req.on("end", () => {
+        const payload = JSON.parse(body);
+        expect(payload.stream).toBe(true);
+        runScenario(req.url?.slice(1) as StubScenario, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function runtimeFor(provider: string, scenario: StubScenario): LlmRuntimeConfig {
+    return makeRuntime({ streaming: true, baseUrl: `${baseUrl}/${scenario}`, provider });
+  }
+
+  const options = {
+    promptId: "extractor.v1",
+    temperature: 0,
+    topP: 1,
+    maxTokens: 1000,
+    messages: [{ role: "user" as const, content: "facts please" }],
+    jsonMode: true,
+    stream: true
+  };
+
+  it("assembles OpenAI-compatible deltas and usage", async () => {
+    const deltas: string[] = [];
+    const result = await invokeChatCompletion(runtimeFor("openai", "openai"), {
+      ...options,
+      onDelta: (delta) => deltas.push(delta)
+    });
+    expect(result.mode).toBe("network");
+    expect(result.content).toBe(FULL_CONTENT);
+    expect(deltas.join("")).toBe(FULL_CONTENT);
+    expect(result.promptTokens).toBe(11);
+    expect(result.completionTokens).toBe(22);
+  });
+
+  it("assembles Anthropic content_block_delta events", async () => {
+    const result = await invokeChatCompletion(runtimeFor("anthropic", "anthropic"), options);
+    expect(result.content).toBe(FULL_CONTENT);
+    expect(result.promptTokens).toBe(42);
+    expect(result.completionTokens).toBe(17);
+  });
+
+  it("surfaces partial content when the stream breaks", async () => {
+    const error = await invokeChatCompletion(runtimeFor("openai", "broken"), options).catch((err) => err);
+    expect(error).toBeInstanceOf(LlmStreamInterruptedError);
+    expect(error.requestDigest).toMatch(/^[0-9a-f]{64}$/);
+    expect(FULL_CONTENT.startsWith(error.partialContent)).toBe(true);
+    expect(parsePartialFacts(error.partialContent)).toEqual([FACT_A]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+
+import { FACT_SCHEMA } from "../src/llm/extractor.js";
+import { getProviderAdapter, isStrictCompatibleSchema, toGeminiSchema } from "../src/llm/providers.js";
+import { describeSchemaErrors, parseStructuredResponse } from "../src/llm/structured.js";
+
+const NOTE_SCHEMA = {
+  type: "object",
+  properties: {
+    note: {
+      anyOf: [
+        {
+          type: "object",
+          properties: { overview: { type: "string" }, confidence: { type: "number" } },
+          required: ["overview", "confidence"],
+          additionalProperties: false
+        },
+        { type: "null" }
+      ]
+    }
+  },
+  required: ["note"],
+  additionalProperties: false
+};
+
+const options = {
+  promptId: "notes.v1:dev",
+  temperature: 0,
+  topP: 1,
+  maxTokens: 100,
+  messages: [{ role: "user" as const, content: "note please" }],
+  jsonMode: true,
+  jsonSchema: NOTE_SCHEMA
+};
+
+describe("structured output", () => {
+  it("reports schema violations alongside the parsed value", () => {
+    const fenced = "```json\n{\"note\": {\"overview\": 3, \"tone\": \"dry\"}}\n```";
+    const { value, errors } = parseStructuredResponse(fenced, NOTE_SCHEMA);
+
+    expect(value).toEqual({ note: { overview: 3, tone: "dry" } });
+    expect(errors).toContain('/note has unexpected property "tone"');
+    expect(errors).toContain("/note/overview must be string");
+    expect(describeSchemaErrors(errors, "Note for dev")[0]).toMatch(/^Note for dev did not match the required JSON schema: /);
+
+    expect(parseStructuredResponse("{\"note\": null}", NOTE_SCHEMA).errors).toEqual([]);
+    expect(parseStructuredResponse("not json", NOTE_SCHEMA).value).toBeNull();
+  });
+
+  it("sends OpenAI a json_schema response format, strict only when the schema allows it", () => {
+    const payload = getProviderAdapter("openai").createPayload("gpt-4o", options) as any;
+    expect(payload.response_format).toMatchObject({ type: "json_schema", json_schema: { strict: true, schema: NOTE_SCHEMA } });
+
+    // Open proposedValue objects are not allowed in strict mode
+    expect(isStrictCompatibleSchema(NOTE_SCHEMA)).toBe(true);
+    expect(isStrictCompatibleSchema(FACT_SCHEMA)).toBe(false);
+  });
+
+  it("forces an Anthropic tool call and reads the answer from its input", () => {
+    const adapter = getProviderAdapter("anthropic");
+    const payload = adapter.createPayload("claude-sonnet-4", options) as any;
+    expect(payload.tools).toEqual([expect.objectContaining({ name: "respond", input_schema: NOTE_SCHEMA })]);
+    expect(payload.tool_choice).toEqual({ type: "tool", name: "respond" });
+
+    const response = {
+      content: [{ type: "tool_use", id: "toolu_1", name: "respond", input: { note: null } }]
+    };
+    expect(adapter.extractContent(response)).toBe("{\"note\":null}");
+    expect(adapter.extractToolCalls?.(response)).toEqual([]);
+  });
+
+  it("converts schemas to Gemini's responseSchema subset", () => {
+    const payload = getProviderAdapter("google").createPayload("gemini-2.0-flash", options) as any;
+    expect(payload.generationConfig.responseMimeType).toBe("application/json");
+    expect(payload.generationConfig.responseSchema.properties.note).toMatchObject({ type: "object", nullable: true });
+    expect(JSON.stringify(payload.generationConfig.responseSchema)).not.toContain("additionalProperties");
+
+    const fact = (toGeminiSchema(FACT_SCHEMA) as any).properties.facts.items.properties;
+    expect(fact.proposedValue.anyOf.map((branch: any) => branch.type)).toEqual(["string", "number", "boolean"]);
+    expect(fact.proposedValue.nullable).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { invokeWithTools } from "../src/llm/tool_loop.js";
+import type { LlmRuntimeConfig } from "../src/config/env.js";
+import { makeRuntime } from "./fixtures/runtime.js";
+
+const FINAL = JSON.stringify({ facts: [] });
+
+function toolCallResponse(round: number) {
+  return {
+    choices: [
+      {
+        message: {
+          content: null,
+          tool_calls: [
+            {
+              id: `call_${round}`,
+              type: "function",
+              function: {
+                name: "repoSearch",
+                arguments: JSON.stringify({ query: "resolveTwoHopNeighbors", includeGlobs: ["src/tools/*.ts"] })
+              }
+            }
+          ]
+        }
+      }
+    ],
+    usage: { prompt_tokens: 10, completion_tokens: 5 }
+  };
+}
+
+describe("invokeWithTools", () => {
+  let server: Server;
+  let baseUrl = "";
+  let payloads: any[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (data) => {
+        body += data;
+      });
+      req.on("end", () => {
+        const payload = JSON.parse(body);
+        payloads.push(payload);
+        // "/greedy" keeps asking for tools for as long as they are offered
+        const wantsTools = req.url === "/greedy" ? Boolean(payload.tools) : payloads.length === 1;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify(
+            wantsTools
+              ? toolCallResponse(payloads.length)
+              : { choices: [{ message: { content: FINAL } }], usage: { prompt_tokens: 20, completion_tokens: 7 } }
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    payloads = [];
+  });
+
+  function runtimeFor(path: string, maxCalls: number): LlmRuntimeConfig {
+    return makeRuntime({ tools: { enabled: true, maxCalls, maxTokens: 100000 }, baseUrl: `${baseUrl}${path}` });
+  }
+
+  const options = {
+    promptId: "extractor.v1",
+    temperature: 0,
+    topP: 1,
+    maxTokens: 1000,
+    messages: [{ role: "user" as const, content: "facts please" }],
+    jsonMode: true
+  };
+
+  it("runs requested tools, feeds results back and records traces", async () => {
+    const outcome = await invokeWithTools(runtimeFor("/once", 4), "extractor", options);
+
+    expect(outcome.result.content).toBe(FINAL);
+    expect(outcome.rounds).toBe(2);
+    expect(outcome.result.promptTokens).toBe(30);
+    expect(outcome.traces).toHaveLength(1);
+    expect(outcome.traces[0]).toMatchObject({ tool: "repoSearch", target: "resolveTwoHopNeighbors", requestedBy: "extractor", round: 1 });
+
+    expect(payloads[0].tools.map((tool: any) => tool.function.name)).toEqual(["repoSearch", "astSummary", "neighbors"]);
+    const [assistant, toolMessage] = payloads[1].messages.slice(-2);
+    expect(assistant.tool_calls[0].id).toBe("call_1");
+    expect(toolMessage).toMatchObject({ role: "tool", tool_call_id: "call_1" });
+    expect(JSON.parse(toolMessage.content).hits.some((hit: any) => hit.file === "src/tools/index.ts")).toBe(true);
+  });
+
+  it("forces an answer once the call budget is spent", async () => {
+    const outcome = await invokeWithTools(runtimeFor("/greedy", 2), "extractor", options);
+
+    expect(outcome.traces).toHaveLength(2);
+    expect(payloads.map((payload) => payload.tool_choice)).toEqual(["auto", "auto", undefined]);
+    expect(outcome.result.content).toBe(FINAL);
+
+    // The answer round declares no tools, so it may stream, and carries the tool results as text
+    const final = payloads[2];
+    expect(final.tools).toBeUndefined();
+    expect(final.messages.some((message: any) => message.role === "tool" || message.tool_calls)).toBe(false);
+    expect(final.messages.at(-1)).toMatchObject({ role: "user", content: expect.stringContaining("Result of tool call call_2") });
+  });
+});